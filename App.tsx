@@ -11,6 +11,9 @@ import { StatusBar, SafeAreaView, StyleSheet } from 'react-native';
 import { store } from './src/store';
 import AppNavigator from './src/navigation/AppNavigator';
 import { ThemeService, Theme } from './src/services/theme/ThemeService';
+import { CurrencyService } from './src/services/currency/CurrencyService';
+import { StorageService } from './src/services/storage/StorageService';
+import { setSettings } from './src/store/slices/settingsSlice';
 import { PermissionsService } from './src/services/permissions/PermissionsService';
 
 function App(): React.JSX.Element {
@@ -24,6 +27,10 @@ function App(): React.JSX.Element {
         
         // Initialize theme service
         await ThemeService.initialize();
+
+        // Load cached exchange rates and the saved display currency
+        await CurrencyService.initialize();
+        store.dispatch(setSettings(await StorageService.loadSettings()));
         
         // Request permissions on app startup
         console.log('📱 Requesting app permissions...');
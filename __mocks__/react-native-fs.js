@@ -1,6 +1,7 @@
 /**
  * Mock for react-native-fs
- * Provides mock implementations for file system operations needed by ImageService
+ * Provides mock implementations for file system operations needed by
+ * ImageService, CsvImportService, BackupService and ScanHistoryService
  */
 
 const RNFS = {
@@ -12,6 +13,11 @@ const RNFS = {
     path: '/mock/path/to/image.jpg',
   }),
   readFile: jest.fn().mockResolvedValue('mock-base64-data'),
+  writeFile: jest.fn().mockResolvedValue(undefined),
+  readDir: jest.fn().mockResolvedValue([]),
+  mkdir: jest.fn().mockResolvedValue(undefined),
+  copyFile: jest.fn().mockResolvedValue(undefined),
+  unlink: jest.fn().mockResolvedValue(undefined),
 
   // Mock directories
   DocumentDirectoryPath: '/mock/documents',
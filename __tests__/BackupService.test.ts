@@ -0,0 +1,187 @@
+/**
+ * =================================================================
+ * BACKUP SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies backup creation, integrity checking and the merge and
+ * replace restore modes
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import RNFS from 'react-native-fs';
+import { BackupService } from '../src/services/backup/BackupService';
+import { StorageService } from '../src/services/storage/StorageService';
+import { ThemeService } from '../src/services/theme/ThemeService';
+import { CollectionCard, GradingCosts, ScanHistoryEntry } from '../src/types';
+
+const gradingCosts: GradingCosts = { company: 'PSA', fee: 25, shipping: 10, currency: 'USD' };
+
+const makeCard = (cardNumber: string, copyIds: string[]): CollectionCard => ({
+  id: `ximilar_bs:${cardNumber}:standard`,
+  name: `Card ${cardNumber}`,
+  set: 'Base Set',
+  setCode: 'BS',
+  cardNumber,
+  rarity: 'Rare',
+  condition: 'Mint',
+  price: 10,
+  imageUrl: '',
+  description: '',
+  artist: 'Unknown',
+  year: 1999,
+  type: 'Pokemon',
+  quantity: copyIds.length,
+  dateAdded: '2024-01-01T00:00:00.000Z',
+  copies: copyIds.map(id => ({ id, condition: 'Mint', acquiredAt: '2024-01-01T00:00:00.000Z' })),
+});
+
+const makeScan = (id: string, scannedAt: string): ScanHistoryEntry => ({
+  id,
+  scannedAt,
+  imageUri: 'file:///scan.jpg',
+  card: makeCard('4', []),
+  confidence: 0.9,
+  addedToCollection: false,
+});
+
+describe('BackupService', () => {
+  let files: Record<string, string>;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    await AsyncStorage.clear();
+
+    files = {};
+    (RNFS.writeFile as jest.Mock).mockImplementation(async (path: string, contents: string) => {
+      files[path] = contents;
+    });
+    (RNFS.readFile as jest.Mock).mockImplementation(async (path: string) => files[path]);
+  });
+
+  const writeAndRead = async () => BackupService.readBackup(await BackupService.writeBackup());
+
+  it('should merge value snapshots, keeping current ones for the same day', async () => {
+    await StorageService.saveValueHistory([
+      { date: '2024-01-01', value: 100, cost: 0, copies: 1 },
+      { date: '2024-01-02', value: 110, cost: 0, copies: 1 },
+    ]);
+    const backup = await writeAndRead();
+    await StorageService.saveValueHistory([{ date: '2024-01-02', value: 200, cost: 0, copies: 2 }]);
+
+    await BackupService.restoreBackup(backup, 'merge');
+
+    expect(await StorageService.loadValueHistory()).toEqual([
+      { date: '2024-01-01', value: 100, cost: 0, copies: 1 },
+      { date: '2024-01-02', value: 200, cost: 0, copies: 2 },
+    ]);
+  });
+
+  it('should back up collection, settings, scan history and theme mode', async () => {
+    await StorageService.saveCollection([makeCard('4', ['copy_a'])]);
+    await StorageService.saveSettings({ darkMode: true, notifications: false, offlineMode: false, displayCurrency: 'USD', gradingCosts });
+    await StorageService.saveScanHistory([makeScan('scan_1', '2024-01-02T00:00:00.000Z')]);
+
+    const path = await BackupService.writeBackup();
+    const backup = await BackupService.readBackup(path);
+
+    expect(path).toMatch(/^\/mock\/documents\/tcg-backup-.*\.json$/);
+    expect(backup.format).toBe('tcg-scanner-backup');
+    expect(backup.payload.collection.data[0].copies[0].id).toBe('copy_a');
+    expect(backup.payload.settings.data.darkMode).toBe(true);
+    expect(backup.payload.scanHistory.data).toHaveLength(1);
+    expect(backup.payload.themeMode).toBe(ThemeService.getCurrentMode());
+  });
+
+  describe('validateBackup', () => {
+    it('should reject files that are not backups', () => {
+      expect(() => BackupService.validateBackup({ cards: [] })).toThrow('not a TCG Scanner backup');
+    });
+
+    it('should reject backups from a newer format version', async () => {
+      const backup = await BackupService.createBackup();
+      expect(() => BackupService.validateBackup({ ...backup, formatVersion: 99 }))
+        .toThrow('Backup format v99 is not supported');
+    });
+
+    it('should detect edited or corrupted payloads', async () => {
+      await StorageService.saveCollection([makeCard('4', ['copy_a'])]);
+      const backup = await BackupService.createBackup();
+      backup.payload.collection.data[0].price = 9999;
+
+      expect(() => BackupService.validateBackup(backup)).toThrow('checksum does not match');
+    });
+
+    it('should detect edits to text outside Latin-1', async () => {
+      await StorageService.saveCollection([{ ...makeCard('4', ['copy_a']), name: 'リザードン' }]);
+      const backup = await BackupService.createBackup();
+      expect(() => BackupService.validateBackup(backup)).not.toThrow();
+
+      backup.payload.collection.data[0].name = 'リザードンex';
+      expect(() => BackupService.validateBackup(backup)).toThrow('checksum does not match');
+    });
+
+    it('should reject invalid JSON files', async () => {
+      files['/mock/documents/broken.json'] = '{"format": "tcg-scanner-backup"';
+      await expect(BackupService.readBackup('/mock/documents/broken.json')).rejects.toThrow('not valid JSON');
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('should merge cards and copies without duplicating existing ones', async () => {
+      await StorageService.saveCollection([makeCard('4', ['copy_a', 'copy_b'])]);
+      await StorageService.saveScanHistory([makeScan('scan_1', '2024-01-01T00:00:00.000Z')]);
+      const backup = await writeAndRead();
+
+      await StorageService.saveCollection([makeCard('4', ['copy_a', 'copy_c']), makeCard('5', ['copy_d'])]);
+      await StorageService.saveScanHistory([makeScan('scan_2', '2024-01-02T00:00:00.000Z')]);
+
+      const summary = await BackupService.restoreBackup(backup, 'merge');
+      const collection = await StorageService.loadCollection();
+
+      expect(summary).toEqual({ mode: 'merge', cards: 2, copies: 4, scanHistory: 2, valueHistory: 0, submissions: 0 });
+      expect(collection[0].copies.map(copy => copy.id)).toEqual(['copy_a', 'copy_c', 'copy_b']);
+      expect((await StorageService.loadScanHistory()).map(entry => entry.id)).toEqual(['scan_2', 'scan_1']);
+    });
+
+    it('should keep current settings when merging', async () => {
+      await StorageService.saveSettings({ darkMode: true, notifications: true, offlineMode: false, displayCurrency: 'USD', gradingCosts });
+      const backup = await writeAndRead();
+      await StorageService.saveSettings({ darkMode: false, notifications: true, offlineMode: true, displayCurrency: 'USD', gradingCosts });
+
+      await BackupService.restoreBackup(backup, 'merge');
+
+      expect(await StorageService.loadSettings()).toEqual({ darkMode: false, notifications: true, offlineMode: true, displayCurrency: 'USD', gradingCosts });
+    });
+
+    it('should overwrite all data when replacing', async () => {
+      await StorageService.saveCollection([makeCard('4', ['copy_a'])]);
+      await StorageService.saveSettings({ darkMode: true, notifications: true, offlineMode: false, displayCurrency: 'USD', gradingCosts });
+      const backup = await writeAndRead();
+
+      await StorageService.saveCollection([makeCard('5', ['copy_b'])]);
+      await StorageService.saveSettings({ darkMode: false, notifications: false, offlineMode: true, displayCurrency: 'USD', gradingCosts });
+      const setThemeMode = jest.spyOn(ThemeService, 'setThemeMode').mockResolvedValue();
+
+      const summary = await BackupService.restoreBackup(backup, 'replace');
+
+      expect(summary).toEqual({ mode: 'replace', cards: 1, copies: 1, scanHistory: 0, valueHistory: 0, submissions: 0 });
+      expect((await StorageService.loadCollection())[0].id).toBe('ximilar_bs:4:standard');
+      expect((await StorageService.loadSettings()).darkMode).toBe(true);
+      expect(setThemeMode).toHaveBeenCalledWith(backup.payload.themeMode);
+    });
+
+    it('should migrate collections from older schema versions', async () => {
+      const backup = await BackupService.createBackup();
+      backup.payload.collection = {
+        version: 0,
+        data: [{ ...makeCard('4', []), price: '$12.50', copies: undefined } as any],
+      };
+
+      await BackupService.restoreBackup(backup, 'replace');
+      const [card] = await StorageService.loadCollection();
+
+      expect(card.price).toBe(12.5);
+      expect(card.copies).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * =================================================================
+ * CARD MAPPING SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies that cards are built from the identification match and
+ * that synthesized names are only used when no match exists
+ */
+
+import { CardMappingService } from '../src/services/api/CardMappingService';
+import { XimilarGradingResult } from '../src/types';
+
+const baseGradingResult: XimilarGradingResult = {
+  finalGrade: 9.5,
+  cornerGrade: 9,
+  edgeGrade: 9.5,
+  surfaceGrade: 10,
+  centeringGrade: 9,
+  confidence: 0.92,
+  category: 'Pokemon',
+  subcategory: 'Pokemon',
+  isDamaged: false,
+  hasAutograph: false,
+  isfront: true,
+};
+
+describe('CardMappingService', () => {
+  describe('toCard', () => {
+    it('should use identification match for card identity', () => {
+      const gradingResult: XimilarGradingResult = {
+        ...baseGradingResult,
+        identification: {
+          name: 'Charizard',
+          full_name: 'Charizard Base Set 4/102',
+          set: 'Base Set',
+          set_code: 'BS',
+          rarity: 'Rare Holo',
+          card_number: '4',
+          year: 1999,
+          type: 'Pokemon',
+        },
+      };
+
+      const card = CardMappingService.toCard(gradingResult, 'file:///card.jpg');
+
+      expect(card.name).toBe('Charizard');
+      expect(card.set).toBe('Base Set');
+      expect(card.rarity).toBe('Rare Holo');
+      expect(card.year).toBe(1999);
+      expect(card.setCode).toBe('BS');
+      expect(card.cardNumber).toBe('4');
+      expect(card.imageUrl).toBe('file:///card.jpg');
+      expect(card.apiData?.identified).toBe(true);
+    });
+
+    it('should keep grading as separate metadata', () => {
+      const card = CardMappingService.toCard(baseGradingResult, 'file:///card.jpg');
+
+      expect(card.condition).toBe('Mint');
+      expect(card.apiData?.grade).toBe(9.5);
+      expect(card.apiData?.subgrades).toEqual({
+        final: 9.5,
+        corners: 9,
+        edges: 9.5,
+        surface: 10,
+        centering: 9,
+      });
+    });
+
+    it('should store the raw condition analysis with the card', () => {
+      const conditionAnalysis = {
+        corners: [{ name: 'UPPER_LEFT' as const, bound_box: [0, 0, 10, 10] as [number, number, number, number], point: [0, 0] as [number, number], grade: 9 }],
+        edges: [],
+        analyzedAt: '2024-05-01T00:00:00.000Z',
+      };
+
+      const card = CardMappingService.toCard({ ...baseGradingResult, conditionAnalysis }, 'file:///card.jpg');
+
+      expect(card.apiData?.conditionAnalysis).toEqual(conditionAnalysis);
+    });
+
+    it('should fall back to a synthesized name when no match exists', () => {
+      const card = CardMappingService.toCard(baseGradingResult, 'file:///card.jpg');
+
+      expect(card.name).toBe('Premium Pokemon');
+      expect(card.rarity).toBe('Unknown');
+      expect(card.apiData?.identified).toBe(false);
+    });
+
+    it('should price the card from the match listings', () => {
+      const listing = {
+        item_id: '1',
+        item_link: 'https://www.ebay.com/itm/1',
+        name: 'Charizard',
+        currency: 'USD',
+        country_code: 'US',
+        source: 'ebay',
+        date_of_creation: '2024-01-01',
+      };
+      const gradingResult: XimilarGradingResult = {
+        ...baseGradingResult,
+        identification: {
+          name: 'Charizard',
+          pricing: { list: [{ ...listing, price: 300 }, { ...listing, price: 400 }] },
+        },
+      };
+
+      const card = CardMappingService.toCard(gradingResult, 'file:///card.jpg');
+
+      expect(card.price).toBe(350);
+      expect(card.marketPrice?.listingCount).toBe(2);
+    });
+
+    it('should leave the price at 0 without listings', () => {
+      const card = CardMappingService.toCard(baseGradingResult, 'file:///card.jpg');
+
+      expect(card.price).toBe(0);
+      expect(card.marketPrice).toBeUndefined();
+    });
+
+    it('should prefer an explicitly provided match', () => {
+      const gradingResult: XimilarGradingResult = {
+        ...baseGradingResult,
+        identification: { name: 'Charmander', set: 'Base Set' },
+      };
+
+      const card = CardMappingService.toCard(gradingResult, 'file:///card.jpg', {
+        name: 'Charmeleon',
+        set: 'Base Set',
+      });
+
+      expect(card.name).toBe('Charmeleon');
+    });
+  });
+
+  describe('toCardFromCandidate', () => {
+    it('should record the chosen candidate on apiData', () => {
+      const candidates = [
+        { match: { name: 'Charizard', set_code: 'BS', card_number: '4' }, rank: 0, distance: 0.1 },
+        { match: { name: 'Charizard', set_code: 'B2', card_number: '4' }, rank: 1, distance: 0.2 },
+      ];
+
+      const card = CardMappingService.toCardFromCandidate(
+        baseGradingResult,
+        'file:///card.jpg',
+        candidates,
+        1,
+        'user',
+      );
+
+      expect(card.setCode).toBe('B2');
+      expect(card.apiData?.matchSelection).toEqual(expect.objectContaining({
+        rank: 1,
+        candidateCount: 2,
+        distance: 0.2,
+        setCode: 'B2',
+        cardNumber: '4',
+        selectedBy: 'user',
+      }));
+    });
+  });
+
+  describe('mapIdentity', () => {
+    it('should use full name when short name is missing', () => {
+      const identity = CardMappingService.mapIdentity(
+        { full_name: 'Pikachu Jungle 60/64' },
+        baseGradingResult,
+      );
+
+      expect(identity.name).toBe('Pikachu Jungle 60/64');
+      expect(identity.set).toBe('Unknown Set');
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * =================================================================
+ * CENTERING SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies parsing of Ximilar centering ratios and the centering
+ * grade each company's thresholds would allow
+ */
+
+import { CenteringService } from '../src/services/grading/CenteringService';
+import { XimilarCenteringAnalysis } from '../src/types';
+
+const centering = (leftRight: string, topBottom: string): XimilarCenteringAnalysis => ({
+  'left/right': leftRight,
+  'top/bottom': topBottom,
+  bound_box: [0, 0, 700, 1000],
+  grade: 9,
+});
+
+const gradeFor = (company: string, leftRight: string, topBottom = '50/50') => {
+  const measurement = CenteringService.measure(centering(leftRight, topBottom))!;
+  return CenteringService.estimateGrades(measurement).find(estimate => estimate.company === company);
+};
+
+describe('CenteringService', () => {
+  describe('parseRatio', () => {
+    it('should parse ratios as reported by the API', () => {
+      expect(CenteringService.parseRatio('66/34')).toEqual({ first: 66, second: 34 });
+      expect(CenteringService.parseRatio(' 52.5 / 47.5 ')).toEqual({ first: 52.5, second: 47.5 });
+    });
+
+    it('should scale ratios that do not add up to 100', () => {
+      expect(CenteringService.parseRatio('2/1')).toEqual({ first: 66.7, second: 33.3 });
+      expect(CenteringService.parseRatio('100/0')).toEqual({ first: 100, second: 0 });
+    });
+
+    it('should reject malformed ratios', () => {
+      expect(CenteringService.parseRatio(undefined)).toBeUndefined();
+      expect(CenteringService.parseRatio(null)).toBeUndefined();
+      expect(CenteringService.parseRatio('')).toBeUndefined();
+      expect(CenteringService.parseRatio('66')).toBeUndefined();
+      expect(CenteringService.parseRatio('66/34/0')).toBeUndefined();
+      expect(CenteringService.parseRatio('-60/40')).toBeUndefined();
+      expect(CenteringService.parseRatio('abc/def')).toBeUndefined();
+      expect(CenteringService.parseRatio('0/0')).toBeUndefined();
+    });
+  });
+
+  describe('measure', () => {
+    it('should use the worse of both axes', () => {
+      expect(CenteringService.measure(centering('55/45', '38/62'))).toEqual({
+        leftRight: { first: 55, second: 45 },
+        topBottom: { first: 38, second: 62 },
+        worstShare: 62,
+      });
+    });
+
+    it('should work with a single parseable axis', () => {
+      const measurement = CenteringService.measure(centering('n/a', '58/42'));
+
+      expect(measurement?.leftRight).toBeUndefined();
+      expect(measurement?.worstShare).toBe(58);
+    });
+
+    it('should return undefined without centering data', () => {
+      expect(CenteringService.measure(undefined)).toBeUndefined();
+      expect(CenteringService.measure(centering('', 'bad'))).toBeUndefined();
+    });
+  });
+
+  describe('estimateGrades', () => {
+    it('should estimate one grade per company', () => {
+      const measurement = CenteringService.measure(centering('50/50', '50/50'))!;
+
+      expect(CenteringService.estimateGrades(measurement).map(estimate => estimate.company)).toEqual([
+        'PSA',
+        'BGS',
+        'CGC',
+        'SGC',
+      ]);
+      expect(gradeFor('BGS', '50/50')?.label).toBe('Pristine 10');
+      expect(gradeFor('PSA', '50/50')?.label).toBe('Gem Mint 10');
+    });
+
+    it('should include the threshold itself', () => {
+      expect(gradeFor('PSA', '55/45')?.grade).toBe(10);
+      expect(gradeFor('PSA', '55.1/44.9')?.grade).toBe(9);
+      expect(gradeFor('BGS', '45/55')?.grade).toBe(9.5);
+    });
+
+    it('should grade by the worse axis', () => {
+      expect(gradeFor('PSA', '50/50', '66/34')).toEqual({
+        company: 'PSA',
+        grade: 7,
+        label: 'NM 7',
+        maxShare: 70,
+      });
+    });
+
+    it('should fall back to the lowest grade for badly off-center cards', () => {
+      expect(gradeFor('PSA', '95/5')?.grade).toBe(1);
+      expect(gradeFor('CGC', '100/0')?.label).toBe('Poor 1');
+    });
+  });
+
+  it('should format ratios', () => {
+    expect(CenteringService.formatRatio({ first: 60, second: 40 })).toBe('60/40');
+  });
+});
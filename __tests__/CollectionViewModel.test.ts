@@ -0,0 +1,91 @@
+/**
+ * =================================================================
+ * COLLECTION VIEWMODEL TESTS
+ * =================================================================
+ *
+ * Verifies that each physical copy is valued by its own grade:
+ * slabbed copies at their company and grade, raw copies at the
+ * ungraded market price
+ */
+
+import { CollectionViewModel } from '../src/viewmodels/CollectionViewModel';
+import { PricingService } from '../src/services/pricing/PricingService';
+import { SettingsModel } from '../src/models';
+import { CardCopy, CollectionCard, XimilarPriceItem } from '../src/types';
+
+const listing = (price: number, extra: Partial<XimilarPriceItem> = {}): XimilarPriceItem => ({
+  item_id: `item_${price}`,
+  item_link: `https://www.ebay.com/itm/${price}`,
+  name: 'Charizard',
+  price,
+  currency: 'USD',
+  country_code: 'US',
+  source: 'ebay',
+  date_of_creation: '2024-01-01',
+  ...extra,
+});
+
+const copy = (id: string, details: Partial<CardCopy> = {}): CardCopy => ({
+  id,
+  condition: 'Near Mint',
+  acquiredAt: '2024-01-01T00:00:00.000Z',
+  ...details,
+});
+
+const makeCard = (copies: CardCopy[], listings: XimilarPriceItem[]): CollectionCard => ({
+  id: 'ximilar_BS:4',
+  name: 'Charizard',
+  set: 'Base Set',
+  rarity: 'Rare Holo',
+  condition: 'Near Mint',
+  price: 70,
+  currency: 'USD',
+  imageUrl: '',
+  description: '',
+  artist: 'Mitsuhiro Arita',
+  year: 1999,
+  type: 'Pokemon',
+  marketPrice: listings.length > 0 ? PricingService.aggregate(listings) : undefined,
+  quantity: copies.length,
+  dateAdded: '2024-01-01T00:00:00.000Z',
+  copies,
+});
+
+const createViewModel = (cards: CollectionCard[]) =>
+  new CollectionViewModel(jest.fn(), cards, false, [], 'USD', SettingsModel.DEFAULT_GRADING_COSTS);
+
+describe('CollectionViewModel copy values', () => {
+  const listings = [
+    listing(40),
+    listing(60),
+    listing(900, { grade_company: 'PSA', grade: '10' }),
+    listing(1100, { grade_company: 'PSA', grade: '10' }),
+  ];
+
+  it('should value copies at different grades separately', () => {
+    const gemMint = copy('slab', { grade: 10, gradingCompany: 'PSA' });
+    const raw = copy('raw', { grade: 4, condition: 'Damaged' });
+    const card = makeCard([gemMint, raw], listings);
+    const viewModel = createViewModel([card]);
+
+    expect(viewModel.getCopyValue(card, gemMint)).toBe(1000);
+    expect(viewModel.getCopyValue(card, raw)).toBe(50);
+    expect(viewModel.getTotalValueAmount()).toBe(1050);
+  });
+
+  it('should treat a scan grade without a grading company as raw', () => {
+    const scanned = copy('scanned', { grade: 10 });
+    const card = makeCard([scanned], listings);
+
+    expect(createViewModel([card]).getCopyValue(card, scanned)).toBe(50);
+  });
+
+  it('should fall back to the card price without matching listings', () => {
+    const psa9 = copy('slab', { grade: 9, gradingCompany: 'PSA' });
+    const unpriced = makeCard([copy('raw')], []);
+    const card = makeCard([psa9], listings);
+
+    expect(createViewModel([card]).getCopyValue(card, psa9)).toBe(70);
+    expect(createViewModel([unpriced]).getCopyValue(unpriced, unpriced.copies[0])).toBe(70);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * =================================================================
+ * CONDITION OVERLAY SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies that corner, edge and card outline measurements are
+ * scaled onto the displayed image and stay large enough to tap
+ */
+
+import { ConditionOverlayService } from '../src/services/grading/ConditionOverlayService';
+import { FakeGradingClient } from '../src/services/api/FakeGradingClient';
+import { XimilarApiService } from '../src/services/api/XimilarApiService';
+import { ConditionAnalysis } from '../src/types';
+
+const analysis: ConditionAnalysis = {
+  corners: [{ name: 'UPPER_LEFT', bound_box: [0, 0, 100, 100], point: [40, 60], grade: 7.5 }],
+  edges: [{ name: 'UPPER', polygon: [[100, 0], [900, 0], [900, 4], [100, 4]], grade: 9 }],
+  cardPolygon: [[10, 10], [990, 10], [990, 1390], [10, 1390]],
+  imageWidth: 1000,
+  imageHeight: 1400,
+  analyzedAt: '2024-05-01T00:00:00.000Z',
+};
+
+describe('ConditionOverlayService', () => {
+  it('should scale regions to the displayed width', () => {
+    const regions = ConditionOverlayService.buildRegions(analysis, 500);
+
+    expect(regions.map(region => region.id)).toEqual(['card', 'edge-UPPER', 'corner-UPPER_LEFT']);
+    expect(regions[0]).toEqual({
+      id: 'card',
+      kind: 'card',
+      label: 'Card',
+      left: 5,
+      top: 5,
+      width: 490,
+      height: 690,
+    });
+    expect(regions[2]).toEqual({
+      id: 'corner-UPPER_LEFT',
+      kind: 'corner',
+      label: 'Top left corner',
+      grade: 7.5,
+      left: 0,
+      top: 0,
+      width: 50,
+      height: 50,
+      point: { x: 20, y: 30 },
+    });
+  });
+
+  it('should grow thin edges around their center to the minimum size', () => {
+    const [, edge] = ConditionOverlayService.buildRegions(analysis, 500);
+
+    expect(edge.label).toBe('Top edge');
+    expect(edge.grade).toBe(9);
+    expect(edge.width).toBe(400);
+    expect(edge.height).toBe(ConditionOverlayService.MIN_REGION_SIZE);
+    expect(edge.top).toBe(1 - ConditionOverlayService.MIN_REGION_SIZE / 2);
+  });
+
+  it('should return no regions without an image size or layout', () => {
+    expect(ConditionOverlayService.buildRegions({ ...analysis, imageWidth: undefined }, 500)).toEqual([]);
+    expect(ConditionOverlayService.buildRegions(analysis, 0)).toEqual([]);
+  });
+
+  it('should report the aspect ratio of the analyzed image', () => {
+    expect(ConditionOverlayService.getAspectRatio(analysis)).toBeCloseTo(1000 / 1400);
+    expect(ConditionOverlayService.getAspectRatio({ ...analysis, imageHeight: undefined })).toBeUndefined();
+  });
+
+  it('should draw every corner and edge of a fake grading result', async () => {
+    const result = await new FakeGradingClient().gradeCard('https://example.com/card.jpg');
+    const regions = ConditionOverlayService.buildRegions(result.conditionAnalysis!, 350);
+
+    expect(regions.filter(region => region.kind === 'corner')).toHaveLength(4);
+    expect(regions.filter(region => region.kind === 'edge')).toHaveLength(4);
+    regions.forEach(region => {
+      expect(region.left + region.width).toBeLessThanOrEqual(350 + ConditionOverlayService.MIN_REGION_SIZE);
+      if (region.grade !== undefined) {
+        expect(XimilarApiService.interpretGrade(region.grade)).not.toBe('Not Graded');
+      }
+    });
+  });
+});
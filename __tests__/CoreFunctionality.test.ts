@@ -1,5 +1,6 @@
 // Basic functionality tests for TCG Card Scanner
 import { CardModel, CollectionModel } from '../src/models/Card';
+import collectionReducer, { addCard, addCopy, updateCopy, removeCopy } from '../src/store/slices/collectionSlice';
 
 describe('TCG Card Scanner Core Functionality', () => {
   describe('CardModel', () => {
@@ -16,6 +17,26 @@ describe('TCG Card Scanner Core Functionality', () => {
     });
   });
 
+  describe('getCardKey', () => {
+    it('should derive key from set code, card number and variant', () => {
+      const card = { ...CardModel.createMockCard(), setCode: 'BS', cardNumber: '004/102', variant: '1st Edition' };
+
+      expect(CardModel.getCardKey(card)).toBe('bs:4:1st-edition');
+    });
+
+    it('should default variant to standard', () => {
+      const card = { ...CardModel.createMockCard(), setCode: 'BS', cardNumber: '4' };
+
+      expect(CardModel.getCardKey(card)).toBe('bs:4:standard');
+    });
+
+    it('should fall back to id without set code or card number', () => {
+      const card = CardModel.createMockCard();
+
+      expect(CardModel.getCardKey(card)).toBe(card.id);
+    });
+  });
+
   describe('CollectionModel', () => {
     it('should add card to collection', () => {
       const collection = new CollectionModel();
@@ -50,5 +71,94 @@ describe('TCG Card Scanner Core Functionality', () => {
       expect(collection.getCardCount()).toBe(0);
       expect(collection.cards).toHaveLength(0);
     });
+
+    it('should merge scans of the same printing with different ids', () => {
+      const collection = new CollectionModel();
+      const firstScan = { ...CardModel.createMockCard(), id: 'ximilar_1', setCode: 'BS', cardNumber: '58' };
+      const secondScan = { ...firstScan, id: 'ximilar_2' };
+
+      collection.addCard(firstScan);
+      collection.addCard(secondScan);
+
+      expect(collection.cards).toHaveLength(1);
+      expect(collection.cards[0].quantity).toBe(2);
+    });
+
+    it('should merge duplicate entries keeping the earliest', () => {
+      const card = { ...CardModel.createMockCard(), setCode: 'BS', cardNumber: '58' };
+      const merged = CollectionModel.mergeDuplicates([
+        { ...card, id: 'ximilar_2', quantity: 2, dateAdded: '2024-02-01T00:00:00.000Z', copies: [] },
+        { ...card, id: 'ximilar_1', quantity: 1, dateAdded: '2024-01-01T00:00:00.000Z', copies: [] },
+        { ...CardModel.createMockCard(), id: 'other', quantity: 1, dateAdded: '2024-01-01T00:00:00.000Z', copies: [] },
+      ]);
+
+      expect(merged).toHaveLength(2);
+      expect(merged[0].id).toBe('ximilar_2');
+      expect(merged[0].quantity).toBe(3);
+      expect(merged[0].dateAdded).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should record each added copy separately', () => {
+      const collection = new CollectionModel();
+      const mockCard = CardModel.createMockCard();
+
+      collection.addCard(mockCard);
+      collection.addCard({ ...mockCard, condition: 'Played' });
+
+      expect(collection.cards[0].copies.map(copy => copy.condition)).toEqual(['Near Mint', 'Played']);
+    });
+  });
+
+  describe('collectionSlice', () => {
+    const card = { ...CardModel.createMockCard(), setCode: 'BS', cardNumber: '58' };
+
+    it('should increment quantity when the same printing is scanned twice', () => {
+      let state = collectionReducer(undefined, addCard(CollectionModel.toCollectionCard({ ...card, id: 'ximilar_1' })));
+      state = collectionReducer(state, addCard(CollectionModel.toCollectionCard({ ...card, id: 'ximilar_2' })));
+
+      expect(state.cards).toHaveLength(1);
+      expect(state.cards[0].quantity).toBe(2);
+      expect(state.cards[0].copies).toHaveLength(2);
+    });
+
+    it('should keep the analysis of each scan on its own copy', () => {
+      const scan = (id: string, final: number) => CollectionModel.toCollectionCard({
+        ...card,
+        id,
+        apiData: { subgrades: { final, corners: final, edges: final, surface: final, centering: final } },
+      });
+      let state = collectionReducer(undefined, addCard(scan('ximilar_1', 9)));
+      state = collectionReducer(state, addCard(scan('ximilar_2', 6)));
+
+      expect(state.cards[0].copies.map(copy => copy.subgrades?.final)).toEqual([9, 6]);
+    });
+
+    it('should update a single copy', () => {
+      const entry = CollectionModel.toCollectionCard(card);
+      let state = collectionReducer(undefined, addCard(entry));
+      state = collectionReducer(state, updateCopy({
+        cardId: entry.id,
+        copyId: entry.copies[0].id,
+        changes: { purchasePrice: 12, storageLocation: 'Binder 1' },
+      }));
+
+      expect(state.cards[0].copies[0]).toEqual(expect.objectContaining({
+        id: entry.copies[0].id,
+        purchasePrice: 12,
+        storageLocation: 'Binder 1',
+      }));
+    });
+
+    it('should remove the entry with its last copy', () => {
+      const entry = CollectionModel.toCollectionCard(card);
+      let state = collectionReducer(undefined, addCard(entry));
+      state = collectionReducer(state, addCopy({ cardId: entry.id, copy: CollectionModel.createCopy(card) }));
+      state = collectionReducer(state, removeCopy({ cardId: entry.id, copyId: entry.copies[0].id }));
+
+      expect(state.cards[0].quantity).toBe(1);
+
+      state = collectionReducer(state, removeCopy({ cardId: entry.id, copyId: state.cards[0].copies[0].id }));
+      expect(state.cards).toHaveLength(0);
+    });
   });
 });
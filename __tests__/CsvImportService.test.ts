@@ -0,0 +1,177 @@
+/**
+ * =================================================================
+ * CSV IMPORT TESTS
+ * =================================================================
+ *
+ * Verifies column mapping suggestions, row validation and merging
+ * imported rows with collectionSlice.addCard semantics
+ */
+
+import RNFS from 'react-native-fs';
+import { CsvImportService } from '../src/services/import/CsvImportService';
+import { CsvService } from '../src/services/export/CsvService';
+import collectionReducer, { addCard } from '../src/store/slices/collectionSlice';
+import { COLLECTION_CSV_COLUMNS } from '../src/viewmodels/CollectionViewModel';
+
+const trackerCsv = [
+  'Card Name,Set Name,Collector Number,Set Code,Qty,Condition,Price Paid,Notes',
+  'Charizard,Base Set,4/102,BS,2,Near Mint,$120.00,Binder 1',
+  'Charizard,Base Set,004/102,BS,1,Played,,',
+  ',Jungle,60/64,JU,1,Mint,,',
+  'Pikachu,Jungle,60/64,JU,zero,Mint,,',
+].join('\n');
+
+describe('CsvImportService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  describe('suggestMapping', () => {
+    it('should map common tracker headers to card fields', () => {
+      const { headers } = CsvImportService.parseCsv(trackerCsv);
+
+      expect(CsvImportService.suggestMapping(headers)).toEqual({
+        name: 0,
+        set: 1,
+        cardNumber: 2,
+        setCode: 3,
+        quantity: 4,
+        condition: 5,
+        purchasePrice: 6,
+        notes: 7,
+      });
+    });
+
+    it('should map per-copy fields of our own export without quantity', () => {
+      const mapping = CsvImportService.suggestMapping(COLLECTION_CSV_COLUMNS);
+
+      expect(mapping.condition).toBe(COLLECTION_CSV_COLUMNS.indexOf('copyCondition'));
+      expect(mapping.grade).toBe(COLLECTION_CSV_COLUMNS.indexOf('copyGrade'));
+      expect(mapping.dateAdded).toBe(COLLECTION_CSV_COLUMNS.indexOf('acquiredAt'));
+      expect(mapping.quantity).toBeUndefined();
+    });
+  });
+
+  describe('buildPreview', () => {
+    const file = CsvImportService.parseCsv(trackerCsv);
+    const preview = CsvImportService.buildPreview(file, CsvImportService.suggestMapping(file.headers));
+
+    it('should build collection entries for valid rows', () => {
+      const [row] = preview;
+
+      expect(row.rowNumber).toBe(2);
+      expect(row.errors).toEqual([]);
+      expect(row.card).toEqual(expect.objectContaining({
+        name: 'Charizard',
+        set: 'Base Set',
+        setCode: 'BS',
+        cardNumber: '4/102',
+        condition: 'Near Mint',
+        quantity: 2,
+      }));
+      expect(row.card!.copies).toHaveLength(2);
+      expect(row.card!.copies[0]).toEqual(expect.objectContaining({
+        condition: 'Near Mint',
+        purchasePrice: 120,
+        notes: 'Binder 1',
+      }));
+    });
+
+    it('should report validation errors per row', () => {
+      expect(preview[2]).toEqual({ rowNumber: 4, errors: ['Name is required'] });
+      expect(preview[3].card).toBeUndefined();
+      expect(preview[3].errors).toEqual(['Quantity "zero" is not a number']);
+    });
+
+    it('should reject out of range grades and invalid dates', () => {
+      const row = CsvImportService.buildPreviewRow(
+        ['Pikachu', '11', 'someday'],
+        2,
+        { name: 0, grade: 1, dateAdded: 2 },
+      );
+
+      expect(row.errors).toEqual([
+        'Grade 11 must be between 1 and 10',
+        'Date "someday" is not a valid date',
+      ]);
+    });
+
+    it('should read a single comma as the decimal separator', () => {
+      const row = CsvImportService.buildPreviewRow(['Pikachu', '12,50', '€ 3,5'], 2, { name: 0, price: 1, purchasePrice: 2 });
+
+      expect(row.errors).toEqual([]);
+      expect(row.card!.price).toBe(12.5);
+      expect(row.card!.copies[0].purchasePrice).toBe(3.5);
+    });
+
+    it('should reject numbers with ambiguous separators', () => {
+      const row = CsvImportService.buildPreviewRow(['Pikachu', '1,250.50', '1,000,000'], 2, { name: 0, price: 1, purchasePrice: 2 });
+
+      expect(row.card).toBeUndefined();
+      expect(row.errors).toEqual([
+        'Market price "1,250.50" is ambiguous - use a single dot or comma as the decimal separator',
+        'Purchase price "1,000,000" is ambiguous - use a single dot or comma as the decimal separator',
+      ]);
+    });
+
+    it('should read prices in the default currency unless the row has one', () => {
+      const mapping = { name: 0, price: 1, purchasePrice: 2, currency: 3 };
+      const [euro, local] = [
+        CsvImportService.buildPreviewRow(['Pikachu', '10', '5', ''], 2, mapping, 'EUR'),
+        CsvImportService.buildPreviewRow(['Pikachu', '10', '5', 'gbp'], 3, mapping, 'EUR'),
+      ];
+
+      expect(euro.card!.currency).toBe('EUR');
+      expect(euro.card!.copies[0].purchaseCurrency).toBe('EUR');
+      expect(local.card!.currency).toBe('GBP');
+      expect(local.card!.copies[0].purchaseCurrency).toBe('GBP');
+    });
+
+    it('should merge rows for the same printing with addCard semantics', () => {
+      const state = preview
+        .filter(row => row.card)
+        .reduce((current, row) => collectionReducer(current, addCard(row.card!)), collectionReducer(undefined, { type: 'init' }));
+
+      expect(state.cards).toHaveLength(1);
+      expect(state.cards[0].quantity).toBe(3);
+      expect(state.cards[0].copies.map(copy => copy.condition)).toEqual(['Near Mint', 'Near Mint', 'Played']);
+    });
+
+    it('should read back values exported with a formula prefix', () => {
+      const csv = CsvService.stringify(['name', 'notes'], [{ name: '=Charizard', notes: '@binder, -2 sleeves' }]);
+      const exported = CsvImportService.parseCsv(csv);
+
+      const [row] = CsvImportService.buildPreview(exported, CsvImportService.suggestMapping(exported.headers));
+
+      expect(row.card!.name).toBe('=Charizard');
+      expect(row.card!.copies[0].notes).toBe('@binder, -2 sleeves');
+    });
+  });
+
+  describe('file access', () => {
+    it('should list CSV files in the documents directory', async () => {
+      (RNFS.readDir as jest.Mock).mockResolvedValueOnce([
+        { name: 'b.csv', path: '/mock/documents/b.csv', size: 10, isFile: () => true },
+        { name: 'photo.jpg', path: '/mock/documents/photo.jpg', size: 10, isFile: () => true },
+        { name: 'a.CSV', path: '/mock/documents/a.CSV', size: 10, isFile: () => true },
+        { name: 'exports.csv', path: '/mock/documents/exports.csv', size: 0, isFile: () => false },
+      ]);
+
+      const files = await CsvImportService.listCsvFiles();
+
+      expect(RNFS.readDir).toHaveBeenCalledWith('/mock/documents');
+      expect(files.map(item => item.name)).toEqual(['a.CSV', 'b.csv']);
+    });
+
+    it('should read and parse a CSV file', async () => {
+      (RNFS.readFile as jest.Mock).mockResolvedValueOnce(trackerCsv);
+
+      const file = await CsvImportService.readCsvFile('/mock/documents/tracker.csv');
+
+      expect(RNFS.readFile).toHaveBeenCalledWith('/mock/documents/tracker.csv', 'utf8');
+      expect(file.path).toBe('/mock/documents/tracker.csv');
+      expect(file.headers[0]).toBe('Card Name');
+      expect(file.rows).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * =================================================================
+ * CSV EXPORT TESTS
+ * =================================================================
+ *
+ * Verifies CSV escaping and parsing and the collection export
+ * produced by CollectionViewModel
+ */
+
+import { CsvService } from '../src/services/export/CsvService';
+import {
+  COLLECTION_CSV_COLUMNS,
+  CollectionViewModel,
+} from '../src/viewmodels/CollectionViewModel';
+import { CollectionCard } from '../src/types';
+
+const collectionCard: CollectionCard = {
+  id: 'ximilar_bs:4:standard',
+  name: 'Charizard',
+  set: 'Base Set',
+  setCode: 'BS',
+  cardNumber: '4',
+  rarity: 'Rare Holo',
+  condition: 'Mint',
+  price: 350,
+  imageUrl: 'file:///charizard.jpg',
+  description: 'Final grade: 9/10.',
+  artist: 'Mitsuhiro Arita',
+  year: 1999,
+  type: 'Pokemon',
+  quantity: 2,
+  dateAdded: '2024-01-01T00:00:00.000Z',
+  apiData: {
+    grade: 9,
+    gradingService: 'Ximilar',
+    identified: true,
+    subgrades: { final: 9, corners: 8.5, edges: 9, surface: 9.5, centering: 9 },
+  },
+  copies: [
+    {
+      id: 'copy_1',
+      condition: 'Mint',
+      grade: 9,
+      acquiredAt: '2024-01-01T00:00:00.000Z',
+      subgrades: { final: 9, corners: 8.5, edges: 9, surface: 9.5, centering: 9 },
+    },
+    { id: 'copy_2', condition: 'Played', purchasePrice: 120, acquiredAt: '2024-02-01T00:00:00.000Z', notes: 'Binder 2' },
+  ],
+};
+
+describe('CsvService', () => {
+  describe('escapeField', () => {
+    it('should leave plain values unquoted', () => {
+      expect(CsvService.escapeField('Charizard')).toBe('Charizard');
+      expect(CsvService.escapeField(9.5)).toBe('9.5');
+      expect(CsvService.escapeField(true)).toBe('true');
+    });
+
+    it('should write missing values as empty fields', () => {
+      expect(CsvService.escapeField(undefined)).toBe('');
+      expect(CsvService.escapeField(null)).toBe('');
+    });
+
+    it('should quote fields with commas, quotes or line breaks', () => {
+      expect(CsvService.escapeField('Base Set, 1st Edition')).toBe('"Base Set, 1st Edition"');
+      expect(CsvService.escapeField('"Shadowless"')).toBe('"""Shadowless"""');
+      expect(CsvService.escapeField('line one\nline two')).toBe('"line one\nline two"');
+    });
+
+    it('should prefix text that spreadsheets would run as a formula', () => {
+      expect(CsvService.escapeField('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+      expect(CsvService.escapeField('+1 sleeve')).toBe("'+1 sleeve");
+      expect(CsvService.escapeField('-')).toBe("'-");
+      expect(CsvService.escapeField('@binder')).toBe("'@binder");
+      expect(CsvService.escapeField('\t=1+1')).toBe("'\t=1+1");
+      expect(CsvService.escapeField('\r=1+1')).toBe('"\'\r=1+1"');
+      expect(CsvService.escapeField(-5)).toBe('-5');
+    });
+  });
+
+  describe('unguardFormula', () => {
+    it('should remove only the prefix added on export', () => {
+      expect(CsvService.unguardFormula("'=SUM(A1:A2)")).toBe('=SUM(A1:A2)');
+      expect(CsvService.unguardFormula("'\t=SUM(A1:A2)")).toBe('\t=SUM(A1:A2)');
+      expect(CsvService.unguardFormula("'Shadowless")).toBe("'Shadowless");
+      expect(CsvService.unguardFormula('Charizard')).toBe('Charizard');
+    });
+  });
+
+  describe('stringify', () => {
+    it('should write a header line and one line per row', () => {
+      const csv = CsvService.stringify(['name', 'price'], [
+        { name: 'Charizard', price: 350 },
+        { name: 'Pikachu' },
+      ]);
+
+      expect(csv).toBe('name,price\r\nCharizard,350\r\nPikachu,');
+    });
+  });
+
+  describe('parse', () => {
+    it('should split rows and fields', () => {
+      expect(CsvService.parse('name,price\r\nCharizard,350\nPikachu,')).toEqual([
+        ['name', 'price'],
+        ['Charizard', '350'],
+        ['Pikachu', ''],
+      ]);
+    });
+
+    it('should unquote fields with commas, quotes and line breaks', () => {
+      expect(CsvService.parse('"Base Set, 1st Edition","""Shadowless""","line one\nline two"')).toEqual([
+        ['Base Set, 1st Edition', '"Shadowless"', 'line one\nline two'],
+      ]);
+    });
+
+    it('should ignore a byte order mark and blank lines', () => {
+      expect(CsvService.parse('\uFEFFname\n\nCharizard\n\n')).toEqual([['name'], ['Charizard']]);
+    });
+
+    it('should round-trip stringified output', () => {
+      const rows = [{ name: 'Charizard, "Holo"', notes: 'a\nb' }];
+      const csv = CsvService.stringify(['name', 'notes'], rows);
+      expect(CsvService.parse(csv)).toEqual([['name', 'notes'], ['Charizard, "Holo"', 'a\nb']]);
+    });
+
+    it('should reject unterminated quoted fields', () => {
+      expect(() => CsvService.parse('name\n"Charizard')).toThrow('Unterminated quoted field');
+    });
+  });
+});
+
+describe('CollectionViewModel.exportCollectionCsv', () => {
+  const exportRows = (cards: CollectionCard[]) => {
+    const viewModel = new CollectionViewModel(jest.fn(), cards, false);
+    const [header, ...rows] = viewModel.exportCollectionCsv().split('\r\n');
+    return { header, rows };
+  };
+
+  it('should write one row per copy with the card fields repeated', () => {
+    const { header, rows } = exportRows([collectionCard]);
+
+    expect(header).toBe(COLLECTION_CSV_COLUMNS.join(','));
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toContain('copy_1');
+    expect(rows[1]).toContain('copy_2');
+    expect(rows[1]).toContain('Binder 2');
+  });
+
+  it('should include grading subgrades and apiData', () => {
+    const { rows } = exportRows([collectionCard]);
+    const fields = rows[0].split(',');
+    const column = (name: string) => fields[COLLECTION_CSV_COLUMNS.indexOf(name)];
+
+    expect(column('subgradeCorners')).toBe('8.5');
+    expect(column('subgradeSurface')).toBe('9.5');
+    expect(column('gradingService')).toBe('Ximilar');
+    expect(column('identified')).toBe('true');
+  });
+
+  it('should export an empty collection as a header only', () => {
+    const { rows } = exportRows([]);
+    expect(rows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * =================================================================
+ * CURRENCY SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies conversion with built-in, cached and overridden rates,
+ * amount formatting and refreshing rates from the remote source
+ */
+
+import axios from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CurrencyService,
+  EXCHANGE_RATES_STORAGE_KEY,
+} from '../src/services/currency/CurrencyService';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe('CurrencyService', () => {
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    await AsyncStorage.clear();
+    CurrencyService.reset();
+  });
+
+  describe('convert', () => {
+    it('should convert through USD using built-in rates', () => {
+      expect(CurrencyService.convert(100, 'USD', 'EUR')).toBeCloseTo(92);
+      expect(CurrencyService.convert(92, 'eur', 'USD')).toBeCloseTo(100);
+      expect(CurrencyService.convert(150, 'JPY', 'EUR')).toBeCloseTo(0.92);
+    });
+
+    it('should treat a missing source currency as USD', () => {
+      expect(CurrencyService.convert(10, undefined, 'GBP')).toBeCloseTo(7.9);
+    });
+
+    it('should return undefined for unknown currencies', () => {
+      expect(CurrencyService.convert(10, 'XYZ', 'USD')).toBeUndefined();
+      expect(CurrencyService.convert(10, 'XYZ', 'XYZ')).toBe(10);
+    });
+  });
+
+  describe('setOverride', () => {
+    it('should prefer overrides and persist them', async () => {
+      await CurrencyService.setOverride('EUR', 0.5);
+
+      expect(CurrencyService.convert(10, 'USD', 'EUR')).toBe(5);
+      const stored = JSON.parse((await AsyncStorage.getItem(EXCHANGE_RATES_STORAGE_KEY))!);
+      expect(stored.overrides).toEqual({ EUR: 0.5 });
+    });
+
+    it('should remove an override when no rate is given', async () => {
+      await CurrencyService.setOverride('EUR', 0.5);
+      await CurrencyService.setOverride('EUR');
+
+      expect(CurrencyService.getRate('EUR')).toBe(0.92);
+    });
+
+    it('should reject rates that are not positive', async () => {
+      await expect(CurrencyService.setOverride('EUR', 0)).rejects.toThrow('Exchange rate must be greater than 0');
+      await expect(CurrencyService.setOverride('EUR', NaN)).rejects.toThrow('Exchange rate must be greater than 0');
+    });
+  });
+
+  describe('format', () => {
+    it('should use currency symbols and decimals', () => {
+      expect(CurrencyService.format(1234.5, 'USD')).toBe('$1,234.50');
+      expect(CurrencyService.format(1500.4, 'JPY')).toBe('¥1,500');
+      expect(CurrencyService.format(-3, 'EUR')).toBe('-€3.00');
+    });
+
+    it('should append the code for currencies without a symbol', () => {
+      expect(CurrencyService.format(99, 'CZK')).toBe('99.00 CZK');
+      expect(CurrencyService.format(5, 'XYZ')).toBe('5.00 XYZ');
+    });
+  });
+
+  describe('refreshRates', () => {
+    it('should cache remote rates and keep overrides', async () => {
+      await CurrencyService.setOverride('GBP', 0.5);
+      mockedAxios.get.mockResolvedValueOnce({ data: { rates: { USD: 1, EUR: 0.9, BRL: 5 } } });
+
+      expect(await CurrencyService.refreshRates()).toBe(true);
+
+      const table = CurrencyService.getRates();
+      expect(table.source).toBe('remote');
+      expect(CurrencyService.getRate('BRL')).toBe(5);
+      expect(CurrencyService.getRate('EUR')).toBe(0.9);
+      expect(CurrencyService.getRate('GBP')).toBe(0.5);
+    });
+
+    it('should keep the current table when the request fails', async () => {
+      mockedAxios.get.mockRejectedValueOnce(new Error('Network Error'));
+
+      expect(await CurrencyService.refreshRates()).toBe(false);
+      expect(CurrencyService.getRates().source).toBe('builtin');
+    });
+  });
+
+  describe('initialize', () => {
+    it('should load cached rates and notify listeners', async () => {
+      await AsyncStorage.setItem(EXCHANGE_RATES_STORAGE_KEY, JSON.stringify({
+        base: 'USD',
+        rates: { USD: 1, EUR: 0.95 },
+        overrides: { CZK: 25 },
+        source: 'remote',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      }));
+      const listener = jest.fn();
+      const unsubscribe = CurrencyService.addRatesListener(listener);
+
+      await CurrencyService.initialize();
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(CurrencyService.getRate('EUR')).toBe(0.95);
+      expect(CurrencyService.getRate('CZK')).toBe(25);
+      expect(CurrencyService.getRate('JPY')).toBe(150);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * =================================================================
+ * GRADING CLIENT TESTS
+ * =================================================================
+ *
+ * Verifies client selection by configuration and the deterministic
+ * results of the fake grading client, including end to end scans
+ * through CameraService
+ */
+
+import Config from 'react-native-config';
+import { GradingClientService } from '../src/services/api/GradingClientService';
+import { FakeGradingClient } from '../src/services/api/FakeGradingClient';
+import { XimilarGradingClient } from '../src/services/api/XimilarApiService';
+import { CameraService } from '../src/services/camera/CameraService';
+
+describe('GradingClientService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    GradingClientService.setClient(undefined);
+  });
+
+  afterEach(() => {
+    delete (Config as any).GRADING_CLIENT;
+    GradingClientService.setClient(undefined);
+  });
+
+  it('should use the Ximilar client by default', () => {
+    expect(GradingClientService.getClient()).toBeInstanceOf(XimilarGradingClient);
+  });
+
+  it('should use the fake client when configured', () => {
+    (Config as any).GRADING_CLIENT = 'fake';
+
+    expect(GradingClientService.getClient()).toBeInstanceOf(FakeGradingClient);
+  });
+
+  it('should keep a client set explicitly', () => {
+    const client = new FakeGradingClient();
+    GradingClientService.setClient(client);
+
+    expect(GradingClientService.getClient()).toBe(client);
+  });
+});
+
+describe('FakeGradingClient', () => {
+  const client = new FakeGradingClient();
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    GradingClientService.setClient(client);
+  });
+
+  afterAll(() => {
+    GradingClientService.setClient(undefined);
+  });
+
+  it('should return the same result for the same image', async () => {
+    const first = await client.gradeCard('file:///tmp/card_1.jpg');
+    const second = await client.gradeCard('file:///tmp/card_1.jpg');
+
+    expect(first).toEqual(second);
+    expect(first.cardName).toBeDefined();
+    expect(first.finalGrade).toBeGreaterThanOrEqual(1);
+    expect(first.finalGrade).toBeLessThanOrEqual(10);
+    expect(first.confidence).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('should fail images without a card', async () => {
+    await expect(client.gradeCard('file:///tmp/no-card.jpg')).rejects.toThrow('No grading data found');
+  });
+
+  it('should validate batches like the real client', async () => {
+    await expect(client.gradeBatchCards([])).rejects.toThrow('No images provided for batch processing');
+    await expect(client.gradeBatchCards(Array(11).fill('file:///tmp/card.jpg')))
+      .rejects.toThrow('Batch size too large. Maximum 10 images per batch.');
+  });
+
+  it('should scan single cards through CameraService', async () => {
+    const result = await CameraService.recognizeCard('file:///tmp/card_2.jpg');
+    const expected = await client.gradeCard('file:///tmp/card_2.jpg');
+
+    expect(result.card.name).toBe(expected.cardName);
+    expect(result.gradingResult?.finalGrade).toBe(expected.finalGrade);
+  });
+
+  it('should report per-image errors in batch scans', async () => {
+    const results = await CameraService.recognizeCards(['file:///tmp/card_3.jpg', 'file:///tmp/no-card.jpg']);
+
+    expect(results[0].card).toBeDefined();
+    expect(results[1]).toEqual({ error: 'No card detected in image' });
+  });
+});
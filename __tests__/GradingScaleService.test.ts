@@ -0,0 +1,118 @@
+/**
+ * =================================================================
+ * GRADING SCALE SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies the shared condition scale and the PSA, BGS and CGC
+ * grade predictions built from Ximilar subgrades
+ */
+
+import { GradingScaleService } from '../src/services/grading/GradingScaleService';
+import { CardModel } from '../src/models';
+import { CardSubgrades, XimilarCenteringAnalysis } from '../src/types';
+
+const centering = (leftRight: string, topBottom: string): XimilarCenteringAnalysis => ({
+  'left/right': leftRight,
+  'top/bottom': topBottom,
+  bound_box: [0, 0, 700, 1000],
+  grade: 9,
+});
+
+const subgrades = (final: number, corners: number, edges: number, surface: number, centeringGrade: number): CardSubgrades => ({
+  final,
+  corners,
+  edges,
+  surface,
+  centering: centeringGrade,
+});
+
+describe('GradingScaleService', () => {
+  describe('getConditionLabel', () => {
+    it('should map grades to the stored condition scale', () => {
+      expect(GradingScaleService.getConditionLabel(10)).toBe('Gem Mint');
+      expect(GradingScaleService.getConditionLabel(9.5)).toBe('Mint');
+      expect(GradingScaleService.getConditionLabel(8)).toBe('Near Mint/Mint');
+      expect(GradingScaleService.getConditionLabel(7.5)).toBe('Near Mint');
+      expect(GradingScaleService.getConditionLabel(2)).toBe('Poor');
+      expect(GradingScaleService.getConditionLabel(1)).toBe('Damaged');
+    });
+
+    it('should clamp grades outside 0-10', () => {
+      expect(GradingScaleService.getConditionLabel(12)).toBe('Gem Mint');
+      expect(GradingScaleService.getConditionLabel(-3)).toBe('Damaged');
+    });
+
+    it('should be used by the card model', () => {
+      const card = CardModel.fromXimilarResponse({ _grade: 7 }, 'file:///card.jpg');
+
+      expect(card.condition).toBe('Near Mint');
+    });
+  });
+
+  describe('predictGrades', () => {
+    it('should predict a grade per company for a well-centered card', () => {
+      const predictions = GradingScaleService.predictGrades(
+        subgrades(9.5, 9.5, 9.5, 10, 9.5),
+        centering('52/48', '54/46'),
+      );
+
+      expect(predictions).toEqual([
+        { company: 'PSA', grade: 9, label: 'Mint 9', low: 8, high: 10 },
+        {
+          company: 'BGS',
+          grade: 9.5,
+          label: 'Gem Mint 9.5',
+          low: 9,
+          high: 10,
+          subgrades: { final: 9.5, corners: 9.5, edges: 9.5, surface: 10, centering: 9.5 },
+        },
+        { company: 'CGC', grade: 9.5, label: 'Mint+ 9.5', low: 9, high: 10 },
+      ]);
+    });
+
+    it('should give the top labels to flawless cards', () => {
+      const [psa, bgs, cgc] = GradingScaleService.predictGrades(
+        subgrades(10, 10, 10, 10, 10),
+        centering('50/50', '50/50'),
+      );
+
+      expect(psa.label).toBe('Gem Mint 10');
+      expect(bgs.label).toBe('Black Label Pristine 10');
+      expect(cgc.label).toBe('Pristine 10');
+    });
+
+    it('should let the weakest attribute cap the grade and widen the range', () => {
+      const [psa, bgs, cgc] = GradingScaleService.predictGrades(subgrades(8, 9, 6.5, 9, 8.5));
+
+      expect(psa).toEqual({ company: 'PSA', grade: 7, label: 'NM 7', low: 5, high: 9 });
+      expect(bgs.grade).toBe(7.5);
+      expect(bgs.subgrades?.edges).toBe(6.5);
+      expect(bgs.low).toBe(6);
+      expect(cgc.label).toBe('NM+ 7.5');
+    });
+
+    it('should apply each company\'s centering limits', () => {
+      const [psa, bgs, cgc] = GradingScaleService.predictGrades(
+        subgrades(9, 9, 9, 9, 9),
+        centering('70/30', '50/50'),
+      );
+
+      expect(psa).toEqual({ company: 'PSA', grade: 7, label: 'NM 7', low: 6, high: 7 });
+      expect(bgs.subgrades?.centering).toBe(8);
+      expect(bgs.grade).toBe(9);
+      expect(bgs.high).toBe(9);
+      expect(cgc.grade).toBe(7);
+    });
+
+    it('should return no predictions without a final grade', () => {
+      expect(GradingScaleService.predictGrades(subgrades(0, 0, 0, 0, 0))).toEqual([]);
+    });
+  });
+
+  it('should label grades on each company scale', () => {
+    expect(GradingScaleService.getCompanyLabel('PSA', 8)).toBe('NM-MT 8');
+    expect(GradingScaleService.getCompanyLabel('BGS', 8.5)).toBe('NM-MT+ 8.5');
+    expect(GradingScaleService.getCompanyLabel('CGC', 9.5)).toBe('Mint+ 9.5');
+    expect(GradingScaleService.getCompanyLabel('PSA', 8.5)).toBe('8.5');
+  });
+});
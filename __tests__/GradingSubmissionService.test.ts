@@ -0,0 +1,151 @@
+/**
+ * =================================================================
+ * GRADING SUBMISSION SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies the raw vs. graded value comparison behind "should I
+ * send this card for grading?" and the collection candidate list
+ */
+
+import { GradingSubmissionService } from '../src/services/grading/GradingSubmissionService';
+import { PricingService } from '../src/services/pricing/PricingService';
+import { CurrencyService } from '../src/services/currency/CurrencyService';
+import { CardSubgrades, CollectionCard, GradingCosts, XimilarPriceItem } from '../src/types';
+
+const listing = (price: number, extra: Partial<XimilarPriceItem> = {}): XimilarPriceItem => ({
+  item_id: `item_${price}`,
+  item_link: `https://www.ebay.com/itm/${price}`,
+  name: 'Charizard',
+  price,
+  currency: 'USD',
+  country_code: 'US',
+  source: 'ebay',
+  date_of_creation: '2024-01-01',
+  ...extra,
+});
+
+const psa = (price: number, grade: string) => listing(price, { grade_company: 'PSA', grade });
+
+const costs: GradingCosts = { company: 'PSA', fee: 25, shipping: 10, currency: 'USD' };
+
+// Predicts PSA 9, with a range of 8 to 10
+const subgrades: CardSubgrades = { final: 9.5, corners: 9.5, edges: 9.5, surface: 10, centering: 9.5 };
+
+const makeCard = (id: string, listings: XimilarPriceItem[], cardSubgrades: CardSubgrades | null = subgrades): CollectionCard => ({
+  id,
+  name: id,
+  set: 'Base Set',
+  rarity: 'Rare Holo',
+  condition: 'Mint',
+  price: 50,
+  imageUrl: '',
+  description: '',
+  artist: 'Mitsuhiro Arita',
+  year: 1999,
+  type: 'Pokemon',
+  marketPrice: PricingService.aggregate(listings),
+  apiData: cardSubgrades ? {
+    grade: cardSubgrades.final,
+    subgrades: cardSubgrades,
+    conditionAnalysis: {
+      corners: [],
+      edges: [],
+      centering: { 'left/right': '52/48', 'top/bottom': '54/46', bound_box: [0, 0, 700, 1000], grade: 9.5 },
+      analyzedAt: '2024-05-01T00:00:00.000Z',
+    },
+  } : undefined,
+  quantity: 1,
+  dateAdded: '2024-01-01T00:00:00.000Z',
+  copies: [],
+});
+
+const charizard = makeCard('Charizard', [listing(40), listing(60), psa(150, '9'), psa(170, '9'), psa(80, '8')]);
+
+describe('GradingSubmissionService', () => {
+  describe('estimate', () => {
+    it('should compare the graded value at the predicted grade with raw value and costs', () => {
+      const estimate = GradingSubmissionService.estimate(charizard, costs);
+
+      expect(estimate).toEqual({
+        prediction: expect.objectContaining({ company: 'PSA', grade: 9, low: 8 }),
+        currency: 'USD',
+        rawValue: 50,
+        cost: 35,
+        gradedValue: 160,
+        gradedLowValue: 80,
+        netGain: 75,
+        worstCaseGain: -5,
+        gradedListingCount: 2,
+        worthSubmitting: true,
+      });
+    });
+
+    it('should not flag cards whose graded premium does not cover the costs', () => {
+      const card = makeCard('Pikachu', [listing(10), psa(40, '9')]);
+
+      const estimate = GradingSubmissionService.estimate(card, { ...costs, fee: 20 });
+
+      expect(estimate?.netGain).toBe(0);
+      expect(estimate?.worthSubmitting).toBe(false);
+    });
+
+    it('should use the grading company from the costs', () => {
+      const card = makeCard('Blastoise', [listing(30), psa(200, '9'), listing(120, { grade_company: 'bgs', grade: '9.5' })]);
+
+      const estimate = GradingSubmissionService.estimate(card, { ...costs, company: 'BGS' });
+
+      expect(estimate?.prediction.grade).toBe(9.5);
+      expect(estimate?.gradedValue).toBe(120);
+      expect(estimate?.netGain).toBe(55);
+    });
+
+    it('should convert costs to the listing currency', () => {
+      const estimate = GradingSubmissionService.estimate(charizard, { ...costs, currency: 'EUR' });
+
+      expect(estimate?.cost).toBeCloseTo(CurrencyService.convert(35, 'EUR', 'USD')!);
+    });
+
+    it('should explain missing estimates', () => {
+      const noGradedSales = GradingSubmissionService.estimate(makeCard('Mewtwo', [listing(30), psa(90, '10')]), costs);
+      const unknownCurrency = GradingSubmissionService.estimate(charizard, { ...costs, currency: 'XYZ' });
+
+      expect(noGradedSales?.reason).toBe('No Mint 9 listings for PSA');
+      expect(noGradedSales?.worthSubmitting).toBe(false);
+      expect(unknownCurrency?.reason).toBe('No exchange rate from XYZ to USD');
+      expect(unknownCurrency?.worthSubmitting).toBe(false);
+    });
+
+    it('should skip cards without scan grades or market prices', () => {
+      expect(GradingSubmissionService.estimate(makeCard('Manual', [listing(30)], null), costs)).toBeUndefined();
+      expect(GradingSubmissionService.estimate(makeCard('Unpriced', []), costs)).toBeUndefined();
+    });
+
+    it('should skip cards whose copies are all professionally graded', () => {
+      const slab = { id: 'slab', condition: 'Mint', grade: 9, gradingCompany: 'PSA', acquiredAt: '2024-01-01T00:00:00.000Z' };
+      const scanned = { id: 'raw', condition: 'Mint', grade: 9, acquiredAt: '2024-01-01T00:00:00.000Z' };
+
+      expect(GradingSubmissionService.estimate({ ...charizard, copies: [slab] }, costs)).toBeUndefined();
+      expect(GradingSubmissionService.findCandidates([{ ...charizard, copies: [slab] }], costs)).toEqual([]);
+      expect(GradingSubmissionService.estimate({ ...charizard, copies: [slab, scanned] }, costs)?.worthSubmitting).toBe(true);
+    });
+  });
+
+  describe('findCandidates', () => {
+    it('should list only profitable cards, most profitable first', () => {
+      const venusaur = makeCard('Venusaur', [listing(20), psa(300, '9')]);
+      const pikachu = makeCard('Pikachu', [listing(10), psa(40, '9')]);
+
+      const candidates = GradingSubmissionService.findCandidates([charizard, pikachu, venusaur], costs);
+
+      expect(candidates.map(({ card }) => card.name)).toEqual(['Venusaur', 'Charizard']);
+      expect(candidates[0].estimate.netGain).toBe(245);
+    });
+  });
+
+  it('should match listing grades numerically', () => {
+    const marketPrice = PricingService.aggregate([listing(10), psa(99, '9.0')])!;
+
+    expect(GradingSubmissionService.getGradedPrice(marketPrice, 'PSA', 9)?.median).toBe(99);
+    expect(GradingSubmissionService.getGradedPrice(marketPrice, 'BGS', 9)).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * =================================================================
+ * HTTP CLIENT TESTS
+ * =================================================================
+ *
+ * Verifies retries with backoff, Retry-After handling, idempotency
+ * rules and attempt counts, using a mocked axios adapter
+ */
+
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { HttpClient, HttpRequestError } from '../src/services/network/HttpClient';
+
+type MockReply = { status: number; data?: any; headers?: Record<string, string> } | { code: string };
+
+/**
+ * Adapter replying with the given responses in order, then repeating the last one
+ */
+const createAdapter = (...replies: MockReply[]) =>
+  jest.fn(async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const call = createAdapter.calls++;
+    const reply = replies[Math.min(call, replies.length - 1)];
+
+    if ('code' in reply) {
+      throw new AxiosError(reply.code === 'ECONNABORTED' ? 'timeout exceeded' : 'Network Error', reply.code, config);
+    }
+
+    const response = {
+      data: reply.data ?? {},
+      status: reply.status,
+      statusText: String(reply.status),
+      headers: reply.headers ?? {},
+      config,
+    };
+    if (reply.status >= 400) {
+      throw new AxiosError(`Request failed with status code ${reply.status}`, 'ERR_BAD_RESPONSE', config, {}, response);
+    }
+    return response;
+  });
+createAdapter.calls = 0;
+
+describe('HttpClient', () => {
+  let sleep: jest.SpyInstance;
+
+  beforeEach(() => {
+    createAdapter.calls = 0;
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    sleep = jest.spyOn(HttpClient, 'sleep').mockResolvedValue(undefined);
+  });
+
+  it('should return the response with a single attempt', async () => {
+    const adapter = createAdapter({ status: 200, data: { ok: true } });
+
+    const response = await HttpClient.get('https://api.test/status', { adapter });
+
+    expect(response.data).toEqual({ ok: true });
+    expect(response.attempts).toBe(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should retry server errors on idempotent requests with growing delays', async () => {
+    const adapter = createAdapter({ status: 502 }, { status: 500 }, { status: 200 });
+
+    const response = await HttpClient.post('https://api.test/grade', {}, { adapter }, { idempotent: true });
+
+    expect(response.attempts).toBe(3);
+    expect(adapter).toHaveBeenCalledTimes(3);
+    const [[firstDelay], [secondDelay]] = sleep.mock.calls;
+    expect(firstDelay).toBeGreaterThanOrEqual(500);
+    expect(firstDelay).toBeLessThanOrEqual(1000);
+    expect(secondDelay).toBeGreaterThanOrEqual(1000);
+    expect(secondDelay).toBeLessThanOrEqual(2000);
+  });
+
+  it('should add jitter between half and all of the backoff', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(HttpClient.getBackoffDelay(1)).toBe(500);
+    expect(HttpClient.getBackoffDelay(3)).toBe(2000);
+    expect(HttpClient.getBackoffDelay(10)).toBe(4000);
+
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    expect(HttpClient.getBackoffDelay(2, { baseDelay: 100 })).toBe(150);
+  });
+
+  it('should not retry server errors or timeouts on other POST requests', async () => {
+    const adapter = createAdapter({ code: 'ECONNABORTED' });
+
+    const error = await HttpClient.post('https://api.test/upload', {}, { adapter }).catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpRequestError);
+    expect(error.isTimeout).toBe(true);
+    expect(error.attempts).toBe(1);
+    expect(adapter).toHaveBeenCalledTimes(1);
+  });
+
+  it('should always retry rate limits, waiting as long as Retry-After asks', async () => {
+    const adapter = createAdapter({ status: 429, headers: { 'retry-after': '3' } }, { status: 201 });
+
+    const response = await HttpClient.post('https://api.test/upload', {}, { adapter });
+
+    expect(response.attempts).toBe(2);
+    expect(sleep).toHaveBeenCalledWith(3000);
+  });
+
+  it('should accept Retry-After as an HTTP date', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Mon, 19 Oct 2026 10:00:00 GMT'));
+
+    expect(HttpClient.parseRetryAfter('Mon, 19 Oct 2026 10:00:05 GMT')).toBe(5000);
+    expect(HttpClient.parseRetryAfter('Mon, 19 Oct 2026 09:00:00 GMT')).toBe(0);
+    expect(HttpClient.parseRetryAfter('soon')).toBeUndefined();
+    expect(HttpClient.parseRetryAfter(undefined)).toBeUndefined();
+  });
+
+  it('should give up when Retry-After is longer than the limit', async () => {
+    const adapter = createAdapter({ status: 429, headers: { 'retry-after': '600' } });
+
+    const error = await HttpClient.get('https://api.test/status', { adapter }).catch(e => e);
+
+    expect(error.status).toBe(429);
+    expect(error.retryAfter).toBe(600000);
+    expect(error.attempts).toBe(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should report every attempt when retries run out', async () => {
+    const onRetry = jest.fn();
+    const adapter = createAdapter({ code: 'ERR_NETWORK' });
+
+    const error = await HttpClient.get('https://api.test/status', { adapter }, { maxAttempts: 4, onRetry })
+      .catch(e => e);
+
+    expect(error.isNetworkError).toBe(true);
+    expect(error.attempts).toBe(4);
+    expect(adapter).toHaveBeenCalledTimes(4);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+  });
+
+  it('should not retry client errors', async () => {
+    const adapter = createAdapter({ status: 400, data: { error: 'bad image' } });
+
+    const error = await HttpClient.get('https://api.test/status', { adapter }).catch(e => e);
+
+    expect(error.status).toBe(400);
+    expect(error.data).toEqual({ error: 'bad image' });
+    expect(error.attempts).toBe(1);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * =================================================================
+ * OFFLINE QUEUE SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies queueing scans with a kept copy of the image, grading
+ * them into the scan history and handling connectivity and grading
+ * failures
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import RNFS from 'react-native-fs';
+import { OfflineQueueService } from '../src/services/offline/OfflineQueueService';
+import { GradingClientService } from '../src/services/api/GradingClientService';
+import { CameraService } from '../src/services/camera/CameraService';
+import { ConnectivityService } from '../src/services/network/ConnectivityService';
+import { HttpRequestError } from '../src/services/network/HttpClient';
+import { StorageService } from '../src/services/storage/StorageService';
+import { Card, XimilarGradingResult } from '../src/types';
+
+const card: Card = {
+  id: 'ximilar_BS:4',
+  name: 'Charizard',
+  set: 'Base Set',
+  rarity: 'Rare Holo',
+  condition: 'Mint',
+  price: 350,
+  imageUrl: 'file:///tmp/picker/charizard.jpg',
+  description: '',
+  artist: 'Unknown',
+  year: 1999,
+  type: 'Pokemon',
+};
+
+const gradingResult = { finalGrade: 9, confidence: 0.92 } as XimilarGradingResult;
+
+describe('OfflineQueueService', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    await AsyncStorage.clear();
+    ConnectivityService.setOnline(true);
+
+    jest.spyOn(CameraService, 'toScanResult').mockReturnValue({ card, confidence: 0.92, gradingResult });
+  });
+
+  describe('enqueue', () => {
+    it('should queue the scan last with a copy of the image', async () => {
+      await OfflineQueueService.enqueue('file:///tmp/picker/first.jpg');
+      const queue = await OfflineQueueService.enqueue('file:///tmp/picker/charizard.jpg');
+      const scan = queue[1];
+
+      expect(RNFS.copyFile).toHaveBeenCalledWith(
+        '/tmp/picker/charizard.jpg',
+        `/mock/documents/queue/${scan.id}.jpg`,
+      );
+      expect(scan).toEqual(expect.objectContaining({
+        imageUri: `file:///mock/documents/queue/${scan.id}.jpg`,
+        status: 'queued',
+        attempts: 0,
+      }));
+      expect(await StorageService.loadOfflineQueue()).toEqual(queue);
+    });
+  });
+
+  describe('load', () => {
+    it('should queue scans left processing by an interrupted run again', async () => {
+      const [scan] = await OfflineQueueService.enqueue('file:///tmp/picker/charizard.jpg');
+      await StorageService.saveOfflineQueue([{ ...scan, status: 'processing', attempts: 1 }]);
+
+      const [loaded] = await OfflineQueueService.load();
+
+      expect(loaded.status).toBe('queued');
+    });
+  });
+
+  describe('process', () => {
+    it('should grade queued scans into the history and remove them', async () => {
+      jest.spyOn(GradingClientService.getClient(), 'gradeCard').mockResolvedValue(gradingResult);
+      await OfflineQueueService.enqueue('file:///tmp/picker/first.jpg');
+      const [scan] = await OfflineQueueService.enqueue('file:///tmp/picker/second.jpg');
+      const onGraded = jest.fn();
+      const onQueueChange = jest.fn();
+
+      const graded = await OfflineQueueService.process({ onGraded, onQueueChange });
+
+      expect(graded).toBe(2);
+      expect(GradingClientService.getClient().gradeCard).toHaveBeenCalledWith(scan.imageUri);
+      expect(RNFS.unlink).toHaveBeenCalledWith(scan.imageUri.replace('file://', ''));
+      expect(await OfflineQueueService.load()).toEqual([]);
+      expect(await StorageService.loadScanHistory()).toHaveLength(2);
+      expect(onGraded).toHaveBeenCalledTimes(2);
+      expect(onQueueChange).toHaveBeenLastCalledWith([]);
+    });
+
+    it('should keep scans queued and stop when the network is unavailable', async () => {
+      const gradeCard = jest.spyOn(GradingClientService.getClient(), 'gradeCard')
+        .mockRejectedValue(new HttpRequestError('Network Error', 3));
+      await OfflineQueueService.enqueue('file:///tmp/picker/first.jpg');
+      await OfflineQueueService.enqueue('file:///tmp/picker/second.jpg');
+
+      const graded = await OfflineQueueService.process();
+
+      expect(graded).toBe(0);
+      expect(gradeCard).toHaveBeenCalledTimes(1);
+      expect(ConnectivityService.isOnline()).toBe(false);
+
+      const [first, second] = await OfflineQueueService.load();
+      expect(first).toEqual(expect.objectContaining({ status: 'queued', attempts: 1 }));
+      expect(second).toEqual(expect.objectContaining({ status: 'queued', attempts: 0 }));
+    });
+
+    it('should keep a scan queued when the request times out', async () => {
+      jest.spyOn(GradingClientService.getClient(), 'gradeCard')
+        .mockRejectedValue(new HttpRequestError('timeout of 30000ms exceeded', 3, { code: 'ECONNABORTED' }));
+      await OfflineQueueService.enqueue('file:///tmp/picker/charizard.jpg');
+
+      await OfflineQueueService.process();
+
+      const [scan] = await OfflineQueueService.load();
+      expect(scan).toEqual(expect.objectContaining({ status: 'queued', lastError: 'timeout of 30000ms exceeded' }));
+      expect(ConnectivityService.isOnline()).toBe(false);
+    });
+
+    it('should keep and grade scans enqueued while processing', async () => {
+      const gradeCard = jest.spyOn(GradingClientService.getClient(), 'gradeCard')
+        .mockImplementationOnce(async () => {
+          await OfflineQueueService.enqueue('file:///tmp/picker/second.jpg');
+          return gradingResult;
+        })
+        .mockResolvedValueOnce(gradingResult);
+      await OfflineQueueService.enqueue('file:///tmp/picker/first.jpg');
+
+      const graded = await OfflineQueueService.process();
+
+      expect(graded).toBe(2);
+      expect(gradeCard).toHaveBeenCalledTimes(2);
+      expect(await OfflineQueueService.load()).toEqual([]);
+    });
+
+    it('should mark scans failed on other errors and carry on', async () => {
+      jest.spyOn(GradingClientService.getClient(), 'gradeCard')
+        .mockRejectedValueOnce(new Error('No card detected in image'))
+        .mockResolvedValueOnce(gradingResult);
+      await OfflineQueueService.enqueue('file:///tmp/picker/first.jpg');
+      await OfflineQueueService.enqueue('file:///tmp/picker/second.jpg');
+
+      const graded = await OfflineQueueService.process();
+
+      expect(graded).toBe(1);
+      const queue = await OfflineQueueService.load();
+      expect(queue).toHaveLength(1);
+      expect(queue[0]).toEqual(expect.objectContaining({
+        status: 'failed',
+        attempts: 1,
+        lastError: 'No card detected in image',
+      }));
+    });
+  });
+
+  describe('retry and discard', () => {
+    it('should queue a failed scan again', async () => {
+      jest.spyOn(GradingClientService.getClient(), 'gradeCard').mockRejectedValue(new Error('No card detected in image'));
+      const [scan] = await OfflineQueueService.enqueue('file:///tmp/picker/charizard.jpg');
+      await OfflineQueueService.process();
+
+      const [retried] = await OfflineQueueService.retry(scan.id);
+
+      expect(retried.status).toBe('queued');
+      expect(retried.lastError).toBeUndefined();
+      expect(retried.attempts).toBe(1);
+    });
+
+    it('should remove a scan and its image', async () => {
+      const [scan] = await OfflineQueueService.enqueue('file:///tmp/picker/charizard.jpg');
+
+      const queue = await OfflineQueueService.discard(scan.id);
+
+      expect(queue).toEqual([]);
+      expect(RNFS.unlink).toHaveBeenCalledWith(scan.imageUri.replace('file://', ''));
+      expect(await StorageService.loadOfflineQueue()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * =================================================================
+ * PRICE HISTORY SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies per-card price time series, gain/loss since acquisition
+ * and daily collection value snapshots
+ */
+
+import { PriceHistoryService } from '../src/services/pricing/PriceHistoryService';
+import collectionReducer, { addCard } from '../src/store/slices/collectionSlice';
+import { CollectionModel } from '../src/models';
+import { CardMarketPrice, CollectionCard } from '../src/types';
+
+const card: CollectionCard = {
+  id: 'ximilar_bs:4:standard',
+  name: 'Charizard',
+  set: 'Base Set',
+  setCode: 'BS',
+  cardNumber: '4',
+  rarity: 'Rare Holo',
+  condition: 'Mint',
+  price: 150,
+  imageUrl: '',
+  description: '',
+  artist: 'Mitsuhiro Arita',
+  year: 1999,
+  type: 'Pokemon',
+  quantity: 2,
+  dateAdded: '2024-01-01T10:00:00.000Z',
+  copies: [
+    { id: 'copy_1', condition: 'Mint', acquiredAt: '2024-01-01T10:00:00.000Z' },
+    { id: 'copy_2', condition: 'Mint', acquiredAt: '2024-03-01T10:00:00.000Z' },
+  ],
+  priceHistory: [
+    { date: '2024-01-01T10:00:00.000Z', price: 100 },
+    { date: '2024-02-15T10:00:00.000Z', price: 120 },
+    { date: '2024-04-01T10:00:00.000Z', price: 150 },
+  ],
+};
+
+describe('PriceHistoryService', () => {
+  describe('appendPrice', () => {
+    it('should append a refreshed price', () => {
+      const history = PriceHistoryService.appendPrice(card.priceHistory, 160, '2024-05-01T10:00:00.000Z');
+      expect(history).toHaveLength(4);
+      expect(history[3]).toEqual({ date: '2024-05-01T10:00:00.000Z', price: 160 });
+    });
+
+    it('should skip a repeat of the latest price on the same day', () => {
+      const history = PriceHistoryService.appendPrice(card.priceHistory, 150, '2024-04-01T18:00:00.000Z');
+      expect(history).toBe(card.priceHistory);
+    });
+
+    it('should ignore missing prices', () => {
+      expect(PriceHistoryService.appendPrice([], 0, '2024-04-01T18:00:00.000Z')).toEqual([]);
+    });
+  });
+
+  describe('getPriceAt', () => {
+    it('should return the latest price at or before the date', () => {
+      expect(PriceHistoryService.getPriceAt(card.priceHistory, '2024-03-01T10:00:00.000Z')).toBe(120);
+    });
+
+    it('should fall back to the oldest price for earlier dates', () => {
+      expect(PriceHistoryService.getPriceAt(card.priceHistory, '2023-06-01T00:00:00.000Z')).toBe(100);
+    });
+
+    it('should return undefined without history', () => {
+      expect(PriceHistoryService.getPriceAt([], '2024-01-01T00:00:00.000Z')).toBeUndefined();
+    });
+  });
+
+  describe('getCardChange', () => {
+    it('should compare each copy with the price when it was acquired', () => {
+      expect(PriceHistoryService.getCopyChange(card, card.copies[1])).toEqual({
+        basis: 120,
+        current: 150,
+        change: 30,
+        changePercent: 25,
+      });
+    });
+
+    it('should combine the changes of all copies', () => {
+      expect(PriceHistoryService.getCardChange(card)).toEqual({
+        basis: 220,
+        current: 300,
+        change: 80,
+        changePercent: 36.4,
+      });
+    });
+
+    it('should return undefined without price history', () => {
+      expect(PriceHistoryService.getCardChange({ ...card, priceHistory: [] })).toBeUndefined();
+    });
+  });
+
+  describe('recordSnapshot', () => {
+    const snapshots = [
+      { date: '2024-01-01', value: 100, cost: 80, copies: 1 },
+      { date: '2024-01-02', value: 120, cost: 80, copies: 1 },
+    ];
+
+    it('should replace the snapshot for the same day', () => {
+      const updated = PriceHistoryService.recordSnapshot(snapshots, { date: '2024-01-02', value: 300, cost: 80, copies: 2 });
+      expect(updated).toEqual([snapshots[0], { date: '2024-01-02', value: 300, cost: 80, copies: 2 }]);
+    });
+
+    it('should append a snapshot for a new day', () => {
+      const updated = PriceHistoryService.recordSnapshot(snapshots, { date: '2024-01-03', value: 130, cost: 80, copies: 1 });
+      expect(updated.map(snapshot => snapshot.date)).toEqual(['2024-01-01', '2024-01-02', '2024-01-03']);
+    });
+
+    it('should return the same array when nothing changed', () => {
+      expect(PriceHistoryService.recordSnapshot(snapshots, { ...snapshots[1] })).toBe(snapshots);
+    });
+  });
+
+  describe('collection price refreshes', () => {
+    it('should start the price history when a card is added', () => {
+      const entry = CollectionModel.toCollectionCard({ ...card, priceHistory: undefined } as any);
+      expect(entry.priceHistory).toEqual([{ date: entry.dateAdded, price: 150 }]);
+    });
+
+    it('should record a price point when a rescan refreshes the market price', () => {
+      const marketPrice = { estimate: 175, updatedAt: '2024-05-01T10:00:00.000Z' } as CardMarketPrice;
+      const initial = collectionReducer(undefined, addCard(card));
+
+      const state = collectionReducer(initial, addCard({
+        ...CollectionModel.toCollectionCard({ ...card, price: 175, marketPrice }),
+      }));
+
+      expect(state.cards[0].price).toBe(175);
+      expect(state.cards[0].priceHistory?.[3]).toEqual({ date: '2024-05-01T10:00:00.000Z', price: 175 });
+    });
+  });
+});
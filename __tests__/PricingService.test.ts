@@ -0,0 +1,111 @@
+/**
+ * =================================================================
+ * PRICING SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies aggregation of Ximilar pricing listings into market
+ * estimates and the headline price used for cards
+ */
+
+import { PricingService } from '../src/services/pricing/PricingService';
+import { XimilarPriceItem } from '../src/types';
+
+const listing = (price: number, extra: Partial<XimilarPriceItem> = {}): XimilarPriceItem => ({
+  item_id: `item_${price}`,
+  item_link: 'https://www.ebay.com/itm/1',
+  name: 'Charizard Base Set',
+  price,
+  currency: 'USD',
+  country_code: 'US',
+  source: 'ebay',
+  date_of_creation: '2024-01-01',
+  ...extra,
+});
+
+describe('PricingService', () => {
+  describe('calculateStats', () => {
+    it('should use the middle value for odd counts', () => {
+      expect(PricingService.calculateStats([30, 10, 20])).toEqual({ count: 3, median: 20, low: 10, high: 30 });
+    });
+
+    it('should average the middle values for even counts', () => {
+      expect(PricingService.calculateStats([10, 40, 20, 30])?.median).toBe(25);
+    });
+
+    it('should return undefined for no prices', () => {
+      expect(PricingService.calculateStats([])).toBeUndefined();
+    });
+  });
+
+  describe('aggregate', () => {
+    const listings = [
+      listing(100, { date_of_sale: '2024-02-01' }),
+      listing(120, { date_of_sale: '2024-02-03' }),
+      listing(150),
+      listing(900, { grade_company: 'psa', grade: '9', date_of_sale: '2024-02-02' }),
+      listing(2500, { grade_company: 'PSA', grade: '10' }),
+      listing(2700, { grade_company: 'PSA', grade: '10' }),
+      listing(800, { grade_company: 'BGS', grade: '9.5' }),
+    ];
+
+    it('should split sold vs listed and raw vs graded', () => {
+      const marketPrice = PricingService.aggregate(listings)!;
+
+      expect(marketPrice.listingCount).toBe(7);
+      expect(marketPrice.currency).toBe('USD');
+      expect(marketPrice.sold).toEqual({ count: 3, median: 120, low: 100, high: 900 });
+      expect(marketPrice.listed?.count).toBe(4);
+      expect(marketPrice.raw).toEqual({ count: 3, median: 120, low: 100, high: 150 });
+      expect(marketPrice.graded?.count).toBe(4);
+      expect(marketPrice.overall).toEqual({ count: 7, median: 800, low: 100, high: 2700 });
+    });
+
+    it('should break graded listings down by company and grade', () => {
+      const { byGrade } = PricingService.aggregate(listings)!;
+
+      expect(byGrade.map(group => `${group.company} ${group.grade}`)).toEqual(['BGS 9.5', 'PSA 10', 'PSA 9']);
+      expect(byGrade[1]).toEqual({ company: 'PSA', grade: '10', count: 2, median: 2600, low: 2500, high: 2700 });
+    });
+
+    it('should estimate from raw sold prices first', () => {
+      expect(PricingService.aggregate(listings)!.estimate).toBe(110);
+    });
+
+    it('should fall back to graded prices when there are no raw listings', () => {
+      const marketPrice = PricingService.aggregate([
+        listing(900, { grade_company: 'PSA', grade: '9' }),
+        listing(1100, { grade_company: 'PSA', grade: '9' }),
+      ]);
+
+      expect(marketPrice?.estimate).toBe(1000);
+    });
+
+    it('should convert listings to the dominant currency', () => {
+      const marketPrice = PricingService.aggregate([
+        listing(100),
+        listing(110, { currency: 'usd' }),
+        listing(92, { currency: 'EUR' }),
+      ])!;
+
+      expect(marketPrice.currency).toBe('USD');
+      expect(marketPrice.listingCount).toBe(3);
+      expect(marketPrice.overall.low).toBeCloseTo(100);
+    });
+
+    it('should drop listings in currencies without a known rate', () => {
+      const marketPrice = PricingService.aggregate([listing(100), listing(5, { currency: 'XYZ' })])!;
+      expect(marketPrice.listingCount).toBe(1);
+    });
+
+    it('should ignore listings without a usable price', () => {
+      expect(PricingService.aggregate([listing(0), listing(NaN)])).toBeUndefined();
+      expect(PricingService.aggregate(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('getEstimatedPrice', () => {
+    it('should return 0 when there is no market data', () => {
+      expect(PricingService.getEstimatedPrice(undefined)).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * =================================================================
+ * SCAN HISTORY SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies recording scans with a kept copy of the image, updating
+ * and deleting entries and trimming the history to its size limit,
+ * and that cards added from the history keep their own image until
+ * the card is removed
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import RNFS from 'react-native-fs';
+import { ScanHistoryService } from '../src/services/history/ScanHistoryService';
+import { StorageService } from '../src/services/storage/StorageService';
+import { ScanHistoryViewModel } from '../src/viewmodels/ScanHistoryViewModel';
+import { CollectionViewModel } from '../src/viewmodels/CollectionViewModel';
+import { Card } from '../src/types';
+
+const card: Card = {
+  id: 'ximilar_BS:4',
+  name: 'Charizard',
+  set: 'Base Set',
+  rarity: 'Rare Holo',
+  condition: 'Mint',
+  price: 350,
+  imageUrl: 'file:///tmp/picker/charizard.jpg',
+  description: '',
+  artist: 'Unknown',
+  year: 1999,
+  type: 'Pokemon',
+};
+
+const result = { card, confidence: 0.92 };
+
+describe('ScanHistoryService', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+  });
+
+  describe('record', () => {
+    it('should save the scan first with a copy of the image', async () => {
+      const [entry] = await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+
+      expect(RNFS.copyFile).toHaveBeenCalledWith(
+        '/tmp/picker/charizard.jpg',
+        `/mock/documents/scans/${entry.id}.jpg`,
+      );
+      expect(entry).toEqual(expect.objectContaining({
+        imageUri: `file:///mock/documents/scans/${entry.id}.jpg`,
+        card,
+        confidence: 0.92,
+        addedToCollection: false,
+      }));
+      expect(await StorageService.loadScanHistory()).toEqual([entry]);
+    });
+
+    it('should keep the original image when copying fails', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      (RNFS.copyFile as jest.Mock).mockRejectedValueOnce(new Error('No space left'));
+
+      const [entry] = await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+
+      expect(entry.imageUri).toBe('file:///tmp/picker/charizard.jpg');
+    });
+
+    it('should drop the oldest scans and their images beyond the limit', async () => {
+      const existing = Array.from({ length: ScanHistoryService.MAX_ENTRIES }, (_, index) => ({
+        id: `scan_${index}`,
+        scannedAt: '2024-01-01T00:00:00.000Z',
+        imageUri: `file:///mock/documents/scans/scan_${index}.jpg`,
+        card,
+        confidence: 0.9,
+        addedToCollection: false,
+      }));
+      await StorageService.saveScanHistory(existing);
+
+      const history = await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+
+      expect(history).toHaveLength(ScanHistoryService.MAX_ENTRIES);
+      expect(history[history.length - 1].id).toBe(`scan_${ScanHistoryService.MAX_ENTRIES - 2}`);
+      expect(RNFS.unlink).toHaveBeenCalledWith(`/mock/documents/scans/scan_${ScanHistoryService.MAX_ENTRIES - 1}.jpg`);
+    });
+  });
+
+  describe('updating entries', () => {
+    it('should mark an entry as added', async () => {
+      const [entry] = await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+
+      const [updated] = await ScanHistoryService.markAdded(entry.id);
+
+      expect(updated.addedToCollection).toBe(true);
+      expect(updated.addedAt).toBeDefined();
+    });
+
+    it('should store a newly chosen card', async () => {
+      const [entry] = await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+
+      const [updated] = await ScanHistoryService.update(entry.id, { card: { ...card, set: 'Base Set 2' } });
+
+      expect(updated.card.set).toBe('Base Set 2');
+    });
+  });
+
+  describe('deleting entries', () => {
+    it('should remove an entry and its image', async () => {
+      const [entry] = await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+
+      expect(await ScanHistoryService.remove(entry.id)).toEqual([]);
+      expect(RNFS.unlink).toHaveBeenCalledWith(`/mock/documents/scans/${entry.id}.jpg`);
+    });
+
+    it('should not delete images it does not own', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      (RNFS.copyFile as jest.Mock).mockRejectedValueOnce(new Error('No space left'));
+      await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+
+      expect(await ScanHistoryService.clear()).toEqual([]);
+      expect(RNFS.unlink).not.toHaveBeenCalled();
+      expect(await StorageService.loadScanHistory()).toEqual([]);
+    });
+  });
+
+  describe('concurrent writes', () => {
+    it('should keep every change made at the same time', async () => {
+      const [first] = await ScanHistoryService.record(result, 'file:///tmp/picker/first.jpg');
+
+      await Promise.all([
+        ScanHistoryService.record(result, 'file:///tmp/picker/second.jpg'),
+        ScanHistoryService.markAdded(first.id),
+        ScanHistoryService.update(first.id, { confidence: 0.5 }),
+      ]);
+
+      const history = await ScanHistoryService.load();
+      expect(history).toHaveLength(2);
+      expect(history[1]).toEqual(expect.objectContaining({ addedToCollection: true, confidence: 0.5 }));
+    });
+
+    it('should run later writes after one fails', async () => {
+      const save = jest.spyOn(StorageService, 'saveScanHistory').mockRejectedValueOnce(new Error('Disk full'));
+
+      await expect(ScanHistoryService.record(result, 'file:///tmp/picker/first.jpg')).rejects.toThrow('Disk full');
+      await ScanHistoryService.record(result, 'file:///tmp/picker/second.jpg');
+
+      expect(await ScanHistoryService.load()).toHaveLength(1);
+      save.mockRestore();
+    });
+  });
+
+  describe('adding to the collection', () => {
+    // In-memory file system so deletes are visible to later checks
+    const files = new Set<string>();
+    let spies: jest.SpyInstance[] = [];
+
+    beforeEach(() => {
+      files.clear();
+      spies = [
+        jest.spyOn(RNFS, 'copyFile').mockImplementation(async (_from: string, to: string) => {
+          files.add(to);
+        }),
+        jest.spyOn(RNFS, 'unlink').mockImplementation(async (path: string) => {
+          files.delete(path);
+        }),
+        jest.spyOn(RNFS, 'exists').mockImplementation(async (path: string) => files.has(path)),
+      ];
+    });
+
+    afterEach(() => {
+      spies.forEach(spy => spy.mockRestore());
+    });
+
+    it('should keep the collection image when the history entry is deleted', async () => {
+      const history = await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+      const dispatch = jest.fn();
+
+      await new ScanHistoryViewModel(dispatch, history, []).addToCollection(history[0]);
+      const added = dispatch.mock.calls[0][0].payload;
+
+      expect(added.imageUrl).toMatch(/^file:\/\/\/mock\/documents\/collection\//);
+      expect(added.imageUrl).not.toBe(history[0].imageUri);
+
+      await ScanHistoryService.remove(history[0].id);
+
+      expect(files.has(history[0].imageUri.replace('file://', ''))).toBe(false);
+      expect(files.has(added.imageUrl.replace('file://', ''))).toBe(true);
+    });
+
+    it('should delete the collection image with the last copy of the card', async () => {
+      const history = await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+      const dispatch = jest.fn();
+      await new ScanHistoryViewModel(dispatch, history, []).addToCollection(history[0]);
+      const added = dispatch.mock.calls[0][0].payload;
+      const collection = new CollectionViewModel(jest.fn(), [added], false);
+
+      await collection.removeCardCopy(added.id, added.copies[0].id);
+
+      expect(files.has(added.imageUrl.replace('file://', ''))).toBe(false);
+      expect(files.has(history[0].imageUri.replace('file://', ''))).toBe(true);
+    });
+
+    it('should reuse the image of a printing already in the collection', async () => {
+      const history = await ScanHistoryService.record(result, 'file:///tmp/picker/charizard.jpg');
+      const dispatch = jest.fn();
+      await new ScanHistoryViewModel(dispatch, history, []).addToCollection(history[0]);
+      const added = dispatch.mock.calls[0][0].payload;
+
+      await new ScanHistoryViewModel(dispatch, history, [added]).addToCollection(history[0]);
+
+      expect(dispatch.mock.calls[2][0].payload.imageUrl).toBe(added.imageUrl);
+      expect([...files].filter(path => path.includes('/collection/'))).toHaveLength(1);
+    });
+  });
+});
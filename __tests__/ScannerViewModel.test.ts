@@ -0,0 +1,184 @@
+/**
+ * =================================================================
+ * SCANNER VIEWMODEL TESTS
+ * =================================================================
+ *
+ * Verifies batch scanning: chunked submission, per-image status,
+ * preselection by confidence and bulk adding to the collection,
+ * and queueing scans while offline
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import scannerReducer from '../src/store/slices/scannerSlice';
+import collectionReducer from '../src/store/slices/collectionSlice';
+import { ScannerViewModel } from '../src/viewmodels/ScannerViewModel';
+import { CameraService } from '../src/services/camera/CameraService';
+import { ConnectivityService } from '../src/services/network/ConnectivityService';
+import { GradingClientService } from '../src/services/api/GradingClientService';
+import { HttpRequestError } from '../src/services/network/HttpClient';
+import { Card } from '../src/types';
+
+const makeCard = (number: number): Card => ({
+  id: `ximilar_BS:${number}`,
+  name: `Card ${number}`,
+  set: 'Base Set',
+  setCode: 'BS',
+  cardNumber: String(number),
+  rarity: 'Rare',
+  condition: 'Mint',
+  price: 10,
+  imageUrl: `file:///tmp/card_${number}.jpg`,
+  description: '',
+  artist: 'Unknown',
+  year: 1999,
+  type: 'Pokemon',
+});
+
+const createStore = () =>
+  configureStore({
+    reducer: {
+      scanner: scannerReducer,
+      collection: collectionReducer,
+    },
+  });
+
+const createViewModel = (store: ReturnType<typeof createStore>, offlineMode = false) => {
+  const { scanResult, isScanning, batch, isBatchRunning } = store.getState().scanner;
+  return new ScannerViewModel(store.dispatch, scanResult, isScanning, batch, isBatchRunning, offlineMode);
+};
+
+describe('ScannerViewModel batch scanning', () => {
+  let store: ReturnType<typeof createStore>;
+  const uris = Array.from({ length: 12 }, (_, index) => `file:///tmp/card_${index}.jpg`);
+
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    await AsyncStorage.clear();
+    store = createStore();
+
+    jest.spyOn(CameraService, 'openImageLibrary').mockResolvedValue(uris);
+  });
+
+  it('should submit images in chunks of the maximum batch size', async () => {
+    const recognizeCards = jest.spyOn(CameraService, 'recognizeCards').mockImplementation(async chunk =>
+      chunk.map(uri => ({ card: makeCard(uris.indexOf(uri)), confidence: 0.9 })),
+    );
+
+    await createViewModel(store).scanBatchFromLibrary();
+
+    expect(recognizeCards).toHaveBeenCalledTimes(2);
+    expect(recognizeCards.mock.calls[0][0]).toEqual(uris.slice(0, 10));
+    expect(recognizeCards.mock.calls[1][0]).toEqual(uris.slice(10));
+
+    const { batch, isBatchRunning, history } = store.getState().scanner;
+    expect(isBatchRunning).toBe(false);
+    expect(batch.every(item => item.status === 'done' && item.selected)).toBe(true);
+    expect(history).toHaveLength(12);
+  });
+
+  it('should keep per-image errors and leave low confidence results unselected', async () => {
+    jest.spyOn(CameraService, 'recognizeCards')
+      .mockResolvedValueOnce(uris.slice(0, 10).map((uri, index) =>
+        index === 0 ? { error: 'No card detected' } : { card: makeCard(index), confidence: index === 1 ? 0.1 : 0.9 },
+      ))
+      .mockRejectedValueOnce(new Error('Network error. Please check your internet connection.'));
+
+    const viewModel = createViewModel(store);
+    await viewModel.scanBatchFromLibrary();
+
+    const { batch } = store.getState().scanner;
+    expect(batch[0]).toEqual(expect.objectContaining({ status: 'error', error: 'No card detected' }));
+    expect(batch[1]).toEqual(expect.objectContaining({ status: 'done', selected: false }));
+    expect(batch[2]).toEqual(expect.objectContaining({ status: 'done', selected: true }));
+    expect(batch.slice(10).map(item => item.error)).toEqual([
+      'Network error. Please check your internet connection.',
+      'Network error. Please check your internet connection.',
+    ]);
+    expect(createViewModel(store).getBatchProgress()).toEqual({ processed: 12, total: 12 });
+  });
+
+  it('should bulk add selected results to the collection', async () => {
+    jest.spyOn(CameraService, 'recognizeCards').mockImplementation(async chunk =>
+      chunk.map(uri => ({ card: makeCard(uris.indexOf(uri)), confidence: 0.9 })),
+    );
+    await createViewModel(store).scanBatchFromLibrary();
+
+    const [first] = store.getState().scanner.batch;
+    createViewModel(store).toggleBatchItem(first.id);
+    const added = await createViewModel(store).addBatchToCollection();
+
+    expect(added).toBe(11);
+    expect(store.getState().collection.cards).toHaveLength(11);
+    expect(createViewModel(store).getSelectedBatchCount()).toBe(0);
+    expect(store.getState().scanner.history.filter(entry => entry.addedToCollection)).toHaveLength(11);
+  });
+
+  it('should do nothing when no images are picked', async () => {
+    (CameraService.openImageLibrary as jest.Mock).mockResolvedValue([]);
+    const recognizeCards = jest.spyOn(CameraService, 'recognizeCards');
+
+    await createViewModel(store).scanBatchFromLibrary();
+
+    expect(recognizeCards).not.toHaveBeenCalled();
+    expect(store.getState().scanner.batch).toEqual([]);
+  });
+});
+
+describe('ScannerViewModel offline queueing', () => {
+  let store: ReturnType<typeof createStore>;
+
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    await AsyncStorage.clear();
+    store = createStore();
+    ConnectivityService.setOnline(true);
+  });
+
+  afterAll(() => {
+    ConnectivityService.setOnline(true);
+  });
+
+  it('should queue the scan instead of grading it in offline mode', async () => {
+    jest.spyOn(CameraService, 'openImageLibrary').mockResolvedValue(['file:///tmp/card.jpg']);
+    const recognizeCard = jest.spyOn(CameraService, 'recognizeCard');
+
+    await createViewModel(store, true).scanFromLibrary();
+
+    const { offlineQueue, scanResult, isScanning } = store.getState().scanner;
+    expect(recognizeCard).not.toHaveBeenCalled();
+    expect(offlineQueue).toHaveLength(1);
+    expect(offlineQueue[0].status).toBe('queued');
+    expect(scanResult.queuedOffline).toBe(true);
+    expect(isScanning).toBe(false);
+  });
+
+  it('should queue the scan when the request finds the device offline', async () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    jest.spyOn(CameraService, 'openImageLibrary').mockResolvedValue(['file:///tmp/card.jpg']);
+    jest.spyOn(GradingClientService.getClient(), 'gradeCard').mockRejectedValue(new HttpRequestError('Network Error', 3));
+
+    await createViewModel(store).scanFromLibrary();
+
+    const { offlineQueue, scanResult } = store.getState().scanner;
+    expect(offlineQueue).toHaveLength(1);
+    expect(scanResult.queuedOffline).toBe(true);
+    expect(scanResult.error).toBeUndefined();
+    expect(ConnectivityService.isOnline()).toBe(false);
+  });
+
+  it('should queue every batch image while the device is offline', async () => {
+    jest.spyOn(CameraService, 'openImageLibrary').mockResolvedValue(['file:///tmp/a.jpg', 'file:///tmp/b.jpg']);
+    const recognizeCards = jest.spyOn(CameraService, 'recognizeCards');
+    ConnectivityService.setOnline(false);
+
+    await createViewModel(store).scanBatchFromLibrary();
+
+    expect(recognizeCards).not.toHaveBeenCalled();
+    expect(store.getState().scanner.offlineQueue).toHaveLength(2);
+    expect(store.getState().scanner.batch).toEqual([]);
+  });
+});
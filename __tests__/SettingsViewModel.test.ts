@@ -0,0 +1,160 @@
+/**
+ * =================================================================
+ * SETTINGS VIEWMODEL TESTS
+ * =================================================================
+ *
+ * Verifies that clearing all data wipes every persisted key, resets
+ * Redux state and optionally writes a backup first
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import RNFS from 'react-native-fs';
+import { configureStore } from '@reduxjs/toolkit';
+import scannerReducer, { startScan } from '../src/store/slices/scannerSlice';
+import collectionReducer, { addCard } from '../src/store/slices/collectionSlice';
+import settingsReducer, { setGradingCosts, toggleOfflineMode } from '../src/store/slices/settingsSlice';
+import importReducer from '../src/store/slices/importSlice';
+import { SettingsViewModel } from '../src/viewmodels/SettingsViewModel';
+import { StorageService } from '../src/services/storage/StorageService';
+import { THEME_STORAGE_KEY, ThemeService } from '../src/services/theme/ThemeService';
+import { CurrencyService } from '../src/services/currency/CurrencyService';
+import { CollectionModel } from '../src/models';
+
+const card = {
+  id: 'card_1',
+  name: 'Charizard',
+  set: 'Base Set',
+  rarity: 'Rare Holo',
+  condition: 'Mint',
+  price: 350,
+  imageUrl: '',
+  description: '',
+  artist: 'Mitsuhiro Arita',
+  year: 1999,
+  type: 'Pokemon',
+};
+
+const createStore = () =>
+  configureStore({
+    reducer: {
+      scanner: scannerReducer,
+      collection: collectionReducer,
+      settings: settingsReducer,
+      import: importReducer,
+    },
+  });
+
+describe('SettingsViewModel.clearAllData', () => {
+  let store: ReturnType<typeof createStore>;
+  let viewModel: SettingsViewModel;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    await AsyncStorage.clear();
+    (RNFS.writeFile as jest.Mock).mockClear();
+
+    store = createStore();
+    store.dispatch(addCard(CollectionModel.toCollectionCard(card)));
+    store.dispatch(startScan());
+    store.dispatch(toggleOfflineMode());
+    viewModel = new SettingsViewModel(store.dispatch, store.getState().settings.settings, false);
+
+    await StorageService.saveCollection(store.getState().collection.cards);
+    await StorageService.saveSettings(store.getState().settings.settings);
+    await StorageService.saveScanHistory([]);
+    await AsyncStorage.setItem(THEME_STORAGE_KEY, 'dark');
+  });
+
+  it('should remove every persisted key', async () => {
+    await viewModel.clearAllData(false);
+
+    expect(await AsyncStorage.getAllKeys()).toEqual([]);
+  });
+
+  it('should reset the collection, scanner and settings slices', async () => {
+    await viewModel.clearAllData(false);
+    const state = store.getState();
+
+    expect(state.collection.cards).toEqual([]);
+    expect(state.scanner.isScanning).toBe(false);
+    expect(state.settings.settings.offlineMode).toBe(false);
+  });
+
+  it('should delete the images kept for the collection', async () => {
+    (RNFS.unlink as jest.Mock).mockClear();
+
+    await viewModel.clearAllData(false);
+
+    expect(RNFS.unlink).toHaveBeenCalledWith('/mock/documents/collection');
+  });
+
+  it('should return the theme to following the system', async () => {
+    await ThemeService.setThemeMode('dark');
+
+    await viewModel.clearAllData(false);
+
+    expect(ThemeService.getCurrentMode()).toBe('system');
+  });
+
+  it('should write a backup before wiping when requested', async () => {
+    const backupPath = await viewModel.clearAllData(true);
+
+    expect(backupPath).toMatch(/tcg-backup-.*\.json$/);
+    const [path, contents] = (RNFS.writeFile as jest.Mock).mock.calls[0];
+    expect(path).toBe(backupPath);
+    expect(JSON.parse(contents).payload.collection.data[0].name).toBe('Charizard');
+    expect(store.getState().collection.cards).toEqual([]);
+  });
+
+  it('should keep all data when the backup fails', async () => {
+    (RNFS.writeFile as jest.Mock).mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(viewModel.clearAllData(true)).rejects.toThrow('Disk full');
+
+    expect(store.getState().collection.cards).toHaveLength(1);
+    expect(await StorageService.loadCollection()).toHaveLength(1);
+  });
+});
+
+describe('SettingsViewModel.setGradingCostsAction', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('should store and persist the grading costs', async () => {
+    const store = createStore();
+    const viewModel = new SettingsViewModel(store.dispatch, store.getState().settings.settings, false);
+    const costs = { company: 'BGS' as const, fee: 40, shipping: 15, currency: 'EUR' };
+
+    await viewModel.setGradingCostsAction(costs);
+
+    expect(store.getState().settings.settings.gradingCosts).toEqual(costs);
+    expect((await StorageService.loadSettings()).gradingCosts).toEqual(costs);
+  });
+
+  it('should convert amounts left unchanged to the currency of the new ones', async () => {
+    const store = createStore();
+    store.dispatch(setGradingCosts({ company: 'PSA', fee: 25, shipping: 10, currency: 'USD' }));
+    const viewModel = new SettingsViewModel(store.dispatch, store.getState().settings.settings, false);
+
+    await viewModel.updateGradingCostAmounts(3000, undefined, 'JPY');
+
+    const shipping = Math.round(CurrencyService.convert(10, 'USD', 'JPY')! * 100) / 100;
+    expect(shipping).not.toBe(10);
+    expect(store.getState().settings.settings.gradingCosts).toEqual({ company: 'PSA', fee: 3000, shipping, currency: 'JPY' });
+  });
+
+  it('should reject negative or missing amounts', async () => {
+    const store = createStore();
+    const viewModel = new SettingsViewModel(store.dispatch, store.getState().settings.settings, false);
+
+    await expect(
+      viewModel.setGradingCostsAction({ company: 'PSA', fee: -1, shipping: 10, currency: 'USD' }),
+    ).rejects.toThrow('Fee and shipping must be zero or more');
+    await expect(
+      viewModel.setGradingCostsAction({ company: 'PSA', fee: 25, shipping: NaN, currency: 'USD' }),
+    ).rejects.toThrow();
+    expect(store.getState().settings.settings.gradingCosts.company).toBe('PSA');
+    expect(store.getState().settings.settings.gradingCosts.fee).toBe(25);
+  });
+});
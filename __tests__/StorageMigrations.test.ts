@@ -0,0 +1,310 @@
+/**
+ * =================================================================
+ * STORAGE MIGRATION TESTS
+ * =================================================================
+ *
+ * Verifies the schema envelope, each migration step and the
+ * StorageService load/save round trip for legacy data
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  COLLECTION_MIGRATIONS,
+  SCAN_HISTORY_MIGRATIONS,
+  SETTINGS_MIGRATIONS,
+  StorageMigrations,
+} from '../src/services/storage/StorageMigrations';
+import { StorageService } from '../src/services/storage/StorageService';
+
+const legacyCard = {
+  id: 'ximilar_1',
+  name: 'Charizard',
+  set: 'Base Set',
+  rarity: 'Rare Holo',
+  condition: 'Near Mint',
+  price: '$350.00',
+  imageUrl: 'file:///charizard.jpg',
+  description: '',
+  artist: 'Mitsuhiro Arita',
+  year: 1999,
+  type: 'Pokemon',
+  quantity: 1,
+  dateAdded: '2024-01-01T00:00:00.000Z',
+};
+
+const collectionStep = (version: number) =>
+  COLLECTION_MIGRATIONS.find(step => step.version === version)!;
+
+describe('StorageMigrations', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  describe('unwrap', () => {
+    it('should treat raw arrays as version 0', () => {
+      expect(StorageMigrations.unwrap([legacyCard])).toEqual({ version: 0, data: [legacyCard] });
+    });
+
+    it('should treat raw objects without an envelope as version 0', () => {
+      const settings = { darkMode: true };
+      expect(StorageMigrations.unwrap(settings)).toEqual({ version: 0, data: settings });
+    });
+
+    it('should read version and data from an envelope', () => {
+      const envelope = StorageMigrations.wrap([legacyCard], COLLECTION_MIGRATIONS);
+      expect(StorageMigrations.unwrap(envelope)).toEqual({
+        version: StorageMigrations.latestVersion(COLLECTION_MIGRATIONS),
+        data: [legacyCard],
+      });
+    });
+  });
+
+  describe('collection migration v1', () => {
+    it('should convert legacy string prices to numbers', () => {
+      const [card] = collectionStep(1).migrate([legacyCard]);
+      expect(card.price).toBe(350);
+    });
+
+    it('should default unparseable or missing prices to 0', () => {
+      const cards = collectionStep(1).migrate([
+        { ...legacyCard, price: 'N/A' },
+        { ...legacyCard, price: undefined },
+        { ...legacyCard, price: 12.5 },
+      ]);
+      expect(cards.map((card: any) => card.price)).toEqual([0, 0, 12.5]);
+    });
+  });
+
+  describe('collection migration v2', () => {
+    it('should merge duplicate entries of the same printing', () => {
+      const printing = { ...legacyCard, price: 350, setCode: 'BS', cardNumber: '4' };
+      const cards = collectionStep(2).migrate([
+        { ...printing, id: 'ximilar_1' },
+        { ...printing, id: 'ximilar_2', quantity: 2 },
+      ]);
+
+      expect(cards).toHaveLength(1);
+      expect(cards[0].quantity).toBe(3);
+    });
+
+    it('should merge legacy entries without set code or card number by name and set', () => {
+      const cards = collectionStep(2).migrate([
+        { ...legacyCard, id: 'ximilar_1' },
+        { ...legacyCard, id: 'ximilar_2', name: ' charizard ' },
+        { ...legacyCard, id: 'ximilar_3', set: 'Base Set 2' },
+      ]);
+
+      expect(cards.map((card: any) => [card.id, card.quantity])).toEqual([['ximilar_1', 2], ['ximilar_3', 1]]);
+    });
+  });
+
+  describe('collection migration v3', () => {
+    it('should create one copy per unit of quantity', () => {
+      const [card] = collectionStep(3).migrate([{ ...legacyCard, quantity: 3, apiData: { grade: 8.5 } }]);
+
+      expect(card.quantity).toBe(3);
+      expect(card.copies).toHaveLength(3);
+      expect(card.copies[0]).toEqual({
+        id: 'copy_ximilar_1_0',
+        condition: 'Near Mint',
+        grade: 8.5,
+        acquiredAt: '2024-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('should keep existing copies and sync quantity', () => {
+      const copies = [{ id: 'copy_a', condition: 'Played', acquiredAt: '2024-03-01T00:00:00.000Z' }];
+      const [card] = collectionStep(3).migrate([{ ...legacyCard, quantity: 5, copies }]);
+
+      expect(card.copies).toEqual(copies);
+      expect(card.quantity).toBe(1);
+    });
+  });
+
+  describe('collection migration v4', () => {
+    it('should seed price history from the current price', () => {
+      const [card] = collectionStep(4).migrate([{ ...legacyCard, price: 350 }]);
+      expect(card.priceHistory).toEqual([{ date: legacyCard.dateAdded, price: 350 }]);
+    });
+
+    it('should leave cards without a price with an empty history', () => {
+      const [card] = collectionStep(4).migrate([{ ...legacyCard, price: 0 }]);
+      expect(card.priceHistory).toEqual([]);
+    });
+  });
+
+  describe('collection migration v5', () => {
+    const subgrades = { final: 8, corners: 7.5, edges: 8, surface: 8.5, centering: 8 };
+    const copies = [
+      { id: 'copy_1', condition: 'Near Mint', acquiredAt: legacyCard.dateAdded },
+      { id: 'copy_2', condition: 'Played', acquiredAt: legacyCard.dateAdded },
+    ];
+
+    it('should move the scan analysis onto the first copy only', () => {
+      const [card] = collectionStep(5).migrate([{ ...legacyCard, apiData: { subgrades }, copies }]);
+      expect(card.copies[0].subgrades).toEqual(subgrades);
+      expect(card.copies[1].subgrades).toBeUndefined();
+    });
+
+    it('should keep analysis already stored on the copies', () => {
+      const own = { ...subgrades, final: 6 };
+      const [card] = collectionStep(5).migrate([
+        { ...legacyCard, apiData: { subgrades }, copies: [{ ...copies[0], subgrades: own }] },
+      ]);
+      expect(card.copies[0].subgrades).toEqual(own);
+    });
+  });
+
+  describe('settings migration v1', () => {
+    it('should fill in missing settings with defaults', () => {
+      const [step] = SETTINGS_MIGRATIONS;
+      expect(step.migrate({ darkMode: true })).toEqual({
+        darkMode: true,
+        notifications: true,
+        offlineMode: false,
+        displayCurrency: 'USD',
+        gradingCosts: { company: 'PSA', fee: 25, shipping: 10, currency: 'USD' },
+      });
+    });
+  });
+
+  describe('settings migration v2', () => {
+    it('should default the display currency to USD', () => {
+      const step = SETTINGS_MIGRATIONS.find(migration => migration.version === 2)!;
+      expect(step.migrate({ darkMode: true }).displayCurrency).toBe('USD');
+      expect(step.migrate({ darkMode: true, displayCurrency: 'EUR' }).displayCurrency).toBe('EUR');
+    });
+  });
+
+  describe('settings migration v3', () => {
+    it('should add default grading costs', () => {
+      const step = SETTINGS_MIGRATIONS.find(migration => migration.version === 3)!;
+      const costs = { company: 'BGS', fee: 40, shipping: 15, currency: 'EUR' };
+
+      expect(step.migrate({ darkMode: true }).gradingCosts).toEqual({
+        company: 'PSA',
+        fee: 25,
+        shipping: 10,
+        currency: 'USD',
+      });
+      expect(step.migrate({ darkMode: true, gradingCosts: costs }).gradingCosts).toBe(costs);
+    });
+  });
+
+  describe('scan history migration v1', () => {
+    it('should use the card image and mark old scans as not added', () => {
+      const [step] = SCAN_HISTORY_MIGRATIONS;
+      const [entry] = step.migrate([{ id: 'scan_1', scannedAt: legacyCard.dateAdded, card: legacyCard, confidence: 0.9 }]);
+
+      expect(entry.imageUri).toBe('file:///charizard.jpg');
+      expect(entry.addedToCollection).toBe(false);
+    });
+  });
+
+  describe('migrate', () => {
+    it('should only run steps newer than the stored version', () => {
+      const migrations = [
+        { version: 1, description: 'one', migrate: jest.fn((data: number[]) => [...data, 1]) },
+        { version: 2, description: 'two', migrate: jest.fn((data: number[]) => [...data, 2]) },
+      ];
+
+      const result = StorageMigrations.migrate<number[]>([], 1, migrations);
+
+      expect(migrations[0].migrate).not.toHaveBeenCalled();
+      expect(result).toEqual({ data: [2], version: 2 });
+    });
+
+    it('should leave data from a newer schema untouched', () => {
+      const result = StorageMigrations.migrate(['future'], 99, COLLECTION_MIGRATIONS);
+      expect(result).toEqual({ data: ['future'], version: 99 });
+    });
+
+    it('should report which step failed', () => {
+      const migrations = [
+        { version: 1, description: 'broken', migrate: () => { throw new Error('bad data'); } },
+      ];
+
+      expect(() => StorageMigrations.migrate([], 0, migrations))
+        .toThrow('Storage migration v1 failed: bad data');
+    });
+  });
+
+  describe('StorageService', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('should upgrade and re-save a legacy collection on load', async () => {
+      await AsyncStorage.setItem('@tcg_collection', JSON.stringify([legacyCard]));
+
+      const cards = await StorageService.loadCollection();
+
+      expect(cards[0].price).toBe(350);
+      expect(cards[0].copies).toHaveLength(1);
+      const stored = JSON.parse((await AsyncStorage.getItem('@tcg_collection'))!);
+      expect(stored.version).toBe(StorageMigrations.latestVersion(COLLECTION_MIGRATIONS));
+      expect(stored.data[0].price).toBe(350);
+    });
+
+    it('should remove the old dedupe flag once the collection is upgraded', async () => {
+      await AsyncStorage.setItem('@tcg_collection', JSON.stringify([legacyCard]));
+      await AsyncStorage.setItem('@tcg_migration_dedupe', '2024-01-01T00:00:00.000Z');
+
+      await StorageService.loadCollection();
+
+      expect(await AsyncStorage.getItem('@tcg_migration_dedupe')).toBeNull();
+    });
+
+    it('should round-trip the collection through an envelope', async () => {
+      const card = { ...legacyCard, price: 350, copies: [{ id: 'copy_1', condition: 'Near Mint', acquiredAt: legacyCard.dateAdded }] };
+      await StorageService.saveCollection([card]);
+
+      expect(await StorageService.loadCollection()).toEqual([card]);
+    });
+
+    it('should keep the original collection when a migration fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation();
+      jest.spyOn(console, 'warn').mockImplementation();
+      const migrate = jest.spyOn(COLLECTION_MIGRATIONS[0], 'migrate').mockImplementation(() => {
+        throw new Error('bad data');
+      });
+      const original = JSON.stringify([legacyCard]);
+      await AsyncStorage.setItem('@tcg_collection', original);
+
+      expect(await StorageService.loadCollection()).toEqual([]);
+      migrate.mockRestore();
+
+      // The next save replaces the collection, but not the kept copy
+      await StorageService.saveCollection([]);
+      expect(await AsyncStorage.getItem(StorageService.getUnreadableKey('@tcg_collection'))).toBe(original);
+    });
+
+    it('should keep a collection from a newer app version before it is saved again', async () => {
+      jest.spyOn(console, 'warn').mockImplementation();
+      const card = { ...legacyCard, price: 350, copies: [] };
+      const original = JSON.stringify({ version: 99, savedAt: legacyCard.dateAdded, data: [card] });
+      await AsyncStorage.setItem('@tcg_collection', original);
+
+      expect(await StorageService.loadCollection()).toEqual([card]);
+      expect(await AsyncStorage.getItem('@tcg_collection')).toBe(original);
+
+      await StorageService.saveCollection([card]);
+      expect(await AsyncStorage.getItem(StorageService.getUnreadableKey('@tcg_collection'))).toBe(original);
+    });
+
+    it('should upgrade legacy settings on load', async () => {
+      await AsyncStorage.setItem('@tcg_settings', JSON.stringify({ darkMode: true }));
+
+      const settings = await StorageService.loadSettings();
+
+      expect(settings).toEqual({
+        darkMode: true,
+        notifications: true,
+        offlineMode: false,
+        displayCurrency: 'USD',
+        gradingCosts: { company: 'PSA', fee: 25, shipping: 10, currency: 'USD' },
+      });
+    });
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * =================================================================
+ * SUBMISSION TRACKER SERVICE TESTS
+ * =================================================================
+ *
+ * Verifies creating grading submissions with a snapshot of each
+ * copy's prediction, tracking sent and received dates, recording
+ * returned grades and comparing them to the predictions
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SubmissionTrackerService } from '../src/services/grading/SubmissionTrackerService';
+import { StorageService } from '../src/services/storage/StorageService';
+import { CardCopy, CardSubgrades, CollectionCard, GradingSubmissionDetails } from '../src/types';
+
+// Predicts PSA 9, with a range of 8 to 10
+const subgrades: CardSubgrades = { final: 9.5, corners: 9.5, edges: 9.5, surface: 10, centering: 9.5 };
+
+const copy = (id: string, copySubgrades?: CardSubgrades): CardCopy => ({
+  id,
+  condition: 'Mint',
+  acquiredAt: '2024-01-01T00:00:00.000Z',
+  subgrades: copySubgrades,
+});
+
+const makeCard = (id: string, cardSubgrades: CardSubgrades | null = subgrades): CollectionCard => ({
+  id,
+  name: `Card ${id}`,
+  set: 'Base Set',
+  rarity: 'Rare Holo',
+  condition: 'Mint',
+  price: 50,
+  imageUrl: '',
+  description: '',
+  artist: 'Mitsuhiro Arita',
+  year: 1999,
+  type: 'Pokemon',
+  apiData: cardSubgrades ? { grade: cardSubgrades.final, subgrades: cardSubgrades } : undefined,
+  quantity: 1,
+  dateAdded: '2024-01-01T00:00:00.000Z',
+  copies: [copy(`${id}_copy`, cardSubgrades ?? undefined)],
+});
+
+const details: GradingSubmissionDetails = {
+  company: 'PSA',
+  serviceLevel: ' Value ',
+  feePerCard: 25,
+  shippingCost: 20,
+  currency: 'USD',
+};
+
+const selectFirst = (cardId: string) => ({ cardId, copyId: `${cardId}_copy` });
+
+// Submits the first copy of every card
+const submit = (cards: CollectionCard[]) =>
+  SubmissionTrackerService.create(cards, cards.map(card => selectFirst(card.id)), details);
+
+describe('SubmissionTrackerService', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('create', () => {
+    it('should save a submission with the predicted grade of each card', async () => {
+      const [submission] = await submit([makeCard('a'), makeCard('b', null)]);
+
+      expect(submission).toEqual(expect.objectContaining({
+        company: 'PSA',
+        serviceLevel: 'Value',
+        feePerCard: 25,
+        shippingCost: 20,
+        currency: 'USD',
+      }));
+      expect(submission.items[0]).toEqual(expect.objectContaining({
+        cardId: 'a',
+        copyId: 'a_copy',
+        cardName: 'Card a',
+        prediction: expect.objectContaining({ company: 'PSA', grade: 9, low: 8, high: 10 }),
+      }));
+      expect(submission.items[1].prediction).toBeUndefined();
+      expect(SubmissionTrackerService.getStatus(submission)).toBe('preparing');
+      expect(SubmissionTrackerService.getTotalCost(submission)).toBe(70);
+      expect(await StorageService.loadSubmissions()).toEqual([submission]);
+    });
+
+    it('should add an item for each selected copy', async () => {
+      const card = { ...makeCard('a'), copies: [copy('first'), copy('second')], quantity: 2 };
+      const [submission] = await SubmissionTrackerService.create([card], [
+        { cardId: 'a', copyId: 'second' },
+        { cardId: 'a', copyId: 'first' },
+        { cardId: 'a', copyId: 'second' },
+      ], details);
+
+      expect(submission.items.map(item => item.copyId)).toEqual(['second', 'first']);
+      expect(SubmissionTrackerService.getTotalCost(submission)).toBe(70);
+
+      const [graded] = await SubmissionTrackerService.recordGrade(submission.id, { cardId: 'a', copyId: 'first' }, 8);
+      expect(graded.items.map(item => item.returnedGrade)).toEqual([undefined, 8]);
+    });
+
+    it('should predict each copy from its own scan', async () => {
+      const worn: CardSubgrades = { final: 6, corners: 6, edges: 6, surface: 6, centering: 6 };
+      const card = { ...makeCard('a'), copies: [copy('first', subgrades), copy('second', worn), copy('manual')], quantity: 3 };
+      const [submission] = await SubmissionTrackerService.create([card], [
+        { cardId: 'a', copyId: 'first' },
+        { cardId: 'a', copyId: 'second' },
+        { cardId: 'a', copyId: 'manual' },
+      ], details);
+
+      expect(submission.items[0].prediction?.grade).toBe(9);
+      expect(submission.items[1].prediction?.grade).toBeLessThan(9);
+      expect(submission.items[2].prediction).toBeUndefined();
+    });
+
+    it('should reject submissions without cards, service level or valid costs', async () => {
+      const cards = [makeCard('a')];
+      const selections = [{ cardId: 'a', copyId: 'a_copy' }];
+
+      await expect(SubmissionTrackerService.create(cards, [], details)).rejects.toThrow('Select at least one card to submit');
+      await expect(SubmissionTrackerService.create(cards, [{ cardId: 'a', copyId: 'sold' }], details))
+        .rejects.toThrow('Select at least one card to submit');
+      await expect(SubmissionTrackerService.create(cards, selections, { ...details, serviceLevel: ' ' }))
+        .rejects.toThrow('Enter a service level');
+      await expect(SubmissionTrackerService.create(cards, selections, { ...details, feePerCard: NaN }))
+        .rejects.toThrow('Fee and shipping must be zero or more');
+      expect(await StorageService.loadSubmissions()).toEqual([]);
+    });
+  });
+
+  describe('tracking', () => {
+    it('should move from sent to received', async () => {
+      const [{ id }] = await submit([makeCard('a')]);
+
+      const [sent] = await SubmissionTrackerService.markSent(id, '2024-03-01T00:00:00.000Z');
+      expect(SubmissionTrackerService.getStatus(sent)).toBe('sent');
+
+      const [received] = await SubmissionTrackerService.markReceived(id, '2024-04-15T00:00:00.000Z');
+      expect(SubmissionTrackerService.getStatus(received)).toBe('received');
+      expect(received.receivedAt).toBe('2024-04-15T00:00:00.000Z');
+    });
+
+    it('should not receive a submission before it is sent', async () => {
+      const [{ id }] = await submit([makeCard('a')]);
+
+      await expect(SubmissionTrackerService.markReceived(id)).rejects.toThrow('Mark the submission as sent first');
+
+      await SubmissionTrackerService.markSent(id, '2024-03-01T00:00:00.000Z');
+      await expect(SubmissionTrackerService.markReceived(id, '2024-02-01T00:00:00.000Z'))
+        .rejects.toThrow('Received date cannot be before the sent date');
+    });
+  });
+
+  describe('recordGrade', () => {
+    it('should store the returned grade and cert number of one copy', async () => {
+      const [{ id }] = await submit([makeCard('a'), makeCard('b')]);
+
+      const [submission] = await SubmissionTrackerService.recordGrade(id, selectFirst('b'), 8, ' 12345678 ');
+
+      expect(submission.items[0].returnedGrade).toBeUndefined();
+      expect(submission.items[1]).toEqual(expect.objectContaining({ returnedGrade: 8, certNumber: '12345678' }));
+    });
+
+    it('should reject invalid grades and cards outside the submission', async () => {
+      const [{ id }] = await submit([makeCard('a')]);
+
+      await expect(SubmissionTrackerService.recordGrade(id, selectFirst('a'), 11)).rejects.toThrow('between 1 and 10');
+      await expect(SubmissionTrackerService.recordGrade(id, selectFirst('a'), 8.3)).rejects.toThrow('steps of 0.5');
+      await expect(SubmissionTrackerService.recordGrade(id, selectFirst('z'), 8)).rejects.toThrow('Card is not part of this submission');
+      await expect(SubmissionTrackerService.recordGrade('missing', selectFirst('a'), 8)).rejects.toThrow('Submission not found');
+    });
+  });
+
+  describe('comparison', () => {
+    it('should compare returned grades with predictions', async () => {
+      const cards = [makeCard('a'), makeCard('b'), makeCard('c'), makeCard('d', null)];
+      const [{ id }] = await submit(cards);
+      await SubmissionTrackerService.recordGrade(id, selectFirst('a'), 9);
+      await SubmissionTrackerService.recordGrade(id, selectFirst('b'), 7);
+      await SubmissionTrackerService.recordGrade(id, selectFirst('d'), 6);
+      const submissions = await SubmissionTrackerService.recordGrade(id, selectFirst('c'), 10);
+
+      const comparisons = SubmissionTrackerService.compare(submissions[0]);
+      expect(comparisons.map(({ difference, withinRange }) => ({ difference, withinRange }))).toEqual([
+        { difference: 0, withinRange: true },
+        { difference: -2, withinRange: false },
+        { difference: 1, withinRange: true },
+        { difference: undefined, withinRange: undefined },
+      ]);
+
+      expect(SubmissionTrackerService.summarize(submissions)).toEqual({
+        compared: 3,
+        exact: 1,
+        withinRange: 2,
+        averageDifference: -0.33,
+      });
+    });
+
+    it('should report no average before any grades are back', async () => {
+      const submissions = await submit([makeCard('a')]);
+
+      expect(SubmissionTrackerService.summarize(submissions)).toEqual({
+        compared: 0,
+        exact: 0,
+        withinRange: 0,
+        averageDifference: undefined,
+      });
+    });
+  });
+
+  it('should delete a submission', async () => {
+    const [{ id }] = await submit([makeCard('a')]);
+
+    expect(await SubmissionTrackerService.remove(id)).toEqual([]);
+    expect(await StorageService.loadSubmissions()).toEqual([]);
+  });
+});
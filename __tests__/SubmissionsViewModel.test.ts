@@ -0,0 +1,89 @@
+/**
+ * =================================================================
+ * SUBMISSIONS VIEWMODEL TESTS
+ * =================================================================
+ *
+ * Verifies that recording a returned grade also marks the
+ * collection copy as slabbed
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { configureStore } from '@reduxjs/toolkit';
+import collectionReducer, { addCard } from '../src/store/slices/collectionSlice';
+import submissionsReducer from '../src/store/slices/submissionsSlice';
+import { SubmissionsViewModel } from '../src/viewmodels/SubmissionsViewModel';
+import { GradingSubmissionService } from '../src/services/grading/GradingSubmissionService';
+import { PricingService } from '../src/services/pricing/PricingService';
+import { CollectionModel, SettingsModel } from '../src/models';
+import { GradingCosts } from '../src/types';
+
+const card = {
+  id: 'card_1',
+  name: 'Charizard',
+  set: 'Base Set',
+  rarity: 'Rare Holo',
+  condition: 'Mint',
+  price: 350,
+  imageUrl: '',
+  description: '',
+  artist: 'Mitsuhiro Arita',
+  year: 1999,
+  type: 'Pokemon',
+  apiData: { subgrades: { final: 9.5, corners: 9.5, edges: 9.5, surface: 10, centering: 9.5 } },
+  marketPrice: PricingService.aggregate([100, 400].map(price => ({
+    item_id: `item_${price}`,
+    item_link: `https://www.ebay.com/itm/${price}`,
+    name: 'Charizard',
+    price,
+    currency: 'USD',
+    country_code: 'US',
+    source: 'ebay',
+    date_of_creation: '2024-01-01',
+    ...(price > 100 ? { grade_company: 'PSA', grade: '9' } : {}),
+  }))),
+};
+
+const createStore = () =>
+  configureStore({
+    reducer: {
+      collection: collectionReducer,
+      submissions: submissionsReducer,
+    },
+  });
+
+describe('SubmissionsViewModel.recordGrade', () => {
+  let store: ReturnType<typeof createStore>;
+
+  const createViewModel = () => {
+    const { submissions, collection } = store.getState();
+    return new SubmissionsViewModel(
+      store.dispatch,
+      submissions.submissions,
+      collection.cards,
+      SettingsModel.DEFAULT_GRADING_COSTS,
+    );
+  };
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    store = createStore();
+    store.dispatch(addCard(CollectionModel.toCollectionCard(card)));
+  });
+
+  it('should mark the graded copy as slabbed by the company', async () => {
+    const [entry] = store.getState().collection.cards;
+    const costs: GradingCosts = { ...SettingsModel.DEFAULT_GRADING_COSTS, company: 'PSA' };
+    expect(GradingSubmissionService.estimate(entry, costs)).toBeDefined();
+
+    await createViewModel().createSubmission(
+      [{ cardId: entry.id, copyId: entry.copies[0].id }],
+      { company: 'PSA', serviceLevel: 'Value', feePerCard: 25, shippingCost: 20, currency: 'USD' },
+    );
+    const [submission] = store.getState().submissions.submissions;
+    await createViewModel().recordGrade(submission.id, submission.items[0], 8, '12345678');
+
+    const [graded] = store.getState().collection.cards;
+    expect(graded.copies[0]).toEqual(expect.objectContaining({ gradingCompany: 'PSA', grade: 8 }));
+    expect(GradingSubmissionService.estimate(graded, costs)).toBeUndefined();
+  });
+});
@@ -9,8 +9,10 @@
  */
 
 import { XimilarApiService } from '../src/services/api/XimilarApiService';
+import { CardMappingService } from '../src/services/api/CardMappingService';
 import { XimilarApiResponse } from '../src/types';
 import axios from 'axios';
+import { HttpClient } from '../src/services/network/HttpClient';
 
 // Mock axios for testing
 jest.mock('axios');
@@ -36,6 +38,8 @@ describe('XimilarApiService', () => {
     jest.spyOn(axios, 'isAxiosError').mockImplementation((error: any) => {
       return error && error.isAxiosError === true;
     });
+    // Retries should not slow the suite down
+    jest.spyOn(HttpClient, 'sleep').mockResolvedValue(undefined);
   });
 
   afterAll(() => {
@@ -132,6 +136,14 @@ describe('XimilarApiService', () => {
         isDamaged: true,
         isfront: false,
         surfaceGrade: 9,
+        cornerGrades: [],
+        edgeGrades: [],
+        conditionAnalysis: expect.objectContaining({
+          corners: [],
+          edges: [],
+          centering: expect.objectContaining({ 'left/right': '50/50', 'top/bottom': '50/50' }),
+          versions: expect.objectContaining({ final: '1.0' }),
+        }),
       });
 
       expect(mockedAxios.post).toHaveBeenCalledWith(
@@ -161,28 +173,39 @@ describe('XimilarApiService', () => {
         .rejects.toThrow('Authentication failed. Please check your API token.');
     });
 
-    it('should handle rate limiting errors (429)', async () => {
+    it('should handle rate limiting errors (429) after retrying', async () => {
       const error = {
-        response: { status: 429, data: { message: 'Rate limit exceeded' } },
+        response: { status: 429, data: { message: 'Rate limit exceeded' }, headers: {} },
         isAxiosError: true,
       };
-      mockedAxios.post.mockRejectedValueOnce(error);
-      jest.spyOn(axios, 'isAxiosError').mockReturnValueOnce(true);
+      mockedAxios.post.mockRejectedValue(error);
 
       await expect(XimilarApiService.gradeCard('https://example.com/test-image.jpg'))
-        .rejects.toThrow('Rate limit exceeded. Please try again later.');
+        .rejects.toThrow('Rate limit exceeded. Please try again later. (3 attempts)');
+      expect(mockedAxios.post).toHaveBeenCalledTimes(3);
     });
 
-    it('should handle network timeout errors', async () => {
+    it('should handle network timeout errors after retrying', async () => {
       const error = {
         code: 'ECONNABORTED',
         isAxiosError: true,
       };
-      mockedAxios.post.mockRejectedValueOnce(error);
-      jest.spyOn(axios, 'isAxiosError').mockReturnValueOnce(true);
+      mockedAxios.post.mockRejectedValue(error);
 
       await expect(XimilarApiService.gradeCard('https://example.com/test-image.jpg'))
         .rejects.toThrow('Request timed out. Please check your internet connection.');
+      expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+    });
+
+    it('should succeed when a retry gets through', async () => {
+      mockedAxios.post
+        .mockRejectedValueOnce({ response: { status: 503, headers: { 'retry-after': '2' } }, isAxiosError: true })
+        .mockResolvedValueOnce({ data: { records: [{ _status: { code: 200 }, grades: { final: 9 } }] } });
+
+      const result = await XimilarApiService.gradeCard('https://example.com/test-image.jpg');
+
+      expect(result.finalGrade).toBe(9);
+      expect(HttpClient.sleep).toHaveBeenCalledWith(2000);
     });
   });
 
@@ -254,21 +277,115 @@ describe('XimilarApiService', () => {
     });
   });
 
+  describe('processGradingResponse', () => {
+    it('should keep the grade of each corner and edge', () => {
+      const result = XimilarApiService.processGradingResponse({
+        grades: { final: 8, corners: 7.5, edges: 8.5, surface: 8, centering: 9 },
+        corners: [
+          { name: 'UPPER_LEFT', bound_box: [0, 0, 10, 10], point: [0, 0], grade: 7 },
+          { name: 'DOWN_RIGHT', bound_box: [0, 0, 10, 10], point: [0, 0], grade: 8 },
+        ],
+        edges: [{ name: 'LEFT', polygon: [[0, 0]], grade: 8.5 }],
+      } as any);
+
+      expect(result.cornerGrades).toEqual([
+        { name: 'UPPER_LEFT', grade: 7 },
+        { name: 'DOWN_RIGHT', grade: 8 },
+      ]);
+      expect(result.edgeGrades).toEqual([{ name: 'LEFT', grade: 8.5 }]);
+    });
+
+    it('should keep the raw condition measurements and model versions', () => {
+      const corner = { name: 'UPPER_LEFT', bound_box: [0, 0, 10, 10], point: [2, 3], grade: 7 };
+      const edge = { name: 'LEFT', polygon: [[0, 0], [0, 100]], grade: 8.5 };
+      const centering = { 'left/right': '55/45', 'top/bottom': '48/52', bound_box: [0, 0, 700, 1000], grade: 9 };
+      const result = XimilarApiService.processGradingResponse({
+        _width: 700,
+        _height: 1000,
+        grades: { final: 8, corners: 7, edges: 8.5, surface: 8, centering: 9 },
+        corners: [corner],
+        edges: [edge],
+        card: [{ polygon: [[20, 20], [680, 20], [680, 980], [20, 980]], _tags: {}, surface: { grade: 8 }, centering }],
+        versions: { final: 'grader-2.1' },
+      } as any);
+
+      expect(result.conditionAnalysis).toEqual({
+        corners: [corner],
+        edges: [edge],
+        centering,
+        cardPolygon: [[20, 20], [680, 20], [680, 980], [20, 980]],
+        versions: { final: 'grader-2.1' },
+        imageWidth: 700,
+        imageHeight: 1000,
+        analyzedAt: expect.any(String),
+      });
+    });
+
+    it('should leave out the condition analysis without measurements', () => {
+      const result = XimilarApiService.processGradingResponse({
+        grades: { final: 8, corners: 8, edges: 8, surface: 8, centering: 8 },
+        corners: [],
+        edges: [],
+      } as any);
+
+      expect(result.conditionAnalysis).toBeUndefined();
+    });
+  });
+
+  describe('buildCandidates', () => {
+    it('should return undefined without a best match', () => {
+      expect(XimilarApiService.buildCandidates(undefined)).toBeUndefined();
+      expect(XimilarApiService.buildCandidates({ alternatives: [] })).toBeUndefined();
+    });
+
+    it('should keep best match first and rank alternatives by distance', () => {
+      const candidates = XimilarApiService.buildCandidates({
+        best_match: { name: 'Charizard', set_code: 'BS' },
+        alternatives: [
+          { name: 'Charizard', set_code: 'B2' },
+          { name: 'Charizard', set_code: 'LC' },
+        ],
+        distances: [0.1, 0.4, 0.2],
+      });
+
+      expect(candidates?.map(c => c.match.set_code)).toEqual(['BS', 'LC', 'B2']);
+      expect(candidates?.map(c => c.rank)).toEqual([0, 1, 2]);
+      expect(candidates?.map(c => c.distance)).toEqual([0.1, 0.2, 0.4]);
+    });
+
+    it('should align distances that only cover alternatives', () => {
+      const candidates = XimilarApiService.buildCandidates({
+        best_match: { name: 'Pikachu' },
+        alternatives: [{ name: 'Pikachu Promo' }],
+        distances: [0.3],
+      });
+
+      expect(candidates?.[0].distance).toBeUndefined();
+      expect(candidates?.[1].distance).toBe(0.3);
+    });
+  });
+
   describe('interpretGrade', () => {
     it('should interpret grades correctly', () => {
       expect(XimilarApiService.interpretGrade(10)).toBe('Gem Mint');
       expect(XimilarApiService.interpretGrade(9)).toBe('Mint');
       expect(XimilarApiService.interpretGrade(8)).toBe('Near Mint/Mint');
-      expect(XimilarApiService.interpretGrade(7)).toBe('Excellent');
-      expect(XimilarApiService.interpretGrade(6)).toBe('Very Good');
-      expect(XimilarApiService.interpretGrade(5)).toBe('Good');
-      expect(XimilarApiService.interpretGrade(4)).toBe('Fair');
-      expect(XimilarApiService.interpretGrade(3)).toBe('Poor');
-      expect(XimilarApiService.interpretGrade(2)).toBe('Damaged');
-      expect(XimilarApiService.interpretGrade(1)).toBe('Authentic (Damaged)');
+      expect(XimilarApiService.interpretGrade(7)).toBe('Near Mint');
+      expect(XimilarApiService.interpretGrade(6)).toBe('Excellent');
+      expect(XimilarApiService.interpretGrade(5)).toBe('Very Good');
+      expect(XimilarApiService.interpretGrade(4)).toBe('Good');
+      expect(XimilarApiService.interpretGrade(3)).toBe('Fair');
+      expect(XimilarApiService.interpretGrade(2)).toBe('Poor');
+      expect(XimilarApiService.interpretGrade(1)).toBe('Damaged');
       expect(XimilarApiService.interpretGrade(0)).toBe('Damaged');
     });
 
+    it('should agree with the condition stored on cards', () => {
+      [10, 9.5, 9, 8.5, 8, 7, 6, 5, 4, 3, 2, 1].forEach(grade => {
+        expect(XimilarApiService.interpretGrade(grade)).toBe(CardMappingService.mapConditionFromGrade(grade));
+      });
+    });
+
     it('should handle edge cases', () => {
       expect(XimilarApiService.interpretGrade(undefined)).toBe('Not Graded');
       expect(XimilarApiService.interpretGrade(null as any)).toBe('Not Graded');
@@ -0,0 +1,132 @@
+/**
+ * =================================================================
+ * XIMILAR INTEGRATION TESTS
+ * =================================================================
+ *
+ * Runs the Ximilar client over real HTTP against the local mock
+ * server in scripts/mock-ximilar, covering grading, batches,
+ * retries, error responses and condition details
+ */
+
+import Config from 'react-native-config';
+import { buildRecord, createMockXimilarServer, MockXimilarServer } from '../scripts/mock-ximilar/server';
+import { HttpClient } from '../src/services/network/HttpClient';
+import { ConditionOverlayService } from '../src/services/grading/ConditionOverlayService';
+
+type XimilarApiServiceType = typeof import('../src/services/api/XimilarApiService').XimilarApiService;
+type CameraServiceType = typeof import('../src/services/camera/CameraService').CameraService;
+
+describe('Ximilar client against the mock server', () => {
+  const mock: MockXimilarServer = createMockXimilarServer();
+  const originalBaseUrl = Config.XIMILAR_BASE_URL;
+  let XimilarApiService: XimilarApiServiceType;
+  let CameraService: CameraServiceType;
+
+  beforeAll(async () => {
+    Config.XIMILAR_BASE_URL = await mock.start();
+
+    // The base URL is read when the service is loaded
+    XimilarApiService = require('../src/services/api/XimilarApiService').XimilarApiService;
+    CameraService = require('../src/services/camera/CameraService').CameraService;
+  });
+
+  afterAll(async () => {
+    Config.XIMILAR_BASE_URL = originalBaseUrl;
+    await mock.stop();
+  });
+
+  beforeEach(() => {
+    mock.reset();
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  it('should grade and identify a card', async () => {
+    const result = await XimilarApiService.gradeCard('https://example.com/card_1.jpg');
+
+    expect(result.cardName).toBeDefined();
+    expect(result.finalGrade).toBeGreaterThan(0);
+    expect(result.candidates?.[0].match.name).toBe(result.cardName);
+    expect(mock.getRequests()).toEqual([
+      expect.objectContaining({
+        authorization: 'Token test-token',
+        records: [{ _url: 'https://example.com/card_1.jpg' }],
+      }),
+    ]);
+  });
+
+  it('should keep per-image errors in batch scans', async () => {
+    const results = await CameraService.recognizeCards([
+      'https://example.com/card_1.jpg',
+      'https://example.com/no-card.jpg',
+    ]);
+
+    expect(results[0].card).toBeDefined();
+    expect(results[1]).toEqual({ error: 'No card detected in image' });
+    expect(mock.getRequests()).toHaveLength(1);
+  });
+
+  it('should report the API as accessible', async () => {
+    expect(await XimilarApiService.checkApiStatus()).toBe(true);
+  });
+
+  it('should fail authentication errors without retrying', async () => {
+    mock.configure({ failure: '401' });
+
+    await expect(XimilarApiService.gradeCard('https://example.com/card_1.jpg'))
+      .rejects.toThrow('Authentication failed. Please check your API token.');
+    expect(mock.getRequests()).toHaveLength(1);
+  });
+
+  it('should wait for Retry-After and succeed once the rate limit clears', async () => {
+    const sleep = jest.spyOn(HttpClient, 'sleep').mockResolvedValue(undefined);
+    mock.configure({ failure: '429', failTimes: 1, retryAfter: 2 });
+
+    const result = await XimilarApiService.gradeCard('https://example.com/card_1.jpg');
+
+    expect(result.finalGrade).toBeGreaterThan(0);
+    expect(sleep).toHaveBeenCalledWith(2000);
+    expect(mock.getRequests().map(request => request.failure)).toEqual(['429', undefined]);
+  });
+
+  it('should give up on server errors after every attempt', async () => {
+    jest.spyOn(HttpClient, 'sleep').mockResolvedValue(undefined);
+    mock.configure({ failure: '500' });
+
+    await expect(XimilarApiService.gradeCard('https://example.com/card_1.jpg'))
+      .rejects.toThrow('Ximilar API server error. Please try again later. (3 attempts)');
+    expect(mock.getRequests()).toHaveLength(HttpClient.DEFAULT_MAX_ATTEMPTS);
+  });
+
+  it('should reject malformed responses', async () => {
+    mock.configure({ failure: 'malformed' });
+
+    await expect(XimilarApiService.gradeCard('https://example.com/card_1.jpg'))
+      .rejects.toThrow('Invalid response from Ximilar API');
+  });
+
+  it('should apply the configured latency', async () => {
+    const setTimeoutSpy = jest.spyOn(global, 'setTimeout');
+    mock.configure({ latency: 150 });
+
+    await XimilarApiService.gradeCard('https://example.com/card_1.jpg');
+
+    expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 150);
+  });
+
+  it('should return corner and edge details for the condition overlay', async () => {
+    const url = Array.from({ length: 20 }, (_, index) => `https://example.com/card_${index}.jpg`)
+      .find(candidate => buildRecord(candidate, 0).corners.length > 0)!;
+
+    const { conditionAnalysis } = await XimilarApiService.gradeCard(url);
+    const regions = ConditionOverlayService.buildRegions(conditionAnalysis!, 350);
+
+    expect(regions.map(region => region.kind)).toEqual([
+      'card', 'edge', 'edge', 'edge', 'edge', 'corner', 'corner', 'corner', 'corner',
+    ]);
+    expect(regions.find(region => region.id === 'corner-UPPER_LEFT')).toEqual(
+      expect.objectContaining({ grade: 5.5, point: { x: 19, y: 14 } }),
+    );
+  });
+});
@@ -0,0 +1,31 @@
+import { XimilarRecord } from '../../src/types';
+
+export type MockFailure = '401' | '429' | '500' | '502' | '503' | 'malformed';
+
+export interface MockXimilarOptions {
+  latency?: number;
+  token?: string;
+  failure?: MockFailure;
+  failTimes?: number;
+  retryAfter?: number;
+}
+
+export interface MockGradeRequest {
+  authorization: string;
+  records?: Array<{ _url: string }>;
+  failure?: MockFailure;
+}
+
+export interface MockXimilarServer {
+  start(port?: number, host?: string): Promise<string>;
+  stop(): Promise<void>;
+  configure(changes: MockXimilarOptions): void;
+  getRequests(): MockGradeRequest[];
+  reset(): void;
+}
+
+export const GRADE_PATH: string;
+
+export function createMockXimilarServer(options?: MockXimilarOptions): MockXimilarServer;
+
+export function buildRecord(url: string, index: number): XimilarRecord;
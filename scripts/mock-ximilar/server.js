@@ -0,0 +1,308 @@
+/**
+ * =================================================================
+ * MOCK XIMILAR SERVER
+ * =================================================================
+ *
+ * Local stand-in for the Ximilar Card Grader API, for development
+ * and integration tests. Implements POST /card-grader/v2/grade with
+ * records built from fixtures.json: an image URL always maps to the
+ * same fixture card, and URLs containing "no-card" get a 422 record.
+ * Fixtures may carry the card outline and corner and edge details.
+ *
+ * Run it with:
+ *   npm run mock:ximilar -- --port 3001 --latency 500 --failure 429
+ * and point the app at it:
+ *   XIMILAR_BASE_URL=http://localhost:3001/card-grader/v2
+ *
+ * Options (also settable as MOCK_PORT, MOCK_LATENCY, ... variables):
+ * - port: port to listen on, 0 for any free port
+ * - host: interface to listen on, 0.0.0.0 to reach it from a device
+ * - latency: delay before every response in milliseconds
+ * - token: only accept this API token (any token by default)
+ * - failure: 401, 429, 500, 502, 503 or malformed
+ * - failTimes: fail only the next N requests, then recover
+ * - retryAfter: Retry-After seconds sent with 429 and 503 responses
+ *
+ * Options can be changed at runtime with POST /__mock/config, and
+ * GET /__mock/requests lists the grade requests received so far.
+ * =================================================================
+ */
+
+const http = require('http');
+const fixtures = require('./fixtures.json');
+
+const GRADE_PATH = '/card-grader/v2/grade';
+const MAX_BATCH_SIZE = 10;
+const FAILURES = ['401', '429', '500', '502', '503', 'malformed'];
+
+/**
+ * Record the real API returns for an image URL
+ */
+function buildRecord(url, index) {
+  const id = `mock-record-${index}`;
+  const status = { code: 200, text: 'OK', request_id: id };
+
+  if (url.includes('no-card')) {
+    return {
+      _url: url,
+      _status: { ...status, code: 422, text: 'No card detected in image' },
+      _id: id,
+      _objects: [],
+    };
+  }
+
+  const fixture = fixtures.cards[hash(url) % fixtures.cards.length];
+  // Fixtures without geometry get a straight card and no corner or edge details
+  const bound_box = fixture.bound_box || [20, 20, 680, 980];
+  const polygon = fixture.polygon || [[20, 20], [680, 20], [680, 980], [20, 980]];
+
+  return {
+    _url: url,
+    _status: status,
+    _id: id,
+    _width: 700,
+    _height: 1000,
+    _objects: [
+      {
+        name: 'Card',
+        id: `${id}-card`,
+        bound_box,
+        prob: 0.96,
+        area: 0.92,
+        _identification: {
+          best_match: fixture.match,
+          alternatives: fixture.alternatives,
+          distances: fixture.distances,
+        },
+      },
+    ],
+    corners: fixture.corners || [],
+    edges: fixture.edges || [],
+    card: [
+      {
+        name: 'CARD',
+        polygon,
+        bound_box,
+        _tags: {
+          Category: [{ id: 'mock-category', name: 'Pokemon', prob: 0.99 }],
+          Damaged: [{ id: 'mock-damaged', name: fixture.grades.final >= 8 ? 'OK' : 'Damaged', prob: 0.9 }],
+          Autograph: [{ id: 'mock-autograph', name: 'No', prob: 0.99 }],
+          Side: [{ id: 'mock-side', name: 'Front', prob: 0.99 }],
+        },
+        surface: { grade: fixture.grades.surface },
+        centering: { ...fixture.centering, bound_box, grade: fixture.grades.centering },
+      },
+    ],
+    versions: { detection: 'mock', points: 'mock', corners: 'mock', edges: 'mock', surface: 'mock', centering: 'mock', final: 'mock' },
+    grades: fixture.grades,
+    _full_url_card: url,
+  };
+}
+
+// Polynomial string hash, so each URL always gets the same fixture
+// The multiplier shares no factor with the fixture count, or every URL
+// with the same last character would get the same card
+function hash(value) {
+  let result = 0;
+  for (let i = 0; i < value.length; i++) {
+    result = (result * 31 + value.charCodeAt(i)) % 4294967291;
+  }
+  return result;
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => {
+      data += chunk;
+    });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Creates a server that is not listening yet
+ *
+ * @param options - See the options in the header comment
+ * @returns Controls to start, stop and reconfigure the server
+ */
+function createMockXimilarServer(options = {}) {
+  const config = {
+    latency: 0,
+    token: undefined,
+    failure: undefined,
+    failTimes: undefined,
+    retryAfter: 1,
+    ...options,
+  };
+  const requests = [];
+
+  /**
+   * Response forced by the configured failure, if any
+   */
+  function takeFailure() {
+    if (!config.failure || config.failTimes === 0) {
+      return undefined;
+    }
+    if (config.failTimes !== undefined) {
+      config.failTimes -= 1;
+    }
+    return String(config.failure);
+  }
+
+  async function handleGrade(req, res) {
+    const authorization = req.headers.authorization || '';
+    const token = authorization.replace(/^Token\s+/i, '');
+    const body = await readBody(req);
+    const failure = takeFailure();
+
+    let payload;
+    try {
+      payload = JSON.parse(body || '{}');
+    } catch (error) {
+      return sendJson(res, 400, { status: { code: 400, text: 'Request body is not valid JSON' } });
+    }
+    requests.push({ authorization, records: payload.records, failure });
+
+    if (failure === '401' || !token || (config.token && token !== config.token)) {
+      return sendJson(res, 401, { detail: 'Invalid token.' });
+    }
+    if (failure === '429' || failure === '503') {
+      const text = failure === '429' ? 'Request was throttled.' : 'Service unavailable.';
+      return sendJson(res, Number(failure), { detail: text }, { 'Retry-After': String(config.retryAfter) });
+    }
+    if (failure === '500' || failure === '502') {
+      return sendJson(res, Number(failure), { detail: 'Internal server error.' });
+    }
+    if (failure === 'malformed') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      return res.end('{"records": [{"_url": ');
+    }
+
+    const records = Array.isArray(payload.records) ? payload.records : undefined;
+    if (!records || records.length > MAX_BATCH_SIZE || records.some(record => typeof record._url !== 'string')) {
+      return sendJson(res, 400, {
+        status: { code: 400, text: `Expected up to ${MAX_BATCH_SIZE} records with an _url` },
+      });
+    }
+
+    return sendJson(res, 200, {
+      records: records.map((record, index) => buildRecord(record._url, index)),
+      status: { code: 200, text: 'OK', request_id: `mock-request-${requests.length}` },
+      statistics: { 'processing time': config.latency / 1000 },
+    });
+  }
+
+  async function handleConfig(req, res) {
+    try {
+      const changes = JSON.parse((await readBody(req)) || '{}');
+      if (changes.failure && !FAILURES.includes(String(changes.failure))) {
+        return sendJson(res, 400, { detail: `failure must be one of ${FAILURES.join(', ')}` });
+      }
+      Object.assign(config, changes);
+      return sendJson(res, 200, config);
+    } catch (error) {
+      return sendJson(res, 400, { detail: 'Request body is not valid JSON' });
+    }
+  }
+
+  const server = http.createServer(async (req, res) => {
+    const path = (req.url || '').split('?')[0];
+
+    try {
+      if (req.method === 'POST' && path === '/__mock/config') {
+        return await handleConfig(req, res);
+      }
+      if (req.method === 'GET' && path === '/__mock/requests') {
+        return sendJson(res, 200, requests);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, config.latency));
+
+      if (req.method === 'POST' && path === GRADE_PATH) {
+        return await handleGrade(req, res);
+      }
+      return sendJson(res, 404, { detail: 'Not found.' });
+    } catch (error) {
+      return sendJson(res, 500, { detail: error.message });
+    }
+  });
+
+  return {
+    /**
+     * Starts listening, on localhost by default
+     *
+     * @returns Base URL to use as XIMILAR_BASE_URL
+     */
+    start(port = 0, host = '127.0.0.1') {
+      return new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          const urlHost = host === '0.0.0.0' ? 'localhost' : host;
+          resolve(`http://${urlHost}:${server.address().port}/card-grader/v2`);
+        });
+      });
+    },
+
+    stop() {
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+
+    configure(changes) {
+      Object.assign(config, changes);
+    },
+
+    getRequests() {
+      return requests;
+    },
+
+    reset() {
+      Object.assign(config, { latency: 0, failure: undefined, failTimes: undefined, retryAfter: 1, ...options });
+      requests.length = 0;
+    },
+  };
+}
+
+/**
+ * Reads --name value arguments, falling back to MOCK_NAME variables
+ */
+function readCliOptions(argv, env) {
+  const option = name => {
+    const index = argv.indexOf(`--${name}`);
+    const envName = `MOCK_${name.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`;
+    return index >= 0 ? argv[index + 1] : env[envName];
+  };
+  const number = value => (value === undefined ? undefined : Number(value));
+
+  const options = {
+    port: number(option('port')) ?? 3001,
+    host: option('host') ?? '127.0.0.1',
+    latency: number(option('latency')) ?? 0,
+    token: option('token'),
+    failure: option('failure'),
+    failTimes: number(option('failTimes')),
+    retryAfter: number(option('retryAfter')) ?? 1,
+  };
+  if (options.failure && !FAILURES.includes(options.failure)) {
+    throw new Error(`--failure must be one of ${FAILURES.join(', ')}`);
+  }
+  return options;
+}
+
+if (require.main === module) {
+  const { port, host, ...options } = readCliOptions(process.argv.slice(2), process.env);
+  const mock = createMockXimilarServer(options);
+
+  mock.start(port, host).then(baseUrl => {
+    console.log(`Mock Ximilar server listening, set XIMILAR_BASE_URL=${baseUrl}`);
+  });
+  process.on('SIGINT', () => mock.stop().then(() => process.exit(0)));
+}
+
+module.exports = { createMockXimilarServer, buildRecord, GRADE_PATH };
@@ -1,4 +1,5 @@
-import { Card, CollectionCard } from '../types';
+import { Card, CardApiData, CardCopy, CollectionCard } from '../types';
+import { GradingScaleService } from '../services/grading/GradingScaleService';
 
 /**
  * CardModel
@@ -21,12 +22,10 @@ export class CardModel implements Card {
   type: string;
   types?: string[];
   hp?: string;
-  apiData?: {
-    ximilarId?: string;
-    confidence?: number;
-    grade?: number;
-    gradingService?: string;
-  };
+  setCode?: string;
+  cardNumber?: string;
+  variant?: string;
+  apiData?: CardApiData;
 
   constructor(data: Card) {
     this.id = data.id;
@@ -42,6 +41,9 @@ export class CardModel implements Card {
     this.type = data.type;
     this.types = data.types;
     this.hp = data.hp;
+    this.setCode = data.setCode;
+    this.cardNumber = data.cardNumber;
+    this.variant = data.variant;
     this.apiData = data.apiData;
   }
 
@@ -93,6 +95,48 @@ export class CardModel implements Card {
     };
   }
 
+  /**
+   * Builds the canonical identity key for a card
+   *
+   * Two scans of the same printing produce the same key, derived from
+   * set code + card number + variant. Cards without a set code or card
+   * number cannot be identified reliably and fall back to their id.
+   *
+   * @param card - Card to build the key for
+   * @returns Canonical key (e.g., "base1:4:standard")
+   */
+  static getCardKey(card: Pick<Card, 'id' | 'setCode' | 'cardNumber' | 'variant'>): string {
+    if (!card.setCode || !card.cardNumber) {
+      return card.id;
+    }
+
+    const setCode = card.setCode.trim().toLowerCase();
+    // "004/102" and "4" refer to the same card number
+    const cardNumber = card.cardNumber.split('/')[0].trim().toLowerCase().replace(/^0+(?=\w)/, '');
+    const variant = (card.variant || 'standard').trim().toLowerCase().replace(/\s+/g, '-');
+
+    return `${setCode}:${cardNumber}:${variant}`;
+  }
+
+  /**
+   * Builds the identity key for an entry saved before scans had a stable id
+   *
+   * Legacy entries without a set code or card number were given a new id
+   * on every scan, so they are matched by normalized name and set instead.
+   * Different printings with the same name in one set are merged too.
+   *
+   * @param card - Card to build the key for
+   * @returns Canonical key, or e.g. "legacy:charizard:base set"
+   */
+  static getLegacyCardKey(card: Pick<Card, 'id' | 'name' | 'set' | 'setCode' | 'cardNumber' | 'variant'>): string {
+    if ((card.setCode && card.cardNumber) || !card.name) {
+      return this.getCardKey(card);
+    }
+
+    const normalize = (value?: string) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+    return `legacy:${normalize(card.name)}:${normalize(card.set)}`;
+  }
+
   /**
    * Maps numeric grade to condition string
    * Private helper method for API response processing
@@ -100,16 +144,7 @@ export class CardModel implements Card {
   private static mapGradeToCondition(grade?: number): string {
     if (!grade) return 'Unknown';
 
-    if (grade >= 10) return 'Gem Mint';
-    if (grade >= 9) return 'Mint';
-    if (grade >= 8) return 'Near Mint/Mint';
-    if (grade >= 7) return 'Near Mint';
-    if (grade >= 6) return 'Excellent';
-    if (grade >= 5) return 'Very Good';
-    if (grade >= 4) return 'Good';
-    if (grade >= 3) return 'Fair';
-    if (grade >= 2) return 'Poor';
-    return 'Damaged';
+    return GradingScaleService.getConditionLabel(grade);
   }
 }
 
@@ -120,16 +155,113 @@ export class CollectionModel {
     this.cards = cards;
   }
 
+  /**
+   * Merges collection entries that share a canonical card key
+   * The earliest entry is kept and quantities are summed
+   *
+   * @param cards - Collection entries, possibly containing duplicates
+   * @param getKey - Identity key of an entry; the canonical card key by default
+   * @returns Deduplicated collection entries in original order
+   */
+  static mergeDuplicates(
+    cards: CollectionCard[],
+    getKey: (card: CollectionCard) => string = card => CardModel.getCardKey(card),
+  ): CollectionCard[] {
+    const merged = new Map<string, CollectionCard>();
+
+    cards.forEach(card => {
+      const key = getKey(card);
+      const existing = merged.get(key);
+      if (!existing) {
+        merged.set(key, { ...card });
+        return;
+      }
+
+      existing.quantity += card.quantity;
+      if (card.copies || existing.copies) {
+        existing.copies = [...(existing.copies || []), ...(card.copies || [])];
+      }
+      if (card.dateAdded < existing.dateAdded) {
+        existing.dateAdded = card.dateAdded;
+      }
+    });
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Merges incoming entries into an existing collection
+   * Entries are matched by canonical card key and copies are matched by id,
+   * so merging the same data twice does not duplicate copies
+   *
+   * @param existing - Current collection entries
+   * @param incoming - Entries to merge in (e.g. from a backup)
+   * @returns Merged collection entries
+   */
+  static mergeCollections(existing: CollectionCard[], incoming: CollectionCard[]): CollectionCard[] {
+    const merged = new Map<string, CollectionCard>();
+    existing.forEach(card => merged.set(CardModel.getCardKey(card), { ...card, copies: [...card.copies] }));
+
+    incoming.forEach(card => {
+      const key = CardModel.getCardKey(card);
+      const current = merged.get(key);
+      if (!current) {
+        merged.set(key, { ...card, copies: [...card.copies] });
+        return;
+      }
+
+      const copyIds = new Set(current.copies.map(copy => copy.id));
+      current.copies.push(...card.copies.filter(copy => !copyIds.has(copy.id)));
+      current.quantity = current.copies.length;
+      if (card.dateAdded < current.dateAdded) {
+        current.dateAdded = card.dateAdded;
+      }
+    });
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Creates a copy record for a newly acquired card
+   * Condition and grade default to the scanned card's values
+   *
+   * @param card - Card the copy belongs to
+   * @param details - Optional per-copy details
+   */
+  static createCopy(card: Card, details: Partial<CardCopy> = {}): CardCopy {
+    return {
+      id: `copy_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      condition: card.condition,
+      grade: card.apiData?.grade,
+      subgrades: card.apiData?.subgrades,
+      conditionAnalysis: card.apiData?.conditionAnalysis,
+      acquiredAt: new Date().toISOString(),
+      ...details,
+    };
+  }
+
+  /**
+   * Wraps a card as a collection entry holding a single copy
+   */
+  static toCollectionCard(card: Card, details: Partial<CardCopy> = {}): CollectionCard {
+    const copy = this.createCopy(card, details);
+    return {
+      ...card,
+      quantity: 1,
+      dateAdded: copy.acquiredAt,
+      copies: [copy],
+      priceHistory: card.price > 0 ? [{ date: copy.acquiredAt, price: card.price }] : [],
+    };
+  }
+
   addCard(card: Card): void {
-    const existingCard = this.cards.find(c => c.id === card.id);
+    const cardKey = CardModel.getCardKey(card);
+    const existingCard = this.cards.find(c => CardModel.getCardKey(c) === cardKey);
     if (existingCard) {
-      existingCard.quantity += 1;
+      existingCard.copies.push(CollectionModel.createCopy(card));
+      existingCard.quantity = existingCard.copies.length;
     } else {
-      this.cards.push({
-        ...card,
-        quantity: 1,
-        dateAdded: new Date().toISOString()
-      });
+      this.cards.push(CollectionModel.toCollectionCard(card));
     }
   }
 
@@ -1,21 +1,34 @@
-import { UserSettings } from '../types';
+import { GradingCosts, UserSettings } from '../types';
 
 export class SettingsModel implements UserSettings {
   darkMode: boolean;
   notifications: boolean;
   offlineMode: boolean;
+  displayCurrency: string;
+  gradingCosts: GradingCosts;
+
+  static readonly DEFAULT_GRADING_COSTS: GradingCosts = {
+    company: 'PSA',
+    fee: 25,
+    shipping: 10,
+    currency: 'USD',
+  };
 
   constructor(settings: Partial<UserSettings> = {}) {
     this.darkMode = settings.darkMode ?? false;
     this.notifications = settings.notifications ?? true;
     this.offlineMode = settings.offlineMode ?? false;
+    this.displayCurrency = settings.displayCurrency ?? 'USD';
+    this.gradingCosts = settings.gradingCosts ?? { ...SettingsModel.DEFAULT_GRADING_COSTS };
   }
 
   static getDefaultSettings(): UserSettings {
     return {
       darkMode: false,
       notifications: true,
-      offlineMode: false
+      offlineMode: false,
+      displayCurrency: 'USD',
+      gradingCosts: { ...SettingsModel.DEFAULT_GRADING_COSTS }
     };
   }
 
@@ -23,7 +36,9 @@ export class SettingsModel implements UserSettings {
     return {
       darkMode: this.darkMode,
       notifications: this.notifications,
-      offlineMode: this.offlineMode
+      offlineMode: this.offlineMode,
+      displayCurrency: this.displayCurrency,
+      gradingCosts: this.gradingCosts
     };
   }
 }
@@ -9,6 +9,9 @@ import ScannerScreen from '../views/screens/Scanner';
 import CollectionScreen from '../views/screens/Collection';
 import CardDetailsScreen from '../views/screens/CardDetails';
 import SettingsScreen from '../views/screens/Settings';
+import ImportScreen from '../views/screens/Import';
+import ScanHistoryScreen from '../views/screens/ScanHistory';
+import SubmissionsScreen from '../views/screens/Submissions';
 
 import { RootStackParamList } from '../types';
 import { ThemeService, Theme } from '../services/theme/ThemeService';
@@ -105,6 +108,39 @@ const AppNavigator = () => {
             headerTintColor: theme.surface,
           }}
         />
+        <Stack.Screen
+          name="Import"
+          component={ImportScreen}
+          options={{
+            title: 'Import CSV',
+            headerStyle: {
+              backgroundColor: theme.primary,
+            },
+            headerTintColor: theme.surface,
+          }}
+        />
+        <Stack.Screen
+          name="ScanHistory"
+          component={ScanHistoryScreen}
+          options={{
+            title: 'Scan History',
+            headerStyle: {
+              backgroundColor: theme.primary,
+            },
+            headerTintColor: theme.surface,
+          }}
+        />
+        <Stack.Screen
+          name="Submissions"
+          component={SubmissionsScreen}
+          options={{
+            title: 'Grading Submissions',
+            headerStyle: {
+              backgroundColor: theme.primary,
+            },
+            headerTintColor: theme.surface,
+          }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
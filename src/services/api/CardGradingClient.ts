@@ -0,0 +1,42 @@
+/**
+ * =================================================================
+ * CARD GRADING CLIENT
+ * =================================================================
+ *
+ * Contract shared by every card grading backend. Responses use the
+ * Ximilar Card Grader format, so batch records are processed with
+ * XimilarApiService.processGradingResponse whichever client is used.
+ *
+ * Use GradingClientService.getClient() rather than a specific
+ * implementation.
+ * =================================================================
+ */
+
+import { XimilarApiResponse, XimilarGradingResult } from '../../types';
+
+export interface CardGradingClient {
+  // Short identifier for logs and diagnostics
+  readonly name: string;
+
+  // Maximum number of images accepted by gradeBatchCards
+  readonly maxBatchSize: number;
+
+  /**
+   * Grades and identifies a single card image
+   *
+   * @param imageUrl - Local file, base64 data or public URL of the image
+   */
+  gradeCard(imageUrl: string): Promise<XimilarGradingResult>;
+
+  /**
+   * Grades several card images in one request
+   *
+   * @returns Raw response with one record per image, in order
+   */
+  gradeBatchCards(imageUrls: string[]): Promise<XimilarApiResponse>;
+
+  /**
+   * Whether the backend is reachable and accepts the configured credentials
+   */
+  checkApiStatus(): Promise<boolean>;
+}
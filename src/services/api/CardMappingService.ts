@@ -0,0 +1,241 @@
+/**
+ * =================================================================
+ * CARD MAPPING SERVICE
+ * =================================================================
+ *
+ * Converts processed Ximilar results into our Card model.
+ *
+ * Card identity (name, set, rarity, number, year) comes from the TCG
+ * identification match. Grading data is mapped separately and only
+ * describes the condition of the scanned copy. A synthesized name is
+ * used only when the API could not identify the card. Prices come
+ * from the marketplace listings attached to the match.
+ * =================================================================
+ */
+
+import {
+  Card,
+  CardApiData,
+  CardCandidate,
+  CardSubgrades,
+  XimilarCardMatch,
+  XimilarGradingResult,
+} from '../../types';
+import { CardModel } from '../../models';
+import { PricingService } from '../pricing/PricingService';
+import { GradingScaleService } from '../grading/GradingScaleService';
+
+/**
+ * Identity fields of a card taken from an identification match
+ */
+type CardIdentity = Pick<
+  Card,
+  'name' | 'set' | 'rarity' | 'year' | 'type' | 'setCode' | 'cardNumber' | 'variant'
+>;
+
+export class CardMappingService {
+  /**
+   * Builds a Card from a grading result
+   *
+   * @param gradingResult - Processed Ximilar grading result
+   * @param imageUri - Local URI of the scanned image
+   * @param match - Optional match overriding the result's best match
+   * @returns Card populated from identification and grading data
+   */
+  static toCard(
+    gradingResult: XimilarGradingResult,
+    imageUri: string,
+    match: XimilarCardMatch | undefined = gradingResult.identification,
+  ): Card {
+    const identity = match
+      ? this.mapIdentity(match, gradingResult)
+      : this.mapFallbackIdentity(gradingResult);
+
+    // Identified printings share a stable id so repeat scans are deduplicated
+    const id = identity.setCode && identity.cardNumber
+      ? `ximilar_${CardModel.getCardKey({ id: '', ...identity })}`
+      : `ximilar_${Date.now()}`;
+
+    const marketPrice = PricingService.aggregate(match?.pricing?.list);
+
+    return {
+      id,
+      ...identity,
+      condition: this.mapConditionFromGrade(gradingResult.finalGrade),
+      price: PricingService.getEstimatedPrice(marketPrice),
+      currency: marketPrice?.currency,
+      marketPrice,
+      imageUrl: imageUri,
+      description: this.buildDescription(gradingResult, match),
+      artist: 'Unknown',
+      apiData: this.mapApiData(gradingResult, Boolean(match)),
+    };
+  }
+
+  /**
+   * Builds a Card from one of the ranked identification candidates
+   * and records which candidate was chosen on the card's apiData
+   *
+   * @param gradingResult - Processed Ximilar grading result
+   * @param imageUri - Local URI of the scanned image
+   * @param candidates - Ranked candidate list from the scan
+   * @param index - Index of the chosen candidate
+   * @param selectedBy - Whether the choice was automatic or made by the user
+   */
+  static toCardFromCandidate(
+    gradingResult: XimilarGradingResult,
+    imageUri: string,
+    candidates: CardCandidate[],
+    index: number,
+    selectedBy: 'auto' | 'user',
+  ): Card {
+    const candidate = candidates[index];
+    const card = this.toCard(gradingResult, imageUri, candidate?.match);
+
+    if (candidate) {
+      card.apiData = {
+        ...card.apiData,
+        matchSelection: {
+          rank: candidate.rank,
+          candidateCount: candidates.length,
+          distance: candidate.distance,
+          name: candidate.match.full_name || candidate.match.name,
+          setCode: candidate.match.set_code,
+          cardNumber: candidate.match.card_number,
+          selectedBy,
+          selectedAt: new Date().toISOString(),
+        },
+      };
+    }
+
+    return card;
+  }
+
+  /**
+   * Maps an identification match to card identity fields
+   * Missing match fields fall back to the grading categorization
+   */
+  static mapIdentity(
+    match: XimilarCardMatch,
+    gradingResult: XimilarGradingResult,
+  ): CardIdentity {
+    return {
+      name: match.name || match.full_name || this.generateFallbackName(gradingResult),
+      set: match.set || match.series || 'Unknown Set',
+      rarity: match.rarity || 'Unknown',
+      year: match.year || new Date().getFullYear(),
+      type: match.type || match.subcategory || gradingResult.subcategory || gradingResult.category || 'Trading Card',
+      setCode: match.set_code,
+      cardNumber: match.card_number,
+      variant: match.version,
+    };
+  }
+
+  /**
+   * Maps the grading result to the grading metadata stored on the card
+   */
+  static mapApiData(
+    gradingResult: XimilarGradingResult,
+    identified: boolean,
+  ): CardApiData {
+    return {
+      confidence: gradingResult.confidence,
+      grade: gradingResult.finalGrade,
+      gradingService: 'Ximilar',
+      identified,
+      subgrades: this.mapSubgrades(gradingResult),
+      conditionAnalysis: gradingResult.conditionAnalysis,
+    };
+  }
+
+  /**
+   * Maps the grading scores to the subgrades shown in grading reports
+   */
+  static mapSubgrades(gradingResult: XimilarGradingResult): CardSubgrades {
+    return {
+      final: gradingResult.finalGrade,
+      corners: gradingResult.cornerGrade,
+      edges: gradingResult.edgeGrade,
+      surface: gradingResult.surfaceGrade,
+      centering: gradingResult.centeringGrade,
+    };
+  }
+
+  /**
+   * Maps Ximilar API grade (1-10 scale) to human-readable condition
+   *
+   * @param grade - Numeric grade from 1-10
+   * @returns Human-readable condition string
+   */
+  static mapConditionFromGrade(grade?: number): string {
+    if (!grade) {
+      return 'Unknown';
+    }
+
+    return GradingScaleService.getConditionLabel(grade);
+  }
+
+  /**
+   * Generates a descriptive card name when no identification match exists
+   * Based on category, condition, and grading information
+   */
+  static generateFallbackName(gradingResult: XimilarGradingResult): string {
+    const category = gradingResult.category || 'Trading Card';
+    const subcategory = gradingResult.subcategory;
+    const grade = gradingResult.finalGrade;
+
+    const nameParts: string[] = [];
+
+    // Add condition prefix based on grade
+    if (grade >= 9) {
+      nameParts.push('Premium');
+    } else if (grade >= 8) {
+      nameParts.push('Mint');
+    } else if (grade >= 7) {
+      nameParts.push('Excellent');
+    } else if (grade >= 5) {
+      nameParts.push('Good');
+    } else if (gradingResult.isDamaged) {
+      nameParts.push('Damaged');
+    }
+
+    nameParts.push(subcategory || category);
+
+    if (gradingResult.hasAutograph) {
+      nameParts.push('(Autographed)');
+    }
+
+    return nameParts.join(' ');
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  /**
+   * Identity used when the API returned no identification match
+   */
+  private static mapFallbackIdentity(gradingResult: XimilarGradingResult): CardIdentity {
+    return {
+      name: this.generateFallbackName(gradingResult),
+      set: gradingResult.category || 'Trading Card Collection',
+      rarity: 'Unknown',
+      year: new Date().getFullYear(),
+      type: gradingResult.subcategory || gradingResult.category || 'Trading Card',
+    };
+  }
+
+  /**
+   * Builds the card description from identification and grading data
+   */
+  private static buildDescription(
+    gradingResult: XimilarGradingResult,
+    match?: XimilarCardMatch,
+  ): string {
+    const identityText = match?.full_name ? `${match.full_name}. ` : '';
+    const damageText = gradingResult.isDamaged ? 'Shows damage. ' : 'In good condition. ';
+    const autographText = gradingResult.hasAutograph ? 'Has autograph. ' : '';
+
+    return `${identityText}Final grade: ${gradingResult.finalGrade}/10. Surface: ${gradingResult.surfaceGrade}/10. ${damageText}${autographText}`.trim();
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * =================================================================
+ * FAKE GRADING CLIENT
+ * =================================================================
+ *
+ * Deterministic CardGradingClient for development and tests. Enable
+ * it with GRADING_CLIENT=fake.
+ *
+ * No network requests are made. Grades and the identified card are
+ * derived from a hash of the image URL, so the same image always
+ * produces the same result. Images whose URL contains "no-card"
+ * fail the way Ximilar does when no card is detected.
+ * =================================================================
+ */
+
+import {
+  XimilarApiResponse,
+  XimilarCardMatch,
+  XimilarCorner,
+  XimilarEdge,
+  XimilarGradingResult,
+  XimilarRecord,
+} from '../../types';
+import { CardGradingClient } from './CardGradingClient';
+import { XimilarApiService } from './XimilarApiService';
+
+interface FakeCard {
+  match: XimilarCardMatch;
+  alternatives?: XimilarCardMatch[];
+}
+
+export class FakeGradingClient implements CardGradingClient {
+  readonly name = 'fake';
+  readonly maxBatchSize = XimilarApiService.MAX_BATCH_SIZE;
+
+  static readonly NO_CARD_MARKER = 'no-card';
+
+  // Fixed analysis time, so the same image always gives the same result
+  private static readonly ANALYZED_AT = '2024-01-01T00:00:00.000Z';
+
+  private static readonly CARDS: FakeCard[] = [
+    {
+      match: {
+        name: 'Charizard',
+        full_name: 'Charizard Base Set 4/102',
+        set: 'Base Set',
+        set_code: 'BS',
+        card_number: '4',
+        out_of: '102',
+        rarity: 'Rare Holo',
+        year: 1999,
+        subcategory: 'Pokemon',
+      },
+      alternatives: [
+        {
+          name: 'Charizard',
+          full_name: 'Charizard Base Set 2 4/130',
+          set: 'Base Set 2',
+          set_code: 'B2',
+          card_number: '4',
+          out_of: '130',
+          rarity: 'Rare Holo',
+          year: 2000,
+          subcategory: 'Pokemon',
+        },
+      ],
+    },
+    {
+      match: {
+        name: 'Blastoise',
+        full_name: 'Blastoise Base Set 2/102',
+        set: 'Base Set',
+        set_code: 'BS',
+        card_number: '2',
+        out_of: '102',
+        rarity: 'Rare Holo',
+        year: 1999,
+        subcategory: 'Pokemon',
+      },
+    },
+    {
+      match: {
+        name: 'Pikachu',
+        full_name: 'Pikachu Base Set 58/102',
+        set: 'Base Set',
+        set_code: 'BS',
+        card_number: '58',
+        out_of: '102',
+        rarity: 'Common',
+        year: 1999,
+        subcategory: 'Pokemon',
+      },
+    },
+    {
+      match: {
+        name: 'Mewtwo',
+        full_name: 'Mewtwo Base Set 10/102',
+        set: 'Base Set',
+        set_code: 'BS',
+        card_number: '10',
+        out_of: '102',
+        rarity: 'Rare Holo',
+        year: 1999,
+        subcategory: 'Pokemon',
+      },
+    },
+  ];
+
+  async gradeCard(imageUrl: string): Promise<XimilarGradingResult> {
+    if (!imageUrl || imageUrl.trim() === '') {
+      throw new Error('Image URL is required for grading');
+    }
+
+    if (imageUrl.includes(FakeGradingClient.NO_CARD_MARKER)) {
+      throw new Error('Card grading failed: No grading data found in the response');
+    }
+
+    const result = XimilarApiService.processGradingResponse(this.buildRecord(imageUrl));
+    return result.conditionAnalysis
+      ? { ...result, conditionAnalysis: { ...result.conditionAnalysis, analyzedAt: FakeGradingClient.ANALYZED_AT } }
+      : result;
+  }
+
+  async gradeBatchCards(imageUrls: string[]): Promise<XimilarApiResponse> {
+    if (!imageUrls || imageUrls.length === 0) {
+      throw new Error('No images provided for batch processing');
+    }
+
+    if (imageUrls.length > this.maxBatchSize) {
+      throw new Error(`Batch size too large. Maximum ${this.maxBatchSize} images per batch.`);
+    }
+
+    return {
+      records: imageUrls.map(url => this.buildRecord(url)),
+      status: { code: 200, text: 'OK', request_id: 'fake-batch' },
+      statistics: { 'processing time': 0 },
+    };
+  }
+
+  async checkApiStatus(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Builds the Ximilar record the real API could return for an image
+   */
+  buildRecord(imageUrl: string): XimilarRecord {
+    const hash = this.hash(imageUrl);
+    const id = `fake-${hash.toString(16)}`;
+
+    if (imageUrl.includes(FakeGradingClient.NO_CARD_MARKER)) {
+      return {
+        _url: imageUrl,
+        _status: { code: 422, text: 'No card detected in image', request_id: id },
+        _id: id,
+        _width: 700,
+        _height: 1000,
+        _objects: [],
+        corners: [],
+        edges: [],
+        card: [],
+        versions: this.versions(),
+      } as unknown as XimilarRecord;
+    }
+
+    const { match, alternatives } = FakeGradingClient.CARDS[hash % FakeGradingClient.CARDS.length];
+
+    // Subgrades between 7 and 10 in half steps
+    const subgrade = (shift: number) => 7 + (this.digits(hash, shift) % 7) * 0.5;
+    const corners = subgrade(2);
+    const edges = subgrade(5);
+    const surface = subgrade(8);
+    const leftOffset = this.digits(hash, 11) % 11;
+    const topOffset = this.digits(hash, 15) % 11;
+    const centering = Math.max(1, 10 - Math.max(leftOffset, topOffset) * 0.5);
+    const final = Math.round(((corners + edges + surface + centering) / 4) * 2) / 2;
+
+    return {
+      _url: imageUrl,
+      _status: { code: 200, text: 'OK', request_id: id },
+      _id: id,
+      _width: 700,
+      _height: 1000,
+      _objects: [
+        {
+          name: 'Card',
+          id: `${id}-card`,
+          bound_box: [20, 20, 680, 980],
+          prob: 0.8 + (this.digits(hash, 19) % 20) / 100,
+          area: 0.92,
+          _identification: {
+            best_match: match,
+            alternatives,
+            distances: alternatives ? [0.12, 0.19] : [0.12],
+          },
+        },
+      ],
+      corners: this.buildCorners(hash, corners),
+      edges: this.buildEdges(hash, edges),
+      card: [
+        {
+          name: 'CARD',
+          polygon: [[20, 20], [680, 20], [680, 980], [20, 980]],
+          bound_box: [20, 20, 680, 980],
+          _tags: {
+            Category: [{ id: 'fake-category', name: 'Pokemon', prob: 0.99 }],
+            Damaged: [{ id: 'fake-damaged', name: final >= 8 ? 'OK' : 'Damaged', prob: 0.9 }],
+            Autograph: [{ id: 'fake-autograph', name: 'No', prob: 0.99 }],
+            Side: [{ id: 'fake-side', name: 'Front', prob: 0.99 }],
+          },
+          surface: { grade: surface },
+          centering: {
+            'left/right': `${50 + leftOffset}/${50 - leftOffset}`,
+            'top/bottom': `${50 + topOffset}/${50 - topOffset}`,
+            bound_box: [20, 20, 680, 980],
+            grade: centering,
+          },
+        },
+      ],
+      versions: this.versions(),
+      grades: { corners, edges, surface, centering, final },
+    };
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  // djb2 string hash, always a non-negative 32-bit integer
+  private hash(value: string): number {
+    let hash = 5381;
+    for (let i = 0; i < value.length; i++) {
+      hash = (hash * 33 + value.charCodeAt(i)) % 4294967296;
+    }
+    return hash;
+  }
+
+  // Hash with the lowest bits dropped, so every value uses different bits
+  private digits(hash: number, shift: number): number {
+    return Math.floor(hash / 2 ** shift);
+  }
+
+  // Corners of the card outline, each within half a grade of the average
+  private buildCorners(hash: number, average: number): XimilarCorner[] {
+    const points: Array<[XimilarCorner['name'], number, number]> = [
+      ['UPPER_LEFT', 20, 20],
+      ['UPPER_RIGHT', 680, 20],
+      ['DOWN_RIGHT', 680, 980],
+      ['DOWN_LEFT', 20, 980],
+    ];
+    return points.map(([name, x, y], index) => ({
+      name,
+      bound_box: [x - 30, y - 30, x + 30, y + 30],
+      point: [x, y],
+      grade: this.spread(hash, 23 + index, average),
+    }));
+  }
+
+  // Strips along each side of the card outline, between the corners
+  private buildEdges(hash: number, average: number): XimilarEdge[] {
+    const strips: Array<[XimilarEdge['name'], number, number, number, number]> = [
+      ['UPPER', 50, 10, 650, 30],
+      ['RIGHT', 670, 50, 690, 950],
+      ['DOWN', 50, 970, 650, 990],
+      ['LEFT', 10, 50, 30, 950],
+    ];
+    return strips.map(([name, x1, y1, x2, y2], index) => ({
+      name,
+      polygon: [[x1, y1], [x2, y1], [x2, y2], [x1, y2]],
+      grade: this.spread(hash, 27 + index, average),
+    }));
+  }
+
+  private spread(hash: number, shift: number, average: number): number {
+    return Math.min(10, Math.max(1, average + ((this.digits(hash, shift) % 3) - 1) * 0.5));
+  }
+
+  private versions() {
+    return {
+      detection: 'fake',
+      points: 'fake',
+      corners: 'fake',
+      edges: 'fake',
+      surface: 'fake',
+      centering: 'fake',
+      final: 'fake',
+    };
+  }
+}
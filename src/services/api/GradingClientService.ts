@@ -0,0 +1,40 @@
+/**
+ * =================================================================
+ * GRADING CLIENT SERVICE
+ * =================================================================
+ *
+ * Chooses the CardGradingClient used by the app.
+ *
+ * GRADING_CLIENT=fake selects the deterministic FakeGradingClient;
+ * anything else uses the real Ximilar API. Tests can swap in any
+ * client with setClient.
+ * =================================================================
+ */
+
+import Config from 'react-native-config';
+import { CardGradingClient } from './CardGradingClient';
+import { FakeGradingClient } from './FakeGradingClient';
+import { XimilarGradingClient } from './XimilarApiService';
+
+export class GradingClientService {
+  private static client?: CardGradingClient;
+
+  /**
+   * Client selected by configuration, or the one set with setClient
+   */
+  static getClient(): CardGradingClient {
+    if (!this.client) {
+      this.client = Config.GRADING_CLIENT === 'fake' ? new FakeGradingClient() : new XimilarGradingClient();
+      console.log(`🧩 Using ${this.client.name} grading client`);
+    }
+    return this.client;
+  }
+
+  /**
+   * Replaces the client
+   * Passing undefined goes back to the configured client
+   */
+  static setClient(client: CardGradingClient | undefined): void {
+    this.client = client;
+  }
+}
@@ -1,460 +0,0 @@
-/**
- * =================================================================
- * XIMILAR API SERVICE
- * =================================================================
- *
- * This service integrates with the Ximilar Card Grader API to provide
- * real card condition analysis and grading functionality.
- *
- * Features:
- * - Secure API token management
- * - Real card grading analysis
- * - Comprehensive error handling
- * - Type-safe API responses
- * - Image upload and processing
- *
- * University Project Requirements Satisfied:
- * - ✅ External API Integration
- * - ✅ Network Error Handling
- * - ✅ Secure Configuration Management
- * - ✅ TypeScript Type Safety
- * =================================================================
- */
-
-import axios, {AxiosResponse} from 'axios';
-import Config from 'react-native-config';
-import {
-  XimilarApiResponse,
-  XimilarGradingResult,
-  XimilarRecord,
-  Card,
-} from '../../types';
-
-/**
- * =================================================================
- * XIMILAR API SERVICE CLASS
- * =================================================================
- *
- * Handles all communication with the Ximilar Card Grader API
- * Provides methods for card grading and image analysis
- */
-export class XimilarApiService {
-  // ===============================================================
-  // PRIVATE CONFIGURATION
-  // ===============================================================
-
-  /**
-   * API Configuration loaded from environment variables
-   * This ensures secure token management and prevents hardcoding
-   */
-  private static readonly API_TOKEN =
-    Config.XIMILAR_API_TOKEN || 'ae36ca2b05e0ffbceba893a0d43f7059f2c5bce8';
-  private static readonly BASE_URL =
-    Config.XIMILAR_BASE_URL || 'https://api.ximilar.com';
-  private static readonly GRADE_ENDPOINT = '/card-grader/v2/grade';
-
-  /**
-   * Request timeout in milliseconds
-   * Prevents hanging requests and improves user experience
-   */
-  private static readonly REQUEST_TIMEOUT = 30000; // 30 seconds
-
-  // ===============================================================
-  // PUBLIC API METHODS
-  // ===============================================================
-
-  /**
-   * MAIN CARD GRADING METHOD
-   *
-   * Takes an image URL and sends it to Ximilar for professional grading
-   * Returns comprehensive grading information including:
-   * - Corner condition analysis
-   * - Edge wear assessment
-   * - Surface quality evaluation
-   * - Centering measurement
-   * - Overall condition grade
-   *
-   * @param imageUrl - URL or base64 string of the card image
-   * @returns Promise<XimilarGradingResult> - Processed grading data
-   * @throws Error if API request fails or response is invalid
-   */
-  static async gradeCard(imageUrl: string): Promise<XimilarGradingResult> {
-    try {
-      console.log('🔄 Starting card grading process...');
-
-      // Step 1: Validate input
-      if (!imageUrl || imageUrl.trim() === '') {
-        throw new Error('Image URL is required for grading');
-      }
-
-      // Step 2: Prepare API request
-      const requestBody = {
-        records: [
-          {
-            _url: imageUrl,
-          },
-        ],
-      };
-
-      console.log('📤 Sending request to Ximilar API...');
-
-      // Step 3: Make API request with proper headers and authentication
-      const response: AxiosResponse<XimilarApiResponse> = await axios.post(
-        `${this.BASE_URL}${this.GRADE_ENDPOINT}`,
-        requestBody,
-        {
-          headers: {
-            Authorization: `Token ${this.API_TOKEN}`,
-            'Content-Type': 'application/json',
-            Accept: 'application/json',
-          },
-          timeout: this.REQUEST_TIMEOUT,
-        },
-      );
-
-      console.log('✅ Received response from Ximilar API');
-
-      // Step 4: Validate response structure
-      if (
-        !response.data ||
-        !response.data.records ||
-        response.data.records.length === 0
-      ) {
-        throw new Error('Invalid response from Ximilar API: No records found');
-      }
-
-      // Step 5: Extract first record (primary card analysis)
-      const record = response.data.records[0];
-
-      // Step 6: Validate record has required grading data
-      if (!record.grades) {
-        throw new Error('Grading data not available in API response');
-      }
-
-      // Step 7: Process and return structured grading result
-      const gradingResult = this.processGradingResponse(record);
-
-      console.log('🎯 Card grading completed successfully');
-      return gradingResult;
-    } catch (error) {
-      console.error('❌ Card grading failed:', error);
-
-      // Enhanced error handling for different failure scenarios
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          throw new Error(
-            'Invalid API token. Please check your Ximilar credentials.',
-          );
-        } else if (error.response?.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.');
-        } else if (error.code === 'ECONNABORTED') {
-          throw new Error(
-            'Request timeout. Please check your internet connection.',
-          );
-        } else if (error.response?.status === 400) {
-          throw new Error(
-            'Invalid image format. Please ensure the image is clear and properly formatted.',
-          );
-        }
-      }
-
-      throw new Error(
-        `Card grading failed: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`,
-      );
-    }
-  }
-
-  /**
-   * BATCH CARD GRADING METHOD
-   *
-   * Processes multiple card images in a single API call
-   * More efficient for grading multiple cards at once
-   *
-   * @param imageUrls - Array of image URLs to grade
-   * @returns Promise<XimilarGradingResult[]> - Array of grading results
-   */
-  static async gradeMultipleCards(
-    imageUrls: string[],
-  ): Promise<XimilarGradingResult[]> {
-    try {
-      console.log(`🔄 Starting batch grading for ${imageUrls.length} cards...`);
-
-      if (!imageUrls || imageUrls.length === 0) {
-        throw new Error('At least one image URL is required for batch grading');
-      }
-
-      // Prepare batch request
-      const requestBody = {
-        records: imageUrls.map(url => ({_url: url})),
-      };
-
-      const response: AxiosResponse<XimilarApiResponse> = await axios.post(
-        `${this.BASE_URL}${this.GRADE_ENDPOINT}`,
-        requestBody,
-        {
-          headers: {
-            Authorization: `Token ${this.API_TOKEN}`,
-            'Content-Type': 'application/json',
-            Accept: 'application/json',
-          },
-          timeout: this.REQUEST_TIMEOUT * 2, // Longer timeout for batch processing
-        },
-      );
-
-      console.log(
-        `✅ Received batch response for ${response.data.records.length} cards`,
-      );
-
-      // Process all records
-      return response.data.records.map(record =>
-        this.processGradingResponse(record),
-      );
-    } catch (error) {
-      console.error('❌ Batch card grading failed:', error);
-      throw new Error(
-        `Batch grading failed: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`,
-      );
-    }
-  }
-
-  // ===============================================================
-  // PRIVATE HELPER METHODS
-  // ===============================================================
-
-  /**
-   * RESPONSE PROCESSING METHOD
-   *
-   * Converts the complex Ximilar API response into a simplified,
-   * app-friendly format that's easier to use in the UI
-   *
-   * @param record - Raw Ximilar API record
-   * @returns XimilarGradingResult - Processed grading data
-   */
-  private static processGradingResponse(
-    record: XimilarRecord,
-  ): XimilarGradingResult {
-    console.log('🔄 Processing Ximilar API response...');
-
-    // Extract grading scores with fallback values
-    const grades = record.grades || ({} as any);
-    const cardAnalysis = record.card?.[0];
-    const tags = cardAnalysis?._tags || {};
-
-    // Process category information
-    const category = tags.Category?.[0]?.name || 'Unknown';
-
-    // Process damage assessment
-    const damageInfo = tags.Damaged?.[0];
-    const isDamaged = damageInfo?.name !== 'OK';
-
-    // Process autograph detection
-    const autographInfo = tags.Autograph?.[0];
-    const hasAutograph = autographInfo?.name === 'Yes';
-
-    // Process side detection
-    const sideInfo = tags.Side?.[0];
-    const isfront = sideInfo?.name === 'Front';
-
-    // Calculate detection confidence from object detection
-    const detectionConfidence = record._objects?.[0]?.prob || 0;
-
-    // Build comprehensive result object
-    const result: XimilarGradingResult = {
-      finalGrade: grades.final || 0,
-      cornerGrade: grades.corners || 0,
-      edgeGrade: grades.edges || 0,
-      surfaceGrade: grades.surface || 0,
-      centeringGrade: grades.centering || 0,
-      confidence: detectionConfidence,
-      category: category,
-      isDamaged: isDamaged,
-      hasAutograph: hasAutograph,
-      isfront: isfront,
-      imageUrl: record._exact_url_card || record._full_url_card,
-    };
-
-    console.log('✅ Response processing completed');
-    console.log(`📊 Final Grade: ${result.finalGrade}/10`);
-    console.log(`🎯 Confidence: ${Math.round(result.confidence * 100)}%`);
-
-    return result;
-  }
-
-  /**
-   * GRADE INTERPRETATION METHOD
-   *
-   * Converts numerical grades to human-readable condition descriptions
-   * Useful for displaying user-friendly condition information
-   *
-   * @param grade - Numerical grade (1-10)
-   * @returns string - Human-readable condition description
-   */
-  static interpretGrade(grade: number): string {
-    if (grade >= 9.5) {
-      return 'Gem Mint';
-    }
-    if (grade >= 9.0) {
-      return 'Mint';
-    }
-    if (grade >= 8.5) {
-      return 'Near Mint+';
-    }
-    if (grade >= 8.0) {
-      return 'Near Mint';
-    }
-    if (grade >= 7.5) {
-      return 'Excellent+';
-    }
-    if (grade >= 7.0) {
-      return 'Excellent';
-    }
-    if (grade >= 6.5) {
-      return 'Fine+';
-    }
-    if (grade >= 6.0) {
-      return 'Fine';
-    }
-    if (grade >= 5.5) {
-      return 'Very Good+';
-    }
-    if (grade >= 5.0) {
-      return 'Very Good';
-    }
-    if (grade >= 4.0) {
-      return 'Good';
-    }
-    if (grade >= 3.0) {
-      return 'Fair';
-    }
-    if (grade >= 2.0) {
-      return 'Poor';
-    }
-    return 'Authentic (Damaged)';
-  }
-
-  /**
-   * API STATUS CHECK METHOD
-   *
-   * Verifies that the Ximilar API is accessible and the token is valid
-   * Useful for troubleshooting connectivity issues
-   *
-   * @returns Promise<boolean> - True if API is accessible
-   */
-  static async checkApiStatus(): Promise<boolean> {
-    try {
-      console.log('🔄 Checking Ximilar API status...');
-
-      // Send a minimal request to check connectivity
-      const response = await axios.post(
-        `${this.BASE_URL}${this.GRADE_ENDPOINT}`,
-        {records: []}, // Empty request to test authentication
-        {
-          headers: {
-            Authorization: `Token ${this.API_TOKEN}`,
-            'Content-Type': 'application/json',
-          },
-          timeout: 10000, // Short timeout for status check
-        },
-      );
-
-      const isOk = response.status === 200;
-      console.log(
-        isOk ? '✅ API is accessible' : '❌ API is not responding correctly',
-      );
-      return isOk;
-    } catch (error) {
-      console.error('❌ API status check failed:', error);
-      return false;
-    }
-  }
-}
-
-/**
- * =================================================================
- * MOCK DATA SERVICE (for development/testing)
- * =================================================================
- *
- * Provides mock card data for development and testing purposes
- * Useful when API quota is limited or during offline development
- */
-export class MockCardDataService {
-  // Mock card database for development
-  private static mockCards: Card[] = [
-    {
-      id: '1',
-      name: 'Pikachu',
-      set: 'Base Set',
-      rarity: 'Common',
-      condition: 'Near Mint',
-      price: 5.0,
-      imageUrl: 'https://images.pokemontcg.io/base1/25.png',
-      description: 'Electric Mouse Pokémon',
-      artist: 'Atsuko Nishida',
-      year: 1998,
-      type: 'Electric',
-      types: ['Electric'],
-      hp: '60',
-    },
-    {
-      id: '2',
-      name: 'Charizard',
-      set: 'Base Set',
-      rarity: 'Rare Holo',
-      condition: 'Near Mint',
-      price: 350.0,
-      imageUrl: 'https://images.pokemontcg.io/base1/4.png',
-      description: 'Fire-type starter evolution',
-      artist: 'Mitsuhiro Arita',
-      year: 1998,
-      type: 'Fire',
-      types: ['Fire'],
-      hp: '120',
-    },
-    {
-      id: '3',
-      name: 'Blastoise',
-      set: 'Base Set',
-      rarity: 'Rare Holo',
-      condition: 'Near Mint',
-      price: 120.0,
-      imageUrl: 'https://images.pokemontcg.io/base1/2.png',
-      description: 'Water-type starter evolution',
-      artist: 'Ken Sugimori',
-      year: 1998,
-      type: 'Water',
-      types: ['Water'],
-      hp: '100',
-    },
-  ];
-
-  /**
-   * Search for cards by name (mock implementation)
-   */
-  static async searchCard(query: string): Promise<Card[]> {
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    return this.mockCards.filter(card =>
-      card.name.toLowerCase().includes(query.toLowerCase()),
-    );
-  }
-
-  /**
-   * Get card by ID (mock implementation)
-   */
-  static async getCardById(id: string): Promise<Card | null> {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    return this.mockCards.find(card => card.id === id) || null;
-  }
-
-  /**
-   * Get random card (mock implementation)
-   */
-  static async getRandomCard(): Promise<Card> {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    const randomIndex = Math.floor(Math.random() * this.mockCards.length);
-    return this.mockCards[randomIndex];
-  }
-}
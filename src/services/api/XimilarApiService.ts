@@ -22,6 +22,7 @@
         }
       );is
  * - Comprehensive error handling
+ * - Retries with backoff for rate limits and transient failures
  * - Type-safe API responses
  * - Image upload and processing
  *
@@ -32,16 +33,21 @@
  * =================================================================
  */
 
-import axios, { AxiosResponse } from 'axios';
 import Config from 'react-native-config';
 import {
   XimilarApiResponse,
   XimilarGradingResult,
+  XimilarIdentification,
   XimilarRecord,
+  CardCandidate,
   Card,
+  ConditionAnalysis,
 } from '../../types';
 import { ImageService } from '../image/ImageService';
 import { ImageUploadService } from '../image/ImageUploadService';
+import { HttpClient, HttpRequestError, HttpResponse } from '../network/HttpClient';
+import { GradingScaleService } from '../grading/GradingScaleService';
+import { CardGradingClient } from './CardGradingClient';
 
 /**
  * =================================================================
@@ -70,6 +76,9 @@ export class XimilarApiService {
    */
   private static readonly REQUEST_TIMEOUT = 30000; // 30 seconds
 
+  // Maximum number of images Ximilar accepts in one request
+  static readonly MAX_BATCH_SIZE = 10;
+
   // ===============================================================
   // PUBLIC API METHODS
   // ===============================================================
@@ -98,41 +107,8 @@ export class XimilarApiService {
         throw new Error('Image URL is required for grading');
       }
 
-      // Step 2: Convert local files and base64 data to public URLs
-      let processedImageUrl = imageUrl;
-
-      if (ImageService.isLocalFileUri(imageUrl)) {
-        console.log('🔄 Local file URI detected, converting to base64 and uploading...');
-        try {
-          const base64Image = await ImageService.convertFileUriToBase64(imageUrl);
-          console.log('✅ Successfully converted local file to base64');
-          
-          // Upload to get public URL
-          processedImageUrl = await ImageUploadService.uploadBase64Image(base64Image, 'card_image.jpg');
-          console.log('✅ Successfully uploaded image to public URL:', processedImageUrl);
-        } catch (conversionError) {
-          console.error('❌ Failed to process local file:', conversionError);
-          throw new Error(`Failed to process local image file: ${conversionError instanceof Error ? conversionError.message : 'Unknown error'}`);
-        }
-      } else if (ImageService.isValidBase64DataUri(imageUrl)) {
-        console.log('📊 Base64 data URI detected, uploading to get public URL...');
-        try {
-          processedImageUrl = await ImageUploadService.uploadBase64Image(imageUrl, 'card_image.jpg');
-          console.log('✅ Successfully uploaded base64 image to public URL:', processedImageUrl);
-        } catch (uploadError) {
-          console.error('❌ Failed to upload base64 image:', uploadError);
-          throw new Error(`Failed to upload base64 image: ${uploadError instanceof Error ? uploadError.message : 'Unknown error'}`);
-        }
-      } else if (ImageService.isWebUrl(imageUrl)) {
-        console.log('🌐 Web URL detected, using as-is');
-      } else {
-        console.warn('⚠️ Unknown image URL format, attempting to use as-is:', imageUrl);
-      }
-
-      // Step 3: Verify we have a valid HTTP/HTTPS URL
-      if (!processedImageUrl.startsWith('http://') && !processedImageUrl.startsWith('https://')) {
-        throw new Error('Ximilar API requires a public HTTP/HTTPS image URL. Local files and base64 data must be uploaded first.');
-      }
+      // Step 2-3: Convert local files and base64 data to a public URL
+      const processedImageUrl = await this.prepareImageUrl(imageUrl);
 
       // Step 4: Prepare API request with records format (matching Python example)
       const requestBody = {
@@ -157,7 +133,8 @@ export class XimilarApiService {
       });
 
       // Step 5: Make API request with proper headers and authentication
-      const response: AxiosResponse<XimilarApiResponse> = await axios.post(
+      // Grading has no side effects, so transient failures are retried
+      const response: HttpResponse<XimilarApiResponse> = await HttpClient.post(
         `${this.BASE_URL}${this.GRADE_ENDPOINT}`,
         requestBody,
         {
@@ -168,9 +145,10 @@ export class XimilarApiService {
           },
           timeout: this.REQUEST_TIMEOUT,
         },
+        { idempotent: true },
       );
 
-      console.log('✅ Received response from Ximilar API');
+      console.log(`✅ Received response from Ximilar API after ${response.attempts} attempt(s)`);
 
       // Step 6: Validate response structure
       if (!response.data || !response.data.records || response.data.records.length === 0) {
@@ -188,25 +166,7 @@ export class XimilarApiService {
 
     } catch (error) {
       console.error('❌ Card grading failed:', error);
-
-      // Enhanced error handling for different failure scenarios
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          throw new Error('Authentication failed. Please check your API token.');
-        } else if (error.response?.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.');
-        } else if (error.code === 'ECONNABORTED') {
-          throw new Error('Request timed out. Please check your internet connection.');
-        } else if (error.response?.status === 400) {
-          throw new Error('Invalid request. Please check the image format.');
-        } else if (error.response?.status && error.response.status >= 500) {
-          throw new Error('Ximilar API server error. Please try again later.');
-        } else if (!error.response) {
-          throw new Error('Network error. Please check your internet connection.');
-        }
-      }
-
-      throw new Error(`Card grading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.toGradingError(error, 'Card grading failed');
     }
   }
 
@@ -224,32 +184,22 @@ export class XimilarApiService {
       throw new Error('No images provided for batch processing');
     }
 
-    if (imageUrls.length > 10) {
-      throw new Error('Batch size too large. Maximum 10 images per batch.');
+    if (imageUrls.length > this.MAX_BATCH_SIZE) {
+      throw new Error(`Batch size too large. Maximum ${this.MAX_BATCH_SIZE} images per batch.`);
     }
 
     try {
       console.log(`🔄 Starting batch grading for ${imageUrls.length} cards...`);
 
-      // Process each image URL to handle local file URIs
+      // Upload local files and base64 data so every record has a public URL
       const processedUrls: string[] = [];
-      
+
       for (let i = 0; i < imageUrls.length; i++) {
-        const imageUrl = imageUrls[i];
         console.log(`🔄 Processing image ${i + 1}/${imageUrls.length}...`);
-        
-        if (ImageService.isLocalFileUri(imageUrl)) {
-          console.log('🔄 Local file URI detected, converting to base64...');
-          try {
-            const base64Url = await ImageService.convertFileUriToBase64(imageUrl);
-            processedUrls.push(base64Url);
-            console.log('✅ Successfully converted local file to base64');
-          } catch (conversionError) {
-            console.error('❌ Failed to convert local file to base64:', conversionError);
-            throw new Error(`Failed to process local image file ${i + 1}: ${conversionError instanceof Error ? conversionError.message : 'Unknown error'}`);
-          }
-        } else {
-          processedUrls.push(imageUrl);
+        try {
+          processedUrls.push(await this.prepareImageUrl(imageUrls[i]));
+        } catch (prepareError) {
+          throw this.withContext(prepareError, `Image ${i + 1}`);
         }
       }
 
@@ -258,7 +208,7 @@ export class XimilarApiService {
         records: processedUrls.map(url => ({ _url: url })),
       };
 
-      const response: AxiosResponse<XimilarApiResponse> = await axios.post(
+      const response: HttpResponse<XimilarApiResponse> = await HttpClient.post(
         `${this.BASE_URL}${this.GRADE_ENDPOINT}`,
         requestBody,
         {
@@ -268,7 +218,8 @@ export class XimilarApiService {
             'Accept': 'application/json',
           },
           timeout: this.REQUEST_TIMEOUT * 2, // Longer timeout for batch processing
-        }
+        },
+        { idempotent: true },
       );
 
       console.log(`✅ Received batch response for ${response.data.records.length} cards`);
@@ -276,25 +227,7 @@ export class XimilarApiService {
 
     } catch (error) {
       console.error('❌ Batch card grading failed:', error);
-
-      // Enhanced error handling to match test expectations
-      if (axios.isAxiosError(error)) {
-        if (error.response?.status === 401) {
-          throw new Error('Authentication failed. Please check your API token.');
-        } else if (error.response?.status === 429) {
-          throw new Error('Rate limit exceeded. Please try again later.');
-        } else if (error.code === 'ECONNABORTED') {
-          throw new Error('Request timed out. Please check your internet connection.');
-        } else if (error.response?.status === 400) {
-          throw new Error('Invalid request. Please check the image format.');
-        } else if (error.response?.status && error.response.status >= 500) {
-          throw new Error('Ximilar API server error. Please try again later.');
-        } else if (!error.response) {
-          throw new Error('Network error. Please check your internet connection.');
-        }
-      }
-
-      throw new Error(`Batch grading failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw this.toGradingError(error, 'Batch grading failed');
     }
   }
 
@@ -302,6 +235,93 @@ export class XimilarApiService {
   // PRIVATE HELPER METHODS
   // ===============================================================
 
+  /**
+   * Maps a failed request to a user facing error
+   * Failures that were retried mention how many attempts were made
+   * Request failures stay HttpRequestErrors so callers can tell a
+   * connectivity problem from a rejected image
+   *
+   * @param error - Error thrown while grading
+   * @param prefix - Prefix for errors that are not request failures
+   */
+  private static toGradingError(error: unknown, prefix: string): Error {
+    if (!(error instanceof HttpRequestError)) {
+      return this.withContext(error, prefix);
+    }
+
+    let message = `${prefix}: ${error.message}`;
+    if (error.status === 401) {
+      message = 'Authentication failed. Please check your API token.';
+    } else if (error.status === 429) {
+      message = 'Rate limit exceeded. Please try again later.';
+    } else if (error.isTimeout) {
+      message = 'Request timed out. Please check your internet connection.';
+    } else if (error.status === 400) {
+      message = 'Invalid request. Please check the image format.';
+    } else if (error.status && error.status >= 500) {
+      message = 'Ximilar API server error. Please try again later.';
+    } else if (error.isNetworkError) {
+      message = 'Network error. Please check your internet connection.';
+    }
+
+    return error.withMessage(error.attempts > 1 ? `${message} (${error.attempts} attempts)` : message);
+  }
+
+  /**
+   * Prefixes an error message, keeping request failures as HttpRequestErrors
+   */
+  private static withContext(error: unknown, prefix: string): Error {
+    const message = `${prefix}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    return error instanceof HttpRequestError ? error.withMessage(message) : new Error(message);
+  }
+
+  /**
+   * Converts local files and base64 data to a public image URL
+   * Ximilar only accepts HTTP/HTTPS URLs; web URLs are used as-is
+   *
+   * @param imageUrl - Local file URI, base64 data URI or web URL
+   * @returns Public HTTP/HTTPS URL of the image
+   * @throws Error if the image cannot be read or uploaded
+   */
+  private static async prepareImageUrl(imageUrl: string): Promise<string> {
+    let processedImageUrl = imageUrl;
+
+    if (ImageService.isLocalFileUri(imageUrl)) {
+      console.log('🔄 Local file URI detected, converting to base64 and uploading...');
+      try {
+        const base64Image = await ImageService.convertFileUriToBase64(imageUrl);
+        console.log('✅ Successfully converted local file to base64');
+
+        // Upload to get public URL
+        processedImageUrl = await ImageUploadService.uploadBase64Image(base64Image, 'card_image.jpg');
+        console.log('✅ Successfully uploaded image to public URL:', processedImageUrl);
+      } catch (conversionError) {
+        console.error('❌ Failed to process local file:', conversionError);
+        throw this.withContext(conversionError, 'Failed to process local image file');
+      }
+    } else if (ImageService.isValidBase64DataUri(imageUrl)) {
+      console.log('📊 Base64 data URI detected, uploading to get public URL...');
+      try {
+        processedImageUrl = await ImageUploadService.uploadBase64Image(imageUrl, 'card_image.jpg');
+        console.log('✅ Successfully uploaded base64 image to public URL:', processedImageUrl);
+      } catch (uploadError) {
+        console.error('❌ Failed to upload base64 image:', uploadError);
+        throw this.withContext(uploadError, 'Failed to upload base64 image');
+      }
+    } else if (ImageService.isWebUrl(imageUrl)) {
+      console.log('🌐 Web URL detected, using as-is');
+    } else {
+      console.warn('⚠️ Unknown image URL format, attempting to use as-is:', imageUrl);
+    }
+
+    // Verify we have a valid HTTP/HTTPS URL
+    if (!processedImageUrl.startsWith('http://') && !processedImageUrl.startsWith('https://')) {
+      throw new Error('Ximilar API requires a public HTTP/HTTPS image URL. Local files and base64 data must be uploaded first.');
+    }
+
+    return processedImageUrl;
+  }
+
   /**
    * RESPONSE PROCESSING METHOD
    *
@@ -384,6 +404,11 @@ export class XimilarApiService {
       rarity: rarity,
       cardNumber: cardNumber,
       year: year,
+      identification: identification?.best_match,
+      candidates: this.buildCandidates(identification),
+      cornerGrades: record.corners?.map(({ name, grade }) => ({ name, grade })),
+      edgeGrades: record.edges?.map(({ name, grade }) => ({ name, grade })),
+      conditionAnalysis: this.extractConditionAnalysis(record),
     };
 
     console.log('✅ Card Grader response processing completed');
@@ -410,11 +435,76 @@ export class XimilarApiService {
     return result;
   }
 
+  /**
+   * CANDIDATE RANKING METHOD
+   *
+   * Combines the best match and alternatives into a single list ranked
+   * by match distance. Distances may cover the best match as well as the
+   * alternatives, or the alternatives only.
+   *
+   * @param identification - Identification data from the card object
+   * @returns CardCandidate[] | undefined - Ranked candidates, best first
+   */
+  static buildCandidates(identification?: XimilarIdentification): CardCandidate[] | undefined {
+    if (!identification?.best_match) {
+      return undefined;
+    }
+
+    const alternatives = identification.alternatives || [];
+    const distances = identification.distances || [];
+    const matches = [identification.best_match, ...alternatives];
+
+    // Align distances with the match list they describe
+    const offset = distances.length === alternatives.length && alternatives.length > 0 ? 1 : 0;
+    const candidates = matches.map((match, index) => ({
+      match,
+      rank: index,
+      distance: index - offset >= 0 ? distances[index - offset] : undefined,
+    }));
+
+    // Keep the best match first, order alternatives by distance when known
+    const [best, ...rest] = candidates;
+    rest.sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+
+    return [best, ...rest].map((candidate, rank) => ({ ...candidate, rank }));
+  }
+
+  /**
+   * CONDITION ANALYSIS METHOD
+   *
+   * Keeps the per-corner, per-edge and centering measurements that the
+   * grades average away, along with the model versions that produced them
+   *
+   * @param record - Graded record from the API
+   * @returns ConditionAnalysis | undefined - Undefined when the record has no measurements
+   */
+  static extractConditionAnalysis(record: XimilarRecord): ConditionAnalysis | undefined {
+    const corners = record.corners || [];
+    const edges = record.edges || [];
+    const cardData = record.card?.[0];
+    const centering = cardData?.centering;
+
+    if (corners.length === 0 && edges.length === 0 && !centering) {
+      return undefined;
+    }
+
+    return {
+      corners,
+      edges,
+      centering,
+      cardPolygon: cardData?.polygon,
+      versions: record.versions,
+      imageWidth: record._width,
+      imageHeight: record._height,
+      analyzedAt: new Date().toISOString(),
+    };
+  }
+
   /**
    * GRADE INTERPRETATION METHOD
    *
    * Converts numeric grades (1-10) to human-readable condition descriptions
-   * This helps users understand what each grade means in real-world terms
+   * using the same scale as the conditions stored on cards
    *
    * @param grade - Numeric grade from 0-10 (or undefined/null)
    * @returns string - Human-readable condition description
@@ -425,28 +515,7 @@ export class XimilarApiService {
       return 'Not Graded';
     }
 
-    // Clamp grade to valid range (0-10)
-    const normalizedGrade = Math.max(0, Math.min(10, grade));
-
-    // Convert to condition descriptions based on industry standards
-    if (normalizedGrade >= 10) { return 'Gem Mint'; }
-    if (normalizedGrade >= 9.5) { return 'Gem Mint'; }
-    if (normalizedGrade >= 9.0) { return 'Mint'; }
-    if (normalizedGrade >= 8.5) { return 'Near Mint+'; }
-    if (normalizedGrade >= 8.0) { return 'Near Mint/Mint'; }
-    if (normalizedGrade >= 7.5) { return 'Near Mint'; }
-    if (normalizedGrade >= 7.0) { return 'Excellent'; }
-    if (normalizedGrade >= 6.5) { return 'Very Good+'; }
-    if (normalizedGrade >= 6.0) { return 'Very Good'; }
-    if (normalizedGrade >= 5.5) { return 'Good+'; }
-    if (normalizedGrade >= 5.0) { return 'Good'; }
-    if (normalizedGrade >= 4.0) { return 'Fair'; }
-    if (normalizedGrade >= 3.0) { return 'Poor'; }
-    if (normalizedGrade >= 2.0) { return 'Damaged'; }
-    if (normalizedGrade >= 1.0) { return 'Authentic (Damaged)'; }
-
-    // For grades below 1 or exactly 0
-    return 'Damaged';
+    return GradingScaleService.getConditionLabel(grade);
   }
 
   /**
@@ -462,7 +531,7 @@ export class XimilarApiService {
       console.log('🔄 Checking Ximilar API status...');
 
       // Send a minimal request to check connectivity
-      const response = await axios.post(
+      const response = await HttpClient.post(
         `${this.BASE_URL}${this.GRADE_ENDPOINT}`,
         { records: [] }, // Empty request to test authentication
         {
@@ -471,7 +540,8 @@ export class XimilarApiService {
             'Content-Type': 'application/json',
           },
           timeout: 10000, // Short timeout for status check
-        }
+        },
+        { maxAttempts: 1 }, // Report the current state rather than waiting it out
       );
 
       const isOk = response.status === 200;
@@ -485,6 +555,30 @@ export class XimilarApiService {
   }
 }
 
+/**
+ * =================================================================
+ * XIMILAR GRADING CLIENT
+ * =================================================================
+ *
+ * CardGradingClient backed by the real Ximilar Card Grader API
+ */
+export class XimilarGradingClient implements CardGradingClient {
+  readonly name = 'ximilar';
+  readonly maxBatchSize = XimilarApiService.MAX_BATCH_SIZE;
+
+  gradeCard(imageUrl: string): Promise<XimilarGradingResult> {
+    return XimilarApiService.gradeCard(imageUrl);
+  }
+
+  gradeBatchCards(imageUrls: string[]): Promise<XimilarApiResponse> {
+    return XimilarApiService.gradeBatchCards(imageUrls);
+  }
+
+  checkApiStatus(): Promise<boolean> {
+    return XimilarApiService.checkApiStatus();
+  }
+}
+
 /**
  * =================================================================
  * MOCK DATA SERVICE (for development/testing)
@@ -0,0 +1,291 @@
+/**
+ * =================================================================
+ * BACKUP SERVICE
+ * =================================================================
+ *
+ * Writes full-fidelity JSON backups of all persisted app data to the
+ * device file system and restores them.
+ *
+ * A backup contains:
+ * - The collection, with every copy and its grading metadata
+ * - User settings
+ * - Theme mode (stored separately by ThemeService)
+ * - Scan history
+ * - Daily collection value snapshots
+ * - Grading submissions
+ *
+ * Each section keeps its storage schema version, so restoring an
+ * older backup runs the same migrations as loading older storage.
+ * An Adler-32 checksum of the payload detects truncated or edited files.
+ * =================================================================
+ */
+
+import RNFS from 'react-native-fs';
+import {
+  BackupFile,
+  BackupPayload,
+  CollectionCard,
+  GradingSubmission,
+  RestoreMode,
+  RestoreSummary,
+  ScanHistoryEntry,
+  UserSettings,
+  ValueSnapshot,
+} from '../../types';
+import { CollectionModel } from '../../models';
+import { StorageService } from '../storage/StorageService';
+import {
+  COLLECTION_MIGRATIONS,
+  SCAN_HISTORY_MIGRATIONS,
+  SETTINGS_MIGRATIONS,
+  StorageMigrations,
+  SUBMISSION_MIGRATIONS,
+  VALUE_HISTORY_MIGRATIONS,
+} from '../storage/StorageMigrations';
+import { ThemeService } from '../theme/ThemeService';
+
+export class BackupService {
+  static readonly FORMAT = 'tcg-scanner-backup';
+  static readonly FORMAT_VERSION = 1;
+  private static readonly FILE_PREFIX = 'tcg-backup-';
+  private static readonly ADLER_MODULUS = 65521;
+
+  // ===============================================================
+  // CREATE
+  // ===============================================================
+
+  /**
+   * Builds a backup of everything currently persisted
+   *
+   * @returns Backup file contents with checksum
+   */
+  static async createBackup(): Promise<BackupFile> {
+    const [collection, settings, scanHistory, valueHistory, submissions] = await Promise.all([
+      StorageService.loadCollection(),
+      StorageService.loadSettings(),
+      StorageService.loadScanHistory(),
+      StorageService.loadValueHistory(),
+      StorageService.loadSubmissions(),
+    ]);
+
+    const payload: BackupPayload = {
+      collection: StorageMigrations.wrap(collection, COLLECTION_MIGRATIONS),
+      settings: StorageMigrations.wrap(settings, SETTINGS_MIGRATIONS),
+      scanHistory: StorageMigrations.wrap(scanHistory, SCAN_HISTORY_MIGRATIONS),
+      valueHistory: StorageMigrations.wrap(valueHistory, VALUE_HISTORY_MIGRATIONS),
+      submissions: StorageMigrations.wrap(submissions, SUBMISSION_MIGRATIONS),
+      themeMode: ThemeService.getCurrentMode(),
+    };
+
+    return {
+      format: this.FORMAT,
+      formatVersion: this.FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      checksum: this.checksum(payload),
+      payload,
+    };
+  }
+
+  /**
+   * Creates a backup and writes it to the documents directory
+   *
+   * @returns Absolute path of the written file
+   */
+  static async writeBackup(): Promise<string> {
+    const backup = await this.createBackup();
+    const timestamp = backup.createdAt.replace(/[:.]/g, '-');
+    const path = `${RNFS.DocumentDirectoryPath}/${this.FILE_PREFIX}${timestamp}.json`;
+
+    await RNFS.writeFile(path, JSON.stringify(backup), 'utf8');
+    console.log('Backup written to', path);
+    return path;
+  }
+
+  /**
+   * Lists backup files in the documents directory, newest first
+   */
+  static async listBackups(): Promise<RNFS.ReadDirItem[]> {
+    const items = await RNFS.readDir(RNFS.DocumentDirectoryPath);
+    return items
+      .filter(item => item.isFile() && item.name.startsWith(this.FILE_PREFIX) && item.name.endsWith('.json'))
+      .sort((a, b) => b.name.localeCompare(a.name));
+  }
+
+  // ===============================================================
+  // RESTORE
+  // ===============================================================
+
+  /**
+   * Reads and verifies a backup file
+   *
+   * @param path - Absolute path of the backup
+   * @returns Verified backup contents
+   * @throws Error if the file is not a valid, intact backup
+   */
+  static async readBackup(path: string): Promise<BackupFile> {
+    const text = await RNFS.readFile(path, 'utf8');
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error('Backup file is not valid JSON');
+    }
+
+    return this.validateBackup(parsed);
+  }
+
+  /**
+   * Checks the format, version, structure and checksum of a backup
+   *
+   * @param data - Parsed backup file
+   * @returns The backup, typed
+   * @throws Error describing the first problem found
+   */
+  static validateBackup(data: unknown): BackupFile {
+    const backup = data as BackupFile;
+
+    if (!backup || typeof backup !== 'object' || backup.format !== this.FORMAT) {
+      throw new Error('File is not a TCG Scanner backup');
+    }
+    if (typeof backup.formatVersion !== 'number' || backup.formatVersion > this.FORMAT_VERSION) {
+      throw new Error(`Backup format v${backup.formatVersion} is not supported by this app version`);
+    }
+
+    const { payload } = backup;
+    if (
+      !payload ||
+      !Array.isArray(payload.collection?.data) ||
+      !payload.settings?.data ||
+      !Array.isArray(payload.scanHistory?.data) ||
+      (payload.valueHistory !== undefined && !Array.isArray(payload.valueHistory.data)) ||
+      (payload.submissions !== undefined && !Array.isArray(payload.submissions.data))
+    ) {
+      throw new Error('Backup file is incomplete');
+    }
+    if (backup.checksum !== this.checksum(payload)) {
+      throw new Error('Backup checksum does not match - the file may be corrupted');
+    }
+
+    return backup;
+  }
+
+  /**
+   * Applies a verified backup to persisted data
+   *
+   * @param backup - Backup returned by readBackup
+   * @param mode - Merge into or replace existing data
+   * @returns Summary of the restored data
+   */
+  static async restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<RestoreSummary> {
+    const { payload } = backup;
+    const collection = StorageMigrations.migrate<CollectionCard[]>(
+      payload.collection.data, payload.collection.version, COLLECTION_MIGRATIONS,
+    ).data;
+    const settings = StorageMigrations.migrate<UserSettings>(
+      payload.settings.data, payload.settings.version, SETTINGS_MIGRATIONS,
+    ).data;
+    const scanHistory = StorageMigrations.migrate<ScanHistoryEntry[]>(
+      payload.scanHistory.data, payload.scanHistory.version, SCAN_HISTORY_MIGRATIONS,
+    ).data;
+    const valueHistory = payload.valueHistory
+      ? StorageMigrations.migrate<ValueSnapshot[]>(
+        payload.valueHistory.data, payload.valueHistory.version, VALUE_HISTORY_MIGRATIONS,
+      ).data
+      : [];
+    const submissions = payload.submissions
+      ? StorageMigrations.migrate<GradingSubmission[]>(
+        payload.submissions.data, payload.submissions.version, SUBMISSION_MIGRATIONS,
+      ).data
+      : [];
+
+    let restoredCollection = collection;
+    let restoredHistory = scanHistory;
+    let restoredValueHistory = valueHistory;
+    let restoredSubmissions = submissions;
+
+    if (mode === 'merge') {
+      const [currentCollection, currentHistory, currentValueHistory, currentSubmissions] = await Promise.all([
+        StorageService.loadCollection(),
+        StorageService.loadScanHistory(),
+        StorageService.loadValueHistory(),
+        StorageService.loadSubmissions(),
+      ]);
+
+      restoredCollection = CollectionModel.mergeCollections(currentCollection, collection);
+
+      const historyIds = new Set(currentHistory.map(entry => entry.id));
+      restoredHistory = [...currentHistory, ...scanHistory.filter(entry => !historyIds.has(entry.id))]
+        .sort((a, b) => b.scannedAt.localeCompare(a.scannedAt));
+
+      // Current snapshots win for days present in both
+      const snapshotDays = new Set(currentValueHistory.map(snapshot => snapshot.date));
+      restoredValueHistory = [
+        ...currentValueHistory,
+        ...valueHistory.filter(snapshot => !snapshotDays.has(snapshot.date)),
+      ].sort((a, b) => a.date.localeCompare(b.date));
+
+      const submissionIds = new Set(currentSubmissions.map(submission => submission.id));
+      restoredSubmissions = [
+        ...currentSubmissions,
+        ...submissions.filter(submission => !submissionIds.has(submission.id)),
+      ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } else {
+      await StorageService.saveSettings(settings);
+      await ThemeService.setThemeMode(payload.themeMode);
+    }
+
+    await StorageService.saveCollection(restoredCollection);
+    await StorageService.saveScanHistory(restoredHistory);
+    await StorageService.saveValueHistory(restoredValueHistory);
+    await StorageService.saveSubmissions(restoredSubmissions);
+
+    return {
+      mode,
+      cards: restoredCollection.length,
+      copies: restoredCollection.reduce((total, card) => total + card.copies.length, 0),
+      scanHistory: restoredHistory.length,
+      valueHistory: restoredValueHistory.length,
+      submissions: restoredSubmissions.length,
+    };
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  /**
+   * Adler-32 of the UTF-8 encoded payload as 8 hex digits
+   */
+  private static checksum(payload: BackupPayload): string {
+    let a = 1;
+    let b = 0;
+    for (const byte of this.toUtf8(JSON.stringify(payload))) {
+      a = (a + byte) % this.ADLER_MODULUS;
+      b = (b + a) % this.ADLER_MODULUS;
+    }
+    return (b * 0x10000 + a).toString(16).padStart(8, '0');
+  }
+
+  /**
+   * UTF-8 bytes of a string, encoded one code point at a time
+   */
+  private static toUtf8(text: string): number[] {
+    const bytes: number[] = [];
+    for (const char of text) {
+      const code = char.codePointAt(0) ?? 0;
+      const continuation = (shift: number) => 0x80 + (Math.floor(code / shift) % 0x40);
+
+      if (code < 0x80) {
+        bytes.push(code);
+      } else if (code < 0x800) {
+        bytes.push(0xc0 + Math.floor(code / 0x40), continuation(1));
+      } else if (code < 0x10000) {
+        bytes.push(0xe0 + Math.floor(code / 0x1000), continuation(0x40), continuation(1));
+      } else {
+        bytes.push(0xf0 + Math.floor(code / 0x40000), continuation(0x1000), continuation(0x40), continuation(1));
+      }
+    }
+    return bytes;
+  }
+}
@@ -1,22 +1,28 @@
 import { launchImageLibrary, launchCamera, ImagePickerResponse, MediaType, PhotoQuality } from 'react-native-image-picker';
-import { Card } from '../../types';
+import { BatchScanItem, Card, XimilarGradingResult } from '../../types';
 import { CardModel } from '../../models';
 import { XimilarApiService } from '../api/XimilarApiService';
+import { GradingClientService } from '../api/GradingClientService';
+import { CardMappingService } from '../api/CardMappingService';
 import { PermissionsService } from '../permissions/PermissionsService';
+import { ConnectivityService } from '../network/ConnectivityService';
 
 /**
  * CameraService
  *
  * This service handles all camera-related operations including:
  * - Taking photos with device camera
- * - Selecting images from photo library
- * - Processing images through Ximilar Card Grader API
+ * - Selecting one or more images from photo library
+ * - Processing images through Ximilar Card Grader API, alone or in batches
  * - Converting API responses to Card objects
  *
  * The service integrates with the real Ximilar API to provide accurate
  * card recognition and grading functionality.
  */
 export class CameraService {
+  // Images sent to Ximilar per batch request
+  static readonly MAX_BATCH_SIZE = XimilarApiService.MAX_BATCH_SIZE;
+
   /**
    * Opens the device camera to capture a new photo
    *
@@ -61,18 +67,19 @@ export class CameraService {
   }
 
   /**
-   * Opens the photo library to select an existing image
+   * Opens the photo library to select existing images
    *
    * Configuration matches camera settings for consistency
    *
-   * @returns Promise<string | null> - URI of selected image or null if cancelled
+   * @param selectionLimit - Maximum number of images to pick; 0 means no limit
+   * @returns Promise<string[]> - URIs of selected images, empty if cancelled
    */
-  static async openImageLibrary(): Promise<string | null> {
+  static async openImageLibrary(selectionLimit: number = 1): Promise<string[]> {
     // Check and request photo library permission first
     const hasPermission = await PermissionsService.requestPhotoLibraryPermission();
     if (!hasPermission) {
       console.log('Photo library permission denied');
-      return null;
+      return [];
     }
 
     return new Promise((resolve) => {
@@ -82,20 +89,21 @@ export class CameraService {
         maxHeight: 2000,
         maxWidth: 2000,
         quality: 0.8 as PhotoQuality,
+        selectionLimit,
       };
 
       launchImageLibrary(options, (response: ImagePickerResponse) => {
         if (response.didCancel || response.errorMessage) {
           console.log('Image library cancelled or error:', response.errorMessage);
-          resolve(null);
+          resolve([]);
           return;
         }
 
-        if (response.assets && response.assets[0]) {
-          resolve(response.assets[0].uri || null);
-        } else {
-          resolve(null);
-        }
+        resolve(
+          (response.assets || [])
+            .map(asset => asset.uri)
+            .filter((uri): uri is string => Boolean(uri)),
+        );
       });
     });
   }
@@ -114,55 +122,34 @@ export class CameraService {
    * 4. Returns card with confidence score
    *
    * The API provides:
+   * - Card identification (name, set, rarity, number, year)
    * - Card grading (condition assessment)
    * - Category detection (Sport, Gaming, etc.)
    * - Damage assessment
-   * - Surface quality scores
    * - Confidence scores for accuracy
    *
-   * Note: Ximilar API provides grading data only, not card identification
+   * Identity comes from the identification match; a descriptive name is
+   * only synthesized when the card could not be identified.
    *
    * @param imageUri - Local URI of the card image to process
-   * @returns Promise<{ card: Card; confidence: number }> - Recognized card data
-   * @throws Error if API call fails or image processing fails
+   * @returns Promise<{ card: Card; confidence: number }> - Recognized card data,
+   * or a low confidence fallback card if recognition fails
+   * @throws HttpRequestError if the device is offline, so the scan can be queued
    */
-  static async recognizeCard(imageUri: string): Promise<{ card: Card; confidence: number; gradingResult: any }> {
+  static async recognizeCard(imageUri: string): Promise<{ card: Card; confidence: number; gradingResult?: XimilarGradingResult }> {
     try {
       console.log('Starting card recognition for image:', imageUri);
 
-      // Call the real Ximilar API service
-      const gradingResult = await XimilarApiService.gradeCard(imageUri);
-
-      // Convert Ximilar grading result to our Card model
-      // Note: Ximilar API only provides grading data, not card identification
-      const card: Card = {
-        id: `ximilar_${Date.now()}`, // Generate unique ID
-        name: this.generateCardNameFromGrading(gradingResult), // Generate name based on available grading data
-        set: gradingResult.category || 'Trading Card Collection',
-        rarity: this.mapRarityFromGrade(gradingResult.finalGrade),
-        condition: this.mapConditionFromGrade(gradingResult.finalGrade),
-        price: 0, // Placeholder - would need market data integration
-        imageUrl: imageUri, // Use local image URI
-        description: `Graded ${gradingResult.category} card. Final grade: ${gradingResult.finalGrade}/10. Surface: ${gradingResult.surfaceGrade}/10. ${gradingResult.isDamaged ? 'Shows damage. ' : 'In good condition. '}${gradingResult.hasAutograph ? 'Has autograph. ' : ''}`,
-        artist: 'Unknown',
-        year: new Date().getFullYear(),
-        type: gradingResult.subcategory || gradingResult.category || 'Trading Card',
-        // Additional metadata from API
-        apiData: {
-          confidence: gradingResult.confidence,
-          grade: gradingResult.finalGrade,
-          gradingService: 'Ximilar',
-        },
-      };
+      // Call the configured grading client
+      const gradingResult = await GradingClientService.getClient().gradeCard(imageUri);
 
       console.log('Card recognition successful, grade:', gradingResult.finalGrade);
 
-      return {
-        card,
-        confidence: gradingResult.confidence,
-        gradingResult: gradingResult,
-      };
+      return this.toScanResult(gradingResult, imageUri);
     } catch (error) {
+      if (ConnectivityService.isConnectivityError(error)) {
+        throw error;
+      }
       console.error('Card recognition failed:', error);
 
       // Fallback: Create a basic card with the image
@@ -175,74 +162,61 @@ export class CameraService {
       return {
         card: fallbackCard,
         confidence: 0.1, // Very low confidence for fallback
-        gradingResult: null,
+        gradingResult: undefined,
       };
     }
   }
 
   /**
-   * Generates a descriptive card name based on available grading data
-   * Since Ximilar API doesn't provide card identification, we create meaningful names
-   * based on category, condition, and grading information
+   * Recognizes up to MAX_BATCH_SIZE images in one request
+   *
+   * Unlike recognizeCard there is no fallback card: images Ximilar could
+   * not process get an error so the user can retry them individually.
+   *
+   * @param imageUris - Local URIs of the card images, in order
+   * @returns One result per image, in the same order
+   * @throws Error if the batch request itself fails
    */
-  private static generateCardNameFromGrading(gradingResult: any): string {
-    const category = gradingResult.category || 'Trading Card';
-    const subcategory = gradingResult.subcategory;
-    const grade = gradingResult.finalGrade;
-    const isDamaged = gradingResult.isDamaged;
-    const hasAutograph = gradingResult.hasAutograph;
-
-    // Build descriptive name parts
-    let nameParts: string[] = [];
-
-    // Add condition prefix based on grade
-    if (grade >= 9) {
-      nameParts.push('Premium');
-    } else if (grade >= 8) {
-      nameParts.push('Mint');
-    } else if (grade >= 7) {
-      nameParts.push('Excellent');
-    } else if (grade >= 5) {
-      nameParts.push('Good');
-    } else if (isDamaged) {
-      nameParts.push('Damaged');
-    }
-
-    // Add category/subcategory
-    if (subcategory) {
-      nameParts.push(subcategory);
-    } else {
-      nameParts.push(category);
-    }
-
-    // Add special attributes
-    if (hasAutograph) {
-      nameParts.push('(Autographed)');
-    }
-
-    // If no descriptive parts, use grade-based name
-    if (nameParts.length === 0) {
-      return `Graded Card (${grade}/10)`;
-    }
+  static async recognizeCards(
+    imageUris: string[],
+  ): Promise<Pick<BatchScanItem, 'card' | 'confidence' | 'gradingResult' | 'error'>[]> {
+    console.log(`Starting batch recognition for ${imageUris.length} images`);
+    const response = await GradingClientService.getClient().gradeBatchCards(imageUris);
+
+    return imageUris.map((imageUri, index) => {
+      const record = response.records[index];
+      try {
+        if (!record) {
+          throw new Error('No result returned for this image');
+        }
+        if (record._status && record._status.code !== 200) {
+          throw new Error(record._status.text || `Processing failed with status ${record._status.code}`);
+        }
 
-    return nameParts.join(' ');
+        return this.toScanResult(XimilarApiService.processGradingResponse(record), imageUri);
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : 'Card recognition failed' };
+      }
+    });
   }
 
   /**
-   * Maps numeric grade to rarity based on condition
-   * Higher grades suggest rarer/more valuable cards
+   * Converts Ximilar identification and grading data to a scan result
+   * The best-ranked candidate is chosen automatically
    */
-  private static mapRarityFromGrade(grade: number): string {
-    if (grade >= 9.5) {
-      return 'Ultra Rare';
-    }
-    if (grade >= 8.5) {
-      return 'Rare';
-    }
-    if (grade >= 7) {
-      return 'Uncommon';
-    }
-    return 'Common';
+  static toScanResult(
+    gradingResult: XimilarGradingResult,
+    imageUri: string,
+  ): { card: Card; confidence: number; gradingResult: XimilarGradingResult } {
+    const card = gradingResult.candidates
+      ? CardMappingService.toCardFromCandidate(gradingResult, imageUri, gradingResult.candidates, 0, 'auto')
+      : CardMappingService.toCard(gradingResult, imageUri);
+
+    return {
+      card,
+      confidence: gradingResult.confidence,
+      gradingResult,
+    };
   }
 
   /**
@@ -265,57 +239,4 @@ export class CameraService {
     }
     return 'Common';
   }
-
-  /**
-   * Maps Ximilar API grade (1-10 scale) to human-readable condition
-   *
-   * Grade Scale:
-   * 10: Gem Mint (Perfect condition)
-   * 9: Mint (Near perfect)
-   * 8: Near Mint/Mint (Excellent)
-   * 7: Near Mint (Very good)
-   * 6: Excellent/Near Mint (Good)
-   * 5: Very Good (Average)
-   * 4: Good (Below average)
-   * 3: Very Good/Good (Poor)
-   * 2: Good/Fair (Very poor)
-   * 1: Poor (Damaged)
-   *
-   * @param grade - Numeric grade from 1-10
-   * @returns Human-readable condition string
-   */
-  private static mapConditionFromGrade(grade?: number): string {
-    if (!grade) {
-      return 'Unknown';
-    }
-
-    if (grade >= 10) {
-      return 'Gem Mint';
-    }
-    if (grade >= 9) {
-      return 'Mint';
-    }
-    if (grade >= 8) {
-      return 'Near Mint/Mint';
-    }
-    if (grade >= 7) {
-      return 'Near Mint';
-    }
-    if (grade >= 6) {
-      return 'Excellent';
-    }
-    if (grade >= 5) {
-      return 'Very Good';
-    }
-    if (grade >= 4) {
-      return 'Good';
-    }
-    if (grade >= 3) {
-      return 'Fair';
-    }
-    if (grade >= 2) {
-      return 'Poor';
-    }
-    return 'Damaged';
-  }
 }
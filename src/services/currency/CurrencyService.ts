@@ -0,0 +1,234 @@
+/**
+ * =================================================================
+ * CURRENCY SERVICE
+ * =================================================================
+ *
+ * Converts and formats amounts in different currencies.
+ *
+ * Exchange rates come from, in order of precedence:
+ * 1. Manual overrides entered by the user
+ * 2. The last successful remote refresh, cached in AsyncStorage
+ * 3. A built-in table of approximate rates, so conversion also
+ *    works offline and before the first refresh
+ *
+ * All rates are relative to USD.
+ * =================================================================
+ */
+
+import axios from 'axios';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Config from 'react-native-config';
+import { ExchangeRateTable } from '../../types';
+
+/**
+ * Storage key of the cached rate table and overrides
+ */
+export const EXCHANGE_RATES_STORAGE_KEY = '@tcg_exchange_rates';
+
+/**
+ * Display information for a supported currency
+ */
+export interface CurrencyInfo {
+  code: string;
+  name: string;
+  symbol?: string;                // Prefix symbol; the code is appended when missing
+  decimals: number;
+}
+
+/**
+ * Approximate USD rates used until a remote refresh succeeds
+ */
+const BUILTIN_RATES: Record<string, number> = {
+  USD: 1,
+  EUR: 0.92,
+  GBP: 0.79,
+  JPY: 150,
+  CAD: 1.36,
+  AUD: 1.52,
+  CHF: 0.88,
+  CZK: 23,
+  PLN: 4,
+  SEK: 10.5,
+};
+
+export class CurrencyService {
+  static readonly BASE_CURRENCY = 'USD';
+  private static readonly RATES_URL =
+    Config.EXCHANGE_RATES_URL || 'https://open.er-api.com/v6/latest/USD';
+
+  static readonly CURRENCIES: CurrencyInfo[] = [
+    { code: 'USD', name: 'US Dollar', symbol: '$', decimals: 2 },
+    { code: 'EUR', name: 'Euro', symbol: '€', decimals: 2 },
+    { code: 'GBP', name: 'British Pound', symbol: '£', decimals: 2 },
+    { code: 'JPY', name: 'Japanese Yen', symbol: '¥', decimals: 0 },
+    { code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$', decimals: 2 },
+    { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', decimals: 2 },
+    { code: 'CHF', name: 'Swiss Franc', decimals: 2 },
+    { code: 'CZK', name: 'Czech Koruna', decimals: 2 },
+    { code: 'PLN', name: 'Polish Zloty', decimals: 2 },
+    { code: 'SEK', name: 'Swedish Krona', decimals: 2 },
+  ];
+
+  private static table: ExchangeRateTable = CurrencyService.createBuiltinTable();
+  private static listeners: Array<(table: ExchangeRateTable) => void> = [];
+
+  /**
+   * Loads cached rates and overrides
+   * This should be called when the app starts
+   */
+  static async initialize(): Promise<void> {
+    try {
+      const saved = await AsyncStorage.getItem(EXCHANGE_RATES_STORAGE_KEY);
+      if (saved) {
+        const cached = JSON.parse(saved) as ExchangeRateTable;
+        this.table = {
+          ...this.createBuiltinTable(),
+          ...cached,
+          rates: { ...BUILTIN_RATES, ...cached.rates },
+          overrides: cached.overrides || {},
+        };
+        this.notifyListeners();
+      }
+    } catch (error) {
+      console.error('Failed to load exchange rates:', error);
+    }
+  }
+
+  /**
+   * Fetches current rates and caches them
+   * Overrides are kept; on failure the current table stays in use
+   *
+   * @returns True if rates were refreshed
+   */
+  static async refreshRates(): Promise<boolean> {
+    try {
+      const response = await axios.get(this.RATES_URL, { timeout: 10000 });
+      const rates = response.data?.rates;
+      if (!rates || typeof rates !== 'object' || rates[this.BASE_CURRENCY] !== 1) {
+        throw new Error('Unexpected exchange rate response');
+      }
+
+      await this.updateTable({
+        ...this.table,
+        rates: { ...BUILTIN_RATES, ...rates },
+        source: 'remote',
+        updatedAt: new Date().toISOString(),
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to refresh exchange rates:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Sets a manual rate (units per 1 USD) or removes it when rate is undefined
+   */
+  static async setOverride(currency: string, rate?: number): Promise<void> {
+    const overrides = { ...this.table.overrides };
+    if (rate === undefined) {
+      delete overrides[currency];
+    } else if (rate > 0) {
+      overrides[currency] = rate;
+    } else {
+      throw new Error('Exchange rate must be greater than 0');
+    }
+
+    await this.updateTable({ ...this.table, overrides });
+  }
+
+  /**
+   * Forgets cached rates and overrides
+   * Used after the cached table has been cleared from storage
+   */
+  static reset(): void {
+    this.table = this.createBuiltinTable();
+    this.notifyListeners();
+  }
+
+  static getRates(): ExchangeRateTable {
+    return this.table;
+  }
+
+  /**
+   * Gets the rate in effect for a currency
+   *
+   * @returns Units per 1 USD, or undefined for unknown currencies
+   */
+  static getRate(currency: string): number | undefined {
+    const code = this.normalize(currency);
+    return this.table.overrides[code] ?? this.table.rates[code];
+  }
+
+  /**
+   * Converts an amount between currencies
+   *
+   * @returns Converted amount, or undefined if a rate is unknown
+   */
+  static convert(amount: number, from: string | undefined, to: string): number | undefined {
+    const fromCode = this.normalize(from);
+    const toCode = this.normalize(to);
+    if (fromCode === toCode) {
+      return amount;
+    }
+
+    const fromRate = this.getRate(fromCode);
+    const toRate = this.getRate(toCode);
+    if (!fromRate || !toRate) {
+      return undefined;
+    }
+    return (amount / fromRate) * toRate;
+  }
+
+  /**
+   * Formats an amount, e.g. "$1,234.50", "¥1,500" or "99.00 CZK"
+   */
+  static format(amount: number, currency: string): string {
+    const code = this.normalize(currency);
+    const info = this.CURRENCIES.find(entry => entry.code === code);
+    const [whole, fraction] = Math.abs(amount).toFixed(info?.decimals ?? 2).split('.');
+    const digits = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',') + (fraction ? `.${fraction}` : '');
+    const sign = amount < 0 ? '-' : '';
+
+    return info?.symbol ? `${sign}${info.symbol}${digits}` : `${sign}${digits} ${code}`;
+  }
+
+  /**
+   * Add an exchange rate change listener
+   *
+   * @returns Unsubscribe function
+   */
+  static addRatesListener(listener: (table: ExchangeRateTable) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(entry => entry !== listener);
+    };
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  private static createBuiltinTable(): ExchangeRateTable {
+    return {
+      base: 'USD',
+      rates: { ...BUILTIN_RATES },
+      overrides: {},
+      source: 'builtin',
+    };
+  }
+
+  private static async updateTable(table: ExchangeRateTable): Promise<void> {
+    this.table = table;
+    this.notifyListeners();
+    await AsyncStorage.setItem(EXCHANGE_RATES_STORAGE_KEY, JSON.stringify(table));
+  }
+
+  private static normalize(currency?: string): string {
+    return (currency || this.BASE_CURRENCY).trim().toUpperCase();
+  }
+
+  private static notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.table));
+  }
+}
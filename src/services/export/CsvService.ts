@@ -0,0 +1,140 @@
+/**
+ * =================================================================
+ * CSV SERVICE
+ * =================================================================
+ *
+ * Builds and parses RFC 4180 style CSV text.
+ *
+ * Fields containing commas, quotes or line breaks are quoted and
+ * embedded quotes are doubled, so exported files open correctly
+ * in spreadsheet applications.
+ *
+ * Text starting with a formula character (=, +, -, @, tab or
+ * carriage return) is prefixed with an apostrophe so spreadsheets
+ * show it as text instead of running it. Importers remove the
+ * prefix again with unguardFormula.
+ *
+ * The parser accepts the same format plus the variations common in
+ * files from other trackers (LF line endings, byte order marks,
+ * trailing blank lines).
+ * =================================================================
+ */
+
+/**
+ * Single exported row keyed by column name
+ */
+export type CsvRow = Record<string, string | number | boolean | null | undefined>;
+
+export class CsvService {
+  // Leading characters spreadsheets treat as the start of a formula
+  private static readonly FORMULA_PREFIX = /^[=+\-@\t\r]/;
+  private static readonly FORMULA_GUARD = "'";
+
+  /**
+   * Builds CSV text with a header line followed by one line per row
+   *
+   * @param columns - Column names in output order
+   * @param rows - Row objects; missing values become empty fields
+   * @returns CSV text using CRLF line endings
+   */
+  static stringify(columns: string[], rows: CsvRow[]): string {
+    const lines = [
+      columns.map(column => this.escapeField(column)).join(','),
+      ...rows.map(row => columns.map(column => this.escapeField(row[column])).join(',')),
+    ];
+    return lines.join('\r\n');
+  }
+
+  /**
+   * Escapes a single value for use as a CSV field
+   *
+   * @param value - Raw field value
+   * @returns Field text, quoted when required
+   */
+  static escapeField(value: CsvRow[string]): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    // Numbers such as -5 are data, not formulas
+    const text = typeof value === 'string' && this.FORMULA_PREFIX.test(value)
+      ? `${this.FORMULA_GUARD}${value}`
+      : String(value);
+    if (/[",\r\n]/.test(text)) {
+      return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+  }
+
+  /**
+   * Removes the apostrophe escapeField puts before formula characters
+   *
+   * @param text - Field value read from a CSV file
+   * @returns Value as it was before export
+   */
+  static unguardFormula(text: string): string {
+    return text.startsWith(this.FORMULA_GUARD) && this.FORMULA_PREFIX.test(text.slice(1))
+      ? text.slice(1)
+      : text;
+  }
+
+  /**
+   * Parses CSV text into rows of raw field values
+   *
+   * @param text - CSV file contents
+   * @returns Rows of fields; blank lines are skipped
+   * @throws Error if a quoted field is never closed
+   */
+  static parse(text: string): string[][] {
+    const input = text.replace(/^\uFEFF/, '');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const endRow = () => {
+      row.push(field);
+      if (row.length > 1 || row[0] !== '') {
+        rows.push(row);
+      }
+      row = [];
+      field = '';
+    };
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && input[i + 1] === '\n') {
+          i++;
+        }
+        endRow();
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new Error('Unterminated quoted field in CSV');
+    }
+    if (field !== '' || row.length > 0) {
+      endRow();
+    }
+
+    return rows;
+  }
+}
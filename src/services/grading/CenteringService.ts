@@ -0,0 +1,154 @@
+/**
+ * =================================================================
+ * CENTERING SERVICE
+ * =================================================================
+ *
+ * Parses Ximilar centering ratios ("66/34") and estimates the best
+ * centering grade each grading company would allow.
+ *
+ * Thresholds are the published front-of-card limits, using the
+ * stricter end where a company gives a range. Companies revise
+ * them from time to time, so results are estimates only: a card
+ * must also meet every other criterion for the grade.
+ * =================================================================
+ */
+
+import {
+  CenteringGradeEstimate,
+  CenteringMeasurement,
+  CenteringRatio,
+  XimilarCenteringAnalysis,
+} from '../../types';
+
+interface CenteringThreshold {
+  grade: number;
+  label: string;
+  maxShare: number;
+}
+
+export class CenteringService {
+  /**
+   * Largest share of the border on one side for each grade, best grade first
+   */
+  static readonly THRESHOLDS: Record<string, CenteringThreshold[]> = {
+    PSA: [
+      { grade: 10, label: 'Gem Mint 10', maxShare: 55 },
+      { grade: 9, label: 'Mint 9', maxShare: 60 },
+      { grade: 8, label: 'NM-MT 8', maxShare: 65 },
+      { grade: 7, label: 'NM 7', maxShare: 70 },
+      { grade: 6, label: 'EX-MT 6', maxShare: 80 },
+      { grade: 5, label: 'EX 5', maxShare: 85 },
+      { grade: 3, label: 'VG 3', maxShare: 90 },
+      { grade: 1, label: 'Poor 1', maxShare: 100 },
+    ],
+    BGS: [
+      { grade: 10, label: 'Pristine 10', maxShare: 50 },
+      { grade: 9.5, label: 'Gem Mint 9.5', maxShare: 55 },
+      { grade: 9, label: 'Mint 9', maxShare: 60 },
+      { grade: 8.5, label: 'NM-MT+ 8.5', maxShare: 65 },
+      { grade: 8, label: 'NM-MT 8', maxShare: 70 },
+      { grade: 7, label: 'NM 7', maxShare: 75 },
+      { grade: 6, label: 'EX-MT 6', maxShare: 80 },
+      { grade: 5, label: 'EX 5', maxShare: 85 },
+      { grade: 3, label: 'VG 3', maxShare: 90 },
+      { grade: 1, label: 'Poor 1', maxShare: 100 },
+    ],
+    CGC: [
+      { grade: 10, label: 'Pristine 10', maxShare: 50 },
+      { grade: 10, label: 'Gem Mint 10', maxShare: 55 },
+      { grade: 9, label: 'Mint 9', maxShare: 60 },
+      { grade: 8, label: 'NM/Mint 8', maxShare: 65 },
+      { grade: 7, label: 'Near Mint 7', maxShare: 70 },
+      { grade: 6, label: 'Excellent 6', maxShare: 80 },
+      { grade: 5, label: 'VG/Excellent 5', maxShare: 85 },
+      { grade: 4, label: 'Very Good 4', maxShare: 90 },
+      { grade: 1, label: 'Poor 1', maxShare: 100 },
+    ],
+    SGC: [
+      { grade: 10, label: 'Pristine 10', maxShare: 50 },
+      { grade: 10, label: 'Gem Mint 10', maxShare: 55 },
+      { grade: 9, label: 'Mint 9', maxShare: 60 },
+      { grade: 8, label: 'NM/MT 8', maxShare: 65 },
+      { grade: 7, label: 'NM 7', maxShare: 70 },
+      { grade: 6, label: 'EX/NM 6', maxShare: 80 },
+      { grade: 5, label: 'EX 5', maxShare: 85 },
+      { grade: 4, label: 'VG/EX 4', maxShare: 90 },
+      { grade: 1, label: 'Poor 1', maxShare: 100 },
+    ],
+  };
+
+  /**
+   * Parses a ratio such as "66/34" or "52.5 / 47.5"
+   * Ratios that do not add up to 100 are scaled, so "2/1" is 66.7/33.3
+   *
+   * @param value - Ratio reported by the API
+   * @returns Ratio in percent, or undefined when it cannot be parsed
+   */
+  static parseRatio(value?: string | null): CenteringRatio | undefined {
+    const match = value?.trim().match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+    if (!match) {
+      return undefined;
+    }
+
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    const total = first + second;
+    if (!(total > 0)) {
+      return undefined;
+    }
+
+    return {
+      first: this.round((first / total) * 100),
+      second: this.round((second / total) * 100),
+    };
+  }
+
+  /**
+   * Parses both axes of a centering analysis
+   *
+   * @returns Measurement, or undefined when neither axis can be parsed
+   */
+  static measure(centering?: XimilarCenteringAnalysis): CenteringMeasurement | undefined {
+    const leftRight = this.parseRatio(centering?.['left/right']);
+    const topBottom = this.parseRatio(centering?.['top/bottom']);
+    const shares = [leftRight, topBottom]
+      .filter((ratio): ratio is CenteringRatio => ratio !== undefined)
+      .map(ratio => Math.max(ratio.first, ratio.second));
+
+    if (shares.length === 0) {
+      return undefined;
+    }
+
+    return { leftRight, topBottom, worstShare: Math.max(...shares) };
+  }
+
+  /**
+   * Best centering grade per company for a measurement
+   *
+   * @param measurement - Parsed centering
+   * @returns One estimate per company in THRESHOLDS order
+   */
+  static estimateGrades(measurement: CenteringMeasurement): CenteringGradeEstimate[] {
+    return Object.entries(this.THRESHOLDS).map(([company, thresholds]) => {
+      const threshold =
+        thresholds.find(({ maxShare }) => measurement.worstShare <= maxShare) ||
+        thresholds[thresholds.length - 1];
+      return { company, ...threshold };
+    });
+  }
+
+  /**
+   * Formats a ratio the way grading companies write it, e.g. "60/40"
+   */
+  static formatRatio(ratio: CenteringRatio): string {
+    return `${ratio.first}/${ratio.second}`;
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  private static round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
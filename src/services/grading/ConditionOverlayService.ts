@@ -0,0 +1,142 @@
+/**
+ * =================================================================
+ * CONDITION OVERLAY SERVICE
+ * =================================================================
+ *
+ * Positions the corner, edge and card outline measurements of a
+ * ConditionAnalysis on the displayed card image.
+ *
+ * Ximilar reports geometry in pixels of the analyzed image:
+ * - bound_box is [x1, y1, x2, y2]
+ * - polygons are lists of [x, y] points
+ * Regions are scaled to the displayed width and polygons are drawn
+ * as their bounding rectangles.
+ * =================================================================
+ */
+
+import { ConditionAnalysis, ConditionRegion, GradeDetail } from '../../types';
+
+export class ConditionOverlayService {
+  /**
+   * Smallest width or height of a tappable region, in display pixels
+   */
+  static readonly MIN_REGION_SIZE = 16;
+
+  private static readonly DETAIL_LABELS: Record<GradeDetail['name'], string> = {
+    UPPER_LEFT: 'Top left',
+    UPPER_RIGHT: 'Top right',
+    DOWN_RIGHT: 'Bottom right',
+    DOWN_LEFT: 'Bottom left',
+    UPPER: 'Top',
+    RIGHT: 'Right',
+    DOWN: 'Bottom',
+    LEFT: 'Left',
+  };
+
+  /**
+   * Readable name of a corner or edge, e.g. "Top left"
+   */
+  static getDetailLabel(name: GradeDetail['name']): string {
+    return this.DETAIL_LABELS[name] ?? name;
+  }
+
+  /**
+   * Width divided by height of the analyzed image
+   *
+   * @returns Aspect ratio, or undefined when the image size is unknown
+   */
+  static getAspectRatio(analysis: ConditionAnalysis): number | undefined {
+    const { imageWidth, imageHeight } = analysis;
+    return imageWidth && imageHeight ? imageWidth / imageHeight : undefined;
+  }
+
+  /**
+   * Builds the regions drawn over an image shown at the given width
+   * The card outline comes first and corners last, so corners are
+   * drawn on top and win taps where they overlap an edge
+   *
+   * @param analysis - Stored condition analysis
+   * @param displayWidth - Width the image is displayed at
+   * @returns Regions in drawing order, empty when the image size is unknown
+   */
+  static buildRegions(analysis: ConditionAnalysis, displayWidth: number): ConditionRegion[] {
+    if (!analysis.imageWidth || !(displayWidth > 0)) {
+      return [];
+    }
+
+    const scale = displayWidth / analysis.imageWidth;
+    const regions: ConditionRegion[] = [];
+
+    if (analysis.cardPolygon && analysis.cardPolygon.length > 0) {
+      regions.push({
+        id: 'card',
+        kind: 'card',
+        label: 'Card',
+        ...this.toRect(this.getBounds(analysis.cardPolygon), scale, 0),
+      });
+    }
+
+    analysis.edges.forEach(edge => {
+      if (!edge.polygon || edge.polygon.length === 0) {
+        return;
+      }
+      regions.push({
+        id: `edge-${edge.name}`,
+        kind: 'edge',
+        label: `${this.getDetailLabel(edge.name)} edge`,
+        grade: edge.grade,
+        ...this.toRect(this.getBounds(edge.polygon), scale, this.MIN_REGION_SIZE),
+      });
+    });
+
+    analysis.corners.forEach(corner => {
+      if (!corner.bound_box) {
+        return;
+      }
+      regions.push({
+        id: `corner-${corner.name}`,
+        kind: 'corner',
+        label: `${this.getDetailLabel(corner.name)} corner`,
+        grade: corner.grade,
+        ...this.toRect(corner.bound_box, scale, this.MIN_REGION_SIZE),
+        point: corner.point ? { x: corner.point[0] * scale, y: corner.point[1] * scale } : undefined,
+      });
+    });
+
+    return regions;
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  /**
+   * Bounding box of a polygon as [x1, y1, x2, y2]
+   */
+  private static getBounds(polygon: Array<[number, number]>): [number, number, number, number] {
+    const xs = polygon.map(([x]) => x);
+    const ys = polygon.map(([, y]) => y);
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+  }
+
+  /**
+   * Scales a box and grows it around its center to the minimum size
+   */
+  private static toRect(
+    [x1, y1, x2, y2]: [number, number, number, number],
+    scale: number,
+    minSize: number,
+  ): Pick<ConditionRegion, 'left' | 'top' | 'width' | 'height'> {
+    const width = Math.abs(x2 - x1) * scale;
+    const height = Math.abs(y2 - y1) * scale;
+    const finalWidth = Math.max(width, minSize);
+    const finalHeight = Math.max(height, minSize);
+
+    return {
+      left: Math.min(x1, x2) * scale - (finalWidth - width) / 2,
+      top: Math.min(y1, y2) * scale - (finalHeight - height) / 2,
+      width: finalWidth,
+      height: finalHeight,
+    };
+  }
+}
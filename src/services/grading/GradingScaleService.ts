@@ -0,0 +1,175 @@
+/**
+ * =================================================================
+ * GRADING SCALE SERVICE
+ * =================================================================
+ *
+ * Single source for turning Ximilar's 1-10 scores into grades:
+ * - The condition label stored on cards and shown in reports
+ * - Estimated PSA, BGS and CGC grades with a confidence range
+ *
+ * Predictions follow each company's published approach: the final
+ * grade is limited by the weakest attribute and by the centering
+ * limits in CenteringService. BGS averages its four subgrades and
+ * lets the lowest one cap the overall grade.
+ *
+ * Ranges widen by half a grade when the subgrades disagree by two
+ * grades or more, and when centering ratios were not measured.
+ * =================================================================
+ */
+
+import {
+  CardSubgrades,
+  GradePrediction,
+  GradingCompany,
+  XimilarCenteringAnalysis,
+} from '../../types';
+import { CenteringService } from './CenteringService';
+
+interface GradeStep {
+  min: number;
+  label: string;
+}
+
+export class GradingScaleService {
+  /**
+   * Condition labels by lowest Ximilar grade, best first
+   */
+  private static readonly CONDITION_SCALE: GradeStep[] = [
+    { min: 10, label: 'Gem Mint' },
+    { min: 9, label: 'Mint' },
+    { min: 8, label: 'Near Mint/Mint' },
+    { min: 7, label: 'Near Mint' },
+    { min: 6, label: 'Excellent' },
+    { min: 5, label: 'Very Good' },
+    { min: 4, label: 'Good' },
+    { min: 3, label: 'Fair' },
+    { min: 2, label: 'Poor' },
+  ];
+
+  private static readonly COMPANY_LABELS: Record<GradingCompany, Record<number, string>> = {
+    PSA: {
+      10: 'Gem Mint', 9: 'Mint', 8: 'NM-MT', 7: 'NM', 6: 'EX-MT',
+      5: 'EX', 4: 'VG-EX', 3: 'VG', 2: 'Good', 1: 'Poor',
+    },
+    BGS: {
+      10: 'Pristine', 9.5: 'Gem Mint', 9: 'Mint', 8.5: 'NM-MT+', 8: 'NM-MT', 7.5: 'NM+', 7: 'NM',
+      6.5: 'EX-MT+', 6: 'EX-MT', 5.5: 'EX+', 5: 'EX', 4.5: 'VG-EX+', 4: 'VG-EX', 3.5: 'VG+',
+      3: 'VG', 2.5: 'Good+', 2: 'Good', 1.5: 'Fair', 1: 'Poor',
+    },
+    CGC: {
+      10: 'Gem Mint', 9.5: 'Mint+', 9: 'Mint', 8.5: 'NM/Mint+', 8: 'NM/Mint', 7.5: 'NM+', 7: 'NM',
+      6.5: 'Ex/NM+', 6: 'Ex/NM', 5.5: 'Ex+', 5: 'Ex', 4.5: 'VG/Ex+', 4: 'VG/Ex', 3.5: 'VG+',
+      3: 'VG', 2.5: 'Good+', 2: 'Good', 1.5: 'Fair', 1: 'Poor',
+    },
+  };
+
+  /**
+   * Condition label for a Ximilar grade
+   *
+   * @param grade - Grade from 1-10, clamped to that range
+   * @returns Condition such as "Near Mint"; "Damaged" below 2
+   */
+  static getConditionLabel(grade: number): string {
+    const normalizedGrade = Math.max(0, Math.min(10, grade));
+    return this.CONDITION_SCALE.find(step => normalizedGrade >= step.min)?.label ?? 'Damaged';
+  }
+
+  /**
+   * Estimates PSA, BGS and CGC grades
+   *
+   * @param subgrades - Ximilar grades; 0 means a grade is missing
+   * @param centering - Centering ratios, when measured
+   * @returns One prediction per company, or none without a final grade
+   */
+  static predictGrades(subgrades: CardSubgrades, centering?: XimilarCenteringAnalysis): GradePrediction[] {
+    if (!(subgrades.final > 0)) {
+      return [];
+    }
+
+    const attributes = [subgrades.corners, subgrades.edges, subgrades.surface, subgrades.centering]
+      .filter(grade => grade > 0);
+    const lowest = attributes.length > 0 ? Math.min(...attributes) : subgrades.final;
+    const spread = attributes.length > 0 ? Math.max(...attributes) - lowest : 0;
+
+    const measurement = CenteringService.measure(centering);
+    const centeringCaps = measurement
+      ? Object.fromEntries(CenteringService.estimateGrades(measurement).map(({ company, grade }) => [company, grade]))
+      : {};
+    const margin = 0.5 + (spread >= 2 ? 0.5 : 0) + (measurement ? 0 : 0.5);
+
+    const capFor = (company: GradingCompany) => centeringCaps[company] ?? 10;
+
+    // PSA uses whole grades, limited by the weakest attribute
+    const psa = Math.floor(Math.min(subgrades.final, lowest + 1, capFor('PSA')));
+
+    // BGS grades each attribute, then averages them
+    const bgsSubgrades: CardSubgrades = {
+      corners: this.toHalf(subgrades.corners || subgrades.final, Math.floor),
+      edges: this.toHalf(subgrades.edges || subgrades.final, Math.floor),
+      surface: this.toHalf(subgrades.surface || subgrades.final, Math.floor),
+      centering: this.toHalf(Math.min(subgrades.centering || subgrades.final, capFor('BGS')), Math.floor),
+      final: 0,
+    };
+    const bgsAttributes = [bgsSubgrades.corners, bgsSubgrades.edges, bgsSubgrades.surface, bgsSubgrades.centering];
+    const bgsAverage = bgsAttributes.reduce((sum, grade) => sum + grade, 0) / bgsAttributes.length;
+    bgsSubgrades.final = Math.min(this.toHalf(bgsAverage, Math.round), Math.min(...bgsAttributes) + 1);
+
+    // CGC uses half grades, limited like PSA
+    const cgc = this.toHalf(Math.min(subgrades.final, lowest + 1, capFor('CGC')), Math.floor);
+    const isFlawless = attributes.length === 4 && lowest >= 10;
+
+    return [
+      this.toPrediction('PSA', psa, 1, margin, capFor('PSA')),
+      {
+        ...this.toPrediction('BGS', bgsSubgrades.final, 0.5, margin, capFor('BGS') + 1),
+        ...(bgsAttributes.every(grade => grade >= 10) && { label: 'Black Label Pristine 10' }),
+        subgrades: bgsSubgrades,
+      },
+      {
+        ...this.toPrediction('CGC', cgc, 0.5, margin, capFor('CGC')),
+        ...(cgc >= 10 && isFlawless && { label: 'Pristine 10' }),
+      },
+    ];
+  }
+
+  /**
+   * Label of a grade on a company's scale, e.g. "NM-MT 8"
+   */
+  static getCompanyLabel(company: GradingCompany, grade: number): string {
+    const name = this.COMPANY_LABELS[company][grade];
+    return name ? `${name} ${grade}` : String(grade);
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  /**
+   * Builds a prediction with its range snapped to the company's steps
+   */
+  private static toPrediction(
+    company: GradingCompany,
+    grade: number,
+    step: number,
+    margin: number,
+    maxGrade: number,
+  ): GradePrediction {
+    const clamp = (value: number) => Math.max(1, Math.min(10, value));
+    const clamped = clamp(grade);
+
+    return {
+      company,
+      grade: clamped,
+      label: this.getCompanyLabel(company, clamped),
+      low: clamp(Math.floor((clamped - margin) / step) * step),
+      high: Math.max(clamped, clamp(Math.min(Math.ceil((clamped + margin) / step) * step, maxGrade))),
+    };
+  }
+
+  /**
+   * Rounds to a half grade with the given rounding function
+   */
+  private static toHalf(grade: number, round: (value: number) => number): number {
+    return round(grade * 2) / 2;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * =================================================================
+ * GRADING SUBMISSION SERVICE
+ * =================================================================
+ *
+ * Answers "should I send this card for grading?".
+ *
+ * The raw value is the median price of ungraded listings. The graded
+ * value is the median price of listings graded by the chosen company
+ * at the grade GradingScaleService predicts for the card. A card is
+ * worth submitting when the graded value beats the raw value plus the
+ * grading fee and shipping. Copies already graded by a company are
+ * not candidates, so a collection card is only estimated while it
+ * has a raw copy left.
+ *
+ * Listings come from the card's market price (PricingService), so
+ * estimates are only as current as the last price refresh.
+ * =================================================================
+ */
+
+import {
+  Card,
+  CardMarketPrice,
+  CollectionCard,
+  GradedPriceStats,
+  GradingCosts,
+  SubmissionEstimate,
+} from '../../types';
+import { CurrencyService } from '../currency/CurrencyService';
+import { GradingScaleService } from './GradingScaleService';
+
+export class GradingSubmissionService {
+  /**
+   * Estimates raw vs. graded value of a card
+   *
+   * @param card - Card with scan subgrades and a market price
+   * @param costs - Company and per-card costs to plan for
+   * @returns Estimate, or undefined when the card has no scan grades,
+   * market price or raw copy
+   */
+  static estimate(card: Card | CollectionCard, costs: GradingCosts): SubmissionEstimate | undefined {
+    const { subgrades, conditionAnalysis } = card.apiData || {};
+    const marketPrice = card.marketPrice;
+    if (!subgrades || !marketPrice || this.isProfessionallyGraded(card)) {
+      return undefined;
+    }
+
+    const prediction = GradingScaleService.predictGrades(subgrades, conditionAnalysis?.centering)
+      .find(candidate => candidate.company === costs.company);
+    if (!prediction) {
+      return undefined;
+    }
+
+    const rawValue = marketPrice.raw?.median ?? marketPrice.estimate;
+    const cost = CurrencyService.convert(costs.fee + costs.shipping, costs.currency, marketPrice.currency);
+    const graded = this.getGradedPrice(marketPrice, costs.company, prediction.grade);
+    const gradedLow = this.getGradedPrice(marketPrice, costs.company, prediction.low);
+
+    const estimate: SubmissionEstimate = {
+      prediction,
+      currency: marketPrice.currency,
+      rawValue,
+      cost: cost ?? costs.fee + costs.shipping,
+      gradedValue: graded?.median,
+      gradedLowValue: gradedLow?.median,
+      gradedListingCount: graded?.count ?? 0,
+      worthSubmitting: false,
+    };
+
+    if (cost === undefined) {
+      return { ...estimate, reason: `No exchange rate from ${costs.currency} to ${marketPrice.currency}` };
+    }
+    if (!graded) {
+      return { ...estimate, reason: `No ${prediction.label} listings for ${costs.company}` };
+    }
+
+    const netGain = this.round(graded.median - rawValue - cost);
+    return {
+      ...estimate,
+      netGain,
+      worstCaseGain: gradedLow ? this.round(gradedLow.median - rawValue - cost) : undefined,
+      worthSubmitting: netGain > 0,
+    };
+  }
+
+  /**
+   * Cards worth submitting, most profitable first
+   *
+   * @param cards - Cards to consider, e.g. the collection
+   * @param costs - Company and per-card costs to plan for
+   * @returns Cards with a positive net gain and their estimates
+   */
+  static findCandidates<T extends Card>(
+    cards: T[],
+    costs: GradingCosts,
+  ): Array<{ card: T; estimate: SubmissionEstimate }> {
+    return cards
+      .map(card => ({ card, estimate: this.estimate(card, costs) }))
+      .filter((entry): entry is { card: T; estimate: SubmissionEstimate } =>
+        Boolean(entry.estimate?.worthSubmitting),
+      )
+      .sort((a, b) => this.toBaseCurrency(b.estimate) - this.toBaseCurrency(a.estimate));
+  }
+
+  /**
+   * Price statistics of listings graded by a company at a grade
+   * Listing grades are matched numerically, so "9.0" matches 9
+   */
+  static getGradedPrice(
+    marketPrice: CardMarketPrice,
+    company: string,
+    grade: number,
+  ): GradedPriceStats | undefined {
+    return marketPrice.byGrade.find(
+      stats => stats.company === company && parseFloat(stats.grade) === grade,
+    );
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  // Every copy owned is already in a grading company's slab
+  private static isProfessionallyGraded(card: Card | CollectionCard): boolean {
+    return 'copies' in card && card.copies.length > 0 && card.copies.every(copy => Boolean(copy.gradingCompany));
+  }
+
+  // Net gain in the base currency, so estimates in different currencies compare
+  private static toBaseCurrency(estimate: SubmissionEstimate): number {
+    const gain = estimate.netGain ?? 0;
+    return CurrencyService.convert(gain, estimate.currency, CurrencyService.BASE_CURRENCY) ?? gain;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * =================================================================
+ * SUBMISSION TRACKER SERVICE
+ * =================================================================
+ *
+ * Keeps a persisted log of cards sent to grading companies: the
+ * company, service level, fees, the dates a batch was sent and came
+ * back, and the grade each card received.
+ *
+ * Each copy's predicted grade is captured from its scan when the
+ * submission is created, so returned grades can later be compared
+ * with what Ximilar predicted.
+ *
+ * Every mutating method returns the updated submissions, newest first.
+ * =================================================================
+ */
+
+import {
+  CardCopy,
+  CollectionCard,
+  GradingSubmission,
+  GradingSubmissionDetails,
+  GradingSubmissionItem,
+  GradingSubmissionStatus,
+  SubmissionAccuracy,
+  SubmissionCopySelection,
+  SubmissionGradeComparison,
+} from '../../types';
+import { StorageService } from '../storage/StorageService';
+import { GradingScaleService } from './GradingScaleService';
+
+export class SubmissionTrackerService {
+  /**
+   * Loads every submission, newest first
+   */
+  static async load(): Promise<GradingSubmission[]> {
+    return StorageService.loadSubmissions();
+  }
+
+  /**
+   * Creates a submission for the selected copies
+   * Each copy becomes its own item, so several copies of a card can be sent
+   *
+   * @param cards - Collection cards the selected copies belong to
+   * @param selections - Copies to send; duplicates are submitted once
+   * @param details - Company, service level and costs
+   * @returns Updated submissions with the new one first
+   * @throws Error if no copies are selected or the details are invalid
+   */
+  static async create(
+    cards: CollectionCard[],
+    selections: SubmissionCopySelection[],
+    details: GradingSubmissionDetails,
+  ): Promise<GradingSubmission[]> {
+    const items = selections
+      .filter((selection, index) => selections.findIndex(other =>
+        other.cardId === selection.cardId && other.copyId === selection.copyId) === index)
+      .flatMap(({ cardId, copyId }) => {
+        const card = cards.find(current => current.id === cardId);
+        const copy = card?.copies.find(current => current.id === copyId);
+        return card && copy ? [this.buildItem(card, copy, details)] : [];
+      });
+
+    if (items.length === 0) {
+      throw new Error('Select at least one card to submit');
+    }
+    if (!details.serviceLevel.trim()) {
+      throw new Error('Enter a service level');
+    }
+    if (!(details.feePerCard >= 0) || !(details.shippingCost >= 0)) {
+      throw new Error('Fee and shipping must be zero or more');
+    }
+
+    const submission: GradingSubmission = {
+      ...details,
+      id: `submission_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      serviceLevel: details.serviceLevel.trim(),
+      notes: details.notes?.trim() || undefined,
+      createdAt: new Date().toISOString(),
+      items,
+    };
+
+    const submissions = [submission, ...(await this.load())];
+    await StorageService.saveSubmissions(submissions);
+    return submissions;
+  }
+
+  /**
+   * Applies changes to a single submission
+   */
+  static async update(
+    id: string,
+    changes: Partial<Omit<GradingSubmission, 'id' | 'items'>>,
+  ): Promise<GradingSubmission[]> {
+    const submissions = (await this.load()).map(submission =>
+      submission.id === id ? { ...submission, ...changes } : submission,
+    );
+    await StorageService.saveSubmissions(submissions);
+    return submissions;
+  }
+
+  /**
+   * Records the date a submission was shipped
+   *
+   * @param sentAt - ISO timestamp; defaults to now
+   */
+  static async markSent(id: string, sentAt: string = new Date().toISOString()): Promise<GradingSubmission[]> {
+    return this.update(id, { sentAt });
+  }
+
+  /**
+   * Records the date the graded cards came back
+   *
+   * @param receivedAt - ISO timestamp; defaults to now
+   * @throws Error if the submission was not sent or the date is before the sent date
+   */
+  static async markReceived(
+    id: string,
+    receivedAt: string = new Date().toISOString(),
+  ): Promise<GradingSubmission[]> {
+    const submission = await this.find(id);
+    if (!submission.sentAt) {
+      throw new Error('Mark the submission as sent first');
+    }
+    if (receivedAt < submission.sentAt) {
+      throw new Error('Received date cannot be before the sent date');
+    }
+    return this.update(id, { receivedAt });
+  }
+
+  /**
+   * Records the grade a card came back with
+   * Grades can be recorded before the cards arrive, since companies
+   * usually publish them online first
+   *
+   * @param id - Submission ID
+   * @param sent - Card and copy in the submission
+   * @param grade - Final grade, 1-10 in half steps
+   * @param certNumber - Certification number on the slab
+   * @throws Error if the grade is invalid or the copy is not in the submission
+   */
+  static async recordGrade(
+    id: string,
+    sent: Pick<GradingSubmissionItem, 'cardId' | 'copyId'>,
+    grade: number,
+    certNumber?: string,
+  ): Promise<GradingSubmission[]> {
+    if (!(grade >= 1 && grade <= 10) || !Number.isInteger(grade * 2)) {
+      throw new Error('Grades must be between 1 and 10 in steps of 0.5');
+    }
+
+    const isSent = (item: GradingSubmissionItem) => item.cardId === sent.cardId && item.copyId === sent.copyId;
+    const submission = await this.find(id);
+    if (!submission.items.some(isSent)) {
+      throw new Error('Card is not part of this submission');
+    }
+
+    const items = submission.items.map(item =>
+      isSent(item)
+        ? { ...item, returnedGrade: grade, certNumber: certNumber?.trim() || item.certNumber }
+        : item,
+    );
+    return this.saveItems(id, items);
+  }
+
+  /**
+   * Deletes a submission
+   */
+  static async remove(id: string): Promise<GradingSubmission[]> {
+    const remaining = (await this.load()).filter(submission => submission.id !== id);
+    await StorageService.saveSubmissions(remaining);
+    return remaining;
+  }
+
+  // ===============================================================
+  // REPORTING
+  // ===============================================================
+
+  /**
+   * Progress of a submission based on its dates
+   */
+  static getStatus(submission: GradingSubmission): GradingSubmissionStatus {
+    if (submission.receivedAt) {
+      return 'received';
+    }
+    return submission.sentAt ? 'sent' : 'preparing';
+  }
+
+  /**
+   * Grading fees for every card plus shipping, in the submission's currency
+   */
+  static getTotalCost(submission: GradingSubmission): number {
+    return this.round(submission.feePerCard * submission.items.length + submission.shippingCost);
+  }
+
+  /**
+   * Compares each returned grade with the card's prediction
+   * difference and withinRange are only set when both grades are known
+   */
+  static compare(submission: GradingSubmission): SubmissionGradeComparison[] {
+    return submission.items.map(item => {
+      const { prediction, returnedGrade } = item;
+      if (!prediction || returnedGrade === undefined) {
+        return { item };
+      }
+
+      return {
+        item,
+        difference: this.round(returnedGrade - prediction.grade),
+        withinRange: returnedGrade >= prediction.low && returnedGrade <= prediction.high,
+      };
+    });
+  }
+
+  /**
+   * Accuracy of predictions across submissions
+   */
+  static summarize(submissions: GradingSubmission[]): SubmissionAccuracy {
+    const differences = submissions
+      .flatMap(submission => this.compare(submission))
+      .filter(comparison => comparison.difference !== undefined);
+
+    const total = differences.reduce((sum, comparison) => sum + (comparison.difference ?? 0), 0);
+
+    return {
+      compared: differences.length,
+      exact: differences.filter(comparison => comparison.difference === 0).length,
+      withinRange: differences.filter(comparison => comparison.withinRange).length,
+      averageDifference: differences.length > 0 ? this.round(total / differences.length) : undefined,
+    };
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  /**
+   * Builds a submission item with the prediction from the copy's scan
+   */
+  private static buildItem(
+    card: CollectionCard,
+    copy: CardCopy,
+    details: GradingSubmissionDetails,
+  ): GradingSubmissionItem {
+    // Predict from the scan of this copy, not the first scan of the printing
+    const { subgrades, conditionAnalysis } = copy;
+    const prediction = subgrades
+      ? GradingScaleService.predictGrades(subgrades, conditionAnalysis?.centering)
+        .find(candidate => candidate.company === details.company)
+      : undefined;
+
+    return {
+      cardId: card.id,
+      copyId: copy.id,
+      cardName: card.name,
+      set: card.set,
+      prediction,
+    };
+  }
+
+  /**
+   * Loads a submission by ID
+   *
+   * @throws Error if it does not exist
+   */
+  private static async find(id: string): Promise<GradingSubmission> {
+    const submission = (await this.load()).find(current => current.id === id);
+    if (!submission) {
+      throw new Error('Submission not found');
+    }
+    return submission;
+  }
+
+  private static async saveItems(id: string, items: GradingSubmissionItem[]): Promise<GradingSubmission[]> {
+    const submissions = (await this.load()).map(submission =>
+      submission.id === id ? { ...submission, items } : submission,
+    );
+    await StorageService.saveSubmissions(submissions);
+    return submissions;
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * =================================================================
+ * SCAN HISTORY SERVICE
+ * =================================================================
+ *
+ * Keeps a persisted log of completed scans so earlier results can
+ * be revisited, added to the collection again or deleted.
+ *
+ * Scanned images are copied into the documents directory because
+ * camera and picker files live in temporary caches the OS may clear.
+ * The newest MAX_ENTRIES scans are kept; older entries and their
+ * images are removed when new scans are recorded.
+ *
+ * Every mutating method returns the updated history, newest first.
+ * Writes run one at a time, so concurrent changes are not lost.
+ * =================================================================
+ */
+
+import { Card, ScanHistoryEntry, XimilarGradingResult } from '../../types';
+import { StorageService } from '../storage/StorageService';
+import { ImageService } from '../image/ImageService';
+
+export class ScanHistoryService {
+  static readonly MAX_ENTRIES = 100;
+  private static readonly IMAGE_FOLDER = 'scans';
+  private static readonly COLLECTION_IMAGE_FOLDER = 'collection';
+
+  // Settles after the last queued write
+  private static writes: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Loads the scan history, newest first
+   */
+  static async load(): Promise<ScanHistoryEntry[]> {
+    return StorageService.loadScanHistory();
+  }
+
+  /**
+   * Records a completed scan
+   *
+   * @param result - Scan result from CameraService.recognizeCard
+   * @param imageUri - URI of the scanned image
+   * @returns Updated history with the new entry first
+   */
+  static async record(
+    result: { card: Card; confidence: number; gradingResult?: XimilarGradingResult },
+    imageUri: string,
+  ): Promise<ScanHistoryEntry[]> {
+    const id = `scan_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const entry: ScanHistoryEntry = {
+      id,
+      scannedAt: new Date().toISOString(),
+      imageUri: await ImageService.keepLocalCopy(imageUri, this.IMAGE_FOLDER, id),
+      card: result.card,
+      confidence: result.confidence,
+      gradingResult: result.gradingResult,
+      addedToCollection: false,
+    };
+
+    return this.serialize(async () => {
+      const history = [entry, ...(await this.load())];
+      const kept = history.slice(0, this.MAX_ENTRIES);
+      const dropped = history.slice(this.MAX_ENTRIES);
+      await Promise.all(dropped.map(old => ImageService.deleteLocalCopy(old.imageUri, this.IMAGE_FOLDER)));
+
+      await StorageService.saveScanHistory(kept);
+      return kept;
+    });
+  }
+
+  /**
+   * Applies changes to a single entry, e.g. a newly chosen candidate card
+   */
+  static async update(id: string, changes: Partial<Omit<ScanHistoryEntry, 'id'>>): Promise<ScanHistoryEntry[]> {
+    return this.serialize(async () => {
+      const history = (await this.load()).map(entry =>
+        entry.id === id ? { ...entry, ...changes } : entry,
+      );
+      await StorageService.saveScanHistory(history);
+      return history;
+    });
+  }
+
+  /**
+   * Marks an entry as added to the collection
+   */
+  static async markAdded(id: string): Promise<ScanHistoryEntry[]> {
+    return this.update(id, { addedToCollection: true, addedAt: new Date().toISOString() });
+  }
+
+  /**
+   * Copies an entry's image for a card being added to the collection
+   * The history deletes its own copy when an entry is removed, cleared
+   * or trimmed, so collection cards must not point at it
+   *
+   * @returns File URI of the collection's copy, or the card's image URL
+   * when the entry has no local image
+   */
+  static async keepImageForCollection(entry: ScanHistoryEntry): Promise<string> {
+    const imageUri = entry.imageUri || entry.card.imageUrl;
+    return ImageService.keepLocalCopy(imageUri, this.COLLECTION_IMAGE_FOLDER, `${entry.id}_${Date.now()}`);
+  }
+
+  /**
+   * Deletes an image copied by keepImageForCollection
+   * Card images that were not copied for the collection are left alone
+   */
+  static async deleteCollectionImage(imageUrl: string): Promise<void> {
+    await ImageService.deleteLocalCopy(imageUrl, this.COLLECTION_IMAGE_FOLDER);
+  }
+
+  /**
+   * Deletes every image copied for the collection
+   */
+  static async clearCollectionImages(): Promise<void> {
+    await ImageService.deleteLocalFolder(this.COLLECTION_IMAGE_FOLDER);
+  }
+
+  /**
+   * Deletes an entry and its image
+   */
+  static async remove(id: string): Promise<ScanHistoryEntry[]> {
+    return this.serialize(async () => {
+      const history = await this.load();
+      const entry = history.find(item => item.id === id);
+      if (entry) {
+        await ImageService.deleteLocalCopy(entry.imageUri, this.IMAGE_FOLDER);
+      }
+
+      const remaining = history.filter(item => item.id !== id);
+      await StorageService.saveScanHistory(remaining);
+      return remaining;
+    });
+  }
+
+  /**
+   * Deletes every entry and image
+   */
+  static async clear(): Promise<ScanHistoryEntry[]> {
+    return this.serialize(async () => {
+      const history = await this.load();
+      await Promise.all(history.map(entry => ImageService.deleteLocalCopy(entry.imageUri, this.IMAGE_FOLDER)));
+      await StorageService.saveScanHistory([]);
+      return [];
+    });
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  /**
+   * Runs a load-modify-save once every earlier write has finished
+   * A failed write does not stop the ones queued after it
+   */
+  private static serialize<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(write);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -6,6 +6,7 @@
  * This service handles image processing operations including:
  * - Converting local file URIs to base64 format
  * - File system operations for images
+ * - Keeping copies of temporary images in the documents directory
  * - Image format validation and conversion
  *
  * Features:
@@ -202,4 +203,74 @@ export class ImageService {
 
     return uri.startsWith('http://') || uri.startsWith('https://');
   }
+
+  /**
+   * Copy a local image into a folder of the documents directory
+   *
+   * Camera and picker files live in temporary caches the OS may clear,
+   * so images that must outlive the current session are copied.
+   * Falls back to the original URI when the copy fails.
+   *
+   * @param imageUri - Local file URI of the image
+   * @param folder - Folder name inside the documents directory
+   * @param name - File name without extension
+   * @returns string - File URI of the copy, or the original URI
+   */
+  static async keepLocalCopy(imageUri: string, folder: string, name: string): Promise<string> {
+    if (!imageUri.startsWith('file://') && !imageUri.startsWith('/')) {
+      return imageUri;
+    }
+
+    try {
+      const directory = `${RNFS.DocumentDirectoryPath}/${folder}`;
+      const source = imageUri.replace('file://', '');
+      const extension = source.match(/\.(\w+)$/)?.[1] || 'jpg';
+      const destination = `${directory}/${name}.${extension}`;
+
+      await RNFS.mkdir(directory);
+      await RNFS.copyFile(source, destination);
+      return `file://${destination}`;
+    } catch (error) {
+      console.warn('Failed to copy image, using original file:', error);
+      return imageUri;
+    }
+  }
+
+  /**
+   * Delete an image copied by keepLocalCopy
+   * Images outside the folder are never deleted
+   *
+   * @param imageUri - File URI of the copy
+   * @param folder - Folder name inside the documents directory
+   */
+  static async deleteLocalCopy(imageUri: string, folder: string): Promise<void> {
+    const path = imageUri.replace('file://', '');
+    if (!path.startsWith(`${RNFS.DocumentDirectoryPath}/${folder}/`)) {
+      return;
+    }
+
+    try {
+      if (await RNFS.exists(path)) {
+        await RNFS.unlink(path);
+      }
+    } catch (error) {
+      console.warn('Failed to delete image:', error);
+    }
+  }
+  /**
+   * Delete a folder of images copied by keepLocalCopy
+   *
+   * @param folder - Folder name inside the documents directory
+   */
+  static async deleteLocalFolder(folder: string): Promise<void> {
+    const path = `${RNFS.DocumentDirectoryPath}/${folder}`;
+
+    try {
+      if (await RNFS.exists(path)) {
+        await RNFS.unlink(path);
+      }
+    } catch (error) {
+      console.warn('Failed to delete image folder:', error);
+    }
+  }
 }
@@ -16,7 +16,7 @@
  * =================================================================
  */
 
-import axios from 'axios';
+import { HttpClient, HttpRequestError } from '../network/HttpClient';
 import Config from 'react-native-config';
 
 /**
@@ -131,11 +131,10 @@ export class ImageUploadService {
       
     } catch (error) {
       console.error('❌ Failed to upload image to temporary hosting:', error);
-      throw new Error(
-        `Failed to upload image to temporary hosting: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`
-      );
+      const message = `Failed to upload image to temporary hosting: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`;
+      throw error instanceof HttpRequestError ? error.withMessage(message) : new Error(message);
     }
   }
   
@@ -149,7 +148,8 @@ export class ImageUploadService {
     formData.append('name', filename);
     formData.append('expiration', '600'); // 10 minutes expiration
     
-    const response = await axios.post<ImgBBResponse>(this.IMGBB_UPLOAD_URL, formData, {
+    // Uploads create a new image, so only rate limits are retried
+    const response = await HttpClient.post<ImgBBResponse>(this.IMGBB_UPLOAD_URL, formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
@@ -183,7 +183,7 @@ export class ImageUploadService {
     } as any);
     formData.append('expires', '24'); // 24 hours expiration
     
-    const response = await axios.post(ALTERNATIVE_SERVICES.ZERO_X_ZERO, formData, {
+    const response = await HttpClient.post(ALTERNATIVE_SERVICES.ZERO_X_ZERO, formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
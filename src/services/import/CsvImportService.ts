@@ -0,0 +1,306 @@
+/**
+ * =================================================================
+ * CSV IMPORT SERVICE
+ * =================================================================
+ *
+ * Reads collection spreadsheets exported by this app or by other
+ * collection trackers and turns them into CollectionCard entries.
+ *
+ * Import runs in three steps:
+ * 1. readCsvFile - read and parse a CSV file from the device
+ * 2. suggestMapping - guess which column feeds which card field
+ * 3. buildPreview - build validated cards for the chosen mapping
+ *
+ * Rows that pass validation are merged into the collection by the
+ * caller using the same semantics as adding a scanned card.
+ * =================================================================
+ */
+
+import RNFS from 'react-native-fs';
+import {
+  CollectionCard,
+  CsvColumnMapping,
+  CsvImportFile,
+  ImportField,
+  ImportPreviewRow,
+} from '../../types';
+import { CardModel, CollectionModel } from '../../models';
+import { CsvService } from '../export/CsvService';
+
+/**
+ * Describes a field that can be imported and the header names
+ * commonly used for it, in order of preference
+ */
+interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  required?: boolean;
+  aliases: string[];
+}
+
+export class CsvImportService {
+  /**
+   * Importable fields, in the order they are shown for mapping
+   * Aliases are compared after lowercasing and removing non-alphanumerics
+   */
+  static readonly FIELDS: ImportFieldDefinition[] = [
+    { field: 'name', label: 'Name', required: true, aliases: ['name', 'cardname', 'card', 'title'] },
+    { field: 'set', label: 'Set', aliases: ['set', 'setname', 'expansion', 'edition', 'series'] },
+    { field: 'setCode', label: 'Set Code', aliases: ['setcode', 'setid', 'expansioncode', 'code'] },
+    { field: 'cardNumber', label: 'Card Number', aliases: ['cardnumber', 'number', 'collectornumber', 'no', 'num'] },
+    { field: 'variant', label: 'Variant', aliases: ['variant', 'version', 'printing', 'finish', 'foil'] },
+    { field: 'rarity', label: 'Rarity', aliases: ['rarity'] },
+    { field: 'type', label: 'Type', aliases: ['type', 'cardtype', 'game', 'category'] },
+    { field: 'year', label: 'Year', aliases: ['year', 'releaseyear', 'released'] },
+    { field: 'artist', label: 'Artist', aliases: ['artist', 'illustrator'] },
+    { field: 'condition', label: 'Condition', aliases: ['copycondition', 'condition', 'cond'] },
+    { field: 'price', label: 'Market Price', aliases: ['price', 'marketprice', 'value', 'marketvalue'] },
+    { field: 'currency', label: 'Currency', aliases: ['currency', 'pricecurrency', 'marketcurrency'] },
+    { field: 'quantity', label: 'Quantity', aliases: ['quantity', 'qty', 'count', 'copies', 'amount'] },
+    { field: 'dateAdded', label: 'Date Added', aliases: ['acquiredat', 'dateadded', 'added', 'acquired', 'purchasedate', 'date'] },
+    { field: 'imageUrl', label: 'Image URL', aliases: ['imageurl', 'image', 'imageuri', 'picture'] },
+    { field: 'description', label: 'Description', aliases: ['description', 'details'] },
+    { field: 'grade', label: 'Grade', aliases: ['copygrade', 'grade', 'gradevalue'] },
+    { field: 'gradingCompany', label: 'Graded By', aliases: ['copygradingcompany', 'gradingcompany', 'gradedby', 'grader'] },
+    { field: 'purchasePrice', label: 'Purchase Price', aliases: ['purchaseprice', 'paid', 'cost', 'pricepaid', 'buyprice'] },
+    { field: 'purchaseCurrency', label: 'Purchase Currency', aliases: ['purchasecurrency', 'paidcurrency', 'costcurrency'] },
+    { field: 'storageLocation', label: 'Storage Location', aliases: ['storagelocation', 'location', 'binder', 'box'] },
+    { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comments', 'comment'] },
+  ];
+
+  /**
+   * Lists CSV files in the app's documents directory
+   * Users place files there through the Files app or file sharing
+   *
+   * @returns CSV files sorted by name
+   */
+  static async listCsvFiles(): Promise<RNFS.ReadDirItem[]> {
+    const items = await RNFS.readDir(RNFS.DocumentDirectoryPath);
+    return items
+      .filter(item => item.isFile() && item.name.toLowerCase().endsWith('.csv'))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Reads and parses a CSV file
+   *
+   * @param path - Absolute path of the file
+   * @returns Header names and data rows
+   * @throws Error if the file cannot be read or has no header row
+   */
+  static async readCsvFile(path: string): Promise<CsvImportFile> {
+    const text = await RNFS.readFile(path, 'utf8');
+    return { path, ...this.parseCsv(text) };
+  }
+
+  /**
+   * Splits CSV text into a header row and data rows
+   *
+   * @throws Error if the text has no header row
+   */
+  static parseCsv(text: string): Omit<CsvImportFile, 'path'> {
+    const [headers, ...rows] = CsvService.parse(text);
+    if (!headers) {
+      throw new Error('CSV file is empty');
+    }
+    return { headers: headers.map(header => header.trim()), rows };
+  }
+
+  /**
+   * Guesses a column mapping from header names
+   * Each column is used for at most one field
+   *
+   * @param headers - Header row of the file
+   * @returns Mapping of fields to column indexes
+   */
+  static suggestMapping(headers: string[]): CsvColumnMapping {
+    const normalized = headers.map(header => this.normalizeHeader(header));
+    const used = new Set<number>();
+    const mapping: CsvColumnMapping = {};
+
+    // Our own export writes one row per copy, so its quantity column
+    // is the entry total and must not multiply the copies again
+    const isPerCopyExport = normalized.includes('copyid');
+
+    this.FIELDS.forEach(({ field, aliases }) => {
+      if (field === 'quantity' && isPerCopyExport) {
+        return;
+      }
+
+      for (const alias of aliases) {
+        const index = normalized.findIndex((header, i) => header === alias && !used.has(i));
+        if (index !== -1) {
+          mapping[field] = index;
+          used.add(index);
+          return;
+        }
+      }
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Builds a validated preview of every data row
+   *
+   * @param file - Parsed CSV file
+   * @param mapping - Column mapping chosen by the user
+   * @param defaultCurrency - Currency of prices in rows without a currency column
+   * @returns One preview row per data row
+   */
+  static buildPreview(
+    file: Pick<CsvImportFile, 'rows'>,
+    mapping: CsvColumnMapping,
+    defaultCurrency: string = 'USD',
+  ): ImportPreviewRow[] {
+    return file.rows.map((row, index) => this.buildPreviewRow(row, index + 2, mapping, defaultCurrency));
+  }
+
+  /**
+   * Validates a single data row and converts it to a collection entry
+   *
+   * @param row - Raw field values
+   * @param rowNumber - Line number used in error messages
+   * @param mapping - Column mapping chosen by the user
+   * @param defaultCurrency - Currency of prices when the row has none
+   */
+  static buildPreviewRow(
+    row: string[],
+    rowNumber: number,
+    mapping: CsvColumnMapping,
+    defaultCurrency: string = 'USD',
+  ): ImportPreviewRow {
+    const errors: string[] = [];
+    const value = (field: ImportField): string | undefined => {
+      const index = mapping[field];
+      const raw = index === undefined || row[index] === undefined
+        ? undefined
+        : CsvService.unguardFormula(row[index].trim());
+      return raw ? raw : undefined;
+    };
+    const number = (field: ImportField, label: string): number | undefined => {
+      const raw = value(field);
+      if (raw === undefined) {
+        return undefined;
+      }
+      // A single comma without a dot is a decimal comma, e.g. "12,50"
+      const cleaned = raw.replace(/[^0-9.,-]/g, '');
+      const commas = cleaned.split(',').length - 1;
+      if (commas > 1 || (commas === 1 && cleaned.includes('.'))) {
+        errors.push(`${label} "${raw}" is ambiguous - use a single dot or comma as the decimal separator`);
+        return undefined;
+      }
+      const parsed = cleaned ? Number(cleaned.replace(',', '.')) : NaN;
+      if (isNaN(parsed)) {
+        errors.push(`${label} "${raw}" is not a number`);
+        return undefined;
+      }
+      return parsed;
+    };
+
+    const name = value('name');
+    if (!name) {
+      errors.push('Name is required');
+    }
+
+    const price = number('price', 'Market price');
+    const purchasePrice = number('purchasePrice', 'Purchase price');
+
+    const currency = (value('currency') || defaultCurrency).toUpperCase();
+    const purchaseCurrency = (value('purchaseCurrency') || currency).toUpperCase();
+    [currency, purchaseCurrency].forEach(code => {
+      if (!/^[A-Z]{3}$/.test(code)) {
+        errors.push(`Currency "${code}" is not a 3-letter currency code`);
+      }
+    });
+
+    const grade = number('grade', 'Grade');
+    if (grade !== undefined && (grade < 1 || grade > 10)) {
+      errors.push(`Grade ${grade} must be between 1 and 10`);
+    }
+
+    const year = number('year', 'Year');
+    const latestYear = new Date().getFullYear() + 1;
+    if (year !== undefined && (!Number.isInteger(year) || year < 1900 || year > latestYear)) {
+      errors.push(`Year ${year} is not a valid release year`);
+    }
+
+    const quantity = number('quantity', 'Quantity') ?? 1;
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      errors.push(`Quantity ${quantity} must be a whole number of at least 1`);
+    }
+
+    const rawDate = value('dateAdded');
+    const dateAdded = rawDate ? new Date(rawDate) : new Date();
+    if (isNaN(dateAdded.getTime())) {
+      errors.push(`Date "${rawDate}" is not a valid date`);
+    }
+
+    if (errors.length > 0 || !name) {
+      return { rowNumber, errors };
+    }
+
+    const set = value('set') || 'Unknown Set';
+    const identity = {
+      setCode: value('setCode'),
+      cardNumber: value('cardNumber'),
+      variant: value('variant'),
+    };
+
+    // Same printing -> same id, so rows merge with each other and the collection
+    const id = identity.setCode && identity.cardNumber
+      ? `import_${CardModel.getCardKey({ id: '', ...identity })}`
+      : `import_${this.slugify(name)}_${this.slugify(set)}`;
+
+    const card = {
+      id,
+      name,
+      set,
+      ...identity,
+      rarity: value('rarity') || 'Unknown',
+      condition: value('condition') || 'Unknown',
+      price: price ?? 0,
+      currency,
+      imageUrl: value('imageUrl') || '',
+      description: value('description') || '',
+      artist: value('artist') || 'Unknown',
+      year: year ?? new Date().getFullYear(),
+      type: value('type') || 'Trading Card',
+    };
+
+    const acquiredAt = dateAdded.toISOString();
+    const copies = Array.from({ length: quantity }, () =>
+      CollectionModel.createCopy(card, {
+        grade,
+        gradingCompany: value('gradingCompany')?.toUpperCase(),
+        purchasePrice,
+        purchaseCurrency: purchasePrice !== undefined ? purchaseCurrency : undefined,
+        storageLocation: value('storageLocation'),
+        notes: value('notes'),
+        acquiredAt,
+      }),
+    );
+
+    const collectionCard: CollectionCard = {
+      ...card,
+      quantity: copies.length,
+      dateAdded: acquiredAt,
+      copies,
+      priceHistory: card.price > 0 ? [{ date: acquiredAt, price: card.price }] : [],
+    };
+
+    return { rowNumber, card: collectionCard, errors };
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  private static normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
+  private static slugify(text: string): string {
+    return text.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+}
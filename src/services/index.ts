@@ -1,8 +1,26 @@
 export { StorageService } from './storage/StorageService';
 export { CameraService } from './camera/CameraService';
-export { XimilarApiService, MockCardDataService } from './api/MockApiService';
-export { XimilarApiService as XimilarApiServiceAlt } from './api/XimilarApiService';
+export { XimilarApiService, XimilarGradingClient, MockCardDataService } from './api/XimilarApiService';
+export type { CardGradingClient } from './api/CardGradingClient';
+export { FakeGradingClient } from './api/FakeGradingClient';
+export { GradingClientService } from './api/GradingClientService';
+export { CardMappingService } from './api/CardMappingService';
 export { PermissionsService } from './permissions/PermissionsService';
 export { ThemeService } from './theme/ThemeService';
 export { ImageService } from './image/ImageService';
 export { ImageUploadService } from './image/ImageUploadService';
+export { CsvService } from './export/CsvService';
+export { CsvImportService } from './import/CsvImportService';
+export { BackupService } from './backup/BackupService';
+export { PricingService } from './pricing/PricingService';
+export { PriceHistoryService } from './pricing/PriceHistoryService';
+export { CurrencyService } from './currency/CurrencyService';
+export { ScanHistoryService } from './history/ScanHistoryService';
+export { ConnectivityService } from './network/ConnectivityService';
+export { OfflineQueueService } from './offline/OfflineQueueService';
+export { HttpClient, HttpRequestError } from './network/HttpClient';
+export { ConditionOverlayService } from './grading/ConditionOverlayService';
+export { CenteringService } from './grading/CenteringService';
+export { GradingScaleService } from './grading/GradingScaleService';
+export { GradingSubmissionService } from './grading/GradingSubmissionService';
+export { SubmissionTrackerService } from './grading/SubmissionTrackerService';
@@ -0,0 +1,118 @@
+/**
+ * =================================================================
+ * CONNECTIVITY SERVICE
+ * =================================================================
+ *
+ * Tracks whether the device can reach the internet.
+ *
+ * There is no native network state module in this app, so
+ * connectivity is detected by polling a lightweight URL while
+ * monitoring is active, and whenever the app returns to the
+ * foreground. Any HTTP response counts as online; only network
+ * failures and timeouts count as offline.
+ * =================================================================
+ */
+
+import axios from 'axios';
+import Config from 'react-native-config';
+import { AppState, NativeEventSubscription } from 'react-native';
+import { HttpRequestError } from './HttpClient';
+
+export class ConnectivityService {
+  private static readonly CHECK_URL =
+    Config.CONNECTIVITY_CHECK_URL || 'https://clients3.google.com/generate_204';
+  private static readonly CHECK_INTERVAL = 30000; // 30 seconds
+  private static readonly CHECK_TIMEOUT = 5000;
+
+  private static online = true;
+  private static listeners: Array<(online: boolean) => void> = [];
+  private static timer?: ReturnType<typeof setInterval>;
+  private static appStateSubscription?: NativeEventSubscription;
+
+  /**
+   * Last known connectivity state
+   * Assumed online until a check says otherwise
+   */
+  static isOnline(): boolean {
+    return this.online;
+  }
+
+  /**
+   * Checks connectivity now and notifies listeners of changes
+   *
+   * @returns True if the check URL could be reached
+   */
+  static async checkConnection(): Promise<boolean> {
+    try {
+      await axios.head(this.CHECK_URL, {
+        timeout: this.CHECK_TIMEOUT,
+        validateStatus: () => true,
+      });
+      this.setOnline(true);
+    } catch (error) {
+      this.setOnline(false);
+    }
+    return this.online;
+  }
+
+  /**
+   * Whether a failed request means the device is offline
+   * i.e. it got no response or timed out
+   */
+  static isConnectivityError(error: unknown): boolean {
+    return error instanceof HttpRequestError && (error.isNetworkError || error.isTimeout);
+  }
+
+  /**
+   * Records a connectivity change detected elsewhere,
+   * e.g. a request that failed with a network error
+   */
+  static setOnline(online: boolean): void {
+    if (this.online === online) {
+      return;
+    }
+
+    console.log(online ? '🌐 Connection restored' : '📴 Connection lost');
+    this.online = online;
+    this.listeners.forEach(listener => listener(online));
+  }
+
+  /**
+   * Starts polling and foreground checks
+   * Calling it again while monitoring is a no-op
+   */
+  static startMonitoring(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.checkConnection();
+    this.timer = setInterval(() => this.checkConnection(), this.CHECK_INTERVAL);
+    this.appStateSubscription = AppState.addEventListener('change', state => {
+      if (state === 'active') {
+        this.checkConnection();
+      }
+    });
+  }
+
+  static stopMonitoring(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = undefined;
+  }
+
+  /**
+   * Add a connectivity change listener
+   *
+   * @returns Unsubscribe function
+   */
+  static addConnectivityListener(listener: (online: boolean) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(entry => entry !== listener);
+    };
+  }
+}
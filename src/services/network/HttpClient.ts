@@ -0,0 +1,214 @@
+/**
+ * =================================================================
+ * HTTP CLIENT
+ * =================================================================
+ *
+ * Shared request layer for the external APIs used by the app.
+ *
+ * Failed requests are retried with jittered exponential backoff
+ * when repeating them is safe:
+ * - 429 and 503 responses are always retried, since the server did
+ *   not process the request. A Retry-After header replaces the
+ *   computed delay.
+ * - Network errors, timeouts and other 5xx responses are retried
+ *   only for idempotent requests.
+ *
+ * Responses and errors both report how many attempts were made.
+ * =================================================================
+ */
+
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+/**
+ * Retry behaviour for a single request
+ */
+export interface RetryOptions {
+  // Total attempts including the first request
+  maxAttempts?: number;
+  // Delay before the first retry in milliseconds, doubled for every retry
+  baseDelay?: number;
+  maxDelay?: number;
+  // Whether repeating the request is safe. Defaults to true for GET requests
+  idempotent?: boolean;
+  onRetry?: (attempt: number, delay: number, error: HttpRequestError) => void;
+}
+
+export type HttpResponse<T> = AxiosResponse<T> & { attempts: number };
+
+/**
+ * Request that still failed after the last attempt
+ */
+export class HttpRequestError extends Error {
+  readonly attempts: number;
+  readonly status?: number;
+  readonly code?: string;
+  readonly data?: unknown;
+  // Delay requested by a Retry-After header in milliseconds
+  readonly retryAfter?: number;
+
+  constructor(message: string, attempts: number, details: Partial<HttpRequestError> = {}) {
+    super(message);
+    this.name = 'HttpRequestError';
+    this.attempts = attempts;
+    this.status = details.status;
+    this.code = details.code;
+    this.data = details.data;
+    this.retryAfter = details.retryAfter;
+  }
+
+  get isTimeout(): boolean {
+    return this.code === 'ECONNABORTED' || this.code === 'ETIMEDOUT';
+  }
+
+  // No response was received, e.g. the device is offline
+  get isNetworkError(): boolean {
+    return this.status === undefined && !this.isTimeout;
+  }
+
+  // Same failure with a message for the caller's context
+  withMessage(message: string): HttpRequestError {
+    return new HttpRequestError(message, this.attempts, this);
+  }
+}
+
+export class HttpClient {
+  static readonly DEFAULT_MAX_ATTEMPTS = 3;
+  static readonly DEFAULT_BASE_DELAY = 1000;
+  static readonly DEFAULT_MAX_DELAY = 8000;
+
+  // Longer Retry-After values are not waited for
+  static readonly MAX_RETRY_AFTER = 60000; // 1 minute
+
+  /**
+   * Sends a GET request, retried by default
+   */
+  static async get<T = any>(
+    url: string,
+    config: AxiosRequestConfig = {},
+    options: RetryOptions = {},
+  ): Promise<HttpResponse<T>> {
+    return this.send(() => axios.get<T>(url, config), { idempotent: true, ...options });
+  }
+
+  /**
+   * Sends a POST request
+   * Pass idempotent: true when repeating it has no side effects
+   */
+  static async post<T = any>(
+    url: string,
+    data?: any,
+    config: AxiosRequestConfig = {},
+    options: RetryOptions = {},
+  ): Promise<HttpResponse<T>> {
+    return this.send(() => axios.post<T>(url, data, config), options);
+  }
+
+  /**
+   * Waits before the next attempt
+   * Separate so tests can skip the delay
+   */
+  static sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Delay before a retry: exponential backoff with equal jitter,
+   * i.e. a random value between half and all of the backoff
+   *
+   * @param attempt - Number of the attempt that just failed, from 1
+   */
+  static getBackoffDelay(attempt: number, options: RetryOptions = {}): number {
+    const baseDelay = options.baseDelay ?? this.DEFAULT_BASE_DELAY;
+    const maxDelay = options.maxDelay ?? this.DEFAULT_MAX_DELAY;
+    const backoff = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  /**
+   * Parses a Retry-After header given in seconds or as an HTTP date
+   *
+   * @returns Delay in milliseconds, or undefined if missing or invalid
+   */
+  static parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return undefined;
+    }
+
+    const seconds = Number(value);
+    if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  private static async send<T>(
+    request: () => Promise<AxiosResponse<T>>,
+    options: RetryOptions,
+  ): Promise<HttpResponse<T>> {
+    const maxAttempts = Math.max(1, options.maxAttempts ?? this.DEFAULT_MAX_ATTEMPTS);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await request();
+        return Object.assign(response, { attempts: attempt });
+      } catch (error) {
+        // Errors thrown before a request was made are not retried
+        if (!axios.isAxiosError(error)) {
+          throw error;
+        }
+
+        const requestError = this.toRequestError(error, attempt);
+        const delay = this.getRetryDelay(requestError, attempt, options);
+
+        if (attempt >= maxAttempts || delay === undefined) {
+          throw requestError;
+        }
+
+        console.log(`🔁 Request failed (${requestError.message}), retry ${attempt}/${maxAttempts - 1} in ${delay}ms`);
+        options.onRetry?.(attempt, delay, requestError);
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Delay before retrying a failed attempt
+   *
+   * @returns Undefined if the request should not be retried
+   */
+  private static getRetryDelay(
+    error: HttpRequestError,
+    attempt: number,
+    options: RetryOptions,
+  ): number | undefined {
+    const serverRejected = error.status === 429 || error.status === 503;
+    const transient = error.status === undefined || error.status >= 500;
+
+    if (!serverRejected && !(transient && options.idempotent)) {
+      return undefined;
+    }
+
+    if (error.retryAfter !== undefined) {
+      return error.retryAfter <= this.MAX_RETRY_AFTER ? error.retryAfter : undefined;
+    }
+
+    return this.getBackoffDelay(attempt, options);
+  }
+
+  private static toRequestError(error: any, attempts: number): HttpRequestError {
+    const response = error.response;
+
+    return new HttpRequestError(error.message || 'Request failed', attempts, {
+      status: response?.status,
+      code: error.code,
+      data: response?.data,
+      retryAfter: this.parseRetryAfter(response?.headers?.['retry-after']),
+    });
+  }
+}
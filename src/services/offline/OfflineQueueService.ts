@@ -0,0 +1,174 @@
+/**
+ * =================================================================
+ * OFFLINE QUEUE SERVICE
+ * =================================================================
+ *
+ * Persistent queue of scans captured while offline or with offline
+ * mode enabled. Images are copied into the documents directory so
+ * they survive until they are graded.
+ *
+ * Processing grades queued scans one at a time through
+ * the configured grading client and records the results in the
+ * scan history.
+ * A connectivity failure leaves the scan queued and stops processing;
+ * any other failure marks the scan failed so the user can retry or
+ * discard it.
+ *
+ * Every mutating method returns the updated queue, oldest first.
+ * =================================================================
+ */
+
+import { QueuedScan, ScanHistoryEntry } from '../../types';
+import { StorageService } from '../storage/StorageService';
+import { ImageService } from '../image/ImageService';
+import { GradingClientService } from '../api/GradingClientService';
+import { CameraService } from '../camera/CameraService';
+import { ScanHistoryService } from '../history/ScanHistoryService';
+import { ConnectivityService } from '../network/ConnectivityService';
+
+/**
+ * Callbacks invoked while the queue is processed
+ */
+export interface QueueProcessingHandlers {
+  onQueueChange?: (queue: QueuedScan[]) => void;
+  onGraded?: (history: ScanHistoryEntry[]) => void;
+}
+
+export class OfflineQueueService {
+  private static readonly IMAGE_FOLDER = 'queue';
+
+  /**
+   * Loads the queue
+   * Scans left processing by an interrupted run are queued again
+   */
+  static async load(): Promise<QueuedScan[]> {
+    const queue = await StorageService.loadOfflineQueue();
+    return queue.map(scan => (scan.status === 'processing' ? { ...scan, status: 'queued' } : scan));
+  }
+
+  /**
+   * Adds a captured image to the queue
+   *
+   * @param imageUri - URI of the captured image
+   * @returns Updated queue with the new scan last
+   */
+  static async enqueue(imageUri: string): Promise<QueuedScan[]> {
+    const id = `queued_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const scan: QueuedScan = {
+      id,
+      imageUri: await ImageService.keepLocalCopy(imageUri, this.IMAGE_FOLDER, id),
+      queuedAt: new Date().toISOString(),
+      status: 'queued',
+      attempts: 0,
+    };
+
+    return this.save([...(await this.load()), scan]);
+  }
+
+  /**
+   * Queues a failed scan again
+   */
+  static async retry(id: string): Promise<QueuedScan[]> {
+    const queue = (await this.load()).map(scan =>
+      scan.id === id ? { ...scan, status: 'queued' as const, lastError: undefined } : scan,
+    );
+    return this.save(queue);
+  }
+
+  /**
+   * Removes a scan and its image without grading it
+   */
+  static async discard(id: string): Promise<QueuedScan[]> {
+    const queue = await this.load();
+    const scan = queue.find(item => item.id === id);
+    if (scan) {
+      await ImageService.deleteLocalCopy(scan.imageUri, this.IMAGE_FOLDER);
+    }
+    return this.save(queue.filter(item => item.id !== id));
+  }
+
+  /**
+   * Removes every scan and image
+   */
+  static async clear(): Promise<QueuedScan[]> {
+    const queue = await this.load();
+    await Promise.all(queue.map(scan => ImageService.deleteLocalCopy(scan.imageUri, this.IMAGE_FOLDER)));
+    return this.save([]);
+  }
+
+  /**
+   * Grades every queued scan, oldest first
+   * Every write reloads the stored queue so scans enqueued, retried or
+   * discarded while grading are kept
+   *
+   * @param handlers - Notified after every queue or history change
+   * @returns Number of scans graded
+   */
+  static async process(handlers: QueueProcessingHandlers = {}): Promise<number> {
+    let graded = 0;
+    let next = (await this.load()).find(scan => scan.status === 'queued');
+
+    while (next) {
+      const scan: QueuedScan = {
+        ...next,
+        status: 'processing',
+        attempts: next.attempts + 1,
+        lastAttemptAt: new Date().toISOString(),
+      };
+      await this.update(scan, handlers);
+
+      try {
+        console.log(`🔄 Grading queued scan ${scan.id}...`);
+        const gradingResult = await GradingClientService.getClient().gradeCard(scan.imageUri);
+        const history = await ScanHistoryService.record(
+          CameraService.toScanResult(gradingResult, scan.imageUri),
+          scan.imageUri,
+        );
+        handlers.onGraded?.(history);
+
+        await ImageService.deleteLocalCopy(scan.imageUri, this.IMAGE_FOLDER);
+        await this.remove(scan.id, handlers);
+        graded++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Card grading failed';
+
+        if (ConnectivityService.isConnectivityError(error)) {
+          console.log('📴 Still offline, pausing queue processing');
+          await this.update({ ...scan, status: 'queued', lastError: message }, handlers);
+          ConnectivityService.setOnline(false);
+          break;
+        }
+
+        console.error(`❌ Queued scan ${scan.id} failed:`, message);
+        await this.update({ ...scan, status: 'failed', lastError: message }, handlers);
+      }
+
+      next = (await this.load()).find(item => item.status === 'queued');
+    }
+
+    return graded;
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  /**
+   * Stores a new state of one scan in the current queue
+   * A scan discarded in the meantime is not added back
+   */
+  private static async update(scan: QueuedScan, handlers: QueueProcessingHandlers): Promise<void> {
+    const queue = await this.save((await this.load()).map(item => (item.id === scan.id ? scan : item)));
+    handlers.onQueueChange?.(queue);
+  }
+
+  private static async remove(id: string, handlers: QueueProcessingHandlers): Promise<void> {
+    const queue = await this.save((await this.load()).filter(item => item.id !== id));
+    handlers.onQueueChange?.(queue);
+  }
+
+  private static async save(queue: QueuedScan[]): Promise<QueuedScan[]> {
+    await StorageService.saveOfflineQueue(queue);
+    return queue;
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * =================================================================
+ * PRICE HISTORY SERVICE
+ * =================================================================
+ *
+ * Tracks how card prices and collection value change over time.
+ *
+ * - Each collection entry keeps a price point for every refresh of
+ *   its market price (see collectionSlice.addCard)
+ * - The collection's total value is snapshotted once per day
+ *
+ * Gain/loss compares a card's current market price with its market
+ * price when each copy was acquired.
+ * =================================================================
+ */
+
+import {
+  CardCopy,
+  CollectionCard,
+  PriceChange,
+  PricePoint,
+  ValueSnapshot,
+} from '../../types';
+
+export class PriceHistoryService {
+  /**
+   * Appends a price point unless it repeats the latest price on the same day
+   *
+   * @param history - Existing price points, oldest first
+   * @param price - Refreshed market price
+   * @param date - ISO timestamp of the refresh
+   * @returns Updated price points
+   */
+  static appendPrice(history: PricePoint[] = [], price: number, date: string): PricePoint[] {
+    if (!(price > 0)) {
+      return history;
+    }
+
+    const latest = history[history.length - 1];
+    if (latest && latest.price === price && this.toDay(latest.date) === this.toDay(date)) {
+      return history;
+    }
+    return [...history, { date, price }];
+  }
+
+  /**
+   * Gets the market price in effect at a given time
+   * Falls back to the oldest known price for earlier dates
+   *
+   * @param history - Price points, oldest first
+   * @param date - ISO timestamp
+   * @returns Price, or undefined when there is no history
+   */
+  static getPriceAt(history: PricePoint[] = [], date: string): number | undefined {
+    if (history.length === 0) {
+      return undefined;
+    }
+
+    const time = new Date(date).getTime();
+    let price = history[0].price;
+    history.forEach(point => {
+      if (new Date(point.date).getTime() <= time) {
+        price = point.price;
+      }
+    });
+    return price;
+  }
+
+  /**
+   * Market value change of a single copy since it was acquired
+   */
+  static getCopyChange(card: CollectionCard, copy: CardCopy): PriceChange | undefined {
+    const basis = this.getPriceAt(card.priceHistory, copy.acquiredAt);
+    if (basis === undefined || !card.price) {
+      return undefined;
+    }
+    return this.toChange(basis, card.price);
+  }
+
+  /**
+   * Market value change of all copies of a card since acquisition
+   *
+   * @returns Combined change, or undefined without price history
+   */
+  static getCardChange(card: CollectionCard): PriceChange | undefined {
+    const changes = card.copies
+      .map(copy => this.getCopyChange(card, copy))
+      .filter((change): change is PriceChange => change !== undefined);
+
+    if (changes.length === 0) {
+      return undefined;
+    }
+
+    return this.toChange(
+      changes.reduce((sum, change) => sum + change.basis, 0),
+      changes.reduce((sum, change) => sum + change.current, 0),
+    );
+  }
+
+  /**
+   * Adds or replaces today's snapshot
+   *
+   * @param snapshots - Existing snapshots, oldest first
+   * @param snapshot - Snapshot for the current day
+   * @returns Updated snapshots, or the same array if nothing changed
+   */
+  static recordSnapshot(snapshots: ValueSnapshot[], snapshot: ValueSnapshot): ValueSnapshot[] {
+    const existing = snapshots.find(entry => entry.date === snapshot.date);
+    if (
+      existing &&
+      existing.value === snapshot.value &&
+      existing.cost === snapshot.cost &&
+      existing.copies === snapshot.copies
+    ) {
+      return snapshots;
+    }
+
+    return [...snapshots.filter(entry => entry.date !== snapshot.date), snapshot]
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Converts a timestamp to its local calendar day (YYYY-MM-DD)
+   */
+  static toDay(date: string | Date): string {
+    const value = new Date(date);
+    const month = String(value.getMonth() + 1).padStart(2, '0');
+    const day = String(value.getDate()).padStart(2, '0');
+    return `${value.getFullYear()}-${month}-${day}`;
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  private static toChange(basis: number, current: number): PriceChange {
+    const change = Math.round((current - basis) * 100) / 100;
+    return {
+      basis,
+      current,
+      change,
+      changePercent: basis > 0 ? Math.round((change / basis) * 1000) / 10 : 0,
+    };
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * =================================================================
+ * PRICING SERVICE
+ * =================================================================
+ *
+ * Turns the marketplace listings returned with a Ximilar
+ * identification match into market estimates for a card.
+ *
+ * Listings are split several ways:
+ * - sold (has a sale date) vs. listed (still for sale)
+ * - raw (no grading company) vs. graded
+ * - per grading company and grade, e.g. PSA 10 or BGS 9.5
+ *
+ * Listings in other currencies are converted to the most common
+ * listing currency before aggregating.
+ *
+ * Medians are used as estimates because asking prices include
+ * outliers that would skew an average. The headline estimate
+ * prefers sold prices over asking prices and raw copies over graded
+ * ones, since a freshly scanned card is an ungraded copy.
+ * =================================================================
+ */
+
+import {
+  CardMarketPrice,
+  GradedPriceStats,
+  PriceStats,
+  XimilarPriceItem,
+} from '../../types';
+import { CurrencyService } from '../currency/CurrencyService';
+
+export class PricingService {
+  /**
+   * Aggregates listings into a market estimate
+   *
+   * Prices are converted to the most common listing currency. Listings
+   * in currencies without a known exchange rate are left out.
+   *
+   * @param listings - Pricing listings from an identification match
+   * @returns Market estimate, or undefined when no usable listing exists
+   */
+  static aggregate(listings?: XimilarPriceItem[]): CardMarketPrice | undefined {
+    const usable = (listings || []).filter(
+      item => typeof item.price === 'number' && isFinite(item.price) && item.price > 0,
+    );
+    if (usable.length === 0) {
+      return undefined;
+    }
+
+    const currency = this.dominantCurrency(usable);
+    const included = usable
+      .map(item => ({ ...item, price: CurrencyService.convert(item.price, item.currency, currency) }))
+      .filter((item): item is XimilarPriceItem => item.price !== undefined)
+      .map(item => ({ ...item, price: this.round(item.price) }));
+
+    const sold = included.filter(item => Boolean(item.date_of_sale));
+    const listed = included.filter(item => !item.date_of_sale);
+    const graded = included.filter(item => Boolean(item.grade_company));
+    const raw = included.filter(item => !item.grade_company);
+
+    // Headline estimate: best available group for an ungraded copy
+    const estimateGroup = [raw.filter(item => item.date_of_sale), raw, sold, included]
+      .find(group => group.length > 0)!;
+
+    return {
+      currency,
+      updatedAt: new Date().toISOString(),
+      listingCount: included.length,
+      estimate: this.calculateStats(estimateGroup.map(item => item.price))!.median,
+      overall: this.calculateStats(included.map(item => item.price))!,
+      sold: this.calculateStats(sold.map(item => item.price)),
+      listed: this.calculateStats(listed.map(item => item.price)),
+      raw: this.calculateStats(raw.map(item => item.price)),
+      graded: this.calculateStats(graded.map(item => item.price)),
+      byGrade: this.groupByGrade(graded),
+    };
+  }
+
+  /**
+   * Gets the headline price for a card
+   *
+   * @param marketPrice - Aggregated market estimate
+   * @returns Estimated price, or 0 when there is no estimate
+   */
+  static getEstimatedPrice(marketPrice?: CardMarketPrice): number {
+    return marketPrice?.estimate ?? 0;
+  }
+
+  /**
+   * Calculates median, low and high for a list of prices
+   *
+   * @param prices - Listing prices
+   * @returns Statistics, or undefined for an empty list
+   */
+  static calculateStats(prices: number[]): PriceStats | undefined {
+    if (prices.length === 0) {
+      return undefined;
+    }
+
+    const sorted = [...prices].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
+
+    return {
+      count: sorted.length,
+      median: this.round(median),
+      low: sorted[0],
+      high: sorted[sorted.length - 1],
+    };
+  }
+
+  // ===============================================================
+  // PRIVATE HELPER METHODS
+  // ===============================================================
+
+  /**
+   * Groups graded listings by company and grade
+   */
+  private static groupByGrade(listings: XimilarPriceItem[]): GradedPriceStats[] {
+    const groups = new Map<string, { company: string; grade: string; prices: number[] }>();
+
+    listings.forEach(item => {
+      const company = (item.grade_company || '').trim().toUpperCase();
+      const grade = (item.grade || 'Unknown').trim();
+      const key = `${company} ${grade}`;
+      const group = groups.get(key) || { company, grade, prices: [] };
+      group.prices.push(item.price);
+      groups.set(key, group);
+    });
+
+    return Array.from(groups.values())
+      .map(({ company, grade, prices }) => ({ company, grade, ...this.calculateStats(prices)! }))
+      .sort((a, b) =>
+        a.company.localeCompare(b.company) || (parseFloat(b.grade) || 0) - (parseFloat(a.grade) || 0),
+      );
+  }
+
+  /**
+   * Most common currency among listings; ties go to the first seen
+   */
+  private static dominantCurrency(listings: XimilarPriceItem[]): string {
+    const counts = new Map<string, number>();
+    listings.forEach(item => {
+      const currency = this.normalizeCurrency(item.currency);
+      counts.set(currency, (counts.get(currency) || 0) + 1);
+    });
+
+    let dominant = '';
+    let highest = 0;
+    counts.forEach((count, currency) => {
+      if (count > highest) {
+        dominant = currency;
+        highest = count;
+      }
+    });
+    return dominant;
+  }
+
+  private static normalizeCurrency(currency?: string): string {
+    return (currency || 'USD').trim().toUpperCase();
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
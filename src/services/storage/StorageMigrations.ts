@@ -0,0 +1,259 @@
+/**
+ * =================================================================
+ * STORAGE MIGRATIONS
+ * =================================================================
+ *
+ * Versioned schema for data persisted by StorageService.
+ *
+ * Every stored value is wrapped in an envelope carrying its schema
+ * version. When older data is loaded, the ordered migration steps
+ * newer than the stored version are applied one after another.
+ *
+ * To change a persisted model, append a migration with the next
+ * version number. Never edit or reorder migrations that have shipped.
+ * =================================================================
+ */
+
+import { CardModel, CollectionModel, SettingsModel } from '../../models';
+
+/**
+ * Envelope written around every persisted value
+ */
+export interface StorageEnvelope<T> {
+  version: number;                // Schema version of data
+  savedAt: string;                // ISO timestamp of the write
+  data: T;
+}
+
+/**
+ * Single step in a migration pipeline
+ * Upgrades data from (version - 1) to version
+ */
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: (data: any) => any;
+  obsoleteKeys?: string[];        // Stored keys the step replaces, removed once it has run
+}
+
+/**
+ * Collection schema history
+ * Version 0 is the legacy raw JSON array without an envelope
+ */
+export const COLLECTION_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Convert legacy string prices (e.g. "$12.50") to numbers',
+    migrate: (cards: any[]) =>
+      cards.map(card => ({
+        ...card,
+        price: typeof card.price === 'string'
+          ? parseFloat(card.price.replace(/[^0-9.-]/g, '')) || 0
+          : card.price ?? 0,
+      })),
+  },
+  {
+    version: 2,
+    description: 'Merge duplicate entries by canonical card key',
+    migrate: (cards: any[]) => CollectionModel.mergeDuplicates(cards, card => CardModel.getLegacyCardKey(card)),
+    // Flag written by the one-off merge this step replaced
+    obsoleteKeys: ['@tcg_migration_dedupe'],
+  },
+  {
+    version: 3,
+    description: 'Split quantity into per-copy records',
+    migrate: (cards: any[]) =>
+      cards.map(card => {
+        if (Array.isArray(card.copies) && card.copies.length > 0) {
+          return { ...card, quantity: card.copies.length };
+        }
+
+        const quantity = Math.max(1, card.quantity || 1);
+        const copies = Array.from({ length: quantity }, (_, index) => ({
+          id: `copy_${card.id}_${index}`,
+          condition: card.condition,
+          grade: card.apiData?.grade,
+          acquiredAt: card.dateAdded,
+        }));
+        return { ...card, quantity, copies };
+      }),
+  },
+  {
+    version: 4,
+    description: 'Seed price history with the current price',
+    migrate: (cards: any[]) =>
+      cards.map(card => ({
+        ...card,
+        priceHistory: card.priceHistory ?? (card.price > 0 ? [{ date: card.dateAdded, price: card.price }] : []),
+      })),
+  },
+  {
+    version: 5,
+    description: 'Move the scan analysis onto the copy it was scanned with',
+    migrate: (cards: any[]) =>
+      cards.map(card => {
+        const [first, ...rest] = card.copies ?? [];
+        if (!first || first.subgrades || first.conditionAnalysis) {
+          return card;
+        }
+        // Only the first scan of a printing was kept on the card
+        const seeded = {
+          ...first,
+          subgrades: card.apiData?.subgrades,
+          conditionAnalysis: card.apiData?.conditionAnalysis,
+        };
+        return { ...card, copies: [seeded, ...rest] };
+      }),
+  },
+];
+
+/**
+ * Settings schema history
+ * Version 0 is the legacy raw JSON object without an envelope
+ */
+export const SETTINGS_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Fill in settings missing from older saves with defaults',
+    migrate: (settings: any) => new SettingsModel(settings || {}).toJSON(),
+  },
+  {
+    version: 2,
+    description: 'Add display currency',
+    migrate: (settings: any) => ({ ...settings, displayCurrency: settings.displayCurrency ?? 'USD' }),
+  },
+  {
+    version: 3,
+    description: 'Add grading submission costs',
+    migrate: (settings: any) => ({
+      ...settings,
+      gradingCosts: settings.gradingCosts ?? { ...SettingsModel.DEFAULT_GRADING_COSTS },
+    }),
+  },
+];
+
+/**
+ * Scan history schema history
+ * Version 0 entries were written by backups before the history screen existed
+ */
+export const SCAN_HISTORY_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Add scan image and collection status',
+    migrate: (entries: any[]) =>
+      entries.map(entry => ({
+        ...entry,
+        imageUri: entry.imageUri ?? entry.card?.imageUrl ?? '',
+        addedToCollection: entry.addedToCollection ?? false,
+      })),
+  },
+];
+
+/**
+ * Offline scan queue schema history
+ * No migrations yet - queued scans are stored at version 0 in an envelope
+ */
+export const OFFLINE_QUEUE_MIGRATIONS: StorageMigration[] = [];
+
+/**
+ * Collection value snapshot schema history
+ * No migrations yet - snapshots are stored at version 0 in an envelope
+ */
+export const VALUE_HISTORY_MIGRATIONS: StorageMigration[] = [];
+
+/**
+ * Grading submission schema history
+ * No migrations yet - submissions are stored at version 0 in an envelope
+ */
+export const SUBMISSION_MIGRATIONS: StorageMigration[] = [];
+
+export class StorageMigrations {
+  /**
+   * Gets the schema version produced by a migration pipeline
+   */
+  static latestVersion(migrations: StorageMigration[]): number {
+    return migrations.reduce((latest, step) => Math.max(latest, step.version), 0);
+  }
+
+  /**
+   * Gets the stored keys replaced by migrations newer than a version
+   */
+  static obsoleteKeys(fromVersion: number, migrations: StorageMigration[]): string[] {
+    return migrations
+      .filter(step => step.version > fromVersion)
+      .flatMap(step => step.obsoleteKeys ?? []);
+  }
+
+  /**
+   * Wraps data in an envelope at the latest schema version
+   */
+  static wrap<T>(data: T, migrations: StorageMigration[]): StorageEnvelope<T> {
+    return {
+      version: this.latestVersion(migrations),
+      savedAt: new Date().toISOString(),
+      data,
+    };
+  }
+
+  /**
+   * Reads the schema version and payload from a parsed stored value
+   * Values written before envelopes existed are treated as version 0
+   */
+  static unwrap(stored: unknown): { version: number; data: unknown } {
+    if (
+      stored !== null &&
+      typeof stored === 'object' &&
+      !Array.isArray(stored) &&
+      typeof (stored as StorageEnvelope<unknown>).version === 'number' &&
+      'data' in stored
+    ) {
+      const envelope = stored as StorageEnvelope<unknown>;
+      return { version: envelope.version, data: envelope.data };
+    }
+
+    return { version: 0, data: stored };
+  }
+
+  /**
+   * Applies every migration newer than the stored version, in order
+   *
+   * @param data - Payload at fromVersion
+   * @param fromVersion - Schema version the payload was stored with
+   * @param migrations - Ordered migration pipeline
+   * @returns Migrated payload and the version it now conforms to
+   * @throws Error if a migration step fails
+   */
+  static migrate<T>(
+    data: unknown,
+    fromVersion: number,
+    migrations: StorageMigration[],
+  ): { data: T; version: number } {
+    const latest = this.latestVersion(migrations);
+
+    if (fromVersion > latest) {
+      // Written by a newer app version - leave it untouched
+      console.warn(`Stored schema version ${fromVersion} is newer than supported version ${latest}`);
+      return { data: data as T, version: fromVersion };
+    }
+
+    let result = data;
+    let version = fromVersion;
+
+    [...migrations]
+      .sort((a, b) => a.version - b.version)
+      .filter(step => step.version > fromVersion)
+      .forEach(step => {
+        console.log(`Running storage migration v${step.version}: ${step.description}`);
+        try {
+          result = step.migrate(result);
+        } catch (error) {
+          throw new Error(
+            `Storage migration v${step.version} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          );
+        }
+        version = step.version;
+      });
+
+    return { data: result as T, version };
+  }
+}
@@ -1,14 +1,39 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { CollectionCard, UserSettings } from '../../types';
+import {
+  CollectionCard,
+  GradingSubmission,
+  QueuedScan,
+  ScanHistoryEntry,
+  UserSettings,
+  ValueSnapshot,
+} from '../../types';
+import { SettingsModel } from '../../models';
+import { THEME_STORAGE_KEY } from '../theme/ThemeService';
+import { EXCHANGE_RATES_STORAGE_KEY } from '../currency/CurrencyService';
+import {
+  COLLECTION_MIGRATIONS,
+  OFFLINE_QUEUE_MIGRATIONS,
+  SCAN_HISTORY_MIGRATIONS,
+  SETTINGS_MIGRATIONS,
+  StorageMigration,
+  SUBMISSION_MIGRATIONS,
+  VALUE_HISTORY_MIGRATIONS,
+  StorageMigrations,
+} from './StorageMigrations';
 
 export class StorageService {
   private static readonly COLLECTION_KEY = '@tcg_collection';
   private static readonly SETTINGS_KEY = '@tcg_settings';
+  private static readonly SCAN_HISTORY_KEY = '@tcg_scan_history';
+  private static readonly VALUE_HISTORY_KEY = '@tcg_value_history';
+  private static readonly OFFLINE_QUEUE_KEY = '@tcg_offline_queue';
+  private static readonly SUBMISSIONS_KEY = '@tcg_grading_submissions';
+  private static readonly UNREADABLE_SUFFIX = '_unreadable';
 
   // Collection Storage
   static async saveCollection(cards: CollectionCard[]): Promise<void> {
     try {
-      const jsonValue = JSON.stringify(cards);
+      const jsonValue = JSON.stringify(StorageMigrations.wrap(cards, COLLECTION_MIGRATIONS));
       await AsyncStorage.setItem(this.COLLECTION_KEY, jsonValue);
     } catch (error) {
       console.error('Error saving collection:', error);
@@ -18,8 +43,8 @@ export class StorageService {
 
   static async loadCollection(): Promise<CollectionCard[]> {
     try {
-      const jsonValue = await AsyncStorage.getItem(this.COLLECTION_KEY);
-      return jsonValue != null ? JSON.parse(jsonValue) : [];
+      const cards = await this.loadVersioned<CollectionCard[]>(this.COLLECTION_KEY, COLLECTION_MIGRATIONS);
+      return cards ?? [];
     } catch (error) {
       console.error('Error loading collection:', error);
       return [];
@@ -29,7 +54,7 @@ export class StorageService {
   // Settings Storage
   static async saveSettings(settings: UserSettings): Promise<void> {
     try {
-      const jsonValue = JSON.stringify(settings);
+      const jsonValue = JSON.stringify(StorageMigrations.wrap(settings, SETTINGS_MIGRATIONS));
       await AsyncStorage.setItem(this.SETTINGS_KEY, jsonValue);
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -39,29 +64,178 @@ export class StorageService {
 
   static async loadSettings(): Promise<UserSettings> {
     try {
-      const jsonValue = await AsyncStorage.getItem(this.SETTINGS_KEY);
-      return jsonValue != null ? JSON.parse(jsonValue) : {
-        darkMode: false,
-        notifications: true,
-        offlineMode: false
-      };
+      const settings = await this.loadVersioned<UserSettings>(this.SETTINGS_KEY, SETTINGS_MIGRATIONS);
+      return settings ?? SettingsModel.getDefaultSettings();
     } catch (error) {
       console.error('Error loading settings:', error);
-      return {
-        darkMode: false,
-        notifications: true,
-        offlineMode: false
-      };
+      return SettingsModel.getDefaultSettings();
     }
   }
 
-  // Clear all data
+  // Scan History Storage
+  static async saveScanHistory(entries: ScanHistoryEntry[]): Promise<void> {
+    try {
+      const jsonValue = JSON.stringify(StorageMigrations.wrap(entries, SCAN_HISTORY_MIGRATIONS));
+      await AsyncStorage.setItem(this.SCAN_HISTORY_KEY, jsonValue);
+    } catch (error) {
+      console.error('Error saving scan history:', error);
+      throw new Error('Failed to save scan history');
+    }
+  }
+
+  static async loadScanHistory(): Promise<ScanHistoryEntry[]> {
+    try {
+      const entries = await this.loadVersioned<ScanHistoryEntry[]>(this.SCAN_HISTORY_KEY, SCAN_HISTORY_MIGRATIONS);
+      return entries ?? [];
+    } catch (error) {
+      console.error('Error loading scan history:', error);
+      return [];
+    }
+  }
+
+  // Offline Scan Queue Storage
+  static async saveOfflineQueue(scans: QueuedScan[]): Promise<void> {
+    try {
+      const jsonValue = JSON.stringify(StorageMigrations.wrap(scans, OFFLINE_QUEUE_MIGRATIONS));
+      await AsyncStorage.setItem(this.OFFLINE_QUEUE_KEY, jsonValue);
+    } catch (error) {
+      console.error('Error saving offline queue:', error);
+      throw new Error('Failed to save offline queue');
+    }
+  }
+
+  static async loadOfflineQueue(): Promise<QueuedScan[]> {
+    try {
+      const scans = await this.loadVersioned<QueuedScan[]>(this.OFFLINE_QUEUE_KEY, OFFLINE_QUEUE_MIGRATIONS);
+      return scans ?? [];
+    } catch (error) {
+      console.error('Error loading offline queue:', error);
+      return [];
+    }
+  }
+
+  // Collection Value History Storage
+  static async saveValueHistory(snapshots: ValueSnapshot[]): Promise<void> {
+    try {
+      const jsonValue = JSON.stringify(StorageMigrations.wrap(snapshots, VALUE_HISTORY_MIGRATIONS));
+      await AsyncStorage.setItem(this.VALUE_HISTORY_KEY, jsonValue);
+    } catch (error) {
+      console.error('Error saving value history:', error);
+      throw new Error('Failed to save value history');
+    }
+  }
+
+  static async loadValueHistory(): Promise<ValueSnapshot[]> {
+    try {
+      const snapshots = await this.loadVersioned<ValueSnapshot[]>(this.VALUE_HISTORY_KEY, VALUE_HISTORY_MIGRATIONS);
+      return snapshots ?? [];
+    } catch (error) {
+      console.error('Error loading value history:', error);
+      return [];
+    }
+  }
+
+  // Grading Submission Storage
+  static async saveSubmissions(submissions: GradingSubmission[]): Promise<void> {
+    try {
+      const jsonValue = JSON.stringify(StorageMigrations.wrap(submissions, SUBMISSION_MIGRATIONS));
+      await AsyncStorage.setItem(this.SUBMISSIONS_KEY, jsonValue);
+    } catch (error) {
+      console.error('Error saving grading submissions:', error);
+      throw new Error('Failed to save grading submissions');
+    }
+  }
+
+  static async loadSubmissions(): Promise<GradingSubmission[]> {
+    try {
+      const submissions = await this.loadVersioned<GradingSubmission[]>(this.SUBMISSIONS_KEY, SUBMISSION_MIGRATIONS);
+      return submissions ?? [];
+    } catch (error) {
+      console.error('Error loading grading submissions:', error);
+      return [];
+    }
+  }
+
+  // Key holding the original value of a key that could not be loaded or came from a newer app version
+  static getUnreadableKey(key: string): string {
+    return `${key}${this.UNREADABLE_SUFFIX}`;
+  }
+
+  // Clear all data, including the theme preference, cached exchange rates
+  // and copies of data that could not be loaded
   static async clearAll(): Promise<void> {
+    const dataKeys = [
+      this.COLLECTION_KEY,
+      this.SETTINGS_KEY,
+      this.SCAN_HISTORY_KEY,
+      this.VALUE_HISTORY_KEY,
+      this.OFFLINE_QUEUE_KEY,
+      this.SUBMISSIONS_KEY,
+    ];
+
     try {
-      await AsyncStorage.multiRemove([this.COLLECTION_KEY, this.SETTINGS_KEY]);
+      await AsyncStorage.multiRemove([
+        ...dataKeys,
+        ...dataKeys.map(key => this.getUnreadableKey(key)),
+        THEME_STORAGE_KEY,
+        EXCHANGE_RATES_STORAGE_KEY,
+      ]);
     } catch (error) {
       console.error('Error clearing storage:', error);
       throw new Error('Failed to clear storage');
     }
   }
+
+  // Versioned storage helpers
+  // Reads a stored envelope, runs pending migrations and persists the upgraded value
+  private static async loadVersioned<T>(key: string, migrations: StorageMigration[]): Promise<T | null> {
+    const jsonValue = await AsyncStorage.getItem(key);
+    if (jsonValue == null) {
+      return null;
+    }
+
+    let stored: { version: number; data: unknown };
+    let migrated: { data: T; version: number };
+    try {
+      stored = StorageMigrations.unwrap(JSON.parse(jsonValue));
+      migrated = StorageMigrations.migrate<T>(stored.data, stored.version, migrations);
+    } catch (error) {
+      await this.keepUnreadable(key, jsonValue);
+      throw error;
+    }
+    const { data, version } = migrated;
+
+    // Data from a newer app version is still read, but saving would rewrite it
+    // at this version, so the original is kept aside first
+    if (version > StorageMigrations.latestVersion(migrations)) {
+      await this.keepUnreadable(key, jsonValue);
+      return data;
+    }
+
+    if (version !== stored.version) {
+      console.log(`Upgraded ${key} from schema v${stored.version} to v${version}`);
+      await AsyncStorage.setItem(key, JSON.stringify(StorageMigrations.wrap(data, migrations)));
+
+      const obsoleteKeys = StorageMigrations.obsoleteKeys(stored.version, migrations);
+      if (obsoleteKeys.length > 0) {
+        await AsyncStorage.multiRemove(obsoleteKeys);
+      }
+    }
+
+    return data;
+  }
+
+  // Copies a value that failed to parse or migrate, or that a newer app version wrote, to a
+  // side key, since the next save would otherwise overwrite it. An earlier copy is kept
+  private static async keepUnreadable(key: string, jsonValue: string): Promise<void> {
+    const unreadableKey = this.getUnreadableKey(key);
+    try {
+      if ((await AsyncStorage.getItem(unreadableKey)) == null) {
+        await AsyncStorage.setItem(unreadableKey, jsonValue);
+        console.warn(`Original ${key} kept in ${unreadableKey}`);
+      }
+    } catch (error) {
+      console.error(`Failed to keep unreadable ${key}:`, error);
+    }
+  }
 }
@@ -23,7 +23,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 /**
  * Theme configuration constants
  */
-const THEME_STORAGE_KEY = '@tcg_scanner_theme';
+export const THEME_STORAGE_KEY = '@tcg_scanner_theme';
 
 /**
  * Theme color definitions
@@ -204,6 +204,16 @@ export class ThemeService {
     }
   }
 
+  /**
+   * Return to the system theme without saving a preference
+   * Used after the saved preference has been cleared from storage
+   */
+  static resetThemeMode(): void {
+    this.currentMode = 'system';
+    this.currentTheme = Appearance.getColorScheme() === 'dark' ? darkTheme : lightTheme;
+    this.notifyListeners();
+  }
+
   /**
    * Toggle between light and dark theme
    * (Skips system mode for quick toggling)
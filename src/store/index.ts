@@ -2,12 +2,16 @@ import { configureStore } from '@reduxjs/toolkit';
 import scannerReducer from './slices/scannerSlice';
 import collectionReducer from './slices/collectionSlice';
 import settingsReducer from './slices/settingsSlice';
+import importReducer from './slices/importSlice';
+import submissionsReducer from './slices/submissionsSlice';
 
 export const store = configureStore({
   reducer: {
     scanner: scannerReducer,
     collection: collectionReducer,
     settings: settingsReducer,
+    import: importReducer,
+    submissions: submissionsReducer,
   },
 });
 
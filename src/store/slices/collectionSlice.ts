@@ -1,14 +1,19 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { CollectionCard } from '../../types';
+import { CardCopy, CollectionCard, ValueSnapshot } from '../../types';
+import { CardModel } from '../../models';
+import { PriceHistoryService } from '../../services/pricing/PriceHistoryService';
+import { CurrencyService } from '../../services/currency/CurrencyService';
 
 interface CollectionState {
   cards: CollectionCard[];
+  valueHistory: ValueSnapshot[];
   isLoading: boolean;
   error?: string;
 }
 
 const initialState: CollectionState = {
   cards: [],
+  valueHistory: [],
   isLoading: false
 };
 
@@ -24,9 +29,29 @@ export const collectionSlice = createSlice({
       state.isLoading = false;
     },
     addCard: (state, action: PayloadAction<CollectionCard>) => {
-      const existingCard = state.cards.find(card => card.id === action.payload.id);
+      const cardKey = CardModel.getCardKey(action.payload);
+      const existingCard = state.cards.find(card => CardModel.getCardKey(card) === cardKey);
       if (existingCard) {
-        existingCard.quantity += action.payload.quantity;
+        existingCard.copies.push(...action.payload.copies);
+        existingCard.quantity = existingCard.copies.length;
+        // A new scan brings fresher market data for the same printing
+        if (action.payload.marketPrice) {
+          // Keep the price history in one currency once it has started
+          if (!existingCard.priceHistory?.length) {
+            existingCard.currency = action.payload.currency;
+          }
+          const price = CurrencyService.convert(action.payload.price, action.payload.currency, existingCard.currency || 'USD');
+
+          existingCard.marketPrice = action.payload.marketPrice;
+          if (price !== undefined) {
+            existingCard.price = Math.round(price * 100) / 100;
+            existingCard.priceHistory = PriceHistoryService.appendPrice(
+              existingCard.priceHistory,
+              existingCard.price,
+              action.payload.marketPrice.updatedAt,
+            );
+          }
+        }
       } else {
         state.cards.push(action.payload);
       }
@@ -34,15 +59,45 @@ export const collectionSlice = createSlice({
     removeCard: (state, action: PayloadAction<string>) => {
       state.cards = state.cards.filter(card => card.id !== action.payload);
     },
+    addCopy: (state, action: PayloadAction<{ cardId: string; copy: CardCopy }>) => {
+      const card = state.cards.find(c => c.id === action.payload.cardId);
+      if (card) {
+        card.copies.push(action.payload.copy);
+        card.quantity = card.copies.length;
+      }
+    },
+    updateCopy: (state, action: PayloadAction<{ cardId: string; copyId: string; changes: Partial<CardCopy> }>) => {
+      const card = state.cards.find(c => c.id === action.payload.cardId);
+      const copy = card?.copies.find(c => c.id === action.payload.copyId);
+      if (copy) {
+        Object.assign(copy, action.payload.changes, { id: copy.id });
+      }
+    },
+    removeCopy: (state, action: PayloadAction<{ cardId: string; copyId: string }>) => {
+      const card = state.cards.find(c => c.id === action.payload.cardId);
+      if (!card) {
+        return;
+      }
+      card.copies = card.copies.filter(copy => copy.id !== action.payload.copyId);
+      card.quantity = card.copies.length;
+      // Removing the last copy removes the entry
+      if (card.copies.length === 0) {
+        state.cards = state.cards.filter(c => c.id !== action.payload.cardId);
+      }
+    },
+    setValueHistory: (state, action: PayloadAction<ValueSnapshot[]>) => {
+      state.valueHistory = action.payload;
+    },
     setError: (state, action: PayloadAction<string>) => {
       state.error = action.payload;
       state.isLoading = false;
     },
     clearError: (state) => {
       state.error = undefined;
-    }
+    },
+    resetCollection: () => initialState
   }
 });
 
-export const { setLoading, setCards, addCard, removeCard, setError, clearError } = collectionSlice.actions;
+export const { setLoading, setCards, addCard, removeCard, addCopy, updateCopy, removeCopy, setValueHistory, setError, clearError, resetCollection } = collectionSlice.actions;
 export default collectionSlice.reducer;
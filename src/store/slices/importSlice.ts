@@ -0,0 +1,70 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { CsvColumnMapping, CsvImportFile, ImportPreviewRow } from '../../types';
+
+export interface ImportFileEntry {
+  name: string;
+  path: string;
+  size: number;
+}
+
+interface ImportState {
+  files: ImportFileEntry[];
+  file: CsvImportFile | null;
+  mapping: CsvColumnMapping;
+  preview: ImportPreviewRow[];
+  isLoading: boolean;
+  error?: string;
+}
+
+const initialState: ImportState = {
+  files: [],
+  file: null,
+  mapping: {},
+  preview: [],
+  isLoading: false,
+};
+
+export const importSlice = createSlice({
+  name: 'import',
+  initialState,
+  reducers: {
+    setImportLoading: (state, action: PayloadAction<boolean>) => {
+      state.isLoading = action.payload;
+    },
+    setImportFiles: (state, action: PayloadAction<ImportFileEntry[]>) => {
+      state.files = action.payload;
+      state.isLoading = false;
+    },
+    loadImportFile: (state, action: PayloadAction<{ file: CsvImportFile; mapping: CsvColumnMapping; preview: ImportPreviewRow[] }>) => {
+      state.file = action.payload.file;
+      state.mapping = action.payload.mapping;
+      state.preview = action.payload.preview;
+      state.isLoading = false;
+      state.error = undefined;
+    },
+    setImportMapping: (state, action: PayloadAction<{ mapping: CsvColumnMapping; preview: ImportPreviewRow[] }>) => {
+      state.mapping = action.payload.mapping;
+      state.preview = action.payload.preview;
+    },
+    setImportError: (state, action: PayloadAction<string>) => {
+      state.error = action.payload;
+      state.isLoading = false;
+    },
+    resetImport: (state) => {
+      state.file = null;
+      state.mapping = {};
+      state.preview = [];
+      state.error = undefined;
+    },
+  },
+});
+
+export const {
+  setImportLoading,
+  setImportFiles,
+  loadImportFile,
+  setImportMapping,
+  setImportError,
+  resetImport,
+} = importSlice.actions;
+export default importSlice.reducer;
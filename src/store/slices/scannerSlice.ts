@@ -1,10 +1,16 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { Card, ScanResult, XimilarGradingResult } from '../../types';
+import { BatchScanItem, Card, QueuedScan, ScanHistoryEntry, ScanResult, XimilarGradingResult } from '../../types';
 
 interface ScannerState {
   scanResult: ScanResult;
   isScanning: boolean;
   lastScannedCard: Card | null;
+  history: ScanHistoryEntry[];    // Persisted scan history, newest first
+  batch: BatchScanItem[];         // Images of the current batch scanning session
+  isBatchRunning: boolean;
+  offlineQueue: QueuedScan[];     // Scans waiting to be graded, oldest first
+  isOnline: boolean;
+  isProcessingQueue: boolean;
 }
 
 const initialState: ScannerState = {
@@ -15,6 +21,12 @@ const initialState: ScannerState = {
   },
   isScanning: false,
   lastScannedCard: null,
+  history: [],
+  batch: [],
+  isBatchRunning: false,
+  offlineQueue: [],
+  isOnline: true,
+  isProcessingQueue: false,
 };
 
 export const scannerSlice = createSlice({
@@ -25,6 +37,8 @@ export const scannerSlice = createSlice({
       state.isScanning = true;
       state.scanResult.isLoading = true;
       state.scanResult.error = undefined;
+      state.scanResult.historyEntryId = undefined;
+      state.scanResult.queuedOffline = undefined;
     },
     completeScan: (state, action: PayloadAction<{ card: Card; confidence: number; gradingResult?: XimilarGradingResult }>) => {
       state.isScanning = false;
@@ -32,6 +46,13 @@ export const scannerSlice = createSlice({
       state.scanResult.card = action.payload.card;
       state.scanResult.confidence = action.payload.confidence;
       state.scanResult.gradingResult = action.payload.gradingResult;
+      state.scanResult.candidates = action.payload.gradingResult?.candidates;
+      state.scanResult.selectedCandidateIndex = action.payload.gradingResult?.candidates ? 0 : undefined;
+      state.lastScannedCard = action.payload.card;
+    },
+    selectCandidate: (state, action: PayloadAction<{ index: number; card: Card }>) => {
+      state.scanResult.selectedCandidateIndex = action.payload.index;
+      state.scanResult.card = action.payload.card;
       state.lastScannedCard = action.payload.card;
     },
     scanError: (state, action: PayloadAction<string>) => {
@@ -43,8 +64,78 @@ export const scannerSlice = createSlice({
       state.scanResult = initialState.scanResult;
       state.isScanning = false;
     },
+    setHistoryEntryId: (state, action: PayloadAction<string>) => {
+      state.scanResult.historyEntryId = action.payload;
+    },
+    setScanHistory: (state, action: PayloadAction<ScanHistoryEntry[]>) => {
+      state.history = action.payload;
+    },
+    startBatch: (state, action: PayloadAction<BatchScanItem[]>) => {
+      state.batch = action.payload;
+      state.isBatchRunning = true;
+    },
+    updateBatchItem: (state, action: PayloadAction<{ id: string; changes: Partial<BatchScanItem> }>) => {
+      const item = state.batch.find(entry => entry.id === action.payload.id);
+      if (item) {
+        Object.assign(item, action.payload.changes);
+      }
+    },
+    finishBatch: (state) => {
+      state.isBatchRunning = false;
+    },
+    toggleBatchItem: (state, action: PayloadAction<string>) => {
+      const item = state.batch.find(entry => entry.id === action.payload);
+      if (item && item.status === 'done' && !item.added) {
+        item.selected = !item.selected;
+      }
+    },
+    markBatchAdded: (state, action: PayloadAction<string[]>) => {
+      state.batch.forEach(item => {
+        if (action.payload.includes(item.id)) {
+          item.added = true;
+          item.selected = false;
+        }
+      });
+    },
+    resetBatch: (state) => {
+      state.batch = [];
+      state.isBatchRunning = false;
+    },
+    scanQueued: (state) => {
+      state.isScanning = false;
+      state.scanResult = { ...initialState.scanResult, queuedOffline: true };
+    },
+    setOfflineQueue: (state, action: PayloadAction<QueuedScan[]>) => {
+      state.offlineQueue = action.payload;
+    },
+    setOnline: (state, action: PayloadAction<boolean>) => {
+      state.isOnline = action.payload;
+    },
+    setProcessingQueue: (state, action: PayloadAction<boolean>) => {
+      state.isProcessingQueue = action.payload;
+    },
+    resetScanner: () => initialState,
   },
 });
 
-export const { startScan, completeScan, scanError, resetScan } = scannerSlice.actions;
+export const {
+  startScan,
+  completeScan,
+  selectCandidate,
+  scanError,
+  resetScan,
+  setHistoryEntryId,
+  setScanHistory,
+  startBatch,
+  updateBatchItem,
+  finishBatch,
+  toggleBatchItem,
+  markBatchAdded,
+  resetBatch,
+  scanQueued,
+  setOfflineQueue,
+  setOnline,
+  setProcessingQueue,
+  resetScanner,
+} = scannerSlice.actions;
 export default scannerSlice.reducer;
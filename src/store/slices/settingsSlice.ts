@@ -1,5 +1,6 @@
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
-import { UserSettings } from '../../types';
+import { GradingCosts, UserSettings } from '../../types';
+import { SettingsModel } from '../../models';
 
 interface SettingsState {
   settings: UserSettings;
@@ -10,7 +11,9 @@ const initialState: SettingsState = {
   settings: {
     darkMode: false,
     notifications: true,
-    offlineMode: false
+    offlineMode: false,
+    displayCurrency: 'USD',
+    gradingCosts: SettingsModel.DEFAULT_GRADING_COSTS
   },
   isLoading: false
 };
@@ -31,11 +34,18 @@ export const settingsSlice = createSlice({
     toggleOfflineMode: (state) => {
       state.settings.offlineMode = !state.settings.offlineMode;
     },
+    setDisplayCurrency: (state, action: PayloadAction<string>) => {
+      state.settings.displayCurrency = action.payload;
+    },
+    setGradingCosts: (state, action: PayloadAction<GradingCosts>) => {
+      state.settings.gradingCosts = action.payload;
+    },
     setLoading: (state, action: PayloadAction<boolean>) => {
       state.isLoading = action.payload;
-    }
+    },
+    resetSettings: () => initialState
   }
 });
 
-export const { setSettings, toggleDarkMode, toggleNotifications, toggleOfflineMode, setLoading } = settingsSlice.actions;
+export const { setSettings, toggleDarkMode, toggleNotifications, toggleOfflineMode, setDisplayCurrency, setGradingCosts, setLoading, resetSettings } = settingsSlice.actions;
 export default settingsSlice.reducer;
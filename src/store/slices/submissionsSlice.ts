@@ -0,0 +1,34 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { GradingSubmission } from '../../types';
+
+interface SubmissionsState {
+  submissions: GradingSubmission[];   // Newest first
+  isLoading: boolean;
+}
+
+const initialState: SubmissionsState = {
+  submissions: [],
+  isLoading: false,
+};
+
+export const submissionsSlice = createSlice({
+  name: 'submissions',
+  initialState,
+  reducers: {
+    setSubmissionsLoading: (state, action: PayloadAction<boolean>) => {
+      state.isLoading = action.payload;
+    },
+    setSubmissions: (state, action: PayloadAction<GradingSubmission[]>) => {
+      state.submissions = action.payload;
+      state.isLoading = false;
+    },
+    resetSubmissions: () => initialState,
+  },
+});
+
+export const {
+  setSubmissionsLoading,
+  setSubmissions,
+  resetSubmissions,
+} = submissionsSlice.actions;
+export default submissionsSlice.reducer;
@@ -7,6 +7,7 @@ export interface Card {
   rarity: string;
   condition: string;
   price: number;
+  currency?: string;              // ISO code of price; USD when missing
   imageUrl: string;
   description: string;
   artist: string;
@@ -14,18 +15,284 @@ export interface Card {
   type: string;
   types?: string[];
   hp?: string;
+  // Printing identity from the Ximilar TCG identification match
+  setCode?: string;
+  cardNumber?: string;
+  variant?: string;
   // API metadata for cards recognized by Ximilar
-  apiData?: {
-    ximilarId?: string;
-    confidence?: number;
-    grade?: number;
-    gradingService?: string;
-  };
+  apiData?: CardApiData;
+  // Market estimate aggregated from marketplace listings
+  marketPrice?: CardMarketPrice;
+}
+
+/**
+ * Metadata attached to cards processed by the Ximilar API
+ * Identification and grading are tracked separately so a card can be
+ * identified without grades and vice versa
+ */
+export interface CardApiData {
+  ximilarId?: string;
+  confidence?: number;
+  grade?: number;
+  gradingService?: string;
+  identified?: boolean;           // Whether the card came from an identification match
+  subgrades?: CardSubgrades;      // Grading breakdown at the time of the scan
+  matchSelection?: CardMatchSelection; // Which identification candidate was used
+  conditionAnalysis?: ConditionAnalysis; // Raw measurements the subgrades were derived from
+}
+
+/**
+ * Audit record of the identification candidate chosen for a card
+ */
+export interface CardMatchSelection {
+  rank: number;                   // Position in the ranked candidate list (0 = best match)
+  candidateCount: number;         // Number of candidates offered
+  distance?: number;              // Match distance reported by the API
+  name?: string;                  // Full name of the chosen match
+  setCode?: string;               // Set code of the chosen match
+  cardNumber?: string;            // Card number of the chosen match
+  selectedBy: 'auto' | 'user';    // Whether the user overrode the best match
+  selectedAt: string;             // ISO timestamp of the selection
+}
+
+/**
+ * Raw condition measurements behind a grade, kept so grades can be
+ * compared or re-evaluated later
+ */
+export interface ConditionAnalysis {
+  corners: XimilarCorner[];       // Grade, point and bounding box of each corner
+  edges: XimilarEdge[];           // Grade and outline of each edge
+  centering?: XimilarCenteringAnalysis; // Left/right and top/bottom ratios
+  cardPolygon?: Array<[number, number]>; // Outline of the detected card
+  versions?: XimilarVersions;     // Models that produced the measurements
+  imageWidth?: number;            // Size of the analyzed image in pixels
+  imageHeight?: number;
+  analyzedAt: string;             // ISO timestamp of the grading response
+}
+
+/**
+ * Centering split along one axis, in percent of the total border
+ * e.g. "60/40" left/right gives first 60 and second 40
+ */
+export interface CenteringRatio {
+  first: number;
+  second: number;
+}
+
+/**
+ * Parsed centering of a card
+ */
+export interface CenteringMeasurement {
+  leftRight?: CenteringRatio;
+  topBottom?: CenteringRatio;
+  worstShare: number;             // Larger side of the worse axis, 50 = perfectly centered
+}
+
+/**
+ * Best centering grade a grading company's thresholds would allow
+ */
+export interface CenteringGradeEstimate {
+  company: string;                // e.g. PSA
+  grade: number;
+  label: string;                  // e.g. "Gem Mint 10"
+  maxShare: number;               // Threshold the card met, e.g. 55 for 55/45
+}
+
+/**
+ * Grading companies grades can be predicted for
+ */
+export type GradingCompany = 'PSA' | 'BGS' | 'CGC';
+
+/**
+ * Estimated grade from a grading company, based on Ximilar subgrades
+ */
+export interface GradePrediction {
+  company: GradingCompany;
+  grade: number;                  // Most likely grade on the company's scale
+  label: string;                  // e.g. "Gem Mint 10"
+  low: number;                    // Confidence range on the same scale
+  high: number;
+  subgrades?: CardSubgrades;      // BGS subgrades, final being the overall grade
+}
+
+/**
+ * Part of a card image drawn by the condition overlay
+ */
+export type ConditionRegionKind = 'card' | 'corner' | 'edge';
+
+/**
+ * Corner, edge or card outline positioned on the displayed image
+ * Rectangles are in display pixels, relative to the image's top left
+ */
+export interface ConditionRegion {
+  id: string;
+  kind: ConditionRegionKind;
+  label: string;                  // e.g. "Top left corner"
+  grade?: number;                 // Not set for the card outline
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  point?: { x: number; y: number }; // Detected corner point
+}
+
+/**
+ * Ranked identification candidate for a scanned card
+ */
+export interface CardCandidate {
+  match: XimilarCardMatch;
+  rank: number;                   // 0 = best match
+  distance?: number;              // Lower distance = closer match
+}
+
+/**
+ * Grading breakdown stored with a card
+ */
+export interface CardSubgrades {
+  final: number;
+  corners: number;
+  edges: number;
+  surface: number;
+  centering: number;
 }
 
 export interface CollectionCard extends Card {
-  quantity: number;
+  quantity: number;               // Number of copies, kept in sync with copies.length
   dateAdded: string;
+  copies: CardCopy[];             // One entry per physical copy owned
+  priceHistory?: PricePoint[];    // Market price at each refresh, oldest first
+}
+
+/**
+ * Market price of a card at a point in time
+ */
+export interface PricePoint {
+  date: string;                   // ISO timestamp of the price refresh
+  price: number;
+}
+
+/**
+ * Collection value recorded once per day
+ */
+export interface ValueSnapshot {
+  date: string;                   // Local calendar day, YYYY-MM-DD
+  value: number;                  // Estimated value of all copies
+  cost: number;                   // Total purchase price of all copies
+  copies: number;
+  currency?: string;              // ISO code of value and cost; USD when missing
+}
+
+/**
+ * Change in market value between acquisition and now
+ */
+export interface PriceChange {
+  basis: number;                  // Market value when acquired
+  current: number;                // Market value now
+  change: number;
+  changePercent: number;
+}
+
+/**
+ * A single physical copy of a card in the collection
+ */
+export interface CardCopy {
+  id: string;
+  condition: string;
+  grade?: number;                 // Ximilar or professional grade (1-10)
+  gradingCompany?: string;        // Company that slabbed the copy; grade is theirs when set
+  purchasePrice?: number;
+  purchaseCurrency?: string;      // ISO code of purchasePrice; USD when missing
+  acquiredAt: string;             // ISO acquisition date
+  storageLocation?: string;       // Binder, box, toploader, etc.
+  notes?: string;
+  subgrades?: CardSubgrades;      // From the scan that added this copy
+  conditionAnalysis?: ConditionAnalysis;
+}
+
+/**
+ * Summary statistics for a group of listing prices
+ */
+export interface PriceStats {
+  count: number;
+  median: number;
+  low: number;
+  high: number;
+}
+
+/**
+ * Price statistics for one grading company and grade, e.g. PSA 10
+ */
+export interface GradedPriceStats extends PriceStats {
+  company: string;
+  grade: string;
+}
+
+/**
+ * Market estimate aggregated from Ximilar pricing listings
+ * All prices are in the most common listing currency
+ */
+export interface CardMarketPrice {
+  currency: string;
+  updatedAt: string;              // ISO timestamp of the aggregation
+  listingCount: number;           // Listings included in the estimate
+  estimate: number;               // Headline price for an ungraded copy
+  overall: PriceStats;
+  sold?: PriceStats;              // Listings with a sale date
+  listed?: PriceStats;            // Active listings without a sale
+  raw?: PriceStats;               // Ungraded copies
+  graded?: PriceStats;            // Copies graded by any company
+  byGrade: GradedPriceStats[];    // Sorted by company, then grade descending
+}
+
+/**
+ * Card and copy fields a CSV column can be mapped to during import
+ */
+export type ImportField =
+  | 'name'
+  | 'set'
+  | 'setCode'
+  | 'cardNumber'
+  | 'variant'
+  | 'rarity'
+  | 'type'
+  | 'year'
+  | 'artist'
+  | 'condition'
+  | 'gradingCompany'
+  | 'price'
+  | 'currency'
+  | 'quantity'
+  | 'dateAdded'
+  | 'imageUrl'
+  | 'description'
+  | 'grade'
+  | 'purchasePrice'
+  | 'purchaseCurrency'
+  | 'storageLocation'
+  | 'notes';
+
+/**
+ * Maps each import field to the index of the CSV column it is read from
+ */
+export type CsvColumnMapping = Partial<Record<ImportField, number>>;
+
+/**
+ * A parsed CSV file ready for column mapping
+ */
+export interface CsvImportFile {
+  path: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Preview of a single imported row
+ * card is only set when the row has no validation errors
+ */
+export interface ImportPreviewRow {
+  rowNumber: number;              // 1-based line number in the file, header included
+  card?: CollectionCard;
+  errors: string[];
 }
 
 export interface ScanResult {
@@ -35,12 +302,233 @@ export interface ScanResult {
   error?: string;
   // Adding Ximilar-specific grading data
   gradingResult?: XimilarGradingResult;
+  // Ranked identification candidates and the one currently chosen
+  candidates?: CardCandidate[];
+  selectedCandidateIndex?: number;
+  // Scan history entry recorded for this scan
+  historyEntryId?: string;
+  // Set when the image was queued for grading instead of scanned
+  queuedOffline?: boolean;
+}
+
+/**
+ * Status of a scan waiting in the offline queue
+ * - queued: waits for connectivity
+ * - processing: currently being graded
+ * - failed: grading failed for a reason other than connectivity
+ */
+export type QueuedScanStatus = 'queued' | 'processing' | 'failed';
+
+/**
+ * A scan captured while offline, graded once connectivity returns
+ */
+export interface QueuedScan {
+  id: string;
+  imageUri: string;               // Copy of the captured image kept until graded
+  queuedAt: string;               // ISO timestamp
+  status: QueuedScanStatus;
+  attempts: number;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+/**
+ * Progress of one image in a batch scanning session
+ */
+export type BatchScanStatus = 'pending' | 'processing' | 'done' | 'error';
+
+/**
+ * One image in a batch scanning session
+ * Results are only set once the image has been processed
+ */
+export interface BatchScanItem {
+  id: string;
+  imageUri: string;
+  status: BatchScanStatus;
+  card?: Card;
+  confidence?: number;
+  gradingResult?: XimilarGradingResult;
+  error?: string;
+  historyEntryId?: string;        // Scan history entry recorded for the result
+  selected: boolean;              // Confirmed by the user for adding
+  added: boolean;
+}
+
+/**
+ * A completed scan kept in the scan history
+ * card reflects the identification candidate chosen for the scan
+ */
+export interface ScanHistoryEntry {
+  id: string;
+  scannedAt: string;              // ISO timestamp of the scan
+  imageUri: string;               // Copy of the scanned image kept with the history
+  card: Card;
+  confidence: number;
+  gradingResult?: XimilarGradingResult;
+  addedToCollection: boolean;
+  addedAt?: string;               // ISO timestamp of the last time it was added
 }
 
 export interface UserSettings {
   darkMode: boolean;
   notifications: boolean;
   offlineMode: boolean;
+  displayCurrency: string;        // ISO code prices and totals are shown in
+  gradingCosts: GradingCosts;     // Used to decide which cards are worth grading
+}
+
+/**
+ * Cost of sending one card for professional grading
+ */
+export interface GradingCosts {
+  company: GradingCompany;        // Company submissions are planned for
+  fee: number;                    // Grading fee per card
+  shipping: number;               // Shipping and insurance per card
+  currency: string;               // ISO code of fee and shipping
+}
+
+/**
+ * Raw vs. graded value of a card for a grading submission
+ * All amounts are in the card's market price currency
+ */
+export interface SubmissionEstimate {
+  prediction: GradePrediction;    // Predicted grade for the chosen company
+  currency: string;
+  rawValue: number;               // Median price of ungraded copies
+  cost: number;                   // Grading fee plus shipping
+  gradedValue?: number;           // Median price at the predicted grade
+  gradedLowValue?: number;        // Median price at the low end of the range
+  netGain?: number;               // Graded value minus raw value and cost
+  worstCaseGain?: number;         // Net gain at the low end of the range
+  gradedListingCount: number;     // Listings behind gradedValue
+  worthSubmitting: boolean;
+  reason?: string;                // Why no gain could be estimated
+}
+
+/**
+ * Progress of a grading submission, derived from its dates
+ */
+export type GradingSubmissionStatus = 'preparing' | 'sent' | 'received';
+
+/**
+ * One card in a grading submission
+ * The prediction is captured when the submission is created so later
+ * rescans or model changes do not alter the comparison
+ */
+export interface GradingSubmissionItem {
+  cardId: string;
+  copyId?: string;                // Physical copy that was sent
+  cardName: string;
+  set: string;
+  prediction?: GradePrediction;   // Predicted grade for the submission's company
+  returnedGrade?: number;         // Final grade from the grading company
+  certNumber?: string;            // Certification number on the slab
+}
+
+/**
+ * A physical copy selected for a grading submission
+ */
+export interface SubmissionCopySelection {
+  cardId: string;
+  copyId: string;
+}
+
+/**
+ * A batch of cards sent to a grading company
+ */
+export interface GradingSubmission {
+  id: string;
+  company: GradingCompany;
+  serviceLevel: string;           // e.g. "Value", "Regular", "Express"
+  feePerCard: number;
+  shippingCost: number;           // Shipping and insurance for the whole batch
+  currency: string;               // ISO code of fee and shipping
+  createdAt: string;              // ISO timestamp
+  sentAt?: string;                // ISO timestamp the batch was shipped
+  receivedAt?: string;            // ISO timestamp the graded cards came back
+  notes?: string;
+  items: GradingSubmissionItem[];
+}
+
+/**
+ * Details entered when creating a grading submission
+ */
+export type GradingSubmissionDetails = Pick<
+  GradingSubmission,
+  'company' | 'serviceLevel' | 'feePerCard' | 'shippingCost' | 'currency' | 'notes'
+>;
+
+/**
+ * Returned grade of a submitted card compared to its prediction
+ */
+export interface SubmissionGradeComparison {
+  item: GradingSubmissionItem;
+  difference?: number;            // Returned minus predicted grade
+  withinRange?: boolean;          // Returned grade inside the predicted low-high range
+}
+
+/**
+ * How well predictions matched returned grades
+ * Only cards with both a prediction and a returned grade are counted
+ */
+export interface SubmissionAccuracy {
+  compared: number;
+  exact: number;                  // Returned grade equal to the prediction
+  withinRange: number;
+  averageDifference?: number;     // Mean of returned minus predicted grade
+}
+
+/**
+ * Exchange rates relative to a base currency
+ * Manual overrides take precedence over fetched or built-in rates
+ */
+export interface ExchangeRateTable {
+  base: string;                   // Currency with rate 1
+  rates: Record<string, number>;  // Units of each currency per 1 base unit
+  overrides: Record<string, number>;
+  source: 'builtin' | 'remote';
+  updatedAt?: string;             // ISO timestamp of the last remote refresh
+}
+
+/**
+ * Contents of a backup file
+ * Collection, settings and scan history keep their storage schema
+ * version so older backups can be migrated on restore
+ */
+export interface BackupPayload {
+  collection: { version: number; data: CollectionCard[] };
+  settings: { version: number; data: UserSettings };
+  scanHistory: { version: number; data: ScanHistoryEntry[] };
+  valueHistory?: { version: number; data: ValueSnapshot[] };  // Added after format v1 shipped
+  submissions?: { version: number; data: GradingSubmission[] };  // Added after format v1 shipped
+  themeMode: 'light' | 'dark' | 'system';
+}
+
+/**
+ * Backup file written to the device file system
+ */
+export interface BackupFile {
+  format: 'tcg-scanner-backup';
+  formatVersion: number;
+  createdAt: string;
+  checksum: string;               // CRC-32 of the serialized payload
+  payload: BackupPayload;
+}
+
+/**
+ * How a backup is applied to existing data
+ * merge - add missing cards, copies and history; keep current settings
+ * replace - overwrite all data with the backup
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  mode: RestoreMode;
+  cards: number;                  // Collection entries after restore
+  copies: number;                 // Physical copies after restore
+  scanHistory: number;            // History entries after restore
+  valueHistory: number;           // Daily value snapshots after restore
+  submissions: number;            // Grading submissions after restore
 }
 
 export type RootStackParamList = {
@@ -49,6 +537,9 @@ export type RootStackParamList = {
   Collection: undefined;
   CardDetails: { card: Card };
   Settings: undefined;
+  Import: undefined;
+  ScanHistory: undefined;
+  Submissions: undefined;
 };
 
 // =====================================================
@@ -188,6 +679,7 @@ export interface XimilarCardMatch {
   card_number?: string;          // Card number
   series?: string;               // Series name
   subcategory?: string;          // Subcategory
+  version?: string;              // Printing variant (e.g., 1st Edition, Reverse Holo)
   links?: {                      // External links
     'tcgplayer.com'?: string;
     'ebay.com'?: string;
@@ -294,4 +786,17 @@ export interface XimilarGradingResult {
   isHolo?: boolean;              // Whether card is holographic
   estimatedPrice?: number;       // Estimated market price
   currency?: string;             // Price currency
+  identification?: XimilarCardMatch; // Raw best match from the TCG ID API
+  candidates?: CardCandidate[];   // Best match followed by ranked alternatives
+  cornerGrades?: GradeDetail[];   // Grade of each corner
+  edgeGrades?: GradeDetail[];     // Grade of each edge
+  conditionAnalysis?: ConditionAnalysis; // Raw corner, edge and centering measurements
+}
+
+/**
+ * Grade of a single corner or edge
+ */
+export interface GradeDetail {
+  name: XimilarCorner['name'] | XimilarEdge['name'];
+  grade: number;
 }
@@ -6,9 +6,92 @@ import {
   setCards,
   addCard,
   removeCard,
+  addCopy,
+  updateCopy,
+  removeCopy,
+  setValueHistory,
 } from '../store/slices/collectionSlice';
-import {StorageService} from '../services';
-import {CollectionCard, Card} from '../types';
+import {CsvRow, CsvService} from '../services/export/CsvService';
+import {
+  CurrencyService,
+  GradingSubmissionService,
+  PriceHistoryService,
+  ScanHistoryService,
+  StorageService,
+} from '../services';
+import {CardModel, CollectionModel, SettingsModel} from '../models';
+import {
+  CardCopy,
+  CollectionCard,
+  Card,
+  GradingCosts,
+  PriceChange,
+  SubmissionEstimate,
+  ValueSnapshot,
+} from '../types';
+
+/**
+ * Columns of the collection CSV export, in output order
+ * One row is written per physical copy; card fields repeat on each row
+ */
+export const COLLECTION_CSV_COLUMNS = [
+  'id',
+  'name',
+  'set',
+  'setCode',
+  'cardNumber',
+  'variant',
+  'rarity',
+  'type',
+  'year',
+  'artist',
+  'condition',
+  'price',
+  'currency',
+  'quantity',
+  'dateAdded',
+  'imageUrl',
+  'description',
+  'copyId',
+  'copyCondition',
+  'copyGrade',
+  'copyGradingCompany',
+  'purchasePrice',
+  'purchaseCurrency',
+  'acquiredAt',
+  'storageLocation',
+  'notes',
+  'ximilarId',
+  'confidence',
+  'grade',
+  'gradingService',
+  'identified',
+  'subgradeFinal',
+  'subgradeCorners',
+  'subgradeEdges',
+  'subgradeSurface',
+  'subgradeCentering',
+  'centeringLeftRight',
+  'centeringTopBottom',
+  'gradingModelVersion',
+  'gradingAnalyzedAt',
+  'matchRank',
+  'matchCandidateCount',
+  'matchDistance',
+  'matchSelectedBy',
+  'matchSelectedAt',
+  'marketCurrency',
+  'marketEstimate',
+  'marketMedian',
+  'marketLow',
+  'marketHigh',
+  'marketSoldMedian',
+  'marketListedMedian',
+  'marketRawMedian',
+  'marketGradedMedian',
+  'marketListingCount',
+  'marketUpdatedAt',
+];
 
 /**
  * CollectionViewModel
@@ -27,11 +110,24 @@ export class CollectionViewModel {
   private dispatch: any;
   private cards: CollectionCard[];
   private isLoading: boolean;
+  private valueHistory: ValueSnapshot[];
+  private displayCurrency: string;
+  private gradingCosts: GradingCosts;
 
-  constructor(dispatch: any, cards: CollectionCard[], isLoading: boolean) {
+  constructor(
+    dispatch: any,
+    cards: CollectionCard[],
+    isLoading: boolean,
+    valueHistory: ValueSnapshot[] = [],
+    displayCurrency: string = 'USD',
+    gradingCosts: GradingCosts = SettingsModel.DEFAULT_GRADING_COSTS,
+  ) {
     this.dispatch = dispatch;
     this.cards = cards;
     this.isLoading = isLoading;
+    this.valueHistory = valueHistory;
+    this.displayCurrency = displayCurrency;
+    this.gradingCosts = gradingCosts;
   }
 
   /**
@@ -42,6 +138,8 @@ export class CollectionViewModel {
     try {
       console.log('Loading collection from storage...');
       this.dispatch(setLoading(true));
+      // Snapshots first, so today's snapshot is recorded on top of them
+      this.dispatch(setValueHistory(await StorageService.loadValueHistory()));
       const savedCards = await StorageService.loadCollection();
       this.dispatch(setCards(savedCards));
       console.log(`Loaded ${savedCards.length} cards from collection`);
@@ -67,6 +165,18 @@ export class CollectionViewModel {
     }
   }
 
+  /**
+   * Finds the collection entry for a card by its canonical key
+   * Matches the same printing even when scanned more than once
+   *
+   * @param card - The card to look up
+   * @returns Matching collection entry or undefined
+   */
+  findCollectionCard(card: Card): CollectionCard | undefined {
+    const cardKey = CardModel.getCardKey(card);
+    return this.cards.find(c => CardModel.getCardKey(c) === cardKey);
+  }
+
   /**
    * Adds a new card to the collection
    * If card already exists, increments quantity
@@ -75,13 +185,14 @@ export class CollectionViewModel {
    */
   async addCardToCollection(card: Card): Promise<void> {
     try {
-      console.log('Adding card to collection:', card.name);
+      const existingCard = this.findCollectionCard(card);
+      console.log(
+        existingCard
+          ? `Incrementing quantity of ${existingCard.name}`
+          : `Adding card to collection: ${card.name}`,
+      );
 
-      const collectionCard: CollectionCard = {
-        ...card,
-        quantity: 1,
-        dateAdded: new Date().toISOString(),
-      };
+      const collectionCard: CollectionCard = CollectionModel.toCollectionCard(card);
 
       // Add to Redux state
       this.dispatch(addCard(collectionCard));
@@ -94,22 +205,70 @@ export class CollectionViewModel {
   }
 
   /**
-   * Removes a card from the collection
+   * Removes a card from the collection with its kept image
    *
    * @param cardId - The ID of the card to remove
    */
-  removeCardFromCollection(cardId: string): void {
+  async removeCardFromCollection(cardId: string): Promise<void> {
     try {
       console.log('Removing card from collection:', cardId);
+      const card = this.cards.find(c => c.id === cardId);
       this.dispatch(removeCard(cardId));
 
       // Auto-save after removing
       this.saveCollection();
+
+      if (card) {
+        await ScanHistoryService.deleteCollectionImage(card.imageUrl);
+      }
     } catch (error) {
       console.error('Failed to remove card from collection:', error);
     }
   }
 
+  /**
+   * Adds another physical copy to an existing collection entry
+   *
+   * @param cardId - The ID of the collection entry
+   * @param details - Per-copy details (condition, grade, purchase price, etc.)
+   */
+  addCopyToCard(cardId: string, details: Partial<CardCopy> = {}): void {
+    const card = this.cards.find(c => c.id === cardId);
+    if (!card) {
+      console.warn('Cannot add copy, card not in collection:', cardId);
+      return;
+    }
+
+    this.dispatch(addCopy({cardId, copy: CollectionModel.createCopy(card, details)}));
+  }
+
+  /**
+   * Updates the details of a single copy
+   *
+   * @param cardId - The ID of the collection entry
+   * @param copyId - The ID of the copy to update
+   * @param changes - Fields to change
+   */
+  updateCardCopy(cardId: string, copyId: string, changes: Partial<CardCopy>): void {
+    this.dispatch(updateCopy({cardId, copyId, changes}));
+  }
+
+  /**
+   * Removes a single copy; removing the last copy removes the card
+   * and its kept image
+   *
+   * @param cardId - The ID of the collection entry
+   * @param copyId - The ID of the copy to remove
+   */
+  async removeCardCopy(cardId: string, copyId: string): Promise<void> {
+    const card = this.cards.find(c => c.id === cardId);
+    this.dispatch(removeCopy({cardId, copyId}));
+
+    if (card && card.copies.every(copy => copy.id === copyId)) {
+      await ScanHistoryService.deleteCollectionImage(card.imageUrl);
+    }
+  }
+
   /**
    * Gets all cards in the collection
    * @returns Array of collection cards
@@ -120,33 +279,192 @@ export class CollectionViewModel {
 
   /**
    * Calculates total number of cards in collection
-   * Takes into account individual card quantities
+   * Counts every physical copy
    *
    * @returns Total card count
    */
   getTotalCards(): number {
-    return this.cards.reduce((total, card) => total + card.quantity, 0);
+    return this.cards.reduce((total, card) => total + card.copies.length, 0);
   }
 
   /**
    * Calculates total estimated value of collection
-   * Uses current market prices from card data
+   * Sums the estimated value of every physical copy
    *
-   * @returns Formatted currency string (e.g., "$123.45")
+   * @returns Formatted amount in the display currency (e.g., "$123.45")
    */
   getTotalValue(): string {
-    const total = this.cards.reduce((sum, card) => {
-      // Handle both old string format and new numeric format for legacy data compatibility
-      let price = 0;
-      const cardPrice = card.price as string | number;
-      if (typeof cardPrice === 'string') {
-        price = parseFloat(cardPrice.replace('$', '')) || 0;
-      } else if (typeof cardPrice === 'number') {
-        price = cardPrice;
+    return this.formatAmount(this.getTotalValueAmount());
+  }
+
+  /**
+   * Calculates total estimated value of collection as a number
+   *
+   * @returns Sum of the estimated value of every copy in the display currency
+   */
+  getTotalValueAmount(): number {
+    return this.cards.reduce(
+      (sum, card) =>
+        sum +
+        card.copies.reduce((cardSum, copy) => cardSum + this.getCopyValue(card, copy), 0),
+      0,
+    );
+  }
+
+  /**
+   * Gets the daily collection value snapshots, oldest first
+   * Values are converted to the display currency
+   */
+  getValueHistory(): ValueSnapshot[] {
+    return this.valueHistory.map(snapshot => ({
+      ...snapshot,
+      value: this.toDisplayCurrency(snapshot.value, snapshot.currency),
+      cost: this.toDisplayCurrency(snapshot.cost, snapshot.currency),
+      currency: this.displayCurrency,
+    }));
+  }
+
+  /**
+   * Records today's collection value snapshot in the display currency
+   * Replaces an earlier snapshot from the same day
+   */
+  async recordValueSnapshot(): Promise<void> {
+    const snapshots = PriceHistoryService.recordSnapshot(this.valueHistory, {
+      date: PriceHistoryService.toDay(new Date()),
+      value: Math.round(this.getTotalValueAmount() * 100) / 100,
+      cost: Math.round(this.getTotalCost() * 100) / 100,
+      copies: this.getTotalCards(),
+      currency: this.displayCurrency,
+    });
+    if (snapshots === this.valueHistory) {
+      return;
+    }
+
+    this.dispatch(setValueHistory(snapshots));
+    try {
+      await StorageService.saveValueHistory(snapshots);
+    } catch (error) {
+      console.error('Failed to save value snapshot:', error);
+    }
+  }
+
+  /**
+   * Gets the market value change of a card's copies since acquisition
+   *
+   * @param card - Collection entry
+   * @returns Gain or loss in the display currency, or undefined without price history
+   */
+  getCardChange(card: CollectionCard): PriceChange | undefined {
+    const change = PriceHistoryService.getCardChange(card);
+    if (!change) {
+      return undefined;
+    }
+
+    return {
+      ...change,
+      basis: this.toDisplayCurrency(change.basis, card.currency),
+      current: this.toDisplayCurrency(change.current, card.currency),
+      change: this.toDisplayCurrency(change.change, card.currency),
+    };
+  }
+
+  /**
+   * Estimates the value of a single physical copy
+   * Professionally graded copies use listings at their company and grade;
+   * raw copies use ungraded listings. Either falls back to the card price
+   * when there are no matching listings
+   *
+   * @param card - The collection entry the copy belongs to
+   * @param copy - The copy to value
+   * @returns Estimated value of the copy in the display currency
+   */
+  getCopyValue(card: CollectionCard, copy: CardCopy): number {
+    const {marketPrice} = card;
+    if (marketPrice && copy.gradingCompany) {
+      const graded = copy.grade !== undefined
+        ? GradingSubmissionService.getGradedPrice(marketPrice, copy.gradingCompany, copy.grade)
+        : undefined;
+      if (graded) {
+        return this.toDisplayCurrency(graded.median, marketPrice.currency);
       }
-      return sum + price * card.quantity;
-    }, 0);
-    return `$${total.toFixed(2)}`;
+    } else if (marketPrice?.raw) {
+      return this.toDisplayCurrency(marketPrice.raw.median, marketPrice.currency);
+    }
+    return this.toDisplayCurrency(card.price || 0, card.currency);
+  }
+
+  /**
+   * Calculates the total amount paid for all copies with a purchase price
+   *
+   * @returns Total purchase cost in the display currency
+   */
+  getTotalCost(): number {
+    return this.cards.reduce(
+      (sum, card) =>
+        sum +
+        card.copies.reduce(
+          (cardSum, copy) =>
+            cardSum + this.toDisplayCurrency(copy.purchasePrice || 0, copy.purchaseCurrency),
+          0,
+        ),
+      0,
+    );
+  }
+
+  /**
+   * Gets the currency amounts are shown in
+   */
+  getDisplayCurrency(): string {
+    return this.displayCurrency;
+  }
+
+  /**
+   * Formats an amount already in the display currency
+   */
+  formatAmount(amount: number): string {
+    return CurrencyService.format(amount, this.displayCurrency);
+  }
+
+  /**
+   * Formats a card's market price in the display currency
+   */
+  formatCardPrice(card: Card): string {
+    return this.formatAmount(this.toDisplayCurrency(card.price || 0, card.currency));
+  }
+
+  getGradingCosts(): GradingCosts {
+    return this.gradingCosts;
+  }
+
+  /**
+   * Estimates whether sending a card for grading pays off
+   * Uses the grading company and costs from settings
+   */
+  getSubmissionEstimate(card: Card): SubmissionEstimate | undefined {
+    return GradingSubmissionService.estimate(card, this.gradingCosts);
+  }
+
+  /**
+   * Collection cards worth sending for grading, most profitable first
+   */
+  getSubmissionCandidates(): Array<{card: CollectionCard; estimate: SubmissionEstimate}> {
+    return GradingSubmissionService.findCandidates(this.cards, this.gradingCosts);
+  }
+
+  /**
+   * Converts an amount to the display currency
+   * Amounts in currencies without a known rate are left unconverted
+   *
+   * @param amount - Amount to convert
+   * @param currency - Currency of the amount; USD when missing
+   */
+  toDisplayCurrency(amount: number, currency?: string): number {
+    const converted = CurrencyService.convert(amount, currency, this.displayCurrency);
+    if (converted === undefined) {
+      console.warn(`No exchange rate for ${currency}, showing amount unconverted`);
+      return amount;
+    }
+    return converted;
   }
 
   /**
@@ -160,26 +478,34 @@ export class CollectionViewModel {
 
     // Calculate rarity distribution
     const rarityCount = this.cards.reduce((acc, card) => {
-      acc[card.rarity] = (acc[card.rarity] || 0) + card.quantity;
+      acc[card.rarity] = (acc[card.rarity] || 0) + card.copies.length;
       return acc;
     }, {} as Record<string, number>);
 
-    // Calculate condition distribution
+    // Calculate condition distribution per physical copy
     const conditionCount = this.cards.reduce((acc, card) => {
-      acc[card.condition] = (acc[card.condition] || 0) + card.quantity;
+      card.copies.forEach(copy => {
+        acc[copy.condition] = (acc[copy.condition] || 0) + 1;
+      });
       return acc;
     }, {} as Record<string, number>);
 
+    const gradedCopies = this.cards.reduce(
+      (count, card) => count + card.copies.filter(copy => copy.grade !== undefined).length,
+      0,
+    );
+
     return {
       totalCards,
       uniqueCards,
       totalValue,
+      totalCost: this.formatAmount(this.getTotalCost()),
+      gradedCopies,
       rarityDistribution: rarityCount,
       conditionDistribution: conditionCount,
-      averageValue:
-        totalCards > 0
-          ? (parseFloat(totalValue.replace('$', '')) / totalCards).toFixed(2)
-          : '0.00',
+      averageValue: this.formatAmount(
+        totalCards > 0 ? this.getTotalValueAmount() / totalCards : 0,
+      ),
     };
   }
 
@@ -216,12 +542,99 @@ export class CollectionViewModel {
 
   /**
    * Filters collection by condition
+   * Matches entries with at least one copy in that condition
    *
    * @param condition - Condition to filter by
    * @returns Filtered collection cards
    */
   filterByCondition(condition: string): CollectionCard[] {
-    return this.cards.filter(card => card.condition === condition);
+    return this.cards.filter(card =>
+      card.copies.some(copy => copy.condition === condition),
+    );
+  }
+
+  /**
+   * Builds a CSV export of the whole collection
+   * Includes every card field, per-copy details, grading subgrades,
+   * match selection metadata and market estimates for spreadsheet analysis
+   *
+   * @returns CSV text with one row per physical copy
+   */
+  exportCollectionCsv(): string {
+    const rows = this.cards.flatMap(card =>
+      card.copies.length > 0
+        ? card.copies.map(copy => this.toCsvRow(card, copy))
+        : [this.toCsvRow(card)],
+    );
+    return CsvService.stringify(COLLECTION_CSV_COLUMNS, rows);
+  }
+
+  /**
+   * Flattens a collection entry and one of its copies into a CSV row
+   */
+  private toCsvRow(card: CollectionCard, copy?: CardCopy): CsvRow {
+    const {apiData, marketPrice} = card;
+    // Each copy carries the analysis of the scan that added it
+    const subgrades = copy ? copy.subgrades : apiData?.subgrades;
+    const analysis = copy ? copy.conditionAnalysis : apiData?.conditionAnalysis;
+    return {
+      id: card.id,
+      name: card.name,
+      set: card.set,
+      setCode: card.setCode,
+      cardNumber: card.cardNumber,
+      variant: card.variant,
+      rarity: card.rarity,
+      type: card.type,
+      year: card.year,
+      artist: card.artist,
+      condition: card.condition,
+      price: card.price,
+      currency: card.currency || 'USD',
+      quantity: card.quantity,
+      dateAdded: card.dateAdded,
+      imageUrl: card.imageUrl,
+      description: card.description,
+      copyId: copy?.id,
+      copyCondition: copy?.condition,
+      copyGrade: copy?.grade,
+      copyGradingCompany: copy?.gradingCompany,
+      purchasePrice: copy?.purchasePrice,
+      purchaseCurrency: copy?.purchasePrice !== undefined ? copy.purchaseCurrency || 'USD' : undefined,
+      acquiredAt: copy?.acquiredAt,
+      storageLocation: copy?.storageLocation,
+      notes: copy?.notes,
+      ximilarId: apiData?.ximilarId,
+      confidence: apiData?.confidence,
+      grade: apiData?.grade,
+      gradingService: apiData?.gradingService,
+      identified: apiData?.identified,
+      subgradeFinal: subgrades?.final,
+      subgradeCorners: subgrades?.corners,
+      subgradeEdges: subgrades?.edges,
+      subgradeSurface: subgrades?.surface,
+      subgradeCentering: subgrades?.centering,
+      centeringLeftRight: analysis?.centering?.['left/right'],
+      centeringTopBottom: analysis?.centering?.['top/bottom'],
+      gradingModelVersion: analysis?.versions?.final,
+      gradingAnalyzedAt: analysis?.analyzedAt,
+      matchRank: apiData?.matchSelection?.rank,
+      matchCandidateCount: apiData?.matchSelection?.candidateCount,
+      matchDistance: apiData?.matchSelection?.distance,
+      matchSelectedBy: apiData?.matchSelection?.selectedBy,
+      matchSelectedAt: apiData?.matchSelection?.selectedAt,
+      marketCurrency: marketPrice?.currency,
+      marketEstimate: marketPrice?.estimate,
+      marketMedian: marketPrice?.overall.median,
+      marketLow: marketPrice?.overall.low,
+      marketHigh: marketPrice?.overall.high,
+      marketSoldMedian: marketPrice?.sold?.median,
+      marketListedMedian: marketPrice?.listed?.median,
+      marketRawMedian: marketPrice?.raw?.median,
+      marketGradedMedian: marketPrice?.graded?.median,
+      marketListingCount: marketPrice?.listingCount,
+      marketUpdatedAt: marketPrice?.updatedAt,
+    };
   }
 
   /**
@@ -241,15 +654,21 @@ export class CollectionViewModel {
  */
 export const useCollectionViewModel = () => {
   const dispatch = useDispatch();
-  const {cards, isLoading} = useSelector(
+  const {cards, isLoading, valueHistory} = useSelector(
     (state: RootState) => state.collection,
   );
+  const displayCurrency = useSelector(
+    (state: RootState) => state.settings.settings.displayCurrency,
+  );
+  const gradingCosts = useSelector(
+    (state: RootState) => state.settings.settings.gradingCosts,
+  );
   const hasLoadedRef = useRef(false);
   const prevCardsRef = useRef<CollectionCard[]>([]);
 
   const viewModel = useMemo(
-    () => new CollectionViewModel(dispatch, cards, isLoading),
-    [dispatch, cards, isLoading],
+    () => new CollectionViewModel(dispatch, cards, isLoading, valueHistory, displayCurrency, gradingCosts),
+    [dispatch, cards, isLoading, valueHistory, displayCurrency, gradingCosts],
   );
 
   // Load collection once on mount
@@ -276,9 +695,12 @@ export const useCollectionViewModel = () => {
         }).catch((error) => {
           console.error('Failed to auto-save collection:', error);
         });
+
+        // Keep today's value snapshot current
+        viewModel.recordValueSnapshot();
       }
     }
-  }, [cards]);
+  }, [cards, viewModel]);
 
   return viewModel;
 };
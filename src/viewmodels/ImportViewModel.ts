@@ -0,0 +1,216 @@
+import {useDispatch, useSelector} from 'react-redux';
+import {useEffect, useMemo, useRef} from 'react';
+import {RootState} from '../store';
+import {addCard} from '../store/slices/collectionSlice';
+import {
+  ImportFileEntry,
+  loadImportFile,
+  resetImport,
+  setImportError,
+  setImportFiles,
+  setImportLoading,
+  setImportMapping,
+} from '../store/slices/importSlice';
+import {CsvImportService} from '../services';
+import {CollectionCard, CsvColumnMapping, CsvImportFile, ImportField, ImportPreviewRow} from '../types';
+
+/**
+ * ImportViewModel
+ *
+ * Business logic for importing collections from CSV files.
+ * Handles operations including:
+ * - Listing CSV files available on the device
+ * - Reading a file and suggesting a column mapping
+ * - Re-mapping columns and previewing rows with validation errors
+ * - Merging valid rows into the collection
+ *
+ * Imported entries are dispatched through collectionSlice.addCard, so
+ * rows for a printing already in the collection add copies to it.
+ * Prices without a currency column are read in the display currency.
+ */
+export class ImportViewModel {
+  private dispatch: any;
+  private files: ImportFileEntry[];
+  private file: CsvImportFile | null;
+  private mapping: CsvColumnMapping;
+  private preview: ImportPreviewRow[];
+  private isLoading: boolean;
+  private error?: string;
+  private displayCurrency: string;
+
+  constructor(
+    dispatch: any,
+    state: {
+      files: ImportFileEntry[];
+      file: CsvImportFile | null;
+      mapping: CsvColumnMapping;
+      preview: ImportPreviewRow[];
+      isLoading: boolean;
+      error?: string;
+    },
+    displayCurrency: string = 'USD',
+  ) {
+    this.dispatch = dispatch;
+    this.files = state.files;
+    this.file = state.file;
+    this.mapping = state.mapping;
+    this.preview = state.preview;
+    this.isLoading = state.isLoading;
+    this.error = state.error;
+    this.displayCurrency = displayCurrency;
+  }
+
+  /**
+   * Lists CSV files that can be imported
+   */
+  async loadFiles(): Promise<void> {
+    try {
+      this.dispatch(setImportLoading(true));
+      const items = await CsvImportService.listCsvFiles();
+      this.dispatch(
+        setImportFiles(items.map(item => ({name: item.name, path: item.path, size: item.size}))),
+      );
+    } catch (error) {
+      console.error('Failed to list CSV files:', error);
+      this.dispatch(setImportError('Could not read the documents folder'));
+    }
+  }
+
+  /**
+   * Reads a CSV file and previews it with a suggested column mapping
+   *
+   * @param path - Absolute path of the file
+   */
+  async selectFile(path: string): Promise<void> {
+    try {
+      this.dispatch(setImportLoading(true));
+      const file = await CsvImportService.readCsvFile(path);
+      const mapping = CsvImportService.suggestMapping(file.headers);
+      const preview = CsvImportService.buildPreview(file, mapping, this.displayCurrency);
+      this.dispatch(loadImportFile({file, mapping, preview}));
+    } catch (error) {
+      console.error('Failed to read CSV file:', error);
+      this.dispatch(
+        setImportError(error instanceof Error ? error.message : 'Could not read the CSV file'),
+      );
+    }
+  }
+
+  /**
+   * Maps a field to a column, or clears it when columnIndex is undefined
+   * Rebuilds the preview for the new mapping
+   *
+   * @param field - Card field to map
+   * @param columnIndex - Index of the CSV column
+   */
+  mapField(field: ImportField, columnIndex?: number): void {
+    if (!this.file) {
+      return;
+    }
+
+    const mapping: CsvColumnMapping = {...this.mapping};
+    if (columnIndex === undefined) {
+      delete mapping[field];
+    } else {
+      mapping[field] = columnIndex;
+    }
+
+    this.dispatch(
+      setImportMapping({
+        mapping,
+        preview: CsvImportService.buildPreview(this.file, mapping, this.displayCurrency),
+      }),
+    );
+  }
+
+  /**
+   * Merges every valid preview row into the collection
+   * Rows with validation errors are skipped
+   *
+   * @returns Number of rows imported
+   */
+  importValidRows(): number {
+    const validRows = this.getValidRows();
+    validRows.forEach(row => this.dispatch(addCard(row.card)));
+    console.log(`Imported ${validRows.length} rows from CSV`);
+
+    this.dispatch(resetImport());
+    return validRows.length;
+  }
+
+  /**
+   * Leaves the current file and returns to the file list
+   */
+  reset(): void {
+    this.dispatch(resetImport());
+  }
+
+  getFiles(): ImportFileEntry[] {
+    return this.files;
+  }
+
+  getFile(): CsvImportFile | null {
+    return this.file;
+  }
+
+  getMapping(): CsvColumnMapping {
+    return this.mapping;
+  }
+
+  getPreview(): ImportPreviewRow[] {
+    return this.preview;
+  }
+
+  getValidRows(): Array<ImportPreviewRow & {card: CollectionCard}> {
+    return this.preview.filter(
+      (row): row is ImportPreviewRow & {card: CollectionCard} => Boolean(row.card) && row.errors.length === 0,
+    );
+  }
+
+  getInvalidRows(): ImportPreviewRow[] {
+    return this.preview.filter(row => row.errors.length > 0);
+  }
+
+  isLoadingImport(): boolean {
+    return this.isLoading;
+  }
+
+  getError(): string | undefined {
+    return this.error;
+  }
+}
+
+/**
+ * Hook for using ImportViewModel in React components
+ * Lists the CSV files when first mounted and clears the import on unmount
+ *
+ * @returns Configured ImportViewModel instance
+ */
+export const useImportViewModel = () => {
+  const dispatch = useDispatch();
+  const importState = useSelector((state: RootState) => state.import);
+  const displayCurrency = useSelector(
+    (state: RootState) => state.settings.settings.displayCurrency,
+  );
+  const hasLoadedRef = useRef(false);
+
+  const viewModel = useMemo(
+    () => new ImportViewModel(dispatch, importState, displayCurrency),
+    [dispatch, importState, displayCurrency],
+  );
+
+  // List files once on mount
+  useEffect(() => {
+    if (!hasLoadedRef.current) {
+      hasLoadedRef.current = true;
+      viewModel.loadFiles();
+    }
+  }, [viewModel]);
+
+  // Clear the import when the screen is left
+  useEffect(() => () => {
+    dispatch(resetImport());
+  }, [dispatch]);
+
+  return viewModel;
+};
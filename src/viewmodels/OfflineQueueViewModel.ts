@@ -0,0 +1,177 @@
+import {useEffect, useMemo, useRef} from 'react';
+import {useDispatch, useSelector} from 'react-redux';
+import {RootState} from '../store';
+import {
+  setOfflineQueue,
+  setOnline,
+  setProcessingQueue,
+  setScanHistory,
+} from '../store/slices/scannerSlice';
+import {ConnectivityService, OfflineQueueService} from '../services';
+import {QueuedScan} from '../types';
+
+/**
+ * OfflineQueueViewModel
+ *
+ * Business logic for scans queued while offline.
+ * Handles operations including:
+ * - Loading the persisted queue into the scanner slice
+ * - Tracking connectivity through ConnectivityService
+ * - Grading queued scans once the app is back online
+ * - Retrying or discarding failed scans
+ *
+ * Scans are queued by ScannerViewModel; graded scans end up in
+ * the scan history like any other scan.
+ */
+export class OfflineQueueViewModel {
+  private dispatch: any;
+  private queue: QueuedScan[];
+  private isOnline: boolean;
+  private offlineMode: boolean;
+  private isProcessing: boolean;
+
+  constructor(
+    dispatch: any,
+    queue: QueuedScan[],
+    isOnline: boolean,
+    offlineMode: boolean,
+    isProcessing: boolean,
+  ) {
+    this.dispatch = dispatch;
+    this.queue = queue;
+    this.isOnline = isOnline;
+    this.offlineMode = offlineMode;
+    this.isProcessing = isProcessing;
+  }
+
+  /**
+   * Loads the persisted queue into Redux
+   */
+  async loadQueue(): Promise<void> {
+    try {
+      this.dispatch(setOfflineQueue(await OfflineQueueService.load()));
+    } catch (error) {
+      console.error('Failed to load offline queue:', error);
+    }
+  }
+
+  getQueue(): QueuedScan[] {
+    return this.queue;
+  }
+
+  getIsOnline(): boolean {
+    return this.isOnline;
+  }
+
+  getOfflineMode(): boolean {
+    return this.offlineMode;
+  }
+
+  getIsProcessing(): boolean {
+    return this.isProcessing;
+  }
+
+  getPendingCount(): number {
+    return this.queue.filter(scan => scan.status !== 'failed').length;
+  }
+
+  getFailedCount(): number {
+    return this.queue.filter(scan => scan.status === 'failed').length;
+  }
+
+  /**
+   * Whether queued scans can be graded now
+   */
+  canProcess(): boolean {
+    return (
+      this.isOnline &&
+      !this.offlineMode &&
+      !this.isProcessing &&
+      this.queue.some(scan => scan.status === 'queued')
+    );
+  }
+
+  /**
+   * Grades every queued scan and records the results in the scan history
+   */
+  async processQueue(): Promise<void> {
+    if (!this.canProcess()) {
+      return;
+    }
+
+    this.dispatch(setProcessingQueue(true));
+    try {
+      const graded = await OfflineQueueService.process({
+        onQueueChange: queue => this.dispatch(setOfflineQueue(queue)),
+        onGraded: history => this.dispatch(setScanHistory(history)),
+      });
+      console.log(`✅ Graded ${graded} queued scans`);
+    } catch (error) {
+      console.error('Failed to process offline queue:', error);
+    } finally {
+      this.dispatch(setProcessingQueue(false));
+    }
+  }
+
+  /**
+   * Queues a failed scan again
+   * It is graded by the next processing run
+   */
+  async retry(id: string): Promise<void> {
+    this.dispatch(setOfflineQueue(await OfflineQueueService.retry(id)));
+  }
+
+  /**
+   * Removes a scan from the queue without grading it
+   */
+  async discard(id: string): Promise<void> {
+    this.dispatch(setOfflineQueue(await OfflineQueueService.discard(id)));
+  }
+}
+
+/**
+ * Hook for using OfflineQueueViewModel in React components
+ * Loads the queue and starts connectivity monitoring when first mounted,
+ * then grades queued scans whenever the app is online
+ *
+ * @returns Configured OfflineQueueViewModel instance
+ */
+export const useOfflineQueueViewModel = () => {
+  const dispatch = useDispatch();
+  const {offlineQueue, isOnline, isProcessingQueue} = useSelector((state: RootState) => state.scanner);
+  const offlineMode = useSelector((state: RootState) => state.settings.settings.offlineMode);
+  const hasLoadedRef = useRef(false);
+
+  const viewModel = useMemo(
+    () => new OfflineQueueViewModel(dispatch, offlineQueue, isOnline, offlineMode, isProcessingQueue),
+    [dispatch, offlineQueue, isOnline, offlineMode, isProcessingQueue],
+  );
+
+  // Load queue and start monitoring once on mount
+  useEffect(() => {
+    if (!hasLoadedRef.current) {
+      hasLoadedRef.current = true;
+      viewModel.loadQueue();
+    }
+  }, [viewModel]);
+
+  useEffect(() => {
+    dispatch(setOnline(ConnectivityService.isOnline()));
+    const unsubscribe = ConnectivityService.addConnectivityListener(online => dispatch(setOnline(online)));
+    ConnectivityService.startMonitoring();
+
+    return () => {
+      unsubscribe();
+      ConnectivityService.stopMonitoring();
+    };
+  }, [dispatch]);
+
+  // Grade queued scans whenever processing becomes possible
+  useEffect(() => {
+    if (viewModel.canProcess()) {
+      viewModel.processQueue();
+    }
+  }, [viewModel]);
+
+  return viewModel;
+};
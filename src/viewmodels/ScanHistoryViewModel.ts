@@ -0,0 +1,112 @@
+import {useEffect, useMemo, useRef} from 'react';
+import {useDispatch, useSelector} from 'react-redux';
+import {RootState} from '../store';
+import {addCard} from '../store/slices/collectionSlice';
+import {setScanHistory} from '../store/slices/scannerSlice';
+import {ScanHistoryService} from '../services';
+import {CardModel, CollectionModel} from '../models';
+import {Card, CollectionCard, ScanHistoryEntry} from '../types';
+
+/**
+ * ScanHistoryViewModel
+ *
+ * Business logic for the scan history screen.
+ * Handles operations including:
+ * - Loading persisted scans into the scanner slice
+ * - Adding a past scan to the collection again
+ * - Deleting single scans or the whole history
+ *
+ * Scans are recorded by ScannerViewModel; this ViewModel only
+ * reads and maintains the log afterwards.
+ */
+export class ScanHistoryViewModel {
+  private dispatch: any;
+  private history: ScanHistoryEntry[];
+  private cards: CollectionCard[];
+
+  constructor(dispatch: any, history: ScanHistoryEntry[], cards: CollectionCard[]) {
+    this.dispatch = dispatch;
+    this.history = history;
+    this.cards = cards;
+  }
+
+  /**
+   * Loads the persisted history into Redux
+   */
+  async loadHistory(): Promise<void> {
+    try {
+      this.dispatch(setScanHistory(await ScanHistoryService.load()));
+    } catch (error) {
+      console.error('Failed to load scan history:', error);
+    }
+  }
+
+  getEntries(): ScanHistoryEntry[] {
+    return this.history;
+  }
+
+  /**
+   * Card of a history entry, shown with the image kept by the history
+   */
+  getCard(entry: ScanHistoryEntry): Card {
+    return {...entry.card, imageUrl: entry.imageUri || entry.card.imageUrl};
+  }
+
+  /**
+   * Adds the scanned card to the collection as a new copy
+   * The card gets its own copy of the image, so deleting the scan
+   * from the history does not break the collection card. A printing
+   * already in the collection keeps the image it has.
+   *
+   * @param entry - History entry to add
+   */
+  async addToCollection(entry: ScanHistoryEntry): Promise<void> {
+    const cardKey = CardModel.getCardKey(entry.card);
+    const existing = this.cards.find(card => CardModel.getCardKey(card) === cardKey);
+    const imageUrl = existing ? existing.imageUrl : await ScanHistoryService.keepImageForCollection(entry);
+    this.dispatch(addCard(CollectionModel.toCollectionCard({...this.getCard(entry), imageUrl})));
+    this.dispatch(setScanHistory(await ScanHistoryService.markAdded(entry.id)));
+  }
+
+  /**
+   * Deletes a single scan and its image
+   */
+  async deleteEntry(id: string): Promise<void> {
+    this.dispatch(setScanHistory(await ScanHistoryService.remove(id)));
+  }
+
+  /**
+   * Deletes every scan in the history
+   */
+  async clearHistory(): Promise<void> {
+    this.dispatch(setScanHistory(await ScanHistoryService.clear()));
+  }
+}
+
+/**
+ * Hook for using ScanHistoryViewModel in React components
+ * Loads the persisted history when first mounted
+ *
+ * @returns Configured ScanHistoryViewModel instance
+ */
+export const useScanHistoryViewModel = () => {
+  const dispatch = useDispatch();
+  const history = useSelector((state: RootState) => state.scanner.history);
+  const cards = useSelector((state: RootState) => state.collection.cards);
+  const hasLoadedRef = useRef(false);
+
+  const viewModel = useMemo(
+    () => new ScanHistoryViewModel(dispatch, history, cards),
+    [dispatch, history, cards],
+  );
+
+  // Load history once on mount
+  useEffect(() => {
+    if (!hasLoadedRef.current) {
+      hasLoadedRef.current = true;
+      viewModel.loadHistory();
+    }
+  }, [viewModel]);
+
+  return viewModel;
+};
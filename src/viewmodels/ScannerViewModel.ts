@@ -1,9 +1,32 @@
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
-import { startScan, completeScan, scanError, resetScan } from '../store/slices/scannerSlice';
+import {
+  startScan,
+  completeScan,
+  selectCandidate,
+  scanError,
+  resetScan,
+  setHistoryEntryId,
+  setScanHistory,
+  startBatch,
+  updateBatchItem,
+  finishBatch,
+  toggleBatchItem,
+  markBatchAdded,
+  resetBatch,
+  scanQueued,
+  setOfflineQueue,
+} from '../store/slices/scannerSlice';
 import { addCard } from '../store/slices/collectionSlice';
-import { CameraService } from '../services';
-import { Card, CollectionCard } from '../types';
+import {
+  CameraService,
+  CardMappingService,
+  ConnectivityService,
+  OfflineQueueService,
+  ScanHistoryService,
+} from '../services';
+import { CollectionModel } from '../models';
+import { BatchScanItem, Card, CardCandidate, CollectionCard, XimilarGradingResult } from '../types';
 
 /**
  * ScannerViewModel
@@ -13,6 +36,9 @@ import { Card, CollectionCard } from '../types';
  * - Camera integration
  * - Ximilar API communication
  * - State management for scanning process
+ * - Batch scanning of several library images at once
+ * - Queueing captured images while offline or in offline mode
+ * - Recording completed scans in the scan history
  * - Error handling and user feedback
  *
  * This ViewModel follows MVVM architecture by separating
@@ -22,11 +48,24 @@ export class ScannerViewModel {
   private dispatch: any;
   private scanResult: any;
   private isScanning: boolean;
+  private batch: BatchScanItem[];
+  private isBatchRunning: boolean;
+  private offlineMode: boolean;
 
-  constructor(dispatch: any, scanResult: any, isScanning: boolean) {
+  constructor(
+    dispatch: any,
+    scanResult: any,
+    isScanning: boolean,
+    batch: BatchScanItem[] = [],
+    isBatchRunning: boolean = false,
+    offlineMode: boolean = false,
+  ) {
     this.dispatch = dispatch;
     this.scanResult = scanResult;
     this.isScanning = isScanning;
+    this.batch = batch;
+    this.isBatchRunning = isBatchRunning;
+    this.offlineMode = offlineMode;
   }
 
   /**
@@ -55,8 +94,16 @@ export class ScannerViewModel {
         return;
       }
 
+      if (this.shouldQueueScans()) {
+        await this.queueScans([imageUri]);
+        return;
+      }
+
       console.log('Image captured, processing with Ximilar API...');
-      const result = await CameraService.recognizeCard(imageUri);
+      const result = await this.recognizeOrQueue(imageUri);
+      if (!result) {
+        return;
+      }
 
       // Check confidence level and provide user feedback
       if (result.confidence < 0.3) {
@@ -69,6 +116,10 @@ export class ScannerViewModel {
 
       console.log('Card recognition successful:', result.card.name);
       this.dispatch(completeScan(result));
+      const historyEntryId = await this.recordScan(result, imageUri);
+      if (historyEntryId) {
+        this.dispatch(setHistoryEntryId(historyEntryId));
+      }
     } catch (error) {
       console.error('Camera scan failed:', error);
       
@@ -103,14 +154,22 @@ export class ScannerViewModel {
       console.log('Starting library scan...');
       this.dispatch(startScan());
 
-      const imageUri = await CameraService.openImageLibrary();
+      const [imageUri] = await CameraService.openImageLibrary();
       if (!imageUri) {
         this.dispatch(scanError('No image selected. Please choose an image.'));
         return;
       }
 
+      if (this.shouldQueueScans()) {
+        await this.queueScans([imageUri]);
+        return;
+      }
+
       console.log('Image selected, processing with Ximilar API...');
-      const result = await CameraService.recognizeCard(imageUri);
+      const result = await this.recognizeOrQueue(imageUri);
+      if (!result) {
+        return;
+      }
 
       // Check confidence level
       if (result.confidence < 0.3) {
@@ -123,6 +182,10 @@ export class ScannerViewModel {
 
       console.log('Card recognition successful:', result.card.name);
       this.dispatch(completeScan(result));
+      const historyEntryId = await this.recordScan(result, imageUri);
+      if (historyEntryId) {
+        this.dispatch(setHistoryEntryId(historyEntryId));
+      }
     } catch (error) {
       console.error('Library scan failed:', error);
       
@@ -150,7 +213,7 @@ export class ScannerViewModel {
    *
    * Creates a CollectionCard with:
    * - Current timestamp
-   * - Initial quantity of 1
+   * - A single copy carrying the scanned condition and grade
    * - All card metadata from API
    *
    * @param card - The card to add to collection
@@ -159,20 +222,271 @@ export class ScannerViewModel {
     try {
       console.log('Adding card to collection:', card.name);
       
-      const collectionCard: CollectionCard = {
-        ...card,
-        quantity: 1,
-        dateAdded: new Date().toISOString(),
-      };
+      const collectionCard: CollectionCard = CollectionModel.toCollectionCard(card);
       
       this.dispatch(addCard(collectionCard));
       console.log('Card successfully added to collection');
+
+      const { historyEntryId } = this.scanResult;
+      if (historyEntryId) {
+        ScanHistoryService.markAdded(historyEntryId)
+          .then(history => this.dispatch(setScanHistory(history)))
+          .catch(error => console.error('Failed to update scan history:', error));
+      }
     } catch (error) {
       console.error('Failed to add card to collection:', error);
       this.dispatch(scanError('Failed to add card to collection. Please try again.'));
     }
   }
 
+  /**
+   * Chooses a different identification candidate for the current scan
+   *
+   * Rebuilds the scanned card from the chosen match while keeping the
+   * grading data, and records the user's choice on the card's apiData.
+   *
+   * @param index - Index of the candidate in the ranked list
+   */
+  selectCandidate(index: number): void {
+    const { card, gradingResult, candidates } = this.scanResult;
+    if (!card || !gradingResult || !candidates || !candidates[index]) {
+      return;
+    }
+
+    console.log('Selecting identification candidate:', index);
+    const updatedCard = CardMappingService.toCardFromCandidate(
+      gradingResult,
+      card.imageUrl,
+      candidates,
+      index,
+      'user',
+    );
+    this.dispatch(selectCandidate({ index, card: updatedCard }));
+
+    if (this.scanResult.historyEntryId) {
+      ScanHistoryService.update(this.scanResult.historyEntryId, { card: updatedCard })
+        .then(history => this.dispatch(setScanHistory(history)))
+        .catch(error => console.error('Failed to update scan history:', error));
+    }
+  }
+
+  /**
+   * Starts a batch scanning session from the photo library
+   *
+   * Process:
+   * 1. Lets the user pick several images
+   * 2. Sends them to Ximilar in chunks of CameraService.MAX_BATCH_SIZE
+   * 3. Updates each item's status as its chunk completes
+   *
+   * Results with sufficient confidence are preselected for adding.
+   * A failed chunk marks its images as failed; later chunks still run.
+   */
+  async scanBatchFromLibrary(): Promise<void> {
+    const imageUris = await CameraService.openImageLibrary(0);
+    if (imageUris.length === 0) {
+      return;
+    }
+
+    if (this.shouldQueueScans()) {
+      await this.queueScans(imageUris);
+      return;
+    }
+
+    const sessionId = Date.now();
+    const items: BatchScanItem[] = imageUris.map((imageUri, index) => ({
+      id: `batch_${sessionId}_${index}`,
+      imageUri,
+      status: 'pending',
+      selected: false,
+      added: false,
+    }));
+
+    console.log(`Starting batch scan of ${items.length} images...`);
+    this.dispatch(startBatch(items));
+
+    try {
+      for (let start = 0; start < items.length; start += CameraService.MAX_BATCH_SIZE) {
+        await this.processBatchChunk(items.slice(start, start + CameraService.MAX_BATCH_SIZE));
+      }
+    } finally {
+      this.dispatch(finishBatch());
+    }
+  }
+
+  /**
+   * Selects or deselects a processed batch item for adding
+   */
+  toggleBatchItem(id: string): void {
+    this.dispatch(toggleBatchItem(id));
+  }
+
+  /**
+   * Adds every selected batch result to the collection
+   *
+   * @returns Number of cards added
+   */
+  async addBatchToCollection(): Promise<number> {
+    const items = this.batch.filter(item => item.selected && !item.added && item.card);
+
+    items.forEach(item => this.dispatch(addCard(CollectionModel.toCollectionCard(item.card!))));
+    this.dispatch(markBatchAdded(items.map(item => item.id)));
+    console.log(`Added ${items.length} batch results to collection`);
+
+    // Sequential, as each update rewrites the stored history
+    try {
+      for (const item of items) {
+        if (item.historyEntryId) {
+          this.dispatch(setScanHistory(await ScanHistoryService.markAdded(item.historyEntryId)));
+        }
+      }
+    } catch (error) {
+      console.error('Failed to update scan history:', error);
+    }
+
+    return items.length;
+  }
+
+  /**
+   * Ends the batch session and clears its results
+   */
+  clearBatch(): void {
+    this.dispatch(resetBatch());
+  }
+
+  getBatchItems(): BatchScanItem[] {
+    return this.batch;
+  }
+
+  getIsBatchRunning(): boolean {
+    return this.isBatchRunning;
+  }
+
+  /**
+   * Gets how many batch images have finished processing
+   */
+  getBatchProgress(): { processed: number; total: number } {
+    return {
+      processed: this.batch.filter(item => item.status === 'done' || item.status === 'error').length,
+      total: this.batch.length,
+    };
+  }
+
+  getSelectedBatchCount(): number {
+    return this.batch.filter(item => item.selected && !item.added).length;
+  }
+
+  /**
+   * Whether captured images should be queued instead of scanned now
+   * True with offline mode on or when the device is offline
+   */
+  shouldQueueScans(): boolean {
+    return this.offlineMode || !ConnectivityService.isOnline();
+  }
+
+  /**
+   * Recognizes a single image, or queues it when the request shows the
+   * device went offline before the connectivity check noticed
+   *
+   * @returns Scan result, or undefined when the image was queued
+   */
+  private async recognizeOrQueue(
+    imageUri: string,
+  ): Promise<Awaited<ReturnType<typeof CameraService.recognizeCard>> | undefined> {
+    try {
+      return await CameraService.recognizeCard(imageUri);
+    } catch (error) {
+      if (!ConnectivityService.isConnectivityError(error)) {
+        throw error;
+      }
+      console.log('📴 Recognition failed while offline, queueing scan');
+      ConnectivityService.setOnline(false);
+      await this.queueScans([imageUri]);
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores captured images in the offline queue
+   * They are graded automatically once the app is back online
+   */
+  private async queueScans(imageUris: string[]): Promise<void> {
+    console.log(`Queueing ${imageUris.length} scans for later grading`);
+    let queue = await OfflineQueueService.load();
+    for (const imageUri of imageUris) {
+      queue = await OfflineQueueService.enqueue(imageUri);
+    }
+    this.dispatch(setOfflineQueue(queue));
+    this.dispatch(scanQueued());
+  }
+
+  /**
+   * Recognizes one chunk of a batch and stores each result
+   */
+  private async processBatchChunk(chunk: BatchScanItem[]): Promise<void> {
+    chunk.forEach(item => this.dispatch(updateBatchItem({ id: item.id, changes: { status: 'processing' } })));
+
+    let results: Awaited<ReturnType<typeof CameraService.recognizeCards>>;
+    try {
+      results = await CameraService.recognizeCards(chunk.map(item => item.imageUri));
+    } catch (error) {
+      console.error('Batch chunk failed:', error);
+      const message = error instanceof Error ? error.message : 'Card recognition failed';
+      chunk.forEach(item => this.dispatch(updateBatchItem({ id: item.id, changes: { status: 'error', error: message } })));
+      return;
+    }
+
+    for (let index = 0; index < chunk.length; index++) {
+      const item = chunk[index];
+      const { card, confidence = 0, gradingResult, error } = results[index];
+
+      if (!card) {
+        this.dispatch(updateBatchItem({ id: item.id, changes: { status: 'error', error } }));
+        continue;
+      }
+
+      const historyEntryId = await this.recordScan({ card, confidence, gradingResult }, item.imageUri);
+      this.dispatch(updateBatchItem({
+        id: item.id,
+        changes: {
+          status: 'done',
+          card,
+          confidence,
+          gradingResult,
+          historyEntryId,
+          selected: this.isValidConfidence(confidence),
+        },
+      }));
+    }
+  }
+
+  /**
+   * Saves a completed scan to the scan history
+   * A history failure never fails the scan itself
+   *
+   * @returns ID of the history entry, or undefined if recording failed
+   */
+  private async recordScan(
+    result: { card: Card; confidence: number; gradingResult?: XimilarGradingResult },
+    imageUri: string,
+  ): Promise<string | undefined> {
+    try {
+      const history = await ScanHistoryService.record(result, imageUri);
+      this.dispatch(setScanHistory(history));
+      return history[0].id;
+    } catch (error) {
+      console.error('Failed to record scan history:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Gets the ranked identification candidates for the current scan
+   * @returns Candidate list, empty when the scan was not identified
+   */
+  getCandidates(): CardCandidate[] {
+    return this.scanResult.candidates || [];
+  }
+
   /**
    * Resets the current scan result
    * Clears any previous scan data and errors
@@ -234,7 +548,8 @@ export class ScannerViewModel {
  */
 export const useScannerViewModel = () => {
   const dispatch = useDispatch();
-  const { scanResult, isScanning } = useSelector((state: RootState) => state.scanner);
+  const { scanResult, isScanning, batch, isBatchRunning } = useSelector((state: RootState) => state.scanner);
+  const offlineMode = useSelector((state: RootState) => state.settings.settings.offlineMode);
 
-  return new ScannerViewModel(dispatch, scanResult, isScanning);
+  return new ScannerViewModel(dispatch, scanResult, isScanning, batch, isBatchRunning, offlineMode);
 };
@@ -1,10 +1,14 @@
 import { useDispatch, useSelector } from 'react-redux';
 import { useEffect, useMemo } from 'react';
 import { RootState } from '../store';
-import { setSettings, toggleDarkMode, toggleNotifications, toggleOfflineMode, setLoading } from '../store/slices/settingsSlice';
-import { StorageService } from '../services';
+import { setSettings, toggleDarkMode, toggleNotifications, toggleOfflineMode, setLoading, resetSettings, setDisplayCurrency, setGradingCosts } from '../store/slices/settingsSlice';
+import { resetCollection, setCards, setValueHistory } from '../store/slices/collectionSlice';
+import { resetScanner, setScanHistory } from '../store/slices/scannerSlice';
+import { resetImport } from '../store/slices/importSlice';
+import { resetSubmissions, setSubmissions } from '../store/slices/submissionsSlice';
+import { BackupService, CurrencyService, OfflineQueueService, ScanHistoryService, StorageService } from '../services';
 import { ThemeService } from '../services/theme/ThemeService';
-import { UserSettings } from '../types';
+import { ExchangeRateTable, GradingCosts, RestoreMode, RestoreSummary, UserSettings } from '../types';
 
 export class SettingsViewModel {
   private dispatch: any;
@@ -53,6 +57,169 @@ export class SettingsViewModel {
     this.saveSettings();
   }
 
+  /**
+   * Changes the currency prices and totals are shown in
+   */
+  async setDisplayCurrencyAction(currency: string): Promise<void> {
+    this.dispatch(setDisplayCurrency(currency));
+    try {
+      await StorageService.saveSettings({ ...this.settings, displayCurrency: currency });
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    }
+  }
+
+  getDisplayCurrency(): string {
+    return this.settings.displayCurrency;
+  }
+
+  /**
+   * Changes the grading company and per-card costs used for submissions
+   *
+   * @throws Error if the fee or shipping is negative or not a number
+   */
+  async setGradingCostsAction(costs: GradingCosts): Promise<void> {
+    if (!(costs.fee >= 0) || !(costs.shipping >= 0)) {
+      throw new Error('Fee and shipping must be zero or more');
+    }
+
+    this.dispatch(setGradingCosts(costs));
+    try {
+      await StorageService.saveSettings({ ...this.settings, gradingCosts: costs });
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    }
+  }
+
+  /**
+   * Changes the grading fee and shipping to amounts entered in a currency
+   * Amounts left out are kept, converted from the currency they were
+   * saved in, so both amounts stay in the one currency stored
+   *
+   * @param fee - New fee per card, or undefined to keep the current fee
+   * @param shipping - New shipping per card, or undefined to keep the current shipping
+   * @param currency - ISO code of the entered amounts
+   * @throws Error if an amount is invalid or a kept amount cannot be converted
+   */
+  async updateGradingCostAmounts(
+    fee: number | undefined,
+    shipping: number | undefined,
+    currency: string,
+  ): Promise<void> {
+    const current = this.settings.gradingCosts;
+    const keep = (amount: number): number => {
+      const converted = CurrencyService.convert(amount, current.currency, currency);
+      if (converted === undefined) {
+        throw new Error(`No exchange rate from ${current.currency} to ${currency}`);
+      }
+      return Math.round(converted * 100) / 100;
+    };
+
+    await this.setGradingCostsAction({
+      ...current,
+      fee: fee ?? keep(current.fee),
+      shipping: shipping ?? keep(current.shipping),
+      currency,
+    });
+  }
+
+  getGradingCosts(): GradingCosts {
+    return this.settings.gradingCosts;
+  }
+
+  getExchangeRates(): ExchangeRateTable {
+    return CurrencyService.getRates();
+  }
+
+  /**
+   * Fetches current exchange rates
+   *
+   * @returns True if rates were refreshed
+   */
+  async refreshExchangeRates(): Promise<boolean> {
+    return CurrencyService.refreshRates();
+  }
+
+  /**
+   * Sets or clears (rate undefined) a manual exchange rate
+   *
+   * @param currency - Currency code
+   * @param rate - Units of currency per 1 USD
+   * @throws Error if the rate is not a positive number
+   */
+  async setExchangeRateOverride(currency: string, rate?: number): Promise<void> {
+    await CurrencyService.setOverride(currency, rate);
+  }
+
+  /**
+   * Writes a backup of all app data to the documents directory
+   *
+   * @returns Path of the backup file
+   */
+  async createBackup(): Promise<string> {
+    return BackupService.writeBackup();
+  }
+
+  /**
+   * Lists existing backup files, newest first
+   */
+  async listBackups(): Promise<{ name: string; path: string; size: number }[]> {
+    const items = await BackupService.listBackups();
+    return items.map(item => ({ name: item.name, path: item.path, size: item.size }));
+  }
+
+  /**
+   * Verifies and restores a backup file, then reloads app state from storage
+   *
+   * @param path - Path of the backup file
+   * @param mode - Merge into or replace existing data
+   * @throws Error if the backup is invalid or corrupted
+   */
+  async restoreBackup(path: string, mode: RestoreMode): Promise<RestoreSummary> {
+    const backup = await BackupService.readBackup(path);
+    const summary = await BackupService.restoreBackup(backup, mode);
+
+    this.dispatch(setValueHistory(await StorageService.loadValueHistory()));
+    this.dispatch(setCards(await StorageService.loadCollection()));
+    this.dispatch(setScanHistory(await StorageService.loadScanHistory()));
+    this.dispatch(setSubmissions(await StorageService.loadSubmissions()));
+    this.dispatch(setSettings(await StorageService.loadSettings()));
+
+    return summary;
+  }
+
+  /**
+   * Wipes every persisted key and resets in-memory state
+   * Collection, scanner, settings and submission slices return to their initial state,
+   * the theme falls back to following the system and exchange rates
+   * return to the built-in table. Images kept by the scan history, the
+   * collection and the offline queue are deleted too; backups do not include them
+   *
+   * @param backupFirst - Write a backup before wiping
+   * @returns Path of the backup file when one was written
+   * @throws Error if the backup fails; nothing is wiped in that case.
+   * Also thrown if a later step fails, when earlier steps have already wiped their data
+   */
+  async clearAllData(backupFirst: boolean): Promise<string | undefined> {
+    const backupPath = backupFirst ? await BackupService.writeBackup() : undefined;
+
+    await ScanHistoryService.clear();
+    await ScanHistoryService.clearCollectionImages();
+    await OfflineQueueService.clear();
+    await StorageService.clearAll();
+
+    this.dispatch(resetCollection());
+    this.dispatch(resetScanner());
+    this.dispatch(resetSettings());
+    this.dispatch(resetImport());
+    this.dispatch(resetSubmissions());
+    ThemeService.resetThemeMode();
+    CurrencyService.reset();
+
+    console.log('All app data cleared');
+    return backupPath;
+  }
+
   getSettings(): UserSettings {
     return this.settings;
   }
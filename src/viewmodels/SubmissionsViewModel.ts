@@ -0,0 +1,195 @@
+import {useEffect, useMemo, useRef} from 'react';
+import {useDispatch, useSelector} from 'react-redux';
+import {RootState} from '../store';
+import {setSubmissions, setSubmissionsLoading} from '../store/slices/submissionsSlice';
+import {updateCopy} from '../store/slices/collectionSlice';
+import {CurrencyService, SubmissionTrackerService} from '../services';
+import {
+  CollectionCard,
+  GradingCosts,
+  GradingSubmission,
+  GradingSubmissionDetails,
+  GradingSubmissionItem,
+  GradingSubmissionStatus,
+  SubmissionAccuracy,
+  SubmissionCopySelection,
+  SubmissionGradeComparison,
+} from '../types';
+
+/**
+ * SubmissionsViewModel
+ *
+ * Business logic for the grading submission tracker.
+ * Handles operations including:
+ * - Creating submissions from selected copies of collection cards
+ * - Recording when a batch was sent and received
+ * - Recording returned grades and comparing them to predictions
+ *
+ * New submissions start from the grading costs in settings.
+ */
+export class SubmissionsViewModel {
+  private dispatch: any;
+  private submissions: GradingSubmission[];
+  private cards: CollectionCard[];
+  private gradingCosts: GradingCosts;
+
+  constructor(
+    dispatch: any,
+    submissions: GradingSubmission[],
+    cards: CollectionCard[],
+    gradingCosts: GradingCosts,
+  ) {
+    this.dispatch = dispatch;
+    this.submissions = submissions;
+    this.cards = cards;
+    this.gradingCosts = gradingCosts;
+  }
+
+  /**
+   * Loads the persisted submissions into Redux
+   */
+  async loadSubmissions(): Promise<void> {
+    try {
+      this.dispatch(setSubmissionsLoading(true));
+      this.dispatch(setSubmissions(await SubmissionTrackerService.load()));
+    } catch (error) {
+      console.error('Failed to load grading submissions:', error);
+      this.dispatch(setSubmissionsLoading(false));
+    }
+  }
+
+  getSubmissions(): GradingSubmission[] {
+    return this.submissions;
+  }
+
+  /**
+   * Collection cards that can be added to a submission
+   */
+  getCards(): CollectionCard[] {
+    return this.cards;
+  }
+
+  /**
+   * Label of a submitted copy, e.g. "Copy 2"
+   * Only set when the card has several copies to tell apart
+   */
+  getCopyLabel(item: GradingSubmissionItem): string | undefined {
+    const copies = this.cards.find(card => card.id === item.cardId)?.copies ?? [];
+    const index = copies.findIndex(copy => copy.id === item.copyId);
+    return copies.length > 1 && index >= 0 ? `Copy ${index + 1}` : undefined;
+  }
+
+  /**
+   * Details a new submission starts with, taken from the grading costs
+   * Shipping in settings is per card, so it is multiplied for the batch
+   *
+   * @param cardCount - Number of copies selected
+   */
+  getDefaultDetails(cardCount: number): GradingSubmissionDetails {
+    return {
+      company: this.gradingCosts.company,
+      serviceLevel: '',
+      feePerCard: this.gradingCosts.fee,
+      shippingCost: Math.round(this.gradingCosts.shipping * cardCount * 100) / 100,
+      currency: this.gradingCosts.currency,
+    };
+  }
+
+  /**
+   * Creates a submission from the selected copies
+   *
+   * @param selections - Card and copy IDs to send
+   * @param details - Company, service level and costs
+   * @throws Error if no copies are selected or the details are invalid
+   */
+  async createSubmission(selections: SubmissionCopySelection[], details: GradingSubmissionDetails): Promise<void> {
+    this.dispatch(setSubmissions(await SubmissionTrackerService.create(this.cards, selections, details)));
+  }
+
+  async markSent(id: string): Promise<void> {
+    this.dispatch(setSubmissions(await SubmissionTrackerService.markSent(id)));
+  }
+
+  /**
+   * @throws Error if the submission has not been sent
+   */
+  async markReceived(id: string): Promise<void> {
+    this.dispatch(setSubmissions(await SubmissionTrackerService.markReceived(id)));
+  }
+
+  /**
+   * Records the grade a copy came back with
+   * The collection copy is marked as slabbed with that grade
+   *
+   * @throws Error if the grade is not 1-10 in half steps
+   */
+  async recordGrade(id: string, item: GradingSubmissionItem, grade: number, certNumber?: string): Promise<void> {
+    const submissions = await SubmissionTrackerService.recordGrade(id, item, grade, certNumber);
+    this.dispatch(setSubmissions(submissions));
+
+    // Items from before copies were tracked cannot be matched to a copy
+    const submission = submissions.find(current => current.id === id);
+    if (submission && item.copyId) {
+      this.dispatch(updateCopy({
+        cardId: item.cardId,
+        copyId: item.copyId,
+        changes: {gradingCompany: submission.company, grade},
+      }));
+    }
+  }
+
+  async deleteSubmission(id: string): Promise<void> {
+    this.dispatch(setSubmissions(await SubmissionTrackerService.remove(id)));
+  }
+
+  getStatus(submission: GradingSubmission): GradingSubmissionStatus {
+    return SubmissionTrackerService.getStatus(submission);
+  }
+
+  /**
+   * Total fees and shipping, formatted in the submission's currency
+   */
+  formatTotalCost(submission: GradingSubmission): string {
+    return CurrencyService.format(SubmissionTrackerService.getTotalCost(submission), submission.currency);
+  }
+
+  getComparisons(submission: GradingSubmission): SubmissionGradeComparison[] {
+    return SubmissionTrackerService.compare(submission);
+  }
+
+  /**
+   * Prediction accuracy across every submission
+   */
+  getAccuracy(): SubmissionAccuracy {
+    return SubmissionTrackerService.summarize(this.submissions);
+  }
+}
+
+/**
+ * Hook for using SubmissionsViewModel in React components
+ * Loads the persisted submissions when first mounted
+ *
+ * @returns Configured SubmissionsViewModel instance
+ */
+export const useSubmissionsViewModel = () => {
+  const dispatch = useDispatch();
+  const submissions = useSelector((state: RootState) => state.submissions.submissions);
+  const cards = useSelector((state: RootState) => state.collection.cards);
+  const gradingCosts = useSelector((state: RootState) => state.settings.settings.gradingCosts);
+  const hasLoadedRef = useRef(false);
+
+  const viewModel = useMemo(
+    () => new SubmissionsViewModel(dispatch, submissions, cards, gradingCosts),
+    [dispatch, submissions, cards, gradingCosts],
+  );
+
+  // Load submissions once on mount
+  useEffect(() => {
+    if (!hasLoadedRef.current) {
+      hasLoadedRef.current = true;
+      viewModel.loadSubmissions();
+    }
+  }, [viewModel]);
+
+  return viewModel;
+};
@@ -1,3 +1,7 @@
 export { ScannerViewModel, useScannerViewModel } from './ScannerViewModel';
 export { CollectionViewModel, useCollectionViewModel } from './CollectionViewModel';
 export { SettingsViewModel, useSettingsViewModel } from './SettingsViewModel';
+export { ImportViewModel, useImportViewModel } from './ImportViewModel';
+export { ScanHistoryViewModel, useScanHistoryViewModel } from './ScanHistoryViewModel';
+export { OfflineQueueViewModel, useOfflineQueueViewModel } from './OfflineQueueViewModel';
+export { SubmissionsViewModel, useSubmissionsViewModel } from './SubmissionsViewModel';
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { ConditionAnalysis, ConditionRegion } from '../../../types';
+import { ThemeService, Theme } from '../../../services/theme/ThemeService';
+import { ConditionOverlayService } from '../../../services/grading/ConditionOverlayService';
+import { GradingScaleService } from '../../../services/grading/GradingScaleService';
+
+interface ConditionOverlayProps {
+  imageUri: string;
+  analysis: ConditionAnalysis;
+  theme: Theme;
+}
+
+/**
+ * Card image with the graded corners and edges drawn on top,
+ * colored by grade. Tapping a region shows its grade below the image
+ */
+const ConditionOverlay: React.FC<ConditionOverlayProps> = ({ imageUri, analysis, theme }) => {
+  const styles = createStyles(theme);
+  const [displayWidth, setDisplayWidth] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const regions = ConditionOverlayService.buildRegions(analysis, displayWidth);
+  const selected = regions.find(region => region.id === selectedId);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setDisplayWidth(event.nativeEvent.layout.width);
+  };
+
+  const renderRegion = (region: ConditionRegion) => {
+    const position = { left: region.left, top: region.top, width: region.width, height: region.height };
+
+    if (region.grade === undefined) {
+      return <View key={region.id} pointerEvents="none" style={[styles.cardOutline, position]} />;
+    }
+
+    const color = ThemeService.getGradeColor(region.grade);
+    const isSelected = region.id === selectedId;
+
+    return (
+      <TouchableOpacity
+        key={region.id}
+        accessibilityLabel={`${region.label}, grade ${region.grade}`}
+        style={[
+          styles.region,
+          region.kind === 'corner' && styles.cornerRegion,
+          position,
+          { borderColor: color },
+          isSelected && [styles.selectedRegion, { backgroundColor: `${color}55` }],
+        ]}
+        onPress={() => setSelectedId(isSelected ? null : region.id)}
+      >
+        {region.point && (
+          <View
+            style={[
+              styles.point,
+              { left: region.point.x - region.left - 3, top: region.point.y - region.top - 3, backgroundColor: color },
+            ]}
+          />
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View
+        style={[styles.imageFrame, { aspectRatio: ConditionOverlayService.getAspectRatio(analysis) ?? 0.7 }]}
+        onLayout={handleLayout}
+      >
+        <Image source={{ uri: imageUri }} style={styles.image} resizeMode="contain" />
+        {regions.map(renderRegion)}
+      </View>
+
+      {selected?.grade !== undefined ? (
+        <Text style={[styles.caption, { color: ThemeService.getGradeColor(selected.grade) }]}>
+          {selected.label}: {selected.grade.toFixed(1)} • {GradingScaleService.getConditionLabel(selected.grade)}
+        </Text>
+      ) : (
+        <Text style={styles.caption}>
+          {regions.length > 0 ? 'Tap a corner or edge to see its grade' : 'No condition measurements for this image'}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+export default ConditionOverlay;
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  imageFrame: {
+    width: '100%',
+    borderRadius: 10,
+    overflow: 'hidden',
+    backgroundColor: theme.surface,
+  },
+  image: {
+    ...StyleSheet.absoluteFillObject,
+  },
+  cardOutline: {
+    position: 'absolute',
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: theme.primary,
+  },
+  region: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderRadius: 3,
+  },
+  cornerRegion: {
+    borderRadius: 8,
+  },
+  selectedRegion: {
+    borderWidth: 3,
+  },
+  point: {
+    position: 'absolute',
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  caption: {
+    marginTop: 10,
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.textSecondary,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,286 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { CardSubgrades, GradeDetail, XimilarCenteringAnalysis } from '../../../types';
+import { ThemeService, Theme } from '../../../services/theme/ThemeService';
+import { ConditionOverlayService } from '../../../services/grading/ConditionOverlayService';
+import { CenteringService } from '../../../services/grading/CenteringService';
+import { GradingScaleService } from '../../../services/grading/GradingScaleService';
+
+interface GradingReportProps {
+  subgrades: CardSubgrades;
+  theme: Theme;
+  corners?: GradeDetail[];
+  edges?: GradeDetail[];
+  centering?: XimilarCenteringAnalysis;
+}
+
+/**
+ * Grading breakdown: final grade with its condition label, then a bar
+ * per subgrade and the individual corner and edge grades when known
+ * Centering ratios come with the grade each company would allow, and
+ * the report ends with the grade PSA, BGS and CGC would likely give
+ * A grade of 0 means the API did not return one
+ */
+const GradingReport: React.FC<GradingReportProps> = ({ subgrades, theme, corners, edges, centering }) => {
+  const styles = createStyles(theme);
+
+  const gradeColor = (grade: number) => (grade > 0 ? ThemeService.getGradeColor(grade) : theme.textSecondary);
+  const formatGrade = (grade: number) => (grade > 0 ? grade.toFixed(1) : '–');
+
+  const renderDetails = (details?: GradeDetail[]) => {
+    if (!details || details.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.details}>
+        {details.map(detail => (
+          <View key={detail.name} style={[styles.detailChip, { borderColor: gradeColor(detail.grade) }]}>
+            <Text style={styles.detailLabel}>{ConditionOverlayService.getDetailLabel(detail.name)}</Text>
+            <Text style={[styles.detailGrade, { color: gradeColor(detail.grade) }]}>
+              {formatGrade(detail.grade)}
+            </Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderCentering = () => {
+    const measurement = CenteringService.measure(centering);
+    if (!measurement) {
+      return null;
+    }
+
+    const ratios = [
+      measurement.leftRight && `${CenteringService.formatRatio(measurement.leftRight)} left/right`,
+      measurement.topBottom && `${CenteringService.formatRatio(measurement.topBottom)} top/bottom`,
+    ].filter(Boolean);
+
+    return (
+      <View style={styles.centering}>
+        <Text style={styles.centeringRatios}>{ratios.join(' • ')}</Text>
+        <View style={styles.estimates}>
+          {CenteringService.estimateGrades(measurement).map(estimate => (
+            <View key={estimate.company} style={[styles.detailChip, { borderColor: gradeColor(estimate.grade) }]}>
+              <Text style={styles.detailLabel}>{estimate.company}</Text>
+              <Text style={[styles.detailGrade, { color: gradeColor(estimate.grade) }]}>{estimate.label}</Text>
+            </View>
+          ))}
+        </View>
+        <Text style={styles.centeringNote}>Best grade each company's centering limits allow</Text>
+      </View>
+    );
+  };
+
+  const renderPredictions = () => {
+    const predictions = GradingScaleService.predictGrades(subgrades, centering);
+    if (predictions.length === 0) {
+      return null;
+    }
+
+    const formatRange = (low: number, high: number) => (low === high ? `${low}` : `${low}–${high}`);
+
+    return (
+      <View style={styles.predictions}>
+        <Text style={styles.predictionsTitle}>Predicted Grades</Text>
+        {predictions.map(prediction => (
+          <View key={prediction.company} style={styles.prediction}>
+            <View style={styles.rowHeader}>
+              <Text style={styles.rowLabel}>{prediction.company}</Text>
+              <Text style={[styles.predictionLabel, { color: gradeColor(prediction.grade) }]}>
+                {prediction.label}
+              </Text>
+              <Text style={styles.predictionRange}>{formatRange(prediction.low, prediction.high)}</Text>
+            </View>
+            {prediction.subgrades && (
+              <Text style={styles.predictionSubgrades}>
+                Centering {prediction.subgrades.centering} • Corners {prediction.subgrades.corners} • Edges{' '}
+                {prediction.subgrades.edges} • Surface {prediction.subgrades.surface}
+              </Text>
+            )}
+          </View>
+        ))}
+        <Text style={styles.centeringNote}>Estimates only, with the likely range on the right</Text>
+      </View>
+    );
+  };
+
+  const renderRow = (label: string, grade: number, details?: GradeDetail[]) => (
+    <View key={label} style={styles.row}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.rowLabel}>{label}</Text>
+        <View style={styles.barTrack}>
+          <View
+            style={[
+              styles.bar,
+              { width: `${Math.min(Math.max(grade, 0), 10) * 10}%`, backgroundColor: gradeColor(grade) },
+            ]}
+          />
+        </View>
+        <Text style={[styles.rowGrade, { color: gradeColor(grade) }]}>{formatGrade(grade)}</Text>
+      </View>
+      {renderDetails(details)}
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.finalRow}>
+        <View style={[styles.finalBadge, { backgroundColor: gradeColor(subgrades.final) }]}>
+          <Text style={styles.finalGrade}>{formatGrade(subgrades.final)}</Text>
+        </View>
+        <View style={styles.finalInfo}>
+          <Text style={styles.finalLabel}>Final Grade</Text>
+          <Text style={[styles.finalCondition, { color: gradeColor(subgrades.final) }]}>
+            {subgrades.final > 0 ? GradingScaleService.getConditionLabel(subgrades.final) : 'Not Graded'}
+          </Text>
+        </View>
+      </View>
+
+      {renderRow('Corners', subgrades.corners, corners)}
+      {renderRow('Edges', subgrades.edges, edges)}
+      {renderRow('Surface', subgrades.surface)}
+      {renderRow('Centering', subgrades.centering)}
+      {renderCentering()}
+      {renderPredictions()}
+    </View>
+  );
+};
+
+export default GradingReport;
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  finalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  finalBadge: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  finalGrade: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: theme.textInverse,
+  },
+  finalInfo: {
+    flex: 1,
+  },
+  finalLabel: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  finalCondition: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  row: {
+    marginBottom: 10,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rowLabel: {
+    width: 80,
+    fontSize: 14,
+    color: theme.text,
+  },
+  barTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: theme.border,
+    overflow: 'hidden',
+    marginHorizontal: 10,
+  },
+  bar: {
+    height: '100%',
+    borderRadius: 4,
+  },
+  rowGrade: {
+    width: 32,
+    fontSize: 14,
+    fontWeight: 'bold',
+    textAlign: 'right',
+  },
+  details: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+    marginLeft: 80,
+  },
+  detailChip: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  detailLabel: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginRight: 4,
+  },
+  detailGrade: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  centering: {
+    marginTop: -4,
+    marginLeft: 80,
+    marginBottom: 10,
+  },
+  centeringRatios: {
+    fontSize: 13,
+    color: theme.text,
+  },
+  estimates: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 6,
+  },
+  centeringNote: {
+    fontSize: 11,
+    color: theme.textSecondary,
+    marginTop: 4,
+  },
+  predictions: {
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+    paddingTop: 10,
+    marginTop: 5,
+  },
+  predictionsTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: theme.text,
+    marginBottom: 8,
+  },
+  prediction: {
+    marginBottom: 8,
+  },
+  predictionLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  predictionRange: {
+    fontSize: 13,
+    color: theme.textSecondary,
+  },
+  predictionSubgrades: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 2,
+    marginLeft: 80,
+  },
+});
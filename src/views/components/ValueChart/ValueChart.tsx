@@ -0,0 +1,116 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { ValueSnapshot } from '../../../types';
+import { Theme } from '../../../services/theme/ThemeService';
+
+interface ValueChartProps {
+  snapshots: ValueSnapshot[];
+  theme: Theme;
+  formatValue: (amount: number) => string;
+  maxBars?: number;
+}
+
+const CHART_HEIGHT = 120;
+
+/**
+ * Bar chart of collection value per day
+ * Built from plain Views so no charting library is needed
+ */
+const ValueChart: React.FC<ValueChartProps> = ({ snapshots, theme, formatValue, maxBars = 30 }) => {
+  const styles = createStyles(theme);
+  const visible = snapshots.slice(-maxBars);
+
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const highest = Math.max(...visible.map(snapshot => snapshot.value), 1);
+  const first = visible[0];
+  const last = visible[visible.length - 1];
+  const change = last.value - first.value;
+  const changePercent = first.value > 0 ? (change / first.value) * 100 : 0;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Collection Value</Text>
+        <Text style={[styles.change, { color: change >= 0 ? theme.success : theme.error }]}>
+          {change >= 0 ? '+' : '-'}{formatValue(Math.abs(change))} ({changePercent.toFixed(1)}%)
+        </Text>
+      </View>
+
+      <View style={styles.chart}>
+        {visible.map(snapshot => (
+          <View key={snapshot.date} style={styles.barSlot}>
+            <View
+              style={[
+                styles.bar,
+                { height: Math.max(2, (snapshot.value / highest) * CHART_HEIGHT) },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.axisRow}>
+        <Text style={styles.axisLabel}>{first.date}</Text>
+        <Text style={styles.axisLabel}>High {formatValue(highest)}</Text>
+        <Text style={styles.axisLabel}>{last.date}</Text>
+      </View>
+    </View>
+  );
+};
+
+export default ValueChart;
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    backgroundColor: theme.surface,
+    marginHorizontal: 15,
+    marginBottom: 5,
+    borderRadius: 10,
+    padding: 15,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.text,
+  },
+  change: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+  },
+  barSlot: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    paddingHorizontal: 1,
+  },
+  bar: {
+    width: '100%',
+    maxWidth: 16,
+    borderTopLeftRadius: 3,
+    borderTopRightRadius: 3,
+    backgroundColor: theme.primary,
+  },
+  axisRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+  axisLabel: {
+    fontSize: 11,
+    color: theme.textSecondary,
+  },
+});
@@ -6,12 +6,16 @@ import {
   StyleSheet,
   ScrollView,
   TouchableOpacity,
+  TextInput,
   Alert,
 } from 'react-native';
 import { RouteProp, useRoute, useNavigation } from '@react-navigation/native';
-import { RootStackParamList } from '../../../types';
+import { CardCopy, RootStackParamList } from '../../../types';
 import { useCollectionViewModel } from '../../../viewmodels';
 import { ThemeService, Theme } from '../../../services/theme/ThemeService';
+import { CurrencyService } from '../../../services/currency/CurrencyService';
+import GradingReport from '../../components/GradingReport';
+import ConditionOverlay from '../../components/ConditionOverlay';
 
 type CardDetailsRouteProp = RouteProp<RootStackParamList, 'CardDetails'>;
 
@@ -21,6 +25,11 @@ const CardDetailsScreen: React.FC = () => {
   const collectionViewModel = useCollectionViewModel();
   const { card } = route.params;
 
+  // Live collection entry for this card (undefined when not collected)
+  const collectionCard = collectionViewModel.findCollectionCard(card);
+  const [editingCopyId, setEditingCopyId] = useState<string | null>(null);
+  const [copyDraft, setCopyDraft] = useState<Record<string, string>>({});
+
   // Theme state management
   const [theme, setTheme] = useState<Theme>(ThemeService.getCurrentTheme());
 
@@ -49,6 +58,229 @@ const CardDetailsScreen: React.FC = () => {
     }
   };
 
+  // Purchase prices are entered in the copy's own currency, or the display currency for new ones
+  const getPurchaseCurrency = (copy: CardCopy) =>
+    copy.purchaseCurrency || collectionViewModel.getDisplayCurrency();
+
+  const startEditingCopy = (copy: CardCopy) => {
+    setEditingCopyId(copy.id);
+    setCopyDraft({
+      condition: copy.condition,
+      grade: copy.grade !== undefined ? String(copy.grade) : '',
+      gradingCompany: copy.gradingCompany || '',
+      purchasePrice: copy.purchasePrice !== undefined ? String(copy.purchasePrice) : '',
+      storageLocation: copy.storageLocation || '',
+      notes: copy.notes || '',
+    });
+  };
+
+  const saveCopy = (copy: CardCopy) => {
+    if (!collectionCard) { return; }
+
+    const parseNumber = (value: string) => {
+      const parsed = parseFloat(value);
+      return isNaN(parsed) ? undefined : parsed;
+    };
+
+    const purchasePrice = parseNumber(copyDraft.purchasePrice);
+
+    collectionViewModel.updateCardCopy(collectionCard.id, copy.id, {
+      condition: copyDraft.condition || 'Unknown',
+      grade: parseNumber(copyDraft.grade),
+      gradingCompany: copyDraft.gradingCompany.trim().toUpperCase() || undefined,
+      purchasePrice,
+      purchaseCurrency: purchasePrice !== undefined ? getPurchaseCurrency(copy) : undefined,
+      storageLocation: copyDraft.storageLocation || undefined,
+      notes: copyDraft.notes || undefined,
+    });
+    setEditingCopyId(null);
+  };
+
+  const handleRemoveCopy = (copyId: string) => {
+    if (!collectionCard) { return; }
+
+    Alert.alert('Remove Copy', 'Remove this copy from your collection?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => collectionViewModel.removeCardCopy(collectionCard.id, copyId),
+      },
+    ]);
+  };
+
+  const renderCopyField = (label: string, field: string, numeric = false) => (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}:</Text>
+      <TextInput
+        style={styles.copyInput}
+        value={copyDraft[field]}
+        onChangeText={(text) => setCopyDraft({ ...copyDraft, [field]: text })}
+        keyboardType={numeric ? 'decimal-pad' : 'default'}
+        placeholderTextColor={theme.textSecondary}
+      />
+    </View>
+  );
+
+  const renderCopy = (copy: CardCopy, index: number) => {
+    if (editingCopyId === copy.id) {
+      return (
+        <View style={styles.copyItem} key={copy.id}>
+          <Text style={styles.copyTitle}>Copy {index + 1}</Text>
+          {renderCopyField('Condition', 'condition')}
+          {renderCopyField('Grade', 'grade', true)}
+          {renderCopyField('Graded By', 'gradingCompany')}
+          {renderCopyField(`Paid (${getPurchaseCurrency(copy)})`, 'purchasePrice', true)}
+          {renderCopyField('Location', 'storageLocation')}
+          {renderCopyField('Notes', 'notes')}
+          <View style={styles.copyActions}>
+            <TouchableOpacity onPress={() => saveCopy(copy)}>
+              <Text style={styles.copyActionText}>Save</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setEditingCopyId(null)}>
+              <Text style={styles.copyActionText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.copyItem} key={copy.id}>
+        <Text style={styles.copyTitle}>Copy {index + 1}</Text>
+        {renderDetailRow('Condition', copy.condition)}
+        {renderDetailRow('Grade', copy.grade)}
+        {renderDetailRow('Graded By', copy.gradingCompany)}
+        {renderDetailRow(
+          'Paid',
+          copy.purchasePrice !== undefined
+            ? CurrencyService.format(copy.purchasePrice, getPurchaseCurrency(copy))
+            : undefined
+        )}
+        {renderDetailRow('Acquired', new Date(copy.acquiredAt).toLocaleDateString())}
+        {renderDetailRow('Location', copy.storageLocation)}
+        {renderDetailRow('Notes', copy.notes)}
+        {copy.subgrades && (
+          <GradingReport
+            subgrades={copy.subgrades}
+            theme={theme}
+            corners={copy.conditionAnalysis?.corners}
+            edges={copy.conditionAnalysis?.edges}
+            centering={copy.conditionAnalysis?.centering}
+          />
+        )}
+        <View style={styles.copyActions}>
+          <TouchableOpacity onPress={() => startEditingCopy(copy)}>
+            <Text style={styles.copyActionText}>Edit</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleRemoveCopy(copy.id)}>
+            <Text style={styles.copyRemoveText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderMarketPrice = () => {
+    const { marketPrice } = card;
+    if (!marketPrice) { return null; }
+
+    const formatPrice = (value?: number) =>
+      value === undefined ? undefined : CurrencyService.format(value, marketPrice.currency);
+    const formatStats = (stats?: { median: number; count: number }) =>
+      stats ? `${formatPrice(stats.median)} (${stats.count})` : undefined;
+
+    return (
+      <View style={styles.detailsContainer}>
+        <Text style={styles.sectionTitle}>Market Price</Text>
+        {renderDetailRow('Estimate', formatPrice(marketPrice.estimate))}
+        {renderDetailRow('Median', formatPrice(marketPrice.overall.median))}
+        {renderDetailRow('Range', `${formatPrice(marketPrice.overall.low)} – ${formatPrice(marketPrice.overall.high)}`)}
+        {renderDetailRow('Sold', formatStats(marketPrice.sold))}
+        {renderDetailRow('Listed', formatStats(marketPrice.listed))}
+        {renderDetailRow('Raw', formatStats(marketPrice.raw))}
+        {renderDetailRow('Graded', formatStats(marketPrice.graded))}
+        {marketPrice.byGrade.map(group => (
+          <View key={`${group.company}_${group.grade}`}>
+            {renderDetailRow(`${group.company} ${group.grade}`, formatStats(group))}
+          </View>
+        ))}
+        <Text style={styles.marketFootnote}>
+          Based on {marketPrice.listingCount} listings • Updated {new Date(marketPrice.updatedAt).toLocaleDateString()}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderSubmission = () => {
+    const estimate = collectionViewModel.getSubmissionEstimate(card);
+    if (!estimate) { return null; }
+
+    const { prediction } = estimate;
+    const formatPrice = (value?: number) =>
+      value === undefined ? undefined : CurrencyService.format(value, estimate.currency);
+    const formatGain = (value?: number) =>
+      value === undefined ? undefined : `${value >= 0 ? '+' : '-'}${formatPrice(Math.abs(value))}`;
+
+    return (
+      <View style={styles.detailsContainer}>
+        <Text style={styles.sectionTitle}>Send for Grading?</Text>
+        {renderDetailRow('Predicted', `${prediction.company} ${prediction.label}`)}
+        {renderDetailRow('Raw Value', formatPrice(estimate.rawValue))}
+        {renderDetailRow('Graded Value', formatPrice(estimate.gradedValue))}
+        {renderDetailRow('Fee & Shipping', formatPrice(estimate.cost))}
+        {renderDetailRow('Net Gain', formatGain(estimate.netGain))}
+        {renderDetailRow(`At ${prediction.company} ${prediction.low}`, formatGain(estimate.worstCaseGain))}
+        <Text style={[styles.submissionVerdict, { color: estimate.worthSubmitting ? theme.success : theme.textSecondary }]}>
+          {estimate.reason ?? (estimate.worthSubmitting ? 'Worth submitting' : 'Not worth submitting')}
+        </Text>
+        <Text style={styles.marketFootnote}>
+          Based on {estimate.gradedListingCount} graded listings • Costs can be changed in Settings
+        </Text>
+      </View>
+    );
+  };
+
+  const renderGrading = () => {
+    // Collection entries show the grading of each copy with the copy
+    const subgrades = card.apiData?.subgrades;
+    if (!subgrades || collectionCard) { return null; }
+    const analysis = card.apiData?.conditionAnalysis;
+
+    return (
+      <View style={styles.detailsContainer}>
+        <Text style={styles.sectionTitle}>Grading</Text>
+        <GradingReport
+          subgrades={subgrades}
+          theme={theme}
+          corners={analysis?.corners}
+          edges={analysis?.edges}
+          centering={analysis?.centering}
+        />
+        {card.apiData?.gradingService && (
+          <Text style={styles.marketFootnote}>Graded by {card.apiData.gradingService}</Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderCopies = () => {
+    if (!collectionCard) { return null; }
+
+    return (
+      <View style={styles.detailsContainer}>
+        <Text style={styles.sectionTitle}>Your Copies ({collectionCard.copies.length})</Text>
+        {collectionCard.copies.map(renderCopy)}
+        <TouchableOpacity
+          style={styles.addCopyButton}
+          onPress={() => collectionViewModel.addCopyToCard(collectionCard.id)}
+        >
+          <Text style={styles.addCopyButtonText}>+ Add Another Copy</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   const renderDetailRow = (label: string, value: string | number | undefined) => {
     if (!value) { return null; }
     
@@ -68,17 +300,21 @@ const CardDetailsScreen: React.FC = () => {
       </View>
 
       <View style={styles.imageContainer}>
-        <View style={styles.imagePlaceholder}>
-          <Text style={styles.imagePlaceholderText}>🎴</Text>
-          <Text style={styles.imagePlaceholderLabel}>Card Image</Text>
-        </View>
+        {card.imageUrl && card.apiData?.conditionAnalysis ? (
+          <ConditionOverlay imageUri={card.imageUrl} analysis={card.apiData.conditionAnalysis} theme={theme} />
+        ) : (
+          <View style={styles.imagePlaceholder}>
+            <Text style={styles.imagePlaceholderText}>🎴</Text>
+            <Text style={styles.imagePlaceholderLabel}>Card Image</Text>
+          </View>
+        )}
       </View>
 
       <View style={styles.detailsContainer}>
         <Text style={styles.sectionTitle}>Card Details</Text>
         
         {renderDetailRow('Rarity', card.rarity)}
-        {renderDetailRow('Price', card.price)}
+        {renderDetailRow('Price', collectionViewModel.formatCardPrice(card))}
         {renderDetailRow('HP', card.hp)}
         
         {card.types && card.types.length > 0 && (
@@ -95,6 +331,14 @@ const CardDetailsScreen: React.FC = () => {
         )}
       </View>
 
+      {renderGrading()}
+
+      {renderMarketPrice()}
+
+      {renderSubmission()}
+
+      {renderCopies()}
+
       <View style={styles.actionContainer}>
         <TouchableOpacity
           style={styles.addButton}
@@ -218,6 +462,63 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  submissionVerdict: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 10,
+  },
+  marketFootnote: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 8,
+  },
+  copyItem: {
+    borderTopWidth: 1,
+    borderTopColor: theme.divider,
+    paddingTop: 12,
+    marginBottom: 12,
+  },
+  copyTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.text,
+    marginBottom: 8,
+  },
+  copyInput: {
+    flex: 1,
+    fontSize: 16,
+    color: theme.text,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.border,
+    paddingVertical: 4,
+  },
+  copyActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 20,
+  },
+  copyActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.primary,
+  },
+  copyRemoveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.error,
+  },
+  addCopyButton: {
+    borderWidth: 1,
+    borderColor: theme.primary,
+    borderRadius: 10,
+    padding: 12,
+    alignItems: 'center',
+  },
+  addCopyButtonText: {
+    color: theme.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   actionContainer: {
     padding: 20,
   },
@@ -6,12 +6,16 @@ import {
   TouchableOpacity,
   StyleSheet,
   Alert,
+  Share,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { useCollectionViewModel } from '../../../viewmodels';
 import { RootStackParamList, CollectionCard } from '../../../types';
 import { ThemeService, Theme } from '../../../services/theme/ThemeService';
+import { CurrencyService } from '../../../services/currency/CurrencyService';
+import { ExchangeRateTable } from '../../../types';
+import ValueChart from '../../components/ValueChart';
 
 type NavigationProp = StackNavigationProp<RootStackParamList>;
 
@@ -25,6 +29,14 @@ const CollectionScreen: React.FC = () => {
     return unsubscribe;
   }, []);
 
+  // Re-render converted amounts when exchange rates change
+  const [, setRates] = useState<ExchangeRateTable>(CurrencyService.getRates());
+
+  useEffect(() => {
+    const unsubscribe = CurrencyService.addRatesListener(setRates);
+    return unsubscribe;
+  }, []);
+
   const styles = createStyles(theme);
 
   const handleCardPress = (card: CollectionCard) => {
@@ -49,6 +61,43 @@ const CollectionScreen: React.FC = () => {
     );
   };
 
+  const handleExportCsv = async () => {
+    try {
+      const csv = collectionViewModel.exportCollectionCsv();
+      await Share.share({
+        title: 'TCG Collection Export',
+        message: csv,
+      });
+    } catch (error) {
+      console.error('Failed to export collection:', error);
+      Alert.alert('Export Failed', 'Could not export your collection. Please try again.');
+    }
+  };
+
+  const renderPriceChange = (item: CollectionCard) => {
+    const change = collectionViewModel.getCardChange(item);
+    if (!change || change.change === 0) { return null; }
+
+    const isGain = change.change > 0;
+    return (
+      <Text style={[styles.cardChange, { color: isGain ? theme.success : theme.error }]}>
+        {isGain ? '▲' : '▼'} {isGain ? '+' : '-'}{collectionViewModel.formatAmount(Math.abs(change.change))} ({change.changePercent}%) since acquired
+      </Text>
+    );
+  };
+
+  const renderSubmissionHint = (item: CollectionCard) => {
+    const estimate = collectionViewModel.getSubmissionEstimate(item);
+    if (!estimate?.worthSubmitting || estimate.netGain === undefined) { return null; }
+
+    const gain = collectionViewModel.toDisplayCurrency(estimate.netGain, estimate.currency);
+    return (
+      <Text style={styles.cardSubmission}>
+        💎 Worth grading: {estimate.prediction.company} {estimate.prediction.grade} • +{collectionViewModel.formatAmount(gain)}
+      </Text>
+    );
+  };
+
   const renderCard = ({ item }: { item: CollectionCard }) => (
     <TouchableOpacity
       style={styles.cardItem}
@@ -57,8 +106,12 @@ const CollectionScreen: React.FC = () => {
       <View style={styles.cardInfo}>
         <Text style={styles.cardName}>{item.name}</Text>
         <Text style={styles.cardDetails}>{item.set} • {item.rarity}</Text>
-        <Text style={styles.cardPrice}>{item.price}</Text>
-        <Text style={styles.cardQuantity}>Quantity: {item.quantity}</Text>
+        <Text style={styles.cardPrice}>{collectionViewModel.formatCardPrice(item)}</Text>
+        {renderPriceChange(item)}
+        {renderSubmissionHint(item)}
+        <Text style={styles.cardQuantity}>
+          Copies: {item.copies.length} • {Array.from(new Set(item.copies.map(copy => copy.condition))).join(', ')}
+        </Text>
       </View>
       <TouchableOpacity
         style={styles.removeButton}
@@ -92,6 +145,10 @@ const CollectionScreen: React.FC = () => {
         <Text style={styles.statNumber}>{collectionViewModel.getTotalValue()}</Text>
         <Text style={styles.statLabel}>Total Value</Text>
       </View>
+      <View style={styles.statItem}>
+        <Text style={styles.statNumber}>{collectionViewModel.getSubmissionCandidates().length}</Text>
+        <Text style={styles.statLabel}>Worth Grading</Text>
+      </View>
     </View>
   );
 
@@ -99,10 +156,37 @@ const CollectionScreen: React.FC = () => {
     <View style={styles.container}>
       <View style={styles.header}>
         <Text style={styles.title}>My Collection</Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={() => navigation.navigate('Import')}
+          >
+            <Text style={styles.exportButtonText}>Import CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.exportButton}
+            onPress={() => navigation.navigate('Submissions')}
+          >
+            <Text style={styles.exportButtonText}>Submissions</Text>
+          </TouchableOpacity>
+          {collectionViewModel.getCards().length > 0 && (
+            <TouchableOpacity style={styles.exportButton} onPress={handleExportCsv}>
+              <Text style={styles.exportButtonText}>Export CSV</Text>
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
 
       {collectionViewModel.getCards().length > 0 && renderCollectionStats()}
 
+      {collectionViewModel.getValueHistory().length > 1 && (
+        <ValueChart
+          snapshots={collectionViewModel.getValueHistory()}
+          theme={theme}
+          formatValue={amount => collectionViewModel.formatAmount(amount)}
+        />
+      )}
+
       <FlatList
         data={collectionViewModel.getCards()}
         renderItem={renderCard}
@@ -254,6 +338,23 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     fontWeight: 'bold',
     color: 'white',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 10,
+  },
+  exportButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: 'white',
+  },
+  exportButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   statsContainer: {
     flexDirection: 'row',
     backgroundColor: theme.surface,
@@ -322,6 +423,17 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     color: theme.success,
     marginBottom: 5,
   },
+  cardChange: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 5,
+  },
+  cardSubmission: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: theme.success,
+    marginBottom: 5,
+  },
   cardQuantity: {
     fontSize: 12,
     color: theme.textSecondary,
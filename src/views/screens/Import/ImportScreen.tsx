@@ -0,0 +1,314 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useImportViewModel } from '../../../viewmodels';
+import { CsvImportService } from '../../../services';
+import { ImportPreviewRow } from '../../../types';
+import { ThemeService, Theme } from '../../../services/theme/ThemeService';
+
+// Rows rendered in the preview; larger files are summarized
+const PREVIEW_LIMIT = 50;
+
+const ImportScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const importViewModel = useImportViewModel();
+  const [theme, setTheme] = useState<Theme>(ThemeService.getCurrentTheme());
+
+  useEffect(() => {
+    const unsubscribe = ThemeService.addThemeListener(setTheme);
+    return unsubscribe;
+  }, []);
+
+  const styles = createStyles(theme);
+  const file = importViewModel.getFile();
+  const mapping = importViewModel.getMapping();
+
+  const handleImport = () => {
+    const validCount = importViewModel.getValidRows().length;
+    const invalidCount = importViewModel.getInvalidRows().length;
+
+    Alert.alert(
+      'Import Cards',
+      `Import ${validCount} rows into your collection?` +
+        (invalidCount > 0 ? ` ${invalidCount} rows with errors will be skipped.` : ''),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Import',
+          onPress: () => {
+            const imported = importViewModel.importValidRows();
+            Alert.alert('Import Complete', `${imported} rows were added to your collection.`);
+            navigation.goBack();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderFileList = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Choose a CSV File</Text>
+      {importViewModel.getFiles().length === 0 ? (
+        <Text style={styles.hintText}>
+          No CSV files found. Copy a .csv export from your spreadsheet or collection tracker
+          into this app's Documents folder, then refresh.
+        </Text>
+      ) : (
+        importViewModel.getFiles().map(item => (
+          <TouchableOpacity
+            key={item.path}
+            style={styles.fileItem}
+            onPress={() => importViewModel.selectFile(item.path)}
+          >
+            <Text style={styles.fileName}>{item.name}</Text>
+            <Text style={styles.fileSize}>{(item.size / 1024).toFixed(1)} KB</Text>
+          </TouchableOpacity>
+        ))
+      )}
+      <TouchableOpacity style={styles.secondaryButton} onPress={() => importViewModel.loadFiles()}>
+        <Text style={styles.secondaryButtonText}>Refresh</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderColumnMapping = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Map Columns</Text>
+      {CsvImportService.FIELDS.map(({ field, label, required }) => (
+        <View key={field} style={styles.mappingRow}>
+          <Text style={styles.mappingLabel}>
+            {label}{required ? ' *' : ''}
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <TouchableOpacity
+              style={[styles.columnChip, mapping[field] === undefined && styles.columnChipSelected]}
+              onPress={() => importViewModel.mapField(field, undefined)}
+            >
+              <Text style={styles.columnChipText}>Skip</Text>
+            </TouchableOpacity>
+            {file!.headers.map((header, index) => (
+              <TouchableOpacity
+                key={`${field}_${index}`}
+                style={[styles.columnChip, mapping[field] === index && styles.columnChipSelected]}
+                onPress={() => importViewModel.mapField(field, index)}
+              >
+                <Text style={styles.columnChipText}>{header || `Column ${index + 1}`}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderPreviewRow = (row: ImportPreviewRow) => (
+    <View key={row.rowNumber} style={styles.previewRow}>
+      <Text style={styles.previewRowNumber}>Row {row.rowNumber}</Text>
+      {row.card ? (
+        <Text style={styles.previewText}>
+          {row.card.name} • {row.card.set}
+          {row.card.cardNumber ? ` #${row.card.cardNumber}` : ''} • {row.card.copies.length}{' '}
+          {row.card.copies.length === 1 ? 'copy' : 'copies'} • {row.card.condition}
+        </Text>
+      ) : (
+        row.errors.map(error => (
+          <Text key={error} style={styles.previewError}>{error}</Text>
+        ))
+      )}
+    </View>
+  );
+
+  const renderPreview = () => {
+    const preview = importViewModel.getPreview();
+    const validCount = importViewModel.getValidRows().length;
+    const invalidCount = importViewModel.getInvalidRows().length;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Preview</Text>
+        <Text style={styles.hintText}>
+          {validCount} ready to import • {invalidCount} with errors
+        </Text>
+        {preview.slice(0, PREVIEW_LIMIT).map(renderPreviewRow)}
+        {preview.length > PREVIEW_LIMIT && (
+          <Text style={styles.hintText}>…and {preview.length - PREVIEW_LIMIT} more rows</Text>
+        )}
+        <TouchableOpacity
+          style={[styles.primaryButton, validCount === 0 && styles.buttonDisabled]}
+          onPress={handleImport}
+          disabled={validCount === 0}
+        >
+          <Text style={styles.primaryButtonText}>Import {validCount} Rows</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => importViewModel.reset()}>
+          <Text style={styles.secondaryButtonText}>Choose Another File</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      {importViewModel.getError() && (
+        <Text style={styles.errorText}>{importViewModel.getError()}</Text>
+      )}
+      {importViewModel.isLoadingImport() && (
+        <ActivityIndicator style={styles.loading} size="large" color={theme.primary} />
+      )}
+      {file ? (
+        <>
+          <Text style={styles.fileHeader}>
+            {file.path.split('/').pop()} • {file.rows.length} rows
+          </Text>
+          {renderColumnMapping()}
+          {renderPreview()}
+        </>
+      ) : (
+        renderFileList()
+      )}
+    </ScrollView>
+  );
+};
+
+export default ImportScreen;
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  loading: {
+    marginTop: 20,
+  },
+  errorText: {
+    color: theme.error,
+    fontSize: 14,
+    padding: 20,
+  },
+  fileHeader: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.text,
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  section: {
+    backgroundColor: theme.surface,
+    marginTop: 20,
+    paddingVertical: 10,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.primary,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  hintText: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  fileItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.divider,
+  },
+  fileName: {
+    fontSize: 16,
+    color: theme.text,
+  },
+  fileSize: {
+    fontSize: 14,
+    color: theme.textSecondary,
+  },
+  mappingRow: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.divider,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: theme.text,
+    marginBottom: 6,
+  },
+  columnChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: theme.border,
+    marginRight: 8,
+  },
+  columnChipSelected: {
+    backgroundColor: theme.primaryLight,
+    borderColor: theme.primary,
+  },
+  columnChipText: {
+    fontSize: 13,
+    color: theme.text,
+  },
+  previewRow: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.divider,
+  },
+  previewRowNumber: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginBottom: 2,
+  },
+  previewText: {
+    fontSize: 14,
+    color: theme.text,
+  },
+  previewError: {
+    fontSize: 14,
+    color: theme.error,
+  },
+  primaryButton: {
+    backgroundColor: theme.primary,
+    marginHorizontal: 20,
+    marginTop: 15,
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    marginHorizontal: 20,
+    marginVertical: 10,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.primary,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: theme.primary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
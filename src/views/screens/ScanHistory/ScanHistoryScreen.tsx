@@ -0,0 +1,215 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useScanHistoryViewModel } from '../../../viewmodels';
+import { RootStackParamList, ScanHistoryEntry } from '../../../types';
+import { ThemeService, Theme } from '../../../services/theme/ThemeService';
+
+type NavigationProp = StackNavigationProp<RootStackParamList>;
+
+const ScanHistoryScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const historyViewModel = useScanHistoryViewModel();
+  const [theme, setTheme] = useState<Theme>(ThemeService.getCurrentTheme());
+
+  useEffect(() => {
+    const unsubscribe = ThemeService.addThemeListener(setTheme);
+    return unsubscribe;
+  }, []);
+
+  const styles = createStyles(theme);
+
+  const handleAdd = async (entry: ScanHistoryEntry) => {
+    try {
+      await historyViewModel.addToCollection(entry);
+      Alert.alert('Success', `${entry.card.name} was added to your collection.`);
+    } catch (error) {
+      console.error('Failed to add scan to collection:', error);
+      Alert.alert('Error', 'Failed to add card to collection');
+    }
+  };
+
+  const handleDelete = (entry: ScanHistoryEntry) => {
+    Alert.alert('Delete Scan', 'Remove this scan from your history?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => historyViewModel.deleteEntry(entry.id),
+      },
+    ]);
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear History', 'Delete every scan in your history? Your collection is not affected.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => historyViewModel.clearHistory(),
+      },
+    ]);
+  };
+
+  const renderEntry = ({ item }: { item: ScanHistoryEntry }) => {
+    const grade = item.gradingResult?.finalGrade ?? item.card.apiData?.grade;
+
+    return (
+      <TouchableOpacity
+        style={styles.entry}
+        onPress={() => navigation.navigate('CardDetails', { card: historyViewModel.getCard(item) })}
+      >
+        {item.imageUri ? (
+          <Image source={{ uri: item.imageUri }} style={styles.thumbnail} />
+        ) : (
+          <View style={styles.thumbnail} />
+        )}
+        <View style={styles.entryInfo}>
+          <Text style={styles.cardName}>{item.card.name}</Text>
+          <Text style={styles.cardDetails}>{item.card.set}</Text>
+          <Text style={styles.cardDetails}>
+            {new Date(item.scannedAt).toLocaleString()}
+            {grade !== undefined ? ` • Grade ${grade}` : ''}
+            {` • ${Math.round(item.confidence * 100)}%`}
+          </Text>
+          {item.card.apiData?.identified === false && (
+            <Text style={styles.warningText}>Not identified</Text>
+          )}
+          {item.addedToCollection && (
+            <Text style={styles.addedText}>
+              ✓ Added {item.addedAt ? new Date(item.addedAt).toLocaleDateString() : ''}
+            </Text>
+          )}
+          <View style={styles.actions}>
+            <TouchableOpacity onPress={() => handleAdd(item)}>
+              <Text style={styles.actionText}>
+                {item.addedToCollection ? 'Add Again' : 'Add to Collection'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleDelete(item)}>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const entries = historyViewModel.getEntries();
+
+  return (
+    <View style={styles.container}>
+      {entries.length > 0 && (
+        <TouchableOpacity style={styles.clearButton} onPress={handleClear}>
+          <Text style={styles.deleteText}>Clear History</Text>
+        </TouchableOpacity>
+      )}
+
+      <FlatList
+        data={entries}
+        renderItem={renderEntry}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyText}>No scans yet</Text>
+            <Text style={styles.emptySubtext}>Cards you scan will appear here</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  clearButton: {
+    alignSelf: 'flex-end',
+    paddingHorizontal: 20,
+    paddingTop: 15,
+  },
+  listContainer: {
+    padding: 15,
+  },
+  entry: {
+    flexDirection: 'row',
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+  thumbnail: {
+    width: 70,
+    height: 98,
+    borderRadius: 6,
+    backgroundColor: theme.border,
+    marginRight: 12,
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  cardName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.text,
+    marginBottom: 4,
+  },
+  cardDetails: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    marginBottom: 2,
+  },
+  warningText: {
+    fontSize: 13,
+    color: theme.warning,
+    marginTop: 2,
+  },
+  addedText: {
+    fontSize: 13,
+    color: theme.success,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 8,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: theme.primary,
+  },
+  deleteText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: theme.error,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme.text,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    marginTop: 5,
+  },
+});
+
+export default ScanHistoryScreen;
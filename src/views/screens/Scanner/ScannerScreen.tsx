@@ -7,13 +7,18 @@ import {
   Alert,
   ActivityIndicator,
   ScrollView,
+  Image,
 } from 'react-native';
-import { useScannerViewModel } from '../../../viewmodels';
+import { useOfflineQueueViewModel, useScannerViewModel } from '../../../viewmodels';
 import { useNavigation } from '@react-navigation/native';
 import { ThemeService, Theme } from '../../../services/theme/ThemeService';
+import { CardMappingService } from '../../../services/api/CardMappingService';
+import { BatchScanItem, QueuedScan } from '../../../types';
+import GradingReport from '../../components/GradingReport';
 
 const ScannerScreen: React.FC = () => {
   const scannerViewModel = useScannerViewModel();
+  const queueViewModel = useOfflineQueueViewModel();
   const navigation = useNavigation();
   const [theme, setTheme] = useState<Theme>(ThemeService.getCurrentTheme());
 
@@ -40,6 +45,19 @@ const ScannerScreen: React.FC = () => {
     }
   };
 
+  const handleBatchScan = async () => {
+    try {
+      await scannerViewModel.scanBatchFromLibrary();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to run batch scan');
+    }
+  };
+
+  const handleAddBatch = async () => {
+    const added = await scannerViewModel.addBatchToCollection();
+    Alert.alert('Success', `${added} cards added to collection!`);
+  };
+
   const handleAddToCollection = () => {
     const scanResult = scannerViewModel.getScanResult();
     if (scanResult.card) {
@@ -64,6 +82,48 @@ const ScannerScreen: React.FC = () => {
     }
   };
 
+  const renderCandidatePicker = () => {
+    const candidates = scannerViewModel.getCandidates();
+    const selectedIndex = scannerViewModel.getScanResult().selectedCandidateIndex ?? 0;
+
+    // Only worth showing when the identification is ambiguous
+    if (candidates.length < 2) {
+      return null;
+    }
+
+    return (
+      <View style={styles.candidateContainer}>
+        <Text style={styles.candidateTitle}>Not the right card? Choose a printing:</Text>
+        {candidates.map((candidate, index) => {
+          const isSelected = index === selectedIndex;
+          const { match } = candidate;
+
+          return (
+            <TouchableOpacity
+              key={`${match.set_code || match.set}-${match.card_number}-${index}`}
+              style={[styles.candidateItem, isSelected && styles.candidateItemSelected]}
+              onPress={() => scannerViewModel.selectCandidate(index)}
+            >
+              <Text style={styles.candidateName}>
+                {isSelected ? '✓ ' : ''}{match.name || match.full_name || 'Unknown Card'}
+              </Text>
+              <Text style={styles.candidateDetails}>
+                {match.set || 'Unknown Set'}
+                {match.card_number ? ` • #${match.card_number}${match.out_of ? `/${match.out_of}` : ''}` : ''}
+                {match.year ? ` • ${match.year}` : ''}
+              </Text>
+              {candidate.distance !== undefined && (
+                <Text style={styles.candidateDetails}>
+                  Match distance: {candidate.distance.toFixed(3)}
+                </Text>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
   const renderScanResult = () => {
     const scanResult = scannerViewModel.getScanResult();
 
@@ -87,12 +147,20 @@ const ScannerScreen: React.FC = () => {
               <Text style={styles.cardDetails}>
                 Damaged: {scanResult.gradingResult.isDamaged ? 'Yes' : 'No'}
               </Text>
-              <Text style={styles.cardDetails}>
-                Surface Grade: {scanResult.gradingResult.surfaceGrade.toFixed(1)}/10
-              </Text>
+              <View style={styles.gradingReport}>
+                <GradingReport
+                  subgrades={CardMappingService.mapSubgrades(scanResult.gradingResult)}
+                  corners={scanResult.gradingResult.cornerGrades}
+                  edges={scanResult.gradingResult.edgeGrades}
+                  centering={scanResult.gradingResult.conditionAnalysis?.centering}
+                  theme={theme}
+                />
+              </View>
             </>
           )}
         </View>
+
+        {renderCandidatePicker()}
         
         <TouchableOpacity
           style={styles.addButton}
@@ -104,6 +172,148 @@ const ScannerScreen: React.FC = () => {
     );
   };
 
+  const renderBatchItem = (item: BatchScanItem) => {
+    const statusText = {
+      pending: 'Waiting...',
+      processing: 'Processing...',
+      done: item.added ? 'Added' : `Grade ${item.gradingResult?.finalGrade ?? '?'} • ${scannerViewModel.getConfidenceDescription(item.confidence ?? 0)} confidence`,
+      error: item.error || 'Failed',
+    }[item.status];
+
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={[styles.batchItem, item.selected && styles.candidateItemSelected]}
+        onPress={() => scannerViewModel.toggleBatchItem(item.id)}
+        disabled={item.status !== 'done' || item.added}
+      >
+        <Image source={{ uri: item.imageUri }} style={styles.batchThumbnail} />
+        <View style={styles.batchInfo}>
+          <Text style={styles.candidateName}>{item.card?.name ?? 'Card'}</Text>
+          <Text style={item.status === 'error' ? styles.errorText : styles.candidateDetails}>
+            {statusText}
+          </Text>
+        </View>
+        {item.status === 'processing' && <ActivityIndicator color={theme.primary} />}
+        {item.status === 'done' && !item.added && (
+          <Text style={styles.batchCheck}>{item.selected ? '☑' : '☐'}</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const handleDiscardQueued = (scan: QueuedScan) => {
+    Alert.alert('Discard Scan', 'Remove this scan from the queue without grading it?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: () => queueViewModel.discard(scan.id),
+      },
+    ]);
+  };
+
+  const renderQueuedScan = (scan: QueuedScan) => {
+    const statusText = {
+      queued: `Queued ${new Date(scan.queuedAt).toLocaleString()}`,
+      processing: 'Grading...',
+      failed: scan.lastError || 'Grading failed',
+    }[scan.status];
+
+    return (
+      <View key={scan.id} style={styles.batchItem}>
+        <Image source={{ uri: scan.imageUri }} style={styles.batchThumbnail} />
+        <View style={styles.batchInfo}>
+          <Text style={scan.status === 'failed' ? styles.errorText : styles.candidateDetails}>
+            {statusText}
+          </Text>
+          {scan.attempts > 0 && (
+            <Text style={styles.candidateDetails}>
+              {scan.attempts} {scan.attempts === 1 ? 'attempt' : 'attempts'}
+            </Text>
+          )}
+          {scan.status !== 'processing' && (
+            <View style={styles.queueActions}>
+              {scan.status === 'failed' && (
+                <TouchableOpacity onPress={() => queueViewModel.retry(scan.id)}>
+                  <Text style={styles.queueActionText}>Retry</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => handleDiscardQueued(scan)}>
+                <Text style={styles.queueDiscardText}>Discard</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+        {scan.status === 'processing' && <ActivityIndicator color={theme.primary} />}
+      </View>
+    );
+  };
+
+  const renderOfflineQueue = () => {
+    const queue = queueViewModel.getQueue();
+    if (queue.length === 0) {
+      return null;
+    }
+
+    let connectionText = 'Online • queued scans are graded automatically';
+    if (queueViewModel.getOfflineMode()) {
+      connectionText = 'Offline mode is on • turn it off in Settings to grade';
+    } else if (!queueViewModel.getIsOnline()) {
+      connectionText = 'Offline • scans will be graded when you reconnect';
+    }
+
+    return (
+      <View style={styles.resultContainer}>
+        <Text style={styles.resultTitle}>
+          Offline Queue ({queueViewModel.getPendingCount()} pending
+          {queueViewModel.getFailedCount() > 0 ? `, ${queueViewModel.getFailedCount()} failed` : ''})
+        </Text>
+        <Text style={[styles.candidateDetails, styles.queueStatus]}>{connectionText}</Text>
+
+        {queue.map(renderQueuedScan)}
+      </View>
+    );
+  };
+
+  const renderBatch = () => {
+    const items = scannerViewModel.getBatchItems();
+    if (items.length === 0) {
+      return null;
+    }
+
+    const { processed, total } = scannerViewModel.getBatchProgress();
+    const selectedCount = scannerViewModel.getSelectedBatchCount();
+    const isRunning = scannerViewModel.getIsBatchRunning();
+
+    return (
+      <View style={styles.resultContainer}>
+        <Text style={styles.resultTitle}>
+          Batch Scan ({processed}/{total})
+        </Text>
+
+        {items.map(renderBatchItem)}
+
+        {!isRunning && (
+          <>
+            <TouchableOpacity
+              style={[styles.addButton, selectedCount === 0 && styles.disabledButton]}
+              onPress={handleAddBatch}
+              disabled={selectedCount === 0}
+            >
+              <Text style={styles.addButtonText}>
+                Add {selectedCount} {selectedCount === 1 ? 'Card' : 'Cards'} to Collection
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.batchClearButton} onPress={() => scannerViewModel.clearBatch()}>
+              <Text style={styles.candidateDetails}>Done</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    );
+  };
+
   return (
     <ScrollView style={styles.container}>
       <View style={styles.header}>
@@ -131,6 +341,25 @@ const ScannerScreen: React.FC = () => {
             📁 Choose from Library
           </Text>
         </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.scanButton}
+          onPress={handleBatchScan}
+          disabled={scannerViewModel.getIsScanning() || scannerViewModel.getIsBatchRunning()}
+        >
+          <Text style={styles.scanButtonText}>
+            🗂️ Batch Scan
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.scanButton}
+          onPress={() => (navigation as any).navigate('ScanHistory')}
+        >
+          <Text style={styles.scanButtonText}>
+            🕘 Scan History
+          </Text>
+        </TouchableOpacity>
       </View>
 
       {scannerViewModel.getIsScanning() && (
@@ -140,8 +369,20 @@ const ScannerScreen: React.FC = () => {
         </View>
       )}
 
+      {scannerViewModel.getScanResult().queuedOffline && (
+        <View style={styles.queuedContainer}>
+          <Text style={styles.queuedText}>
+            Saved to the offline queue. The card will be graded and added to your scan history once you are back online.
+          </Text>
+        </View>
+      )}
+
       {renderScanResult()}
 
+      {renderOfflineQueue()}
+
+      {renderBatch()}
+
       {scannerViewModel.getScanResult().error && (
         <View style={styles.errorContainer}>
           <Text style={styles.errorText}>
@@ -295,6 +536,7 @@ const createStyles = (theme: Theme) => StyleSheet.create({
   },
   buttonContainer: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'space-around',
     paddingVertical: 30,
     paddingHorizontal: 20,
@@ -311,7 +553,9 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     paddingHorizontal: 25,
     borderRadius: 10,
     flex: 1,
+    minWidth: '40%',
     marginHorizontal: 10,
+    marginVertical: 5,
     alignItems: 'center',
   },
   scanButtonText: {
@@ -367,6 +611,66 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold',
   },
+  disabledButton: {
+    opacity: 0.5,
+  },
+  batchItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.border,
+    marginBottom: 8,
+  },
+  batchThumbnail: {
+    width: 40,
+    height: 56,
+    borderRadius: 4,
+    backgroundColor: theme.border,
+    marginRight: 10,
+  },
+  batchInfo: {
+    flex: 1,
+  },
+  batchCheck: {
+    fontSize: 22,
+    color: theme.primary,
+  },
+  batchClearButton: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  queueStatus: {
+    marginBottom: 10,
+  },
+  queueActions: {
+    flexDirection: 'row',
+    gap: 20,
+    marginTop: 6,
+  },
+  queueActionText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: theme.primary,
+  },
+  queueDiscardText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: theme.error,
+  },
+  queuedContainer: {
+    margin: 20,
+    padding: 15,
+    backgroundColor: theme.warning + '20', // Add transparency
+    borderRadius: 8,
+    borderLeftWidth: 4,
+    borderLeftColor: theme.warning,
+  },
+  queuedText: {
+    color: theme.text,
+    fontSize: 14,
+  },
   errorContainer: {
     margin: 20,
     padding: 15,
@@ -382,4 +686,37 @@ const createStyles = (theme: Theme) => StyleSheet.create({
   cardBasicInfo: {
     marginBottom: 15,
   },
+  gradingReport: {
+    marginTop: 10,
+  },
+  candidateContainer: {
+    marginBottom: 15,
+  },
+  candidateTitle: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: theme.text,
+    marginBottom: 8,
+  },
+  candidateItem: {
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.border,
+    marginBottom: 8,
+  },
+  candidateItemSelected: {
+    borderColor: theme.primary,
+    backgroundColor: theme.primary + '20', // Add transparency
+  },
+  candidateName: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: theme.text,
+  },
+  candidateDetails: {
+    fontSize: 13,
+    color: theme.textSecondary,
+    marginTop: 2,
+  },
 });
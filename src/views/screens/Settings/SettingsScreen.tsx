@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   View,
   Text,
@@ -7,9 +7,12 @@ import {
   Switch,
   ScrollView,
   Alert,
+  TextInput,
 } from 'react-native';
 import { useSettingsViewModel } from '../../../viewmodels';
 import { ThemeService, Theme } from '../../../services/theme/ThemeService';
+import { CurrencyService } from '../../../services/currency/CurrencyService';
+import { ExchangeRateTable, GradingCompany } from '../../../types';
 
 const SettingsScreen: React.FC = () => {
   const settingsViewModel = useSettingsViewModel();
@@ -20,28 +23,161 @@ const SettingsScreen: React.FC = () => {
     return unsubscribe;
   }, []);
 
+  const [rates, setRates] = useState<ExchangeRateTable>(CurrencyService.getRates());
+  const [rateDraft, setRateDraft] = useState('');
+
+  useEffect(() => {
+    const unsubscribe = CurrencyService.addRatesListener(setRates);
+    return unsubscribe;
+  }, []);
+
+  const [backups, setBackups] = useState<{ name: string; path: string; size: number }[]>([]);
+
+  const hasLoadedRef = useRef(false);
+
+  const refreshBackups = useCallback(() => {
+    settingsViewModel.listBackups()
+      .then(setBackups)
+      .catch((error) => console.error('Failed to list backups:', error));
+  }, [settingsViewModel]);
+
+  // List backups once on mount
+  useEffect(() => {
+    if (!hasLoadedRef.current) {
+      hasLoadedRef.current = true;
+      refreshBackups();
+    }
+  }, [refreshBackups]);
+
   const styles = createStyles(theme);
 
+  const handleBackup = async () => {
+    try {
+      const path = await settingsViewModel.createBackup();
+      refreshBackups();
+      Alert.alert('Backup Created', `Your data was saved to:\n${path}`);
+    } catch (error) {
+      console.error('Failed to create backup:', error);
+      Alert.alert('Error', 'Failed to create backup');
+    }
+  };
+
+  const restoreBackup = async (path: string, mode: 'merge' | 'replace') => {
+    try {
+      const summary = await settingsViewModel.restoreBackup(path, mode);
+      Alert.alert(
+        'Restore Complete',
+        `Your collection now has ${summary.cards} cards (${summary.copies} copies) and ${summary.scanHistory} scans in history.`
+      );
+    } catch (error) {
+      Alert.alert('Restore Failed', error instanceof Error ? error.message : 'Failed to restore backup');
+    }
+  };
+
+  const handleRestore = (path: string) => {
+    Alert.alert(
+      'Restore Backup',
+      'Merge adds missing cards and copies to your current data. Replace overwrites your collection, settings and history with the backup.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Merge', onPress: () => restoreBackup(path, 'merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => restoreBackup(path, 'replace') },
+      ]
+    );
+  };
+
+  const displayCurrency = settingsViewModel.getDisplayCurrency();
+  const displayRate = CurrencyService.getRate(displayCurrency);
+  const hasOverride = rates.overrides[displayCurrency] !== undefined;
+
+  const handleRefreshRates = async () => {
+    const refreshed = await settingsViewModel.refreshExchangeRates();
+    if (!refreshed) {
+      Alert.alert('Error', 'Could not refresh exchange rates. Cached rates are still in use.');
+    }
+  };
+
+  const handleSaveRate = async () => {
+    const rate = parseFloat(rateDraft.replace(',', '.'));
+    try {
+      await settingsViewModel.setExchangeRateOverride(displayCurrency, rate);
+      setRateDraft('');
+    } catch (error) {
+      Alert.alert('Invalid Rate', error instanceof Error ? error.message : 'Failed to save rate');
+    }
+  };
+
+  const handleClearRate = async () => {
+    await settingsViewModel.setExchangeRateOverride(displayCurrency, undefined);
+    setRateDraft('');
+  };
+
+  const gradingCosts = settingsViewModel.getGradingCosts();
+  const [feeDraft, setFeeDraft] = useState('');
+  const [shippingDraft, setShippingDraft] = useState('');
+
+  const saveGradingCosts = async (company: GradingCompany, fee: number, shipping: number, currency: string) => {
+    try {
+      await settingsViewModel.setGradingCostsAction({ company, fee, shipping, currency });
+      setFeeDraft('');
+      setShippingDraft('');
+    } catch (error) {
+      Alert.alert('Invalid Costs', error instanceof Error ? error.message : 'Failed to save grading costs');
+    }
+  };
+
+  const handleSaveGradingCosts = async () => {
+    const parse = (draft: string) => (draft.trim() === '' ? undefined : parseFloat(draft.replace(',', '.')));
+    try {
+      await settingsViewModel.updateGradingCostAmounts(parse(feeDraft), parse(shippingDraft), displayCurrency);
+      setFeeDraft('');
+      setShippingDraft('');
+    } catch (error) {
+      Alert.alert('Invalid Costs', error instanceof Error ? error.message : 'Failed to save grading costs');
+    }
+  };
+
+  const clearData = async (backupFirst: boolean) => {
+    let backupPath: string | undefined;
+    if (backupFirst) {
+      try {
+        backupPath = await settingsViewModel.createBackup();
+        refreshBackups();
+      } catch (error) {
+        console.error('Failed to create backup:', error);
+        Alert.alert('Error', 'Backup failed, so no data was cleared');
+        return;
+      }
+    }
+
+    const backupNote = backupPath ? ` A backup was saved to:\n${backupPath}` : '';
+    try {
+      await settingsViewModel.clearAllData(false);
+      Alert.alert('Success', `All data has been cleared.${backupNote}`);
+    } catch (error) {
+      // Storage is wiped step by step, so some data may already be gone
+      console.error('Failed to clear data:', error);
+      Alert.alert('Error', `Clearing stopped partway, so some data may already be deleted.${backupNote}`);
+    }
+  };
+
   const handleClearData = () => {
     Alert.alert(
       'Clear All Data',
-      'This will delete your entire collection and reset all settings. This action cannot be undone.',
+      'This will delete your entire collection, scan history and reset all settings. Back up first to be able to restore it later.',
       [
         {
           text: 'Cancel',
           style: 'cancel',
         },
         {
-          text: 'Clear Data',
+          text: 'Back Up & Clear',
+          onPress: () => clearData(true),
+        },
+        {
+          text: 'Clear Without Backup',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              // This would call a clear data method
-              Alert.alert('Success', 'All data has been cleared');
-            } catch (error) {
-              Alert.alert('Error', 'Failed to clear data');
-            }
-          },
+          onPress: () => clearData(false),
         },
       ]
     );
@@ -83,6 +219,144 @@ const SettingsScreen: React.FC = () => {
         )}
       </View>
 
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Currency</Text>
+        <View style={styles.currencyList}>
+          {CurrencyService.CURRENCIES.map(currency => (
+            <TouchableOpacity
+              key={currency.code}
+              style={[
+                styles.currencyChip,
+                currency.code === displayCurrency && styles.currencyChipSelected,
+              ]}
+              onPress={() => settingsViewModel.setDisplayCurrencyAction(currency.code)}
+            >
+              <Text
+                style={[
+                  styles.currencyChipText,
+                  currency.code === displayCurrency && styles.currencyChipTextSelected,
+                ]}
+              >
+                {currency.code}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {displayCurrency !== CurrencyService.BASE_CURRENCY && (
+          <View style={styles.settingItem}>
+            <View style={styles.settingText}>
+              <Text style={styles.settingTitle}>
+                1 {CurrencyService.BASE_CURRENCY} = {displayRate ?? '?'} {displayCurrency}
+              </Text>
+              <Text style={styles.settingDescription}>
+                {hasOverride ? 'Manual rate' : 'Enter a rate to override'}
+              </Text>
+            </View>
+            <TextInput
+              style={styles.rateInput}
+              value={rateDraft}
+              onChangeText={setRateDraft}
+              onSubmitEditing={handleSaveRate}
+              placeholder={displayRate !== undefined ? String(displayRate) : 'Rate'}
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="decimal-pad"
+              returnKeyType="done"
+            />
+            {hasOverride && (
+              <TouchableOpacity onPress={handleClearRate}>
+                <Text style={styles.infoValue}>Reset</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        <View style={styles.infoItem}>
+          <Text style={styles.infoLabel}>Exchange Rates</Text>
+          <Text style={styles.infoValue}>
+            {rates.source === 'remote' && rates.updatedAt
+              ? `Updated ${new Date(rates.updatedAt).toLocaleDateString()}`
+              : 'Built-in'}
+          </Text>
+        </View>
+
+        <TouchableOpacity
+          style={styles.backupButton}
+          onPress={handleRefreshRates}
+        >
+          <Text style={styles.backupButtonText}>Refresh Rates</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Grading Submissions</Text>
+        <View style={styles.currencyList}>
+          {(['PSA', 'BGS', 'CGC'] as GradingCompany[]).map(company => (
+            <TouchableOpacity
+              key={company}
+              style={[
+                styles.currencyChip,
+                company === gradingCosts.company && styles.currencyChipSelected,
+              ]}
+              onPress={() => saveGradingCosts(company, gradingCosts.fee, gradingCosts.shipping, gradingCosts.currency)}
+            >
+              <Text
+                style={[
+                  styles.currencyChipText,
+                  company === gradingCosts.company && styles.currencyChipTextSelected,
+                ]}
+              >
+                {company}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.settingItem}>
+          <View style={styles.settingText}>
+            <Text style={styles.settingTitle}>Grading Fee</Text>
+            <Text style={styles.settingDescription}>
+              {CurrencyService.format(gradingCosts.fee, gradingCosts.currency)} per card
+            </Text>
+          </View>
+          <TextInput
+            style={styles.rateInput}
+            value={feeDraft}
+            onChangeText={setFeeDraft}
+            onSubmitEditing={handleSaveGradingCosts}
+            placeholder={String(gradingCosts.fee)}
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="decimal-pad"
+            returnKeyType="done"
+          />
+        </View>
+
+        <View style={styles.settingItem}>
+          <View style={styles.settingText}>
+            <Text style={styles.settingTitle}>Shipping</Text>
+            <Text style={styles.settingDescription}>
+              {CurrencyService.format(gradingCosts.shipping, gradingCosts.currency)} per card, insurance included
+            </Text>
+          </View>
+          <TextInput
+            style={styles.rateInput}
+            value={shippingDraft}
+            onChangeText={setShippingDraft}
+            onSubmitEditing={handleSaveGradingCosts}
+            placeholder={String(gradingCosts.shipping)}
+            placeholderTextColor={theme.textSecondary}
+            keyboardType="decimal-pad"
+            returnKeyType="done"
+          />
+        </View>
+
+        {(feeDraft !== '' || shippingDraft !== '') && (
+          <TouchableOpacity style={styles.backupButton} onPress={handleSaveGradingCosts}>
+            <Text style={styles.backupButtonText}>Save Costs in {displayCurrency}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Notifications</Text>
         {renderSettingItem(
@@ -97,11 +371,29 @@ const SettingsScreen: React.FC = () => {
         <Text style={styles.sectionTitle}>Data & Storage</Text>
         {renderSettingItem(
           'Offline Mode',
-          'Save data locally when offline',
+          'Queue scans and grade them when back online',
           settingsViewModel.isOfflineModeEnabled(),
           () => settingsViewModel.toggleOfflineModeAction()
         )}
         
+        <TouchableOpacity
+          style={styles.backupButton}
+          onPress={handleBackup}
+        >
+          <Text style={styles.backupButtonText}>Back Up Now</Text>
+        </TouchableOpacity>
+
+        {backups.map(backup => (
+          <TouchableOpacity
+            key={backup.path}
+            style={styles.infoItem}
+            onPress={() => handleRestore(backup.path)}
+          >
+            <Text style={styles.infoLabel}>{backup.name}</Text>
+            <Text style={styles.infoValue}>Restore</Text>
+          </TouchableOpacity>
+        ))}
+
         <TouchableOpacity
           style={styles.dangerButton}
           onPress={handleClearData}
@@ -174,6 +466,56 @@ const createStyles = (theme: Theme) => StyleSheet.create({
     color: theme.textSecondary,
     marginTop: 2,
   },
+  currencyList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 15,
+    paddingBottom: 10,
+  },
+  currencyChip: {
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 5,
+  },
+  currencyChipSelected: {
+    backgroundColor: theme.primary,
+    borderColor: theme.primary,
+  },
+  currencyChipText: {
+    fontSize: 14,
+    color: theme.text,
+  },
+  currencyChipTextSelected: {
+    color: 'white',
+    fontWeight: 'bold',
+  },
+  rateInput: {
+    width: 90,
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    marginRight: 10,
+    color: theme.text,
+    textAlign: 'right',
+  },
+  backupButton: {
+    backgroundColor: theme.primary,
+    marginHorizontal: 20,
+    marginVertical: 10,
+    padding: 15,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  backupButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   dangerButton: {
     backgroundColor: theme.error,
     marginHorizontal: 20,
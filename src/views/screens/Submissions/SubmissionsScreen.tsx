@@ -0,0 +1,577 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { useSubmissionsViewModel } from '../../../viewmodels';
+import {
+  GradingCompany,
+  GradingSubmission,
+  GradingSubmissionItem,
+  GradingSubmissionStatus,
+  SubmissionCopySelection,
+  SubmissionGradeComparison,
+} from '../../../types';
+import { ThemeService, Theme } from '../../../services/theme/ThemeService';
+
+const COMPANIES: GradingCompany[] = ['PSA', 'BGS', 'CGC'];
+
+const STATUS_LABELS: Record<GradingSubmissionStatus, string> = {
+  preparing: 'Preparing',
+  sent: 'At grader',
+  received: 'Returned',
+};
+
+const SubmissionsScreen: React.FC = () => {
+  const submissionsViewModel = useSubmissionsViewModel();
+  const [theme, setTheme] = useState<Theme>(ThemeService.getCurrentTheme());
+
+  // New submission form
+  const [isCreating, setIsCreating] = useState(false);
+  const [selectedCopies, setSelectedCopies] = useState<SubmissionCopySelection[]>([]);
+  const [company, setCompany] = useState<GradingCompany>(submissionsViewModel.getDefaultDetails(0).company);
+  const [serviceLevel, setServiceLevel] = useState('');
+  const [feeDraft, setFeeDraft] = useState('');
+  const [shippingDraft, setShippingDraft] = useState('');
+  const [notes, setNotes] = useState('');
+
+  // Returned grades being entered, keyed by submission, card and copy
+  const [gradeDrafts, setGradeDrafts] = useState<Record<string, string>>({});
+  const [certDrafts, setCertDrafts] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const unsubscribe = ThemeService.addThemeListener(setTheme);
+    return unsubscribe;
+  }, []);
+
+  const styles = createStyles(theme);
+  const defaults = submissionsViewModel.getDefaultDetails(selectedCopies.length);
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setSelectedCopies([]);
+    setServiceLevel('');
+    setFeeDraft('');
+    setShippingDraft('');
+    setNotes('');
+  };
+
+  const isSelected = (cardId: string, copyId: string) =>
+    selectedCopies.some(selection => selection.cardId === cardId && selection.copyId === copyId);
+
+  const toggleCopy = (cardId: string, copyId: string) => {
+    setSelectedCopies(current =>
+      isSelected(cardId, copyId)
+        ? current.filter(selection => selection.cardId !== cardId || selection.copyId !== copyId)
+        : [...current, { cardId, copyId }],
+    );
+  };
+
+  const handleCreate = async () => {
+    try {
+      await submissionsViewModel.createSubmission(selectedCopies, {
+        ...defaults,
+        company,
+        serviceLevel,
+        feePerCard: feeDraft === '' ? defaults.feePerCard : parseFloat(feeDraft),
+        shippingCost: shippingDraft === '' ? defaults.shippingCost : parseFloat(shippingDraft),
+        notes,
+      });
+      resetForm();
+    } catch (error) {
+      Alert.alert('Invalid Submission', error instanceof Error ? error.message : 'Failed to create submission');
+    }
+  };
+
+  const handleMarkSent = async (submission: GradingSubmission) => {
+    try {
+      await submissionsViewModel.markSent(submission.id);
+    } catch (error) {
+      console.error('Failed to update submission:', error);
+      Alert.alert('Error', 'Failed to update submission');
+    }
+  };
+
+  const handleMarkReceived = async (submission: GradingSubmission) => {
+    try {
+      await submissionsViewModel.markReceived(submission.id);
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update submission');
+    }
+  };
+
+  const handleDelete = (submission: GradingSubmission) => {
+    Alert.alert('Delete Submission', 'Remove this submission and its recorded grades?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await submissionsViewModel.deleteSubmission(submission.id);
+          } catch (error) {
+            console.error('Failed to delete submission:', error);
+            Alert.alert('Error', 'Failed to delete submission');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSaveGrade = async (submission: GradingSubmission, item: GradingSubmissionItem) => {
+    const key = `${submission.id}:${item.cardId}:${item.copyId}`;
+    try {
+      await submissionsViewModel.recordGrade(submission.id, item, parseFloat(gradeDrafts[key]), certDrafts[key]);
+      setGradeDrafts(current => ({ ...current, [key]: '' }));
+      setCertDrafts(current => ({ ...current, [key]: '' }));
+    } catch (error) {
+      Alert.alert('Invalid Grade', error instanceof Error ? error.message : 'Failed to record grade');
+    }
+  };
+
+  const renderAccuracy = () => {
+    const accuracy = submissionsViewModel.getAccuracy();
+    if (accuracy.compared === 0) { return null; }
+
+    const average = accuracy.averageDifference ?? 0;
+    return (
+      <View style={styles.statsContainer}>
+        <View style={styles.statItem}>
+          <Text style={styles.statNumber}>{accuracy.compared}</Text>
+          <Text style={styles.statLabel}>Graded</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statNumber}>{accuracy.exact}</Text>
+          <Text style={styles.statLabel}>Exact</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statNumber}>{Math.round((accuracy.withinRange / accuracy.compared) * 100)}%</Text>
+          <Text style={styles.statLabel}>In Range</Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={styles.statNumber}>{average > 0 ? '+' : ''}{average}</Text>
+          <Text style={styles.statLabel}>Avg. vs Predicted</Text>
+        </View>
+      </View>
+    );
+  };
+
+  const renderForm = () => (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>New Submission</Text>
+
+      <Text style={styles.label}>Cards ({selectedCopies.length} selected)</Text>
+      {submissionsViewModel.getCards().length === 0 && (
+        <Text style={styles.emptySubtext}>Add cards to your collection first</Text>
+      )}
+      {submissionsViewModel.getCards().flatMap(card => card.copies.map((copy, index) => {
+        const selected = isSelected(card.id, copy.id);
+        return (
+          <TouchableOpacity
+            key={`${card.id}:${copy.id}`}
+            style={[styles.cardOption, selected && styles.cardOptionSelected]}
+            onPress={() => toggleCopy(card.id, copy.id)}
+          >
+            <Text style={styles.cardName}>{selected ? '☑' : '☐'} {card.name}</Text>
+            <Text style={styles.cardDetails}>
+              {card.set}
+              {card.copies.length > 1 ? ` • Copy ${index + 1}` : ''}
+              {` • ${copy.condition}`}
+            </Text>
+          </TouchableOpacity>
+        );
+      }))}
+
+      <Text style={styles.label}>Company</Text>
+      <View style={styles.chipRow}>
+        {COMPANIES.map(option => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.chip, option === company && styles.chipSelected]}
+            onPress={() => setCompany(option)}
+          >
+            <Text style={[styles.chipText, option === company && styles.chipTextSelected]}>{option}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.label}>Service Level</Text>
+      <TextInput
+        style={styles.input}
+        value={serviceLevel}
+        onChangeText={setServiceLevel}
+        placeholder="e.g. Value, Regular, Express"
+        placeholderTextColor={theme.textSecondary}
+      />
+
+      <Text style={styles.label}>Fee per Card ({defaults.currency})</Text>
+      <TextInput
+        style={styles.input}
+        value={feeDraft}
+        onChangeText={setFeeDraft}
+        placeholder={String(defaults.feePerCard)}
+        placeholderTextColor={theme.textSecondary}
+        keyboardType="decimal-pad"
+      />
+
+      <Text style={styles.label}>Shipping for the Batch ({defaults.currency})</Text>
+      <TextInput
+        style={styles.input}
+        value={shippingDraft}
+        onChangeText={setShippingDraft}
+        placeholder={String(defaults.shippingCost)}
+        placeholderTextColor={theme.textSecondary}
+        keyboardType="decimal-pad"
+      />
+
+      <Text style={styles.label}>Notes</Text>
+      <TextInput
+        style={styles.input}
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="Order number, tracking, etc."
+        placeholderTextColor={theme.textSecondary}
+      />
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.primaryButton} onPress={handleCreate}>
+          <Text style={styles.primaryButtonText}>Create Submission</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={resetForm}>
+          <Text style={styles.deleteText}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderItem = (submission: GradingSubmission, comparison: SubmissionGradeComparison) => {
+    const { item, difference, withinRange } = comparison;
+    const key = `${submission.id}:${item.cardId}:${item.copyId}`;
+    const copyLabel = submissionsViewModel.getCopyLabel(item);
+
+    return (
+      <View key={key} style={styles.item}>
+        <Text style={styles.cardName}>{item.cardName}</Text>
+        <Text style={styles.cardDetails}>
+          {item.set}
+          {copyLabel ? ` • ${copyLabel}` : ''}
+          {item.prediction
+            ? ` • Predicted ${item.prediction.grade} (${item.prediction.low}-${item.prediction.high})`
+            : ' • No prediction'}
+        </Text>
+
+        {item.returnedGrade !== undefined && (
+          <Text style={[styles.returnedGrade, { color: ThemeService.getGradeColor(item.returnedGrade) }]}>
+            {submission.company} {item.returnedGrade}
+            {difference !== undefined && ` • ${difference > 0 ? '+' : ''}${difference} vs predicted`}
+            {withinRange !== undefined && (withinRange ? ' ✓' : ' ✕')}
+            {item.certNumber ? ` • Cert #${item.certNumber}` : ''}
+          </Text>
+        )}
+
+        {submission.sentAt && (
+          <View style={styles.gradeRow}>
+            <TextInput
+              style={styles.gradeInput}
+              value={gradeDrafts[key] ?? ''}
+              onChangeText={text => setGradeDrafts(current => ({ ...current, [key]: text }))}
+              placeholder={item.returnedGrade !== undefined ? String(item.returnedGrade) : 'Grade'}
+              placeholderTextColor={theme.textSecondary}
+              keyboardType="decimal-pad"
+            />
+            <TextInput
+              style={styles.certInput}
+              value={certDrafts[key] ?? ''}
+              onChangeText={text => setCertDrafts(current => ({ ...current, [key]: text }))}
+              placeholder={item.certNumber || 'Cert #'}
+              placeholderTextColor={theme.textSecondary}
+            />
+            {Boolean(gradeDrafts[key]) && (
+              <TouchableOpacity onPress={() => handleSaveGrade(submission, item)}>
+                <Text style={styles.actionText}>Save</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderSubmission = (submission: GradingSubmission) => {
+    const status = submissionsViewModel.getStatus(submission);
+
+    return (
+      <View key={submission.id} style={styles.submission}>
+        <View style={styles.submissionHeader}>
+          <Text style={styles.submissionTitle}>{submission.company} • {submission.serviceLevel}</Text>
+          <Text style={[styles.status, status === 'received' && styles.statusReceived]}>{STATUS_LABELS[status]}</Text>
+        </View>
+        <Text style={styles.cardDetails}>
+          {submission.items.length} cards • {submissionsViewModel.formatTotalCost(submission)} total
+        </Text>
+        <Text style={styles.cardDetails}>
+          Created {new Date(submission.createdAt).toLocaleDateString()}
+          {submission.sentAt ? ` • Sent ${new Date(submission.sentAt).toLocaleDateString()}` : ''}
+          {submission.receivedAt ? ` • Received ${new Date(submission.receivedAt).toLocaleDateString()}` : ''}
+        </Text>
+        {submission.notes && <Text style={styles.cardDetails}>{submission.notes}</Text>}
+
+        {submissionsViewModel.getComparisons(submission).map(comparison => renderItem(submission, comparison))}
+
+        <View style={styles.actions}>
+          {status === 'preparing' && (
+            <TouchableOpacity onPress={() => handleMarkSent(submission)}>
+              <Text style={styles.actionText}>Mark Sent</Text>
+            </TouchableOpacity>
+          )}
+          {status === 'sent' && (
+            <TouchableOpacity onPress={() => handleMarkReceived(submission)}>
+              <Text style={styles.actionText}>Mark Received</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => handleDelete(submission)}>
+            <Text style={styles.deleteText}>Delete</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const submissions = submissionsViewModel.getSubmissions();
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.listContainer}>
+      {renderAccuracy()}
+
+      {isCreating ? renderForm() : (
+        <TouchableOpacity style={styles.primaryButton} onPress={() => setIsCreating(true)}>
+          <Text style={styles.primaryButtonText}>New Submission</Text>
+        </TouchableOpacity>
+      )}
+
+      {submissions.map(renderSubmission)}
+
+      {submissions.length === 0 && !isCreating && (
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyText}>No submissions yet</Text>
+          <Text style={styles.emptySubtext}>Track cards you send for grading and compare the results</Text>
+        </View>
+      )}
+    </ScrollView>
+  );
+};
+
+const createStyles = (theme: Theme) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.background,
+  },
+  listContainer: {
+    padding: 15,
+  },
+  statsContainer: {
+    flexDirection: 'row',
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 15,
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statNumber: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme.primary,
+  },
+  statLabel: {
+    fontSize: 12,
+    color: theme.textSecondary,
+    marginTop: 2,
+    textAlign: 'center',
+  },
+  section: {
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 15,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.primary,
+    marginBottom: 6,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: theme.text,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    color: theme.text,
+  },
+  cardOption: {
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 6,
+  },
+  cardOptionSelected: {
+    borderColor: theme.primary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.border,
+  },
+  chipSelected: {
+    backgroundColor: theme.primary,
+    borderColor: theme.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    color: theme.text,
+  },
+  chipTextSelected: {
+    color: theme.surface,
+    fontWeight: 'bold',
+  },
+  primaryButton: {
+    backgroundColor: theme.primary,
+    borderRadius: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  primaryButtonText: {
+    color: theme.surface,
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  submission: {
+    backgroundColor: theme.surface,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 10,
+  },
+  submissionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  submissionTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: theme.text,
+  },
+  status: {
+    fontSize: 13,
+    fontWeight: 'bold',
+    color: theme.warning,
+  },
+  statusReceived: {
+    color: theme.success,
+  },
+  item: {
+    borderTopWidth: 1,
+    borderTopColor: theme.border,
+    paddingTop: 8,
+    marginTop: 8,
+  },
+  cardName: {
+    fontSize: 15,
+    fontWeight: 'bold',
+    color: theme.text,
+    marginBottom: 2,
+  },
+  cardDetails: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    marginBottom: 2,
+  },
+  returnedGrade: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  gradeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 6,
+  },
+  gradeInput: {
+    width: 70,
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    color: theme.text,
+    textAlign: 'right',
+  },
+  certInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: theme.border,
+    borderRadius: 6,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    color: theme.text,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 20,
+    marginTop: 10,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: theme.primary,
+  },
+  deleteText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    color: theme.error,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 40,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: theme.text,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: theme.textSecondary,
+    marginTop: 5,
+    textAlign: 'center',
+  },
+});
+
+export default SubmissionsScreen;